@@ -0,0 +1,157 @@
+/**
+ * Re-run AI analysis over historical logs, then rebuild activity trackers and weekly summaries
+ * Run with: npm run backfill -- [options]
+ *
+ * Options:
+ *   --user <id>              Only this user's logs
+ *   --from <date>            Logs on or after this date (ISO)
+ *   --to <date>              Logs before this date (ISO)
+ *   --prompt-version <n>     Only logs analysed with this version of the prompt
+ *   --prompt <name>          Prompt --prompt-version refers to: categorize (default) or analyze
+ *   --rate <n>               Logs per minute (default BACKFILL_RATE_PER_MINUTE or 20)
+ *   --dry-run                Show what would be re-analysed without changing anything
+ *   --resume <runId>         Continue a paused, failed or interrupted run
+ *   --list                   Show recent runs
+ *
+ * Ctrl+C pauses the run after the current log; continue it with --resume.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+type Args = Record<string, string | true>;
+
+const FLAGS = ['dry-run', 'list'];
+const VALUES = ['user', 'from', 'to', 'prompt', 'prompt-version', 'rate', 'resume'];
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i]!.replace(/^--/, '');
+    if (FLAGS.includes(name)) {
+      args[name] = true;
+    } else if (VALUES.includes(name) && argv[i + 1] && !argv[i + 1]!.startsWith('--')) {
+      args[name] = argv[++i]!;
+    } else {
+      throw new Error(`Unknown or incomplete option: ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+function parseDate(value: string | true | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new Error(`--${name} must be a date`);
+  return date;
+}
+
+function parsePositive(value: string | true | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new Error(`--${name} must be a positive integer`);
+  return number;
+}
+
+async function runBackfill() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const mongoUri = process.env.MONGO_URI || '';
+  if (!mongoUri) {
+    console.error('❌ MONGO_URI not set');
+    process.exit(1);
+  }
+
+  await mongoose.connect(mongoUri);
+  console.log('✅ Connected to MongoDB\n');
+
+  const { backfill } = await import('../src/services/backfill.service');
+
+  if (args['list']) {
+    for (const run of await backfill.list()) {
+      console.log(`${run._id}  ${run.status.padEnd(9)} ${run.processed + run.failed}/${run.total} logs, ${run.failed} failed  (started ${run.startedAt.toISOString()})`);
+    }
+    await mongoose.disconnect();
+    return;
+  }
+
+  if (args['user'] !== undefined && !mongoose.Types.ObjectId.isValid(String(args['user']))) {
+    throw new Error('--user must be a valid ObjectId');
+  }
+
+  if (args['prompt'] !== undefined && args['prompt'] !== 'categorize' && args['prompt'] !== 'analyze') {
+    throw new Error('--prompt must be categorize or analyze');
+  }
+
+  const options = {
+    userId: args['user'] as string | undefined,
+    from: parseDate(args['from'], 'from'),
+    to: parseDate(args['to'], 'to'),
+    prompt: args['prompt'] as 'categorize' | 'analyze' | undefined,
+    promptVersion: parsePositive(args['prompt-version'], 'prompt-version'),
+    ratePerMinute: parsePositive(args['rate'], 'rate'),
+    requestedBy: 'cli',
+  };
+
+  if (args['dry-run']) {
+    const preview = await backfill.preview(options);
+    console.log('🔍 Dry run - nothing was changed\n');
+    console.log(`Logs to re-analyse:     ${preview.total}`);
+    console.log(`Summaries to rebuild:   ${preview.summaries}`);
+    console.log(`Estimated duration:     ~${preview.estimatedMinutes} min`);
+    for (const { userId, logs } of preview.users) {
+      console.log(`  User ${userId}: ${logs} log(s)`);
+    }
+    if (preview.sampleLogIds.length) {
+      console.log(`\nFirst logs: ${preview.sampleLogIds.join(', ')}`);
+    }
+    await mongoose.disconnect();
+    return;
+  }
+
+  const run = args['resume']
+    ? await backfill.resume(String(args['resume']))
+    : await backfill.start(options);
+  if (!run) {
+    throw new Error(`Backfill run ${args['resume']} not found`);
+  }
+
+  const runId = run._id.toString();
+  console.log(`🔁 Backfill run ${runId}: ${run.total} log(s) at ${run.ratePerMinute}/min\n`);
+
+  process.once('SIGINT', () => {
+    console.log('\n⏸  Pausing after the current log...');
+    backfill.pause(runId).catch((err) => console.error('❌ Could not pause:', err));
+  });
+
+  const finished = await backfill.execute(runId, (progress) => {
+    const done = progress.processed + progress.failed;
+    const percent = progress.total ? Math.round((done / progress.total) * 100) : 100;
+    process.stdout.write(`\r  ${done}/${progress.total} (${percent}%)  ${progress.failed} failed`);
+  });
+  console.log('\n');
+
+  if (!finished) {
+    throw new Error(`Backfill run ${runId} disappeared`);
+  }
+
+  for (const failure of finished.failures) {
+    console.log(`  ⚠️  Log ${failure.logId}: ${failure.error}`);
+  }
+
+  if (finished.status === 'completed') {
+    console.log(`✅ Re-analysed ${finished.processed} log(s), rebuilt ${finished.affectedUsers.length} tracker(s) and ${finished.summariesRebuilt} summary(ies)`);
+  } else {
+    console.log(`⏸  Run is ${finished.status}${finished.lastError ? `: ${finished.lastError}` : ''}`);
+    console.log(`   Continue with: npm run backfill -- --resume ${runId}`);
+  }
+
+  await mongoose.disconnect();
+}
+
+runBackfill().catch(err => {
+  console.error('❌ Backfill failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
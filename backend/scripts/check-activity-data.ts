@@ -15,6 +15,7 @@ async function checkActivityData() {
   console.log('✅ Connected to MongoDB\n');
 
   const { ActivityTracker } = await import('../src/models/ActivityTracker');
+  const { ActivityEntry } = await import('../src/models/ActivityEntry');
 
   const trackers = await ActivityTracker.find({});
   
@@ -31,8 +32,9 @@ async function checkActivityData() {
     console.log(`  Consumption: ${tracker.counts.consumption}`);
     console.log(`  Other:       ${tracker.counts.other}`);
     
-    console.log(`\nRecent Logs (${tracker.recentLogs.length}):`);
-    for (const log of tracker.recentLogs) {
+    const entries = await ActivityEntry.find({ userId: tracker.userId }).sort({ timestamp: 1 });
+    console.log(`\nActivity Entries (${entries.length}):`);
+    for (const log of entries) {
       console.log(`\n  📝 Log: ${log.title || 'Untitled'}`);
       console.log(`     Timestamp: ${log.timestamp}`);
       console.log(`     Log ID: ${log.logId}`);
@@ -0,0 +1,92 @@
+/**
+ * Move activity tracker entries into the ActivityEntry collection
+ * Run with: npm run migrate:activity-entries -- [--dry-run]
+ *
+ * Trackers used to embed the last 20 analysed logs as `recentLogs`. Each
+ * embedded entry becomes an ActivityEntry (entries that already exist are
+ * kept), the tracker's counts are recomputed over the default window and
+ * `recentLogs` is removed from the tracker.
+ *
+ * Safe to run more than once.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+interface LegacyEntry {
+  logId: mongoose.Types.ObjectId;
+  title?: string;
+  timestamp: Date;
+  extractedActivities?: unknown[];
+  classificationDetails?: unknown[];
+  categoryPoints?: Record<string, number>;
+  correctedAt?: Date;
+  provenance?: Record<string, unknown>;
+}
+
+async function migrateActivityEntries() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  const mongoUri = process.env.MONGO_URI || '';
+  if (!mongoUri) {
+    console.error('❌ MONGO_URI not set');
+    process.exit(1);
+  }
+
+  await mongoose.connect(mongoUri);
+  console.log('✅ Connected to MongoDB\n');
+
+  const { ActivityTracker } = await import('../src/models/ActivityTracker');
+  const { ActivityEntry } = await import('../src/models/ActivityEntry');
+  const { activityService } = await import('../src/services/activity.service');
+
+  if (dryRun) {
+    console.log('🔍 Dry run - nothing will be changed\n');
+  }
+
+  await ActivityEntry.syncIndexes();
+
+  // The tracker schema no longer has recentLogs; read the raw documents
+  const trackers = ActivityTracker.collection.find<{ userId: mongoose.Types.ObjectId; recentLogs?: LegacyEntry[] }>(
+    { recentLogs: { $exists: true } },
+    { projection: { userId: 1, recentLogs: 1 } }
+  );
+
+  let trackersMigrated = 0;
+  let entriesCopied = 0;
+  for await (const tracker of trackers) {
+    const entries = tracker.recentLogs ?? [];
+
+    let copied = entries.length;
+    if (!dryRun) {
+      if (entries.length > 0) {
+        const result = await ActivityEntry.bulkWrite(entries.map(({ logId, ...entry }) => ({
+          updateOne: {
+            filter: { userId: tracker.userId, logId },
+            update: { $setOnInsert: { userId: tracker.userId, logId, ...entry } },
+            upsert: true,
+          },
+        })));
+        copied = result.upsertedCount;
+      }
+
+      await activityService.refreshCounts(tracker.userId);
+      await ActivityTracker.collection.updateOne({ userId: tracker.userId }, { $unset: { recentLogs: '' } });
+    }
+
+    trackersMigrated++;
+    entriesCopied += copied;
+    console.log(`  ${tracker.userId}  ${copied} of ${entries.length} entry(ies) ${dryRun ? 'to copy' : 'copied'}`);
+  }
+
+  console.log(`\n✅ ${dryRun ? 'Would copy' : 'Copied'} ${entriesCopied} entry(ies) from ${trackersMigrated} tracker(s)`);
+
+  await mongoose.disconnect();
+}
+
+migrateActivityEntries().catch(err => {
+  console.error('❌ Migration failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * Move logs from the retired category taxonomy onto the shared one
+ * Run with: npm run migrate:categories -- [--dry-run]
+ *
+ * Logs categorized as learning become growth; personal, family, social and
+ * finance become other (see LEGACY_CATEGORIES in src/shared/taxonomy.ts).
+ * Weekly summaries counted under the old categories are marked stale, so
+ * they are regenerated with the new ones on next read.
+ *
+ * Safe to run more than once.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function migrateCategories() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  const mongoUri = process.env.MONGO_URI || '';
+  if (!mongoUri) {
+    console.error('❌ MONGO_URI not set');
+    process.exit(1);
+  }
+
+  await mongoose.connect(mongoUri);
+  console.log('✅ Connected to MongoDB\n');
+
+  const { AudioLog } = await import('../src/models/AudioLog');
+  const { Summary } = await import('../src/models/Summary');
+  const { LEGACY_CATEGORIES } = await import('../src/shared/taxonomy');
+
+  if (dryRun) {
+    console.log('🔍 Dry run - nothing will be changed\n');
+  }
+
+  let logsMoved = 0;
+  for (const [legacy, category] of Object.entries(LEGACY_CATEGORIES)) {
+    const filter = { category: legacy };
+    const count = dryRun
+      ? await AudioLog.countDocuments(filter)
+      : (await AudioLog.updateMany(filter, { $set: { category } })).modifiedCount;
+    logsMoved += count;
+    console.log(`  ${legacy.padEnd(10)} → ${category.padEnd(12)} ${count} log(s)`);
+  }
+
+  // Summaries built before the migration count logs under retired categories
+  // (and uncategorized logs under "uncategorized")
+  const staleFilter = {
+    isStale: { $ne: true },
+    $or: [...Object.keys(LEGACY_CATEGORIES), 'uncategorized'].map((legacy) => ({
+      [`metrics.categoryCounts.${legacy}`]: { $exists: true },
+    })),
+  };
+  const summaries = dryRun
+    ? await Summary.countDocuments(staleFilter)
+    : (await Summary.updateMany(staleFilter, { $set: { isStale: true, staleSince: new Date() } })).modifiedCount;
+
+  console.log(`\n✅ ${dryRun ? 'Would move' : 'Moved'} ${logsMoved} log(s); ${dryRun ? 'would mark' : 'marked'} ${summaries} summary(ies) stale`);
+
+  await mongoose.disconnect();
+}
+
+migrateCategories().catch(err => {
+  console.error('❌ Migration failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+/**
+ * Copy the shared category taxonomy into the frontend
+ * Run with: npm run sync:taxonomy -- [--check]
+ *
+ * The frontend builds on its own (e.g. on Vercel with root directory
+ * frontend/), so it keeps a generated copy of src/shared/taxonomy.ts in
+ * frontend/src/lib/taxonomy.ts. Run this after changing the taxonomy and
+ * commit both files. With --check, nothing is written and the script fails
+ * when the copy is out of date.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const SOURCE = path.resolve(__dirname, '../src/shared/taxonomy.ts');
+const TARGET = path.resolve(__dirname, '../../frontend/src/lib/taxonomy.ts');
+
+const HEADER = `// Generated from backend/src/shared/taxonomy.ts by \`npm run sync:taxonomy\` (backend).
+// Do not edit here: change the backend file and run the script again.
+
+`;
+
+function syncTaxonomy() {
+  const check = process.argv.slice(2).includes('--check');
+  const expected = HEADER + fs.readFileSync(SOURCE, 'utf8');
+  const current = fs.existsSync(TARGET) ? fs.readFileSync(TARGET, 'utf8') : null;
+
+  if (current === expected) {
+    console.log('✅ Frontend taxonomy is up to date');
+    return;
+  }
+
+  if (check) {
+    console.error('❌ frontend/src/lib/taxonomy.ts is out of date - run npm run sync:taxonomy');
+    process.exit(1);
+  }
+
+  fs.writeFileSync(TARGET, expected);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), TARGET)}`);
+}
+
+syncTaxonomy();
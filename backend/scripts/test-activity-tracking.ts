@@ -24,6 +24,7 @@ async function testActivityTracking() {
   // Import the AI service
   const { aiService } = await import('../src/services/ai.service');
   const { ActivityTracker } = await import('../src/models/ActivityTracker');
+  const { ActivityEntry } = await import('../src/models/ActivityEntry');
 
   // Test transcript
   const testTranscript = `Today was a productive day. I woke up early and went for a 30 minute jog in the park. 
@@ -39,7 +40,7 @@ async function testActivityTracking() {
 
   // STEP 1: Extract activities
   console.log('🔍 STEP 1: Extracting activities...\n');
-  const extractedActivities = await aiService.extractActivities(testTranscript);
+  const { activities: extractedActivities } = await aiService.extractActivities(testTranscript);
   console.log('Extracted Activities:');
   extractedActivities.forEach((a, i) => {
     console.log(`  ${i + 1}. ${a.activity}`);
@@ -77,7 +78,7 @@ async function testActivityTracking() {
   } else {
     for (const tracker of trackers) {
       console.log(`  User: ${tracker.userId}`);
-      console.log(`  Total Logs: ${tracker.recentLogs.length}`);
+      console.log(`  Total Logs: ${await ActivityEntry.countDocuments({ userId: tracker.userId })}`);
       console.log(`  Aggregated Counts:`);
       console.log(`    Growth:      ${tracker.counts.growth}`);
       console.log(`    Health:      ${tracker.counts.health}`);
@@ -0,0 +1,97 @@
+/**
+ * Test script: corrected details are weighed like the analysis weighs them
+ * Run with: npx ts-node --transpile-only scripts/test-corrections.ts
+ *
+ * Uses a throwaway user, removed afterwards. A detail added or renamed to
+ * an activity whose extracted context has a duration ("for 2 hours") must
+ * keep that duration's weight.
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function testCorrections() {
+  console.log('🧪 Testing correction weights\n');
+
+  const mongoUri = process.env.MONGO_URI || '';
+  if (!mongoUri) {
+    console.error('❌ MONGO_URI not set');
+    process.exit(1);
+  }
+
+  await mongoose.connect(mongoUri);
+  console.log('✅ Connected to MongoDB\n');
+
+  const { correctionService } = await import('../src/services/correction.service');
+  const { scoreDetails } = await import('../src/services/scoring');
+  const { ActivityEntry } = await import('../src/models/ActivityEntry');
+  const { ActivityTracker } = await import('../src/models/ActivityTracker');
+  const { ActivitySnapshot } = await import('../src/models/ActivitySnapshot');
+  const { ClassificationCorrection } = await import('../src/models/ClassificationCorrection');
+
+  const userId = new mongoose.Types.ObjectId();
+  const logId = new mongoose.Types.ObjectId();
+  const extractedActivities = [
+    { activity: 'reading', context: 'read a novel for 2 hours' },
+    { activity: 'coding', context: 'worked on the side project for 3 hours' },
+  ];
+  // What re-analysis would give each activity
+  const expected = (activity: string) =>
+    scoreDetails(extractedActivities, [{ activity, category: 'growth', points: 1 }])[0]?.weight ?? 1;
+  let failed = false;
+  const check = (label: string, weight: number | undefined, activity: string) => {
+    const ok = weight === expected(activity);
+    console.log(`${ok ? '✅' : '❌'} ${label}: weight ${weight} (analysis gives ${expected(activity)})`);
+    if (!ok) failed = true;
+  };
+
+  try {
+    const entry = await ActivityEntry.create({
+      userId,
+      logId,
+      timestamp: new Date(),
+      extractedActivities,
+      classificationDetails: [{ activity: 'coding', category: 'work', points: 1, weight: expected('coding'), reasoning: 'Test' }],
+      categoryPoints: { work: expected('coding') },
+    });
+
+    const added = await correctionService.addDetail(userId.toString(), logId.toString(), {
+      activity: 'reading',
+      category: 'growth',
+      points: 1,
+    });
+    check('Added detail', added.classificationDetails.find((detail) => detail.activity === 'reading')?.weight, 'reading');
+
+    const detailId = String(entry.classificationDetails[0]?._id);
+    const renamed = await correctionService.updateDetail(userId.toString(), logId.toString(), detailId, {
+      activity: 'reading',
+      category: 'growth',
+    });
+    check('Renamed detail', renamed.classificationDetails.find((detail) => detail.id === detailId)?.weight, 'reading');
+
+    if (expected('reading') === 1) {
+      console.log('❌ The duration in the context was not weighed (ACTIVITY_WEIGHTS=false?)');
+      failed = true;
+    }
+  } finally {
+    await Promise.all([
+      ActivityEntry.deleteMany({ userId }),
+      ActivityTracker.deleteMany({ userId }),
+      ActivitySnapshot.deleteMany({ userId }),
+      ClassificationCorrection.deleteMany({ userId }),
+    ]);
+    await mongoose.disconnect();
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+  console.log('\n✅ Corrections keep the weight of the activity\'s context');
+}
+
+testCorrections().catch(err => {
+  console.error('❌ Test failed:', err);
+  process.exit(1);
+});
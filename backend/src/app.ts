@@ -3,10 +3,13 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import { checkDatabaseHealth } from './config/database';
-import { authRoutes, logRoutes, summaryRoutes, chatRoutes } from './routes';
+import { authRoutes, logRoutes, uploadRoutes, summaryRoutes, chatRoutes, storageRoutes, adminRoutes, usageRoutes, rulesRoutes, categoriesRoutes, activitiesRoutes, goalsRoutes } from './routes';
 import { notFoundHandler, errorHandler } from './middleware/error.middleware';
 import { logger } from './utils/logger';
 import { successResponse, errorResponse } from './utils/response';
+import { transcriptionProvider } from './services/transcription';
+import { storage } from './services/storage';
+import { resilience } from './services/resilience';
 
 /**
  * Create and configure the Express application
@@ -159,10 +162,13 @@ export const createApp = (): Application => {
         services: {
           database: dbHealthy ? 'connected' : 'disconnected',
           auth: process.env.AUTH0_DOMAIN ? 'configured' : 'missing',
-          storage: process.env.CLOUDINARY_URL ? 'configured' : 'missing',
+          storage: storage.name,
           chat: process.env.OND_CHAT_KEY ? 'configured' : 'missing',
-          media: process.env.OND_MEDIA_KEY ? 'configured' : 'missing',
+          media: transcriptionProvider.isConfigured() ? 'configured' : 'missing',
+          transcription: transcriptionProvider.name,
         },
+        // Circuit breakers of third-party providers called since startup
+        providers: resilience.health(),
         ...(missingRequired.length > 0 && { missingRequired }),
         ...(missingOptional.length > 0 && process.env.NODE_ENV === 'development' && { missingOptional }),
       };
@@ -192,10 +198,18 @@ export const createApp = (): Application => {
   // Auth routes
   app.use('/api/auth', authRoutes);
   
-  // API routes
+  // API routes (chunked uploads before /api/log so /:id routes don't shadow them)
+  app.use('/api/log/uploads', uploadRoutes);
   app.use('/api/log', logRoutes);
   app.use('/api/summary', summaryRoutes);
   app.use('/api/chat', chatRoutes);
+  app.use('/api/storage', storageRoutes);
+  app.use('/api/usage', usageRoutes);
+  app.use('/api/rules', rulesRoutes);
+  app.use('/api/categories', categoriesRoutes);
+  app.use('/api/activities', activitiesRoutes);
+  app.use('/api/goals', goalsRoutes);
+  app.use('/api/admin', adminRoutes);
 
   // ===========================================
   // Root endpoint
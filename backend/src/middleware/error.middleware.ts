@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 import { errorResponse } from '../utils/response';
 import mongoose from 'mongoose';
+import { ProviderError, ProviderService, ProviderErrorCode } from '../services/resilience/errors';
 
 /**
  * Custom application error class
@@ -66,6 +67,70 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Quota Exceeded Error (429)
+ * Sent with a Retry-After header; `details` describes the quota that was hit
+ */
+export class QuotaExceededError extends AppError {
+  public retryAfter: number;            // Seconds until the quota resets
+  public details?: Record<string, unknown>;
+
+  constructor(message = 'Quota exceeded', retryAfter = 60, details?: Record<string, unknown>) {
+    super(message, 429, 'QUOTA_EXCEEDED');
+    this.retryAfter = retryAfter;
+    this.details = details;
+  }
+}
+
+/**
+ * Upstream Error (502, 503 or 504)
+ * A third-party provider failed; `details` says which and how
+ */
+export class UpstreamError extends AppError {
+  public retryAfter?: number;
+  public details?: Record<string, unknown>;
+
+  constructor(message: string, statusCode: number, code: string, retryAfter?: number, details?: Record<string, unknown>) {
+    super(message, statusCode, code);
+    this.retryAfter = retryAfter;
+    this.details = details;
+  }
+}
+
+/**
+ * Stable API error code and message per kind of provider
+ */
+const PROVIDER_SERVICE_ERRORS: Record<ProviderService, { code: string; message: string }> = {
+  storage: { code: 'UPLOAD_FAILURE', message: 'Failed to upload audio file to storage.' },
+  transcription: { code: 'TRANSCRIPTION_FAILURE', message: 'Failed to transcribe audio file.' },
+  llm: { code: 'AI_FAILURE', message: 'The AI service failed to respond.' },
+  tts: { code: 'TTS_FAILURE', message: 'Failed to generate audio narration.' },
+  chat: { code: 'CHAT_FAILURE', message: 'The chat service failed to respond.' },
+};
+
+/**
+ * HTTP status per provider failure
+ */
+const PROVIDER_ERROR_STATUS: Partial<Record<ProviderErrorCode, number>> = {
+  PROVIDER_TIMEOUT: 504,
+  PROVIDER_RATE_LIMITED: 503,
+  PROVIDER_UNAVAILABLE: 503,
+  PROVIDER_CIRCUIT_OPEN: 503,
+};
+
+/**
+ * Handle third-party provider errors
+ * The API code names what failed; `details.reason` says how
+ */
+const handleProviderError = (error: ProviderError): AppError => {
+  const { code, message } = PROVIDER_SERVICE_ERRORS[error.service];
+  return new UpstreamError(message, PROVIDER_ERROR_STATUS[error.code] ?? 502, code, error.retryAfter, {
+    provider: error.provider,
+    reason: error.code,
+    retryable: error.retryable,
+  });
+};
+
 /**
  * Handle Mongoose validation errors
  */
@@ -136,6 +201,14 @@ export const errorHandler = (
   // Handle known error types
   if (error instanceof AppError) {
     appError = error;
+  } else if (error instanceof ProviderError) {
+    logger.error(`Provider failure (${error.provider}, ${error.code}):`, {
+      message: error.message,
+      status: error.status,
+      url: req.originalUrl,
+      method: req.method,
+    });
+    appError = handleProviderError(error);
   } else if (error.name === 'ValidationError' && error instanceof mongoose.Error.ValidationError) {
     appError = handleMongooseValidationError(error);
   } else if (error.code === '11000' || error.code === 'E11000') {
@@ -175,9 +248,20 @@ export const errorHandler = (
   }
 
   // Send response - use a mutable object for optional fields
+  // Quota and upstream errors say what to retry and when
+  const retryable = appError instanceof QuotaExceededError || appError instanceof UpstreamError ? appError : undefined;
   const response: Record<string, unknown> = {
-    ...errorResponse(appError.message, appError.statusCode),
+    ...errorResponse(
+      appError.message,
+      appError.statusCode,
+      retryable?.code,
+      retryable?.details
+    ),
   };
+
+  if (retryable?.retryAfter !== undefined) {
+    res.set('Retry-After', String(retryable.retryAfter));
+  }
   
   // Include stack trace in development
   if (process.env.NODE_ENV !== 'production' && error.stack) {
@@ -211,6 +295,8 @@ export default {
   UnauthorizedError,
   ForbiddenError,
   ConflictError,
+  QuotaExceededError,
+  UpstreamError,
   notFoundHandler,
   errorHandler,
   asyncHandler,
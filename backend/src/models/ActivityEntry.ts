@@ -0,0 +1,115 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IAIProvenance, aiProvenanceSchema } from './Provenance';
+import { ActivityPoints, emptyCategoryCounts } from '../shared/taxonomy';
+
+/**
+ * Extracted activity from transcript
+ */
+export interface IExtractedActivity {
+  activity: string;
+  context: string;
+}
+
+/**
+ * Classification detail for an activity
+ */
+export interface IClassificationDetail {
+  _id?: mongoose.Types.ObjectId;
+  activity: string;
+  category: string;
+  points: number;                   // +1 or -1 (rule classifications may give more)
+  weight?: number;                  // Duration and intensity factor (see services/scoring); 1 when unset
+  reasoning: string;
+  corrected?: boolean;              // Added or changed by the user
+}
+
+/**
+ * ActivityEntry document interface
+ * The activity analysis of one log. Every analysed log keeps its entry;
+ * activity counts are aggregated from a window of them (see ActivityService).
+ */
+export interface IActivityEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  logId: mongoose.Types.ObjectId;
+  title?: string;
+  timestamp: Date;                  // When the log was recorded
+  extractedActivities: IExtractedActivity[];  // Raw activities from transcript
+  classificationDetails: IClassificationDetail[];  // How each activity was classified
+  categoryPoints: ActivityPoints;   // Weighted points for this specific log
+  correctedAt?: Date;               // Last time the user corrected the classification
+  provenance?: {                    // Prompt versions and models behind this entry
+    analyze?: IAIProvenance;        // Single-call analysis; extract and classify for the staged pipeline
+    extract?: IAIProvenance;
+    classify?: IAIProvenance;
+    rules?: IAIProvenance;          // Offline rule classifier, used when the AI gave no valid answer
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ActivityEntry schema definition
+ */
+const activityEntrySchema = new Schema<IActivityEntry>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    logId: {
+      type: Schema.Types.ObjectId,
+      ref: 'AudioLog',
+      required: [true, 'Log ID is required'],
+    },
+    title: { type: String },
+    timestamp: { type: Date, required: true },
+    extractedActivities: [{
+      activity: { type: String, required: true },
+      context: { type: String, default: '' },
+    }],
+    classificationDetails: [{
+      activity: { type: String, required: true },
+      category: { type: String, required: true },
+      points: { type: Number, required: true },
+      weight: { type: Number },
+      reasoning: { type: String, required: true },
+      corrected: { type: Boolean },
+    }],
+    // Category IDs vary per user; reassign the whole object to change it
+    categoryPoints: { type: Schema.Types.Mixed, default: emptyCategoryCounts },
+    correctedAt: { type: Date },
+    provenance: {
+      analyze: { type: aiProvenanceSchema },
+      extract: { type: aiProvenanceSchema },
+      classify: { type: aiProvenanceSchema },
+      rules: { type: aiProvenanceSchema },
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// One entry per log
+activityEntrySchema.index({ userId: 1, logId: 1 }, { unique: true });
+// A user's entries, most recent first (count windows)
+activityEntrySchema.index({ userId: 1, timestamp: -1 });
+
+/**
+ * ActivityEntry model
+ */
+export const ActivityEntry: Model<IActivityEntry> = mongoose.model<IActivityEntry>(
+  'ActivityEntry',
+  activityEntrySchema
+);
+
+export default ActivityEntry;
@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IAIProvenance, aiProvenanceSchema } from './Provenance';
+
+export type ActivityMergeStatus = 'pending' | 'accepted' | 'rejected' | 'undone';
+export type ActivityMergeSource = 'ai' | 'user';
+
+/**
+ * A canonical activity as it was before the merge
+ */
+export interface IMergedActivity {
+  activityId: mongoose.Types.ObjectId;
+  name: string;
+  aliases: string[];
+}
+
+/**
+ * ActivityMerge document interface
+ * Canonical activities combined into one: suggested by the AI and pending
+ * until the user accepts or rejects it, or made by the user. The activities
+ * are kept as they were so an accepted merge can be undone.
+ */
+export interface IActivityMerge extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;                       // Name of the merged activity
+  activities: IMergedActivity[];      // Activities merged, the one kept first
+  reason?: string;                    // Why the AI suggested the merge
+  source: ActivityMergeSource;
+  status: ActivityMergeStatus;
+  reviewedAt?: Date;                  // When the merge was accepted, rejected or undone
+  provenance?: IAIProvenance;         // Prompt version and model of AI suggestions
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ActivityMerge schema definition
+ */
+const activityMergeSchema = new Schema<IActivityMerge>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    name: { type: String, required: true, trim: true },
+    activities: [{
+      _id: false,
+      activityId: { type: Schema.Types.ObjectId, ref: 'CanonicalActivity', required: true },
+      name: { type: String, required: true },
+      aliases: { type: [String], default: [] },
+    }],
+    reason: { type: String },
+    source: {
+      type: String,
+      enum: ['ai', 'user'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'rejected', 'undone'],
+      default: 'pending',
+    },
+    reviewedAt: { type: Date },
+    provenance: { type: aiProvenanceSchema },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// A user's merges by status, most recent first
+activityMergeSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+/**
+ * ActivityMerge model
+ */
+export const ActivityMerge: Model<IActivityMerge> = mongoose.model<IActivityMerge>(
+  'ActivityMerge',
+  activityMergeSchema
+);
+
+export default ActivityMerge;
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ActivityPoints, emptyCategoryCounts } from '../shared/taxonomy';
+
+/**
+ * ActivitySnapshot document interface
+ * A user's activity counts at the end of a day (UTC), over the default
+ * window, for the momentum chart. Snapshots of the days from a changed
+ * entry's day on are dropped and recomputed on next read, and so are
+ * snapshots taken over another window (the window settings changed).
+ */
+export interface IActivitySnapshot extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  date: Date;                       // Start of the day (UTC)
+  counts: ActivityPoints;           // Counts as of the end of the day
+  logs: number;                     // Entries recorded that day
+  window: {                         // Window the counts were aggregated over
+    logs: number;
+    days: number;
+    halfLifeDays: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ActivitySnapshot schema definition
+ */
+const activitySnapshotSchema = new Schema<IActivitySnapshot>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    date: {
+      type: Date,
+      required: [true, 'Date is required'],
+    },
+    // Category IDs vary per user; reassign the whole object to change it
+    counts: { type: Schema.Types.Mixed, default: emptyCategoryCounts },
+    logs: { type: Number, default: 0 },
+    window: {
+      logs: { type: Number, required: true },
+      days: { type: Number, required: true },
+      halfLifeDays: { type: Number, required: true },
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// One snapshot per user per day
+activitySnapshotSchema.index({ userId: 1, date: 1 }, { unique: true });
+
+/**
+ * ActivitySnapshot model
+ */
+export const ActivitySnapshot: Model<IActivitySnapshot> = mongoose.model<IActivitySnapshot>(
+  'ActivitySnapshot',
+  activitySnapshotSchema
+);
+
+export default ActivitySnapshot;
@@ -1,55 +1,21 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ActivityPoints, emptyCategoryCounts } from '../shared/taxonomy';
 
 /**
- * Activity categories for tracking user behavior
+ * Activity points per category ID: the built-in categories, always present,
+ * and the user's own categories (see UserCategory)
  */
-export interface IActivityCounts {
-  growth: number;      // Learning, skill development, hackathons, coding, reading
-  health: number;      // Exercise, healthy eating, sleep, meditation (can be negative for unhealthy)
-  work: number;        // Professional work, meetings, projects
-  consumption: number; // Entertainment, social media, reels, movies (passive consumption)
-  other: number;       // Miscellaneous activities
-}
-
-/**
- * Extracted activity from transcript
- */
-export interface IExtractedActivity {
-  activity: string;
-  context: string;
-}
-
-/**
- * Classification detail for an activity
- */
-export interface IClassificationDetail {
-  activity: string;
-  category: string;
-  points: number;
-  reasoning: string;
-}
-
-/**
- * Single log entry for activity tracking
- */
-export interface IActivityLogEntry {
-  logId: mongoose.Types.ObjectId;
-  title?: string;
-  timestamp: Date;
-  extractedActivities: IExtractedActivity[];  // Raw activities from transcript
-  classificationDetails: IClassificationDetail[];  // How each activity was classified
-  categoryPoints: IActivityCounts;  // Points for this specific log
-}
+export type IActivityCounts = ActivityPoints;
 
 /**
  * ActivityTracker document interface
- * Tracks user activities across 5 categories based on last 20 logs
+ * A user's activity counts over the default window of their activity
+ * entries (see ActivityEntry), and the review written from them
  */
 export interface IActivityTracker extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  counts: IActivityCounts;  // Aggregated counts from all recent logs
-  recentLogs: IActivityLogEntry[];  // Last 20 logs with their activity impacts
+  counts: IActivityCounts;          // Aggregated from the entries in the default window
   lastReview?: string;              // AI-generated review based on activity patterns
   lastReviewAt?: Date;
   updatedAt: Date;
@@ -67,35 +33,8 @@ const activityTrackerSchema = new Schema<IActivityTracker>(
       unique: true,
       index: true,
     },
-    counts: {
-      growth: { type: Number, default: 0 },
-      health: { type: Number, default: 0 },
-      work: { type: Number, default: 0 },
-      consumption: { type: Number, default: 0 },
-      other: { type: Number, default: 0 },
-    },
-    recentLogs: [{
-      logId: { type: Schema.Types.ObjectId, ref: 'AudioLog', required: true },
-      title: { type: String },
-      timestamp: { type: Date, required: true },
-      extractedActivities: [{
-        activity: { type: String, required: true },
-        context: { type: String, default: '' },
-      }],
-      classificationDetails: [{
-        activity: { type: String, required: true },
-        category: { type: String, required: true },
-        points: { type: Number, required: true },
-        reasoning: { type: String, required: true },
-      }],
-      categoryPoints: {
-        growth: { type: Number, default: 0 },
-        health: { type: Number, default: 0 },
-        work: { type: Number, default: 0 },
-        consumption: { type: Number, default: 0 },
-        other: { type: Number, default: 0 },
-      },
-    }],
+    // Category IDs vary per user; reassign the whole object to change it
+    counts: { type: Schema.Types.Mixed, default: emptyCategoryCounts },
     lastReview: { type: String },
     lastReviewAt: { type: Date },
   },
@@ -111,36 +50,11 @@ const activityTrackerSchema = new Schema<IActivityTracker>(
   }
 );
 
-/**
- * Recalculate total counts from recent logs
- */
-activityTrackerSchema.methods.recalculateCounts = function(): void {
-  const counts: IActivityCounts = {
-    growth: 0,
-    health: 0,
-    work: 0,
-    consumption: 0,
-    other: 0,
-  };
-
-  for (const log of this.recentLogs) {
-    if (log.categoryPoints) {
-      counts.growth += log.categoryPoints.growth || 0;
-      counts.health += log.categoryPoints.health || 0;
-      counts.work += log.categoryPoints.work || 0;
-      counts.consumption += log.categoryPoints.consumption || 0;
-      counts.other += log.categoryPoints.other || 0;
-    }
-  }
-
-  this.counts = counts;
-};
-
 /**
  * ActivityTracker model
  */
 export const ActivityTracker: Model<IActivityTracker> = mongoose.model<IActivityTracker>(
-  'ActivityTracker', 
+  'ActivityTracker',
   activityTrackerSchema
 );
 
@@ -1,5 +1,43 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 
+/**
+ * Progress of a log through the background AI pipeline
+ */
+export type ProcessingStatus = 'pending' | 'transcribing' | 'categorizing' | 'tracked' | 'failed';
+
+/**
+ * How an entry was created: recorded audio or typed text
+ */
+export type EntrySource = 'audio' | 'text';
+
+/**
+ * Earlier version of a log's transcript and title, kept when the log is edited
+ */
+export interface IAudioLogRevision {
+  transcript: string;
+  title?: string;
+  editedAt: Date;            // When this version was replaced
+}
+
+/**
+ * Word timestamp within a transcript segment (seconds)
+ */
+export interface ITranscriptWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Timestamped stretch of the transcript (seconds), from engines that report them
+ */
+export interface ITranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: ITranscriptWord[];
+}
+
 /**
  * AudioLog document interface
  * Represents a transcribed audio log entry
@@ -7,16 +45,60 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
 export interface IAudioLog extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  transcript: string;
+  source: EntrySource;       // Text entries have no audio, duration or storage metadata
+  transcript?: string;       // Unset until transcribed for chunked uploads
+  segments: ITranscriptSegment[]; // Empty for text entries, edited transcripts and engines without timestamps
   title?: string;            // AI-generated title summarizing the log
   timestamp: Date;
   duration?: number;         // Audio duration in seconds
   audioUrl?: string;         // URL to stored audio file
   category?: string;         // AI-categorized category
   sentiment?: string;        // AI-detected sentiment
+  processingStatus?: ProcessingStatus; // Unset on logs created before the job queue
+  processingError?: string;  // Last pipeline error when processingStatus is 'failed'
+  revisions: IAudioLogRevision[]; // Previous versions, oldest first
   metadata?: Record<string, unknown>; // Additional metadata
 }
 
+/**
+ * Statuses in which a log may not have a transcript yet
+ */
+const AWAITING_TRANSCRIPT: ProcessingStatus[] = ['pending', 'transcribing', 'failed'];
+
+/**
+ * Revision schema
+ */
+const audioLogRevisionSchema = new Schema<IAudioLogRevision>(
+  {
+    transcript: { type: String, required: true },
+    title: { type: String },
+    editedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+/**
+ * Transcript segment schemas
+ */
+const transcriptWordSchema = new Schema<ITranscriptWord>(
+  {
+    start: { type: Number, required: true, min: 0 },
+    end: { type: Number, required: true, min: 0 },
+    text: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const transcriptSegmentSchema = new Schema<ITranscriptSegment>(
+  {
+    start: { type: Number, required: true, min: 0 },
+    end: { type: Number, required: true, min: 0 },
+    text: { type: String, required: true },
+    words: { type: [transcriptWordSchema], default: undefined },
+  },
+  { _id: false }
+);
+
 /**
  * AudioLog schema definition
  */
@@ -28,12 +110,27 @@ const audioLogSchema = new Schema<IAudioLog>(
       required: [true, 'User ID is required'],
       index: true,
     },
+    source: {
+      type: String,
+      enum: ['audio', 'text'],
+      default: 'audio',
+    },
     transcript: {
       type: String,
-      required: [true, 'Transcript is required'],
+      // Chunked uploads are saved before the job queue transcribes them
+      required: [
+        function (this: IAudioLog): boolean {
+          return !this.processingStatus || !AWAITING_TRANSCRIPT.includes(this.processingStatus);
+        },
+        'Transcript is required',
+      ],
       trim: true,
       minlength: [1, 'Transcript cannot be empty'],
     },
+    segments: {
+      type: [transcriptSegmentSchema],
+      default: [],
+    },
     title: {
       type: String,
       trim: true,
@@ -62,6 +159,17 @@ const audioLogSchema = new Schema<IAudioLog>(
       enum: ['positive', 'negative', 'neutral', 'mixed'],
       default: 'neutral',
     },
+    processingStatus: {
+      type: String,
+      enum: ['pending', 'transcribing', 'categorizing', 'tracked', 'failed'],
+    },
+    processingError: {
+      type: String,
+    },
+    revisions: {
+      type: [audioLogRevisionSchema],
+      default: [],
+    },
     metadata: {
       type: Schema.Types.Mixed,
       default: {},
@@ -83,6 +191,7 @@ const audioLogSchema = new Schema<IAudioLog>(
 audioLogSchema.index({ userId: 1, timestamp: -1 });
 audioLogSchema.index({ userId: 1, category: 1 });
 audioLogSchema.index({ userId: 1, createdAt: -1 });
+audioLogSchema.index({ userId: 1, processingStatus: 1 });
 
 // Text index for transcript search
 audioLogSchema.index({ transcript: 'text' });
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Backfill run lifecycle states
+ * - running: logs are being re-analysed
+ * - paused: stopped on request; can be resumed
+ * - completed: every selected log was visited and derived data rebuilt
+ * - failed: the run stopped on an unexpected error; can be resumed
+ */
+export type BackfillStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+/**
+ * Prompts whose version is recorded on a log's `metadata.provenance`
+ */
+export type BackfillPrompt = 'categorize' | 'analyze';
+
+/**
+ * Which logs a backfill re-analyses
+ */
+export interface IBackfillFilter {
+  userId?: mongoose.Types.ObjectId;
+  from?: Date;                        // Log timestamp range, inclusive start
+  to?: Date;                          // Exclusive end
+  prompt?: BackfillPrompt;            // Prompt `promptVersion` refers to (default categorize)
+  promptVersion?: number;             // Logs analysed with this version of the prompt
+}
+
+/**
+ * Log that could not be re-analysed
+ */
+export interface IBackfillFailure {
+  logId: mongoose.Types.ObjectId;
+  error: string;
+}
+
+/**
+ * BackfillRun document interface
+ * Progress of a re-analysis run over historical logs. Logs are visited in
+ * `_id` order and `cursor` holds the last one visited, so an interrupted
+ * run resumes where it stopped.
+ */
+export interface IBackfillRun extends Document {
+  _id: mongoose.Types.ObjectId;
+  filter: IBackfillFilter;
+  ratePerMinute: number;              // Logs re-analysed per minute
+  status: BackfillStatus;
+  total: number;                      // Logs matching the filter when the run started
+  processed: number;
+  failed: number;
+  cursor?: mongoose.Types.ObjectId;   // Last log visited
+  failures: IBackfillFailure[];       // Most recent failures
+  affectedUsers: mongoose.Types.ObjectId[];
+  affectedWeeks: mongoose.Types.ObjectId[]; // Summaries covering re-analysed logs
+  rebuiltWeeks: mongoose.Types.ObjectId[];  // Affected summaries already visited, so a paused rebuild resumes
+  summariesRebuilt: number;
+  requestedBy?: string;               // Auth0 user, or 'cli'
+  heartbeatAt: Date;                  // Updated after every log and summary; a running run without heartbeat is abandoned
+  lastError?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Failures kept on a run
+ */
+export const MAX_BACKFILL_FAILURES = 100;
+
+/**
+ * BackfillRun schema definition
+ */
+const backfillRunSchema = new Schema<IBackfillRun>(
+  {
+    filter: {
+      userId: { type: Schema.Types.ObjectId, ref: 'User' },
+      from: { type: Date },
+      to: { type: Date },
+      prompt: { type: String, enum: ['categorize', 'analyze'] },
+      promptVersion: { type: Number, min: 1 },
+    },
+    ratePerMinute: {
+      type: Number,
+      required: [true, 'Rate limit is required'],
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: ['running', 'paused', 'completed', 'failed'],
+      default: 'running',
+    },
+    total: { type: Number, default: 0, min: 0 },
+    processed: { type: Number, default: 0, min: 0 },
+    failed: { type: Number, default: 0, min: 0 },
+    cursor: { type: Schema.Types.ObjectId },
+    failures: [{
+      _id: false,
+      logId: { type: Schema.Types.ObjectId, required: true },
+      error: { type: String, required: true },
+    }],
+    affectedUsers: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    affectedWeeks: [{ type: Schema.Types.ObjectId, ref: 'Summary' }],
+    rebuiltWeeks: [{ type: Schema.Types.ObjectId, ref: 'Summary' }],
+    summariesRebuilt: { type: Number, default: 0, min: 0 },
+    requestedBy: { type: String },
+    heartbeatAt: { type: Date, default: Date.now },
+    lastError: { type: String },
+    startedAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// Listing recent runs and finding the active one
+backfillRunSchema.index({ status: 1, createdAt: -1 });
+
+/**
+ * BackfillRun model
+ */
+export const BackfillRun: Model<IBackfillRun> = mongoose.model<IBackfillRun>('BackfillRun', backfillRunSchema);
+
+export default BackfillRun;
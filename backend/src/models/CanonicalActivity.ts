@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * CanonicalActivity document interface
+ * One of a user's activities, under which the differently worded extracted
+ * activities it was mentioned as are clustered ("went to the gym", "gym
+ * session" and, once merged, "workout"). Aliases are normalized with
+ * normalizeActivity (see services/canonical).
+ */
+export interface ICanonicalActivity extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;                       // Display name, e.g. "Gym"
+  aliases: string[];                  // Normalized extracted activities, e.g. ["gym", "workout"]
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Longest name of a canonical activity
+ */
+export const MAX_ACTIVITY_NAME_LENGTH = 60;
+
+/**
+ * CanonicalActivity schema definition
+ */
+const canonicalActivitySchema = new Schema<ICanonicalActivity>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [MAX_ACTIVITY_NAME_LENGTH, `Name cannot exceed ${MAX_ACTIVITY_NAME_LENGTH} characters`],
+    },
+    aliases: {
+      type: [String],
+      validate: {
+        validator: (aliases: string[]) => aliases.length > 0,
+        message: 'An activity needs at least one alias',
+      },
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// An alias belongs to one of the user's activities
+canonicalActivitySchema.index({ userId: 1, aliases: 1 }, { unique: true });
+
+/**
+ * CanonicalActivity model
+ */
+export const CanonicalActivity: Model<ICanonicalActivity> = mongoose.model<ICanonicalActivity>(
+  'CanonicalActivity',
+  canonicalActivitySchema
+);
+
+export default CanonicalActivity;
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * How a user corrected an activity classification
+ * - add: the AI missed the activity's points in a category
+ * - edit: the category or points were wrong
+ * - remove: the activity scores nothing in that category
+ */
+export type CorrectionAction = 'add' | 'edit' | 'remove';
+
+/**
+ * Category and points of a classification detail
+ */
+export interface ICorrectionScore {
+  category: string;
+  points: number;
+}
+
+/**
+ * ClassificationCorrection document interface
+ * A user's correction of a classification detail on an activity tracker
+ * entry, kept as an example for later classifications of the user's logs.
+ */
+export interface IClassificationCorrection extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  logId: mongoose.Types.ObjectId;
+  action: CorrectionAction;
+  activity: string;
+  before?: ICorrectionScore;          // Unset for added details
+  after?: ICorrectionScore;           // Unset for removed details
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scoreSchema = new Schema<ICorrectionScore>(
+  {
+    category: { type: String, required: true },
+    points: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+/**
+ * ClassificationCorrection schema definition
+ */
+const classificationCorrectionSchema = new Schema<IClassificationCorrection>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    logId: {
+      type: Schema.Types.ObjectId,
+      ref: 'AudioLog',
+      required: [true, 'Log ID is required'],
+    },
+    action: {
+      type: String,
+      enum: ['add', 'edit', 'remove'],
+      required: true,
+    },
+    activity: {
+      type: String,
+      required: [true, 'Activity is required'],
+      trim: true,
+      maxlength: [200, 'Activity cannot exceed 200 characters'],
+    },
+    before: { type: scoreSchema },
+    after: { type: scoreSchema },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// A user's most recent corrections first
+classificationCorrectionSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * ClassificationCorrection model
+ */
+export const ClassificationCorrection: Model<IClassificationCorrection> = mongoose.model<IClassificationCorrection>(
+  'ClassificationCorrection',
+  classificationCorrectionSchema
+);
+
+export default ClassificationCorrection;
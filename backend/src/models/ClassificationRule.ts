@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * ClassificationRule document interface
+ * A user's keyword rule for activity scoring, e.g. "reels" → consumption -1.
+ * User rules take precedence over the built-in lexicon for the same keyword
+ * in the offline classifier, and over the rubric of the AI classification.
+ */
+export interface IClassificationRule extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  keyword: string;                    // Lowercase word or phrase; a trailing * matches any ending
+  category: string;                   // Built-in or user-defined category ID
+  points: number;                     // Non-zero, -3 to 3
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rules a user may define
+ */
+export const MAX_USER_RULES = 200;
+
+/**
+ * ClassificationRule schema definition
+ */
+const classificationRuleSchema = new Schema<IClassificationRule>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    keyword: {
+      type: String,
+      required: [true, 'Keyword is required'],
+      trim: true,
+      lowercase: true,
+      minlength: [2, 'Keyword must be at least 2 characters'],
+      maxlength: [60, 'Keyword cannot exceed 60 characters'],
+    },
+    category: {
+      type: String,
+      required: [true, 'Category is required'],
+      trim: true,
+    },
+    points: {
+      type: Number,
+      required: [true, 'Points are required'],
+      min: -3,
+      max: 3,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// One rule per keyword per user
+classificationRuleSchema.index({ userId: 1, keyword: 1 }, { unique: true });
+
+/**
+ * ClassificationRule model
+ */
+export const ClassificationRule: Model<IClassificationRule> = mongoose.model<IClassificationRule>(
+  'ClassificationRule',
+  classificationRuleSchema
+);
+
+export default ClassificationRule;
@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type GoalUnit = 'times' | 'minutes';
+export type GoalPeriod = 'day' | 'week' | 'month';
+
+/**
+ * What a goal asks for each period, e.g. 4 times a week or 20 minutes a day
+ */
+export interface IGoalTarget {
+  amount: number;
+  unit: GoalUnit;
+  period: GoalPeriod;
+}
+
+/**
+ * How a goal went in a week, as kept on the weekly summary
+ */
+export interface IGoalWeekStatus {
+  goalId: string;
+  title: string;
+  target: IGoalTarget;
+  amount: number;                     // Progress in the periods below, in the target's unit
+  periods: number;                    // Target periods in the week: its days, the week, or the month so far
+  periodsMet: number;
+}
+
+/**
+ * Goal document interface
+ * Something a user is working toward ("exercise 4x/week", "read 20 min
+ * daily"). Progress is detected from the activities extracted from the
+ * user's logs that match the goal's activities, plus manual check-ins
+ * (see GoalService).
+ */
+export interface IGoal extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  title: string;
+  activities: string[];               // Activities that count toward the goal, e.g. ["exercise", "gym"]
+  target: IGoalTarget;
+  archived: boolean;                  // Kept for its check-ins, left out of progress reports
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Goals a user may have, archived ones included
+ */
+export const MAX_USER_GOALS = 20;
+
+/**
+ * Goal schema definition
+ */
+const goalSchema = new Schema<IGoal>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    activities: {
+      type: [String],
+      validate: {
+        validator: (activities: string[]) => activities.length > 0 && activities.length <= 10,
+        message: 'A goal tracks 1 to 10 activities',
+      },
+    },
+    target: {
+      type: new Schema({
+        amount: { type: Number, required: true, min: 1 },
+        unit: { type: String, enum: ['times', 'minutes'], required: true },
+        period: { type: String, enum: ['day', 'week', 'month'], required: true },
+      }, { _id: false }),
+      required: [true, 'Target is required'],
+    },
+    archived: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+/**
+ * Goal model
+ */
+export const Goal: Model<IGoal> = mongoose.model<IGoal>('Goal', goalSchema);
+
+export default Goal;
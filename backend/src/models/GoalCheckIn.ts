@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * GoalCheckIn document interface
+ * Progress toward a goal the user reported by hand, for what wasn't
+ * mentioned in a log ("did my 20 minutes of reading").
+ */
+export interface IGoalCheckIn extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  goalId: mongoose.Types.ObjectId;
+  date: Date;                         // When the progress was made
+  amount: number;                     // In the goal's unit: times or minutes
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * GoalCheckIn schema definition
+ */
+const goalCheckInSchema = new Schema<IGoalCheckIn>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    goalId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Goal',
+      required: [true, 'Goal ID is required'],
+    },
+    date: { type: Date, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// A goal's check-ins by date (progress per period)
+goalCheckInSchema.index({ goalId: 1, date: -1 });
+// A user's check-ins by date (weekly reports)
+goalCheckInSchema.index({ userId: 1, date: -1 });
+
+/**
+ * GoalCheckIn model
+ */
+export const GoalCheckIn: Model<IGoalCheckIn> = mongoose.model<IGoalCheckIn>('GoalCheckIn', goalCheckInSchema);
+
+export default GoalCheckIn;
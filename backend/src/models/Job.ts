@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Job lifecycle states
+ * - queued: waiting for `runAt` to pass
+ * - running: claimed by a worker
+ * - completed: handler finished successfully
+ * - dead: all attempts failed (dead-lettered)
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+/**
+ * Job document interface
+ * Represents a unit of background work persisted in MongoDB
+ */
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  type: string;                       // Handler name, e.g. 'process-audio-log'
+  key?: string;                       // Deduplication key, e.g. the audio log ID
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;                        // Earliest time the job may run
+  lockedAt?: Date;
+  lockedBy?: string;                  // Worker ID holding the lock
+  lastError?: string;
+  completedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * How long finished jobs are kept before MongoDB removes them (seconds)
+ */
+const COMPLETED_JOB_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Job schema definition
+ */
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: [true, 'Job type is required'],
+      trim: true,
+    },
+    key: {
+      type: String,
+      trim: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'dead'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+      min: 1,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lastError: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    failedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// Worker polling: next due job
+jobSchema.index({ status: 1, runAt: 1 });
+// Status lookups by deduplication key
+jobSchema.index({ type: 1, key: 1, createdAt: -1 });
+// Stale lock recovery
+jobSchema.index({ status: 1, lockedAt: 1 });
+// Completed jobs expire; dead-lettered jobs are kept for inspection
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: COMPLETED_JOB_TTL });
+
+/**
+ * Job model
+ */
+export const Job: Model<IJob> = mongoose.model<IJob>('Job', jobSchema);
+
+export default Job;
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * LLMCacheEntry document interface
+ * A model response stored under the hash of everything that determines it
+ * (task, prompt version, provider, model and the full input)
+ */
+export interface ILLMCacheEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string;                // SHA-256 of the request, see LLMResponseCache
+  task: string;
+  promptVersion?: number;
+  provider: string;
+  llmModel: string;           // `model` is reserved on documents
+  text: string;
+  usage?: {                   // Usage of the original call (what each hit saves)
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+  };
+  hits: number;
+  expiresAt: Date;            // MongoDB removes the entry after this time
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * LLMCacheEntry schema definition
+ */
+const llmCacheEntrySchema = new Schema<ILLMCacheEntry>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Cache key is required'],
+      unique: true,
+    },
+    task: { type: String, required: true },
+    promptVersion: { type: Number },
+    provider: { type: String, required: true },
+    llmModel: { type: String, required: true },
+    text: { type: String, default: '' },
+    usage: {
+      promptTokens: { type: Number },
+      completionTokens: { type: Number },
+      totalTokens: { type: Number },
+    },
+    hits: { type: Number, default: 0, min: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// Expired entries are removed by MongoDB
+llmCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * LLMCacheEntry model
+ */
+export const LLMCacheEntry: Model<ILLMCacheEntry> = mongoose.model<ILLMCacheEntry>('LLMCacheEntry', llmCacheEntrySchema);
+
+export default LLMCacheEntry;
@@ -0,0 +1,24 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Which prompt version and model produced an AI result
+ */
+export interface IAIProvenance {
+  prompt: string;            // Prompt name in the registry
+  promptVersion: number;
+  provider: string;          // LLM provider name (gemini, local, mock)
+  model: string;
+}
+
+/**
+ * Provenance subdocument schema, embedded wherever AI output is stored
+ */
+export const aiProvenanceSchema = new Schema<IAIProvenance>(
+  {
+    prompt: { type: String, required: true },
+    promptVersion: { type: Number, required: true },
+    provider: { type: String, required: true },
+    model: { type: String, required: true },
+  },
+  { _id: false }
+);
@@ -1,11 +1,14 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IAIProvenance, aiProvenanceSchema } from './Provenance';
+import { IGoalWeekStatus } from './Goal';
+import { CategoryCounts } from '../shared/taxonomy';
 
 /**
  * Metrics interface for weekly summary
  */
 export interface IMetrics {
   totalLogs: number;
-  categoryCounts: Record<string, number>;
+  categoryCounts: Partial<CategoryCounts>;  // Logs per category of the shared taxonomy
   sentimentBreakdown: {
     positive: number;
     negative: number;
@@ -14,6 +17,7 @@ export interface IMetrics {
   };
   averageDuration?: number;
   topKeywords?: string[];
+  goals?: IGoalWeekStatus[];  // How the user's goals went that week
   [key: string]: unknown; // Allow additional metrics
 }
 
@@ -28,9 +32,21 @@ export interface ISummary extends Document {
   weekEnd: Date;
   metrics: IMetrics;
   story: string;              // AI-generated narrative summary
-  ttsUrl?: string;            // Text-to-speech audio URL
+  storyProvenance?: IAIProvenance; // Prompt version and model behind the story; unset for fallback text
+  ttsUrl?: string;            // Text-to-speech audio URL (public backends only)
+  ttsStorage?: {              // Where the TTS file lives, for signed playback URLs
+    provider: string;
+    key: string;
+  };
+  ttsError?: {                // Why the last generation has no audio; unset when TTS succeeded or was skipped
+    provider: string;
+    code: string;
+    message: string;
+  };
   generatedAt: Date;
   isComplete: boolean;
+  isStale: boolean;           // A log in this week changed since generation; regenerate on next read
+  staleSince?: Date;
 }
 
 /**
@@ -72,10 +88,22 @@ const summarySchema = new Schema<ISummary>(
       required: [true, 'Story narrative is required'],
       trim: true,
     },
+    storyProvenance: {
+      type: aiProvenanceSchema,
+    },
     ttsUrl: {
       type: String,
       trim: true,
     },
+    ttsStorage: {
+      provider: { type: String },
+      key: { type: String },
+    },
+    ttsError: {
+      provider: { type: String },
+      code: { type: String },
+      message: { type: String },
+    },
     generatedAt: {
       type: Date,
       default: Date.now,
@@ -84,6 +112,13 @@ const summarySchema = new Schema<ISummary>(
       type: Boolean,
       default: false,
     },
+    isStale: {
+      type: Boolean,
+      default: false,
+    },
+    staleSince: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,192 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Upload session lifecycle
+ * - active: accepting parts
+ * - completing: parts are being assembled in storage
+ * - completed: assembled and attached to an AudioLog
+ * - aborted: cancelled or expired; parts discarded
+ */
+export type UploadSessionStatus = 'active' | 'completing' | 'completed' | 'aborted';
+
+/**
+ * Part received for an upload session
+ */
+export interface IUploadSessionPart {
+  etag: string;
+  bytes: number;
+}
+
+/**
+ * Object assembled in storage, kept until its AudioLog exists
+ */
+export interface IUploadSessionStoredObject {
+  provider: string;
+  key: string;
+  bytes: number;
+  publicUrl?: string;
+  duration?: number;
+  format?: string;
+}
+
+/**
+ * UploadSession document interface
+ * Tracks a resumable, chunked audio upload
+ */
+export interface IUploadSession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  status: UploadSessionStatus;
+  mimeType: string;
+  filename?: string;
+  title?: string;
+  size: number;                        // Declared total size in bytes
+  partSize: number;                    // Size of every part except the last
+  totalParts: number;
+  parts: Map<string, IUploadSessionPart>; // Keyed by part number
+  probeSamples: Map<string, Buffer>;   // 'head' and 'body' (past an ID3v2 tag) of part 1 and 'tail<n>' of the last two parts, for the audio probe
+  storageProvider: string;
+  storageKey: string;
+  storageUploadId: string;
+  storageFolder: string;
+  stored?: IUploadSessionStoredObject; // Set once assembled; a retried complete only creates the log
+  logId?: mongoose.Types.ObjectId;     // Set once completed
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * How long sessions are kept after they expire (seconds)
+ */
+const EXPIRED_SESSION_RETENTION = 24 * 60 * 60;
+
+/**
+ * Upload part schema
+ */
+const uploadSessionPartSchema = new Schema<IUploadSessionPart>(
+  {
+    etag: { type: String, required: true },
+    bytes: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+/**
+ * Assembled object schema
+ */
+const uploadSessionStoredObjectSchema = new Schema<IUploadSessionStoredObject>(
+  {
+    provider: { type: String, required: true },
+    key: { type: String, required: true },
+    bytes: { type: Number, required: true, min: 0 },
+    publicUrl: { type: String },
+    duration: { type: Number },
+    format: { type: String },
+  },
+  { _id: false }
+);
+
+/**
+ * UploadSession schema definition
+ */
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'completing', 'completed', 'aborted'],
+      default: 'active',
+    },
+    mimeType: {
+      type: String,
+      required: [true, 'MIME type is required'],
+    },
+    filename: {
+      type: String,
+      trim: true,
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    size: {
+      type: Number,
+      required: [true, 'Upload size is required'],
+      min: [1, 'Upload size must be positive'],
+    },
+    partSize: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    totalParts: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    parts: {
+      type: Map,
+      of: uploadSessionPartSchema,
+      default: {},
+    },
+    probeSamples: {
+      type: Map,
+      of: Buffer,
+      default: {},
+    },
+    storageProvider: {
+      type: String,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+    },
+    storageUploadId: {
+      type: String,
+      required: true,
+    },
+    storageFolder: {
+      type: String,
+      required: true,
+    },
+    stored: {
+      type: uploadSessionStoredObjectSchema,
+    },
+    logId: {
+      type: Schema.Types.ObjectId,
+      ref: 'AudioLog',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// Sessions are removed a day after they expire (storage cleanup runs on expiry)
+uploadSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: EXPIRED_SESSION_RETENTION });
+
+/**
+ * UploadSession model
+ */
+export const UploadSession: Model<IUploadSession> = mongoose.model<IUploadSession>('UploadSession', uploadSessionSchema);
+
+export default UploadSession;
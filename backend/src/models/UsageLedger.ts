@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * UsageLedger document interface
+ * Daily totals of model calls for one user, task, provider and model.
+ * Calls made for no user (system work) have no userId.
+ */
+export interface IUsageLedger extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  date: Date;                 // UTC day (midnight)
+  task: string;
+  provider: string;
+  llmModel: string;           // `model` is reserved on documents
+  calls: number;              // Calls sent to the provider, including failed ones
+  failedCalls: number;
+  cachedCalls: number;        // Answered from the response cache (no tokens charged)
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;          // Summed over provider calls
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * How long daily totals are kept (LLM_USAGE_RETENTION_DAYS, default 90)
+ */
+const USAGE_RETENTION_SECONDS = parseInt(process.env.LLM_USAGE_RETENTION_DAYS || '90', 10) * 24 * 60 * 60;
+
+/**
+ * UsageLedger schema definition
+ */
+const usageLedgerSchema = new Schema<IUsageLedger>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    date: {
+      type: Date,
+      required: [true, 'Date is required'],
+    },
+    task: { type: String, required: true },
+    provider: { type: String, required: true },
+    llmModel: { type: String, required: true },
+    calls: { type: Number, default: 0, min: 0 },
+    failedCalls: { type: Number, default: 0, min: 0 },
+    cachedCalls: { type: Number, default: 0, min: 0 },
+    promptTokens: { type: Number, default: 0, min: 0 },
+    completionTokens: { type: Number, default: 0, min: 0 },
+    totalTokens: { type: Number, default: 0, min: 0 },
+    latencyMs: { type: Number, default: 0, min: 0 },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// One bucket per user, day, task and model; also serves quota lookups by user and day
+usageLedgerSchema.index({ userId: 1, date: 1, task: 1, provider: 1, llmModel: 1 }, { unique: true });
+// Old totals expire
+usageLedgerSchema.index({ date: 1 }, { expireAfterSeconds: USAGE_RETENTION_SECONDS });
+
+/**
+ * UsageLedger model
+ */
+export const UsageLedger: Model<IUsageLedger> = mongoose.model<IUsageLedger>('UsageLedger', usageLedgerSchema);
+
+export default UsageLedger;
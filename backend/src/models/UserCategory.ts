@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * UserCategory document interface
+ * A category a user scores activities in, next to the built-in ones, or the
+ * user's rewording of a built-in category (same key, only the fields set
+ * override the built-in ones).
+ */
+export interface IUserCategory extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  key: string;                        // Category ID used in points and classifications, e.g. "game_dev"
+  label?: string;                     // Required for user-defined categories
+  description?: string;
+  emoji?: string;
+  color?: { dark: string; light: string };
+  positive?: string;                  // What earns an activity +1
+  negative?: string;                  // What costs an activity -1
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Categories a user may define, besides the built-in ones
+ */
+export const MAX_USER_CATEGORIES = 10;
+
+/**
+ * UserCategory schema definition
+ */
+const userCategorySchema = new Schema<IUserCategory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+      trim: true,
+      match: [/^[a-z][a-z0-9_]{1,29}$/, 'Key must be 2 to 30 lowercase letters, digits or underscores'],
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [30, 'Label cannot exceed 30 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Description cannot exceed 100 characters'],
+    },
+    emoji: {
+      type: String,
+      trim: true,
+      maxlength: [8, 'Emoji cannot exceed 8 characters'],
+    },
+    color: {
+      type: new Schema({ dark: String, light: String }, { _id: false }),
+    },
+    positive: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Positive scoring cannot exceed 500 characters'],
+    },
+    negative: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Negative scoring cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { _id, ...rest } = ret as Record<string, unknown>;
+        return { id: String(_id), ...rest };
+      },
+    },
+  }
+);
+
+// One entry per category per user
+userCategorySchema.index({ userId: 1, key: 1 }, { unique: true });
+
+/**
+ * UserCategory model
+ */
+export const UserCategory: Model<IUserCategory> = mongoose.model<IUserCategory>(
+  'UserCategory',
+  userCategorySchema
+);
+
+export default UserCategory;
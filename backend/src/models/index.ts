@@ -3,7 +3,22 @@
  */
 
 export { User, IUser } from './User';
-export { AudioLog, IAudioLog } from './AudioLog';
+export { AudioLog, IAudioLog, ProcessingStatus, EntrySource, IAudioLogRevision, ITranscriptSegment, ITranscriptWord } from './AudioLog';
 export { Summary, ISummary, IMetrics } from './Summary';
 export { ChatMessage, IChatMessage, MessageRole } from './ChatMessage';
-export { ActivityTracker, IActivityTracker, IActivityCounts, IActivityLogEntry } from './ActivityTracker';
+export { ActivityTracker, IActivityTracker, IActivityCounts } from './ActivityTracker';
+export { ActivityEntry, IActivityEntry, IExtractedActivity, IClassificationDetail } from './ActivityEntry';
+export { ActivitySnapshot, IActivitySnapshot } from './ActivitySnapshot';
+export { Job, IJob, JobStatus } from './Job';
+export { IAIProvenance } from './Provenance';
+export { UploadSession, IUploadSession, UploadSessionStatus } from './UploadSession';
+export { BackfillRun, IBackfillRun, IBackfillFilter, IBackfillFailure, BackfillStatus, BackfillPrompt } from './BackfillRun';
+export { LLMCacheEntry, ILLMCacheEntry } from './LLMCacheEntry';
+export { UsageLedger, IUsageLedger } from './UsageLedger';
+export { ClassificationRule, IClassificationRule, MAX_USER_RULES } from './ClassificationRule';
+export { UserCategory, IUserCategory, MAX_USER_CATEGORIES } from './UserCategory';
+export { ClassificationCorrection, IClassificationCorrection, ICorrectionScore, CorrectionAction } from './ClassificationCorrection';
+export { CanonicalActivity, ICanonicalActivity, MAX_ACTIVITY_NAME_LENGTH } from './CanonicalActivity';
+export { ActivityMerge, IActivityMerge, IMergedActivity, ActivityMergeStatus, ActivityMergeSource } from './ActivityMerge';
+export { Goal, IGoal, IGoalTarget, IGoalWeekStatus, GoalUnit, GoalPeriod, MAX_USER_GOALS } from './Goal';
+export { GoalCheckIn, IGoalCheckIn } from './GoalCheckIn';
@@ -0,0 +1,258 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler, ValidationError } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { aiService } from '../services/ai.service';
+import { canonicalService, isTimeZone, MAX_STATS_ACTIVITIES, MAX_STATS_DAYS } from '../services/canonical';
+
+const router = Router();
+
+/**
+ * @route   GET /api/activities/stats
+ * @desc    How often, when and how steadily each of the user's activities comes up:
+ *          frequency, last occurrence, typical weekday and time, and a weekly trend line
+ * @access  Private
+ * @query   days - Period ending now (1-365, default 90)
+ * @query   tz - IANA time zone the weekday and time are read in (default UTC)
+ * @query   limit - Most activities returned, most frequent first (1-200, default 50)
+ */
+router.get(
+  '/stats',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const days = req.query['days'] === undefined ? 90 : Number(req.query['days']);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+      throw new ValidationError(`days must be an integer between 1 and ${MAX_STATS_DAYS}`);
+    }
+    const limit = req.query['limit'] === undefined ? 50 : Number(req.query['limit']);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STATS_ACTIVITIES) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_STATS_ACTIVITIES}`);
+    }
+    const timeZone = typeof req.query['tz'] === 'string' ? req.query['tz'] : 'UTC';
+    if (!isTimeZone(timeZone)) {
+      throw new ValidationError(`Unknown time zone "${timeZone}"`);
+    }
+
+    const stats = await canonicalService.getStats(req.user.id, { days, timeZone, limit });
+    res.json(successResponse(stats));
+  })
+);
+
+/**
+ * @route   GET /api/activities/merges
+ * @desc    The user's activity merges, most recent first
+ * @access  Private
+ * @query   status - pending | accepted | rejected | undone
+ */
+router.get(
+  '/merges',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const status = typeof req.query['status'] === 'string' ? req.query['status'] : undefined;
+    const merges = await canonicalService.listMerges(req.user.id, status);
+    res.json(successResponse(merges));
+  })
+);
+
+/**
+ * @route   POST /api/activities/merges/suggest
+ * @desc    Ask the AI which activities are the same habit; its suggestions are
+ *          saved as pending merges for the user to accept or reject
+ * @access  Private
+ */
+router.post(
+  '/merges/suggest',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { suggestions, validation } = await aiService.suggestActivityMerges(req.user.id);
+    res.json(successResponse({ suggestions, validation }, `${suggestions.length} merge(s) suggested`));
+  })
+);
+
+/**
+ * @route   POST /api/activities/merges/:id/accept
+ * @desc    Merge the activities of a pending suggestion
+ * @access  Private
+ * @body    name - Optional name of the merged activity, instead of the suggested one
+ */
+router.post(
+  '/merges/:id/accept',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { name } = req.body as Record<string, unknown>;
+    const merge = await canonicalService.acceptMerge(req.user.id, req.params['id'] ?? '', name);
+    res.json(successResponse(merge, 'Activities merged'));
+  })
+);
+
+/**
+ * @route   POST /api/activities/merges/:id/reject
+ * @desc    Reject a pending suggestion; the same activities aren't suggested again
+ * @access  Private
+ */
+router.post(
+  '/merges/:id/reject',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const merge = await canonicalService.rejectMerge(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(merge, 'Suggestion rejected'));
+  })
+);
+
+/**
+ * @route   POST /api/activities/merges/:id/undo
+ * @desc    Split an accepted merge back into the activities it combined
+ * @access  Private
+ */
+router.post(
+  '/merges/:id/undo',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const merge = await canonicalService.undoMerge(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(merge, 'Merge undone'));
+  })
+);
+
+/**
+ * @route   GET /api/activities
+ * @desc    The user's canonical activities and the wordings (aliases) clustered under each
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const activities = await canonicalService.listActivities(req.user.id);
+    res.json(successResponse(activities));
+  })
+);
+
+/**
+ * @route   POST /api/activities/merge
+ * @desc    Merge activities into the first one, e.g. { activityIds: ["<gym>", "<workout>"], name: "Gym" }
+ * @access  Private
+ * @body    activityIds - Two or more activity IDs; the first one is kept
+ * @body    name - Optional name of the merged activity (default: the first one's)
+ */
+router.post(
+  '/merge',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { activityIds, name } = req.body as Record<string, unknown>;
+    const merge = await canonicalService.mergeActivities(req.user.id, activityIds, name);
+    res.status(201).json(successResponse(merge, 'Activities merged'));
+  })
+);
+
+/**
+ * @route   PATCH /api/activities/:id
+ * @desc    Rename an activity
+ * @access  Private
+ * @body    name - Up to 60 characters
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { name } = req.body as Record<string, unknown>;
+    const activity = await canonicalService.renameActivity(req.user.id, req.params['id'] ?? '', name);
+    res.json(successResponse(activity, 'Activity renamed'));
+  })
+);
+
+/**
+ * @route   DELETE /api/activities/:id/aliases/:alias
+ * @desc    Move a wording out of an activity into an activity of its own
+ * @access  Private
+ */
+router.delete(
+  '/:id/aliases/:alias',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const activity = await canonicalService.splitAlias(req.user.id, req.params['id'] ?? '', req.params['alias'] ?? '');
+    res.status(201).json(successResponse(activity, 'Alias split into its own activity'));
+  })
+);
+
+export default router;
@@ -0,0 +1,347 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate, requirePermissions } from '../middleware/auth.middleware';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { reconciliation } from '../services/reconcile.service';
+import { prompts } from '../services/prompt.service';
+import { backfill, BackfillOptions } from '../services/backfill.service';
+import { aiService } from '../services/ai.service';
+import { rulesService } from '../services/rules';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Auth0 RBAC permission required for maintenance routes
+ */
+const ADMIN_PERMISSION = 'admin:maintenance';
+
+/**
+ * @route   POST /api/admin/repair
+ * @desc    Reconcile activity trackers and weekly summaries with existing logs
+ *          (removes entries for deleted logs, recomputes counts, marks mismatched summaries stale)
+ * @access  Admin (admin:maintenance permission)
+ * @body    { userId?: string, dryRun?: boolean }
+ * @returns RepairReport
+ */
+router.post(
+  '/repair',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { userId, dryRun } = req.body as { userId?: unknown; dryRun?: unknown };
+
+    if (userId !== undefined && (typeof userId !== 'string' || !/^[a-f0-9]{24}$/i.test(userId))) {
+      throw new ValidationError('userId must be a valid ObjectId');
+    }
+
+    logger.info(`Repair run requested by ${req.user.id}`, { userId, dryRun: dryRun === true });
+
+    const report = await reconciliation.repair({
+      userId: userId as string | undefined,
+      dryRun: dryRun === true,
+    });
+
+    res.json(successResponse(report, report.dryRun ? 'Repair dry run complete' : 'Repair complete'));
+  })
+);
+
+/**
+ * @route   GET /api/admin/prompts
+ * @desc    List registered prompt templates with their versions and the active one
+ * @access  Admin (admin:maintenance permission)
+ * @returns PromptSummary[]
+ */
+router.get(
+  '/prompts',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    res.json(successResponse(prompts.list()));
+  })
+);
+
+/**
+ * @route   GET /api/admin/prompts/:name/diff
+ * @desc    Unified diff between two versions of a prompt template
+ * @access  Admin (admin:maintenance permission)
+ * @query   from - Older version (default: the version before `to`)
+ * @query   to - Newer version (default: the active version)
+ * @returns { name, from, to, diff, fromTemplate, toTemplate }
+ */
+router.get(
+  '/prompts/:name/diff',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const name = req.params['name'] || '';
+    if (!prompts.has(name)) {
+      res.status(404).json({
+        success: false,
+        error: { message: `Prompt "${name}" not found`, statusCode: 404 },
+      });
+      return;
+    }
+
+    const parseVersion = (value: unknown, field: string): number | undefined => {
+      if (value === undefined) return undefined;
+      const version = Number(value);
+      if (!Number.isInteger(version) || !prompts.has(name, version)) {
+        throw new ValidationError(`${field} must be an existing version of ${name}`);
+      }
+      return version;
+    };
+
+    const to = parseVersion(req.query['to'], 'to') ?? prompts.activeVersion(name);
+    const from = parseVersion(req.query['from'], 'from') ?? Math.max(1, to - 1);
+    if (!prompts.has(name, from)) {
+      throw new ValidationError(`${name}@v${from} does not exist; pass an explicit "from" version`);
+    }
+
+    res.json(successResponse({
+      name,
+      from,
+      to,
+      diff: prompts.diff(name, from, to),
+      fromTemplate: prompts.get(name, from),
+      toTemplate: prompts.get(name, to),
+    }));
+  })
+);
+
+/**
+ * @route   GET /api/admin/analysis-metrics
+ * @desc    Average model calls, latency and tokens per analysed log, by pipeline
+ *          (single-call vs staged), to compare the cost of the two
+ * @access  Admin (admin:maintenance permission)
+ * @query   since - Only logs analysed from this date (ISO)
+ * @returns AnalysisMetricsSummary[]
+ */
+router.get(
+  '/analysis-metrics',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const since = req.query['since'];
+    const sinceDate = typeof since === 'string' ? new Date(since) : undefined;
+    if (since !== undefined && (!sinceDate || isNaN(sinceDate.getTime()))) {
+      throw new ValidationError('since must be an ISO date');
+    }
+
+    res.json(successResponse(await aiService.getAnalysisMetrics(sinceDate)));
+  })
+);
+
+/**
+ * @route   GET /api/admin/rule-disagreements
+ * @desc    Logs whose AI classification the rule classifier disagreed with
+ *          (recorded when RULES_CROSS_CHECK=true), most recent first
+ * @access  Admin (admin:maintenance permission)
+ * @query   limit - Logs to return (1-200, default 50)
+ * @returns FlaggedLog[]
+ */
+router.get(
+  '/rule-disagreements',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const limit = req.query['limit'] === undefined ? 50 : Number(req.query['limit']);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      throw new ValidationError('limit must be an integer between 1 and 200');
+    }
+
+    res.json(successResponse(await rulesService.getFlaggedLogs(limit)));
+  })
+);
+
+/**
+ * Validate the body of a backfill request
+ * @throws ValidationError on malformed fields
+ */
+const parseBackfillOptions = (body: Record<string, unknown>): BackfillOptions & { dryRun: boolean } => {
+  const { userId, from, to, prompt, promptVersion, ratePerMinute, dryRun } = body;
+
+  if (userId !== undefined && (typeof userId !== 'string' || !/^[a-f0-9]{24}$/i.test(userId))) {
+    throw new ValidationError('userId must be a valid ObjectId');
+  }
+
+  const parseDate = (value: unknown, field: string): Date | undefined => {
+    if (value === undefined) return undefined;
+    const date = new Date(value as string);
+    if (typeof value !== 'string' || isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be an ISO date`);
+    }
+    return date;
+  };
+  const fromDate = parseDate(from, 'from');
+  const toDate = parseDate(to, 'to');
+  if (fromDate && toDate && fromDate >= toDate) {
+    throw new ValidationError('from must be before to');
+  }
+
+  if (prompt !== undefined && prompt !== 'categorize' && prompt !== 'analyze') {
+    throw new ValidationError('prompt must be "categorize" or "analyze"');
+  }
+  const promptName = prompt || 'categorize';
+  if (promptVersion !== undefined && !(Number.isInteger(promptVersion) && prompts.has(promptName, promptVersion as number))) {
+    throw new ValidationError(`promptVersion must be an existing version of the ${promptName} prompt`);
+  }
+  if (ratePerMinute !== undefined && !(typeof ratePerMinute === 'number' && ratePerMinute >= 1 && ratePerMinute <= 600)) {
+    throw new ValidationError('ratePerMinute must be a number between 1 and 600');
+  }
+
+  return {
+    userId: userId as string | undefined,
+    from: fromDate,
+    to: toDate,
+    prompt: promptName,
+    promptVersion: promptVersion as number | undefined,
+    ratePerMinute: ratePerMinute as number | undefined,
+    dryRun: dryRun === true,
+  };
+};
+
+/**
+ * Backfill run ID from the route
+ * @throws ValidationError when it isn't an ObjectId
+ */
+const parseRunId = (id: string | undefined): string => {
+  if (!id || !/^[a-f0-9]{24}$/i.test(id)) {
+    throw new ValidationError('Invalid backfill run ID');
+  }
+  return id;
+};
+
+/**
+ * Process a backfill run in the background; the run records its own failures
+ */
+const executeInBackground = (runId: string): void => {
+  backfill.execute(runId).catch((error) => {
+    logger.error(`Backfill run ${runId} crashed:`, error);
+  });
+};
+
+/**
+ * @route   POST /api/admin/backfill
+ * @desc    Re-run categorization and activity analysis over historical logs,
+ *          then rebuild the affected activity trackers and weekly summaries
+ * @access  Admin (admin:maintenance permission)
+ * @body    { userId?: string, from?: string, to?: string, prompt?: 'categorize' | 'analyze', promptVersion?: number,
+ *            ratePerMinute?: number, dryRun?: boolean }
+ * @returns BackfillPreview for dry runs, otherwise the started BackfillRun (202)
+ */
+router.post(
+  '/backfill',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { dryRun, ...options } = parseBackfillOptions(req.body as Record<string, unknown>);
+
+    if (dryRun) {
+      const preview = await backfill.preview(options);
+      res.json(successResponse(preview, 'Backfill dry run complete'));
+      return;
+    }
+
+    const run = await backfill.start({ ...options, requestedBy: req.user.id });
+    logger.info(`Backfill run ${run._id} requested by ${req.user.id}`);
+    executeInBackground(run._id.toString());
+
+    res.status(202).json(successResponse(run, 'Backfill started'));
+  })
+);
+
+/**
+ * @route   GET /api/admin/backfill
+ * @desc    Recent backfill runs with their progress, newest first
+ * @access  Admin (admin:maintenance permission)
+ * @returns BackfillRun[]
+ */
+router.get(
+  '/backfill',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    res.json(successResponse(await backfill.list()));
+  })
+);
+
+/**
+ * @route   GET /api/admin/backfill/:id
+ * @desc    Progress of a backfill run
+ * @access  Admin (admin:maintenance permission)
+ * @returns BackfillRun
+ */
+router.get(
+  '/backfill/:id',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const run = await backfill.getRun(parseRunId(req.params['id']));
+    if (!run) {
+      throw new NotFoundError('Backfill run not found');
+    }
+
+    res.json(successResponse(run));
+  })
+);
+
+/**
+ * @route   POST /api/admin/backfill/:id/pause
+ * @desc    Stop a running backfill after the log it is working on
+ * @access  Admin (admin:maintenance permission)
+ * @returns BackfillRun
+ */
+router.post(
+  '/backfill/:id/pause',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const run = await backfill.pause(parseRunId(req.params['id']));
+    if (!run) {
+      throw new NotFoundError('Backfill run not found');
+    }
+
+    res.json(successResponse(run, 'Backfill pausing'));
+  })
+);
+
+/**
+ * @route   POST /api/admin/backfill/:id/resume
+ * @desc    Continue a paused, failed or abandoned backfill after the last log it visited
+ * @access  Admin (admin:maintenance permission)
+ * @returns BackfillRun (202)
+ */
+router.post(
+  '/backfill/:id/resume',
+  authenticate,
+  requirePermissions(ADMIN_PERMISSION),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const run = await backfill.resume(parseRunId(req.params['id']));
+    if (!run) {
+      throw new NotFoundError('Backfill run not found');
+    }
+
+    executeInBackground(run._id.toString());
+    res.status(202).json(successResponse(run, 'Backfill resumed'));
+  })
+);
+
+export default router;
@@ -0,0 +1,109 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { categoryService } from '../services/category.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/categories
+ * @desc    The categories the current user's activities are scored in: the
+ *          built-in ones (with the user's changes) and the user's own
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    res.json(successResponse(await categoryService.getCategories(req.user.id)));
+  })
+);
+
+/**
+ * @route   POST /api/categories
+ * @desc    Add a category, e.g. { label: "Game Dev", positive: "Designing, prototyping or playtesting games" }
+ * @access  Private
+ * @body    label - Name shown to the user (1-30 characters)
+ * @body    key - Optional ID used in points and classifications; derived from the label by default
+ * @body    positive - What earns an activity +1; negative - what costs it -1 (at least one of them)
+ * @body    description, emoji, color { dark, light } - Optional
+ */
+router.post(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { key, label, description, emoji, color, positive, negative } = req.body as Record<string, unknown>;
+    const category = await categoryService.createCategory(req.user.id, { key, label, description, emoji, color, positive, negative });
+    res.status(201).json(successResponse(category, 'Category created'));
+  })
+);
+
+/**
+ * @route   PATCH /api/categories/:key
+ * @desc    Change a category; for a built-in category, change how it is
+ *          shown and scored for the current user only
+ * @access  Private
+ */
+router.patch(
+  '/:key',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { key, label, description, emoji, color, positive, negative } = req.body as Record<string, unknown>;
+    const category = await categoryService.updateCategory(
+      req.user.id,
+      req.params['key'] ?? '',
+      { key, label, description, emoji, color, positive, negative }
+    );
+    res.json(successResponse(category, 'Category updated'));
+  })
+);
+
+/**
+ * @route   DELETE /api/categories/:key
+ * @desc    Delete a category (409 while rules score in it), or reset a built-in category
+ * @access  Private
+ */
+router.delete(
+  '/:key',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { reset } = await categoryService.deleteCategory(req.user.id, req.params['key'] ?? '');
+    res.json(successResponse(null, reset ? 'Category reset' : 'Category deleted'));
+  })
+);
+
+export default router;
@@ -0,0 +1,175 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { goalService } from '../services/goal.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/goals
+ * @desc    The user's goals with their progress in the current and previous periods
+ * @access  Private
+ * @query   archived - "true" to include archived goals
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const goals = await goalService.listGoals(req.user.id, req.query['archived'] === 'true');
+    res.json(successResponse(goals));
+  })
+);
+
+/**
+ * @route   POST /api/goals
+ * @desc    Add a goal, e.g. { title: "Exercise 4x/week", activities: ["exercise", "gym"],
+ *          target: { amount: 4, unit: "times", period: "week" } }
+ * @access  Private
+ * @body    title - Up to 100 characters
+ * @body    activities - 1 to 10 activities that count toward the goal
+ * @body    target - amount, unit (times | minutes, default times) and period (day | week | month)
+ */
+router.post(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { title, activities, target } = req.body as Record<string, unknown>;
+    const goal = await goalService.createGoal(req.user.id, { title, activities, target });
+    res.status(201).json(successResponse(goal, 'Goal created'));
+  })
+);
+
+/**
+ * @route   GET /api/goals/:id
+ * @desc    A goal with its progress and recent check-ins
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const goal = await goalService.getGoal(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(goal));
+  })
+);
+
+/**
+ * @route   PATCH /api/goals/:id
+ * @desc    Change a goal's title, activities or target, or archive it
+ * @access  Private
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { title, activities, target, archived } = req.body as Record<string, unknown>;
+    const goal = await goalService.updateGoal(req.user.id, req.params['id'] ?? '', { title, activities, target, archived });
+    res.json(successResponse(goal, 'Goal updated'));
+  })
+);
+
+/**
+ * @route   DELETE /api/goals/:id
+ * @desc    Delete a goal and its check-ins
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    await goalService.deleteGoal(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(null, 'Goal deleted'));
+  })
+);
+
+/**
+ * @route   POST /api/goals/:id/check-ins
+ * @desc    Record progress that wasn't mentioned in a log
+ * @access  Private
+ * @body    amount - Times (default 1) or minutes, in the goal's unit
+ * @body    date - When it happened (default now)
+ * @body    note - Optional, up to 200 characters
+ */
+router.post(
+  '/:id/check-ins',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { amount, date, note } = req.body as Record<string, unknown>;
+    const result = await goalService.checkIn(req.user.id, req.params['id'] ?? '', { amount, date, note });
+    res.status(201).json(successResponse(result, 'Checked in'));
+  })
+);
+
+/**
+ * @route   DELETE /api/goals/:id/check-ins/:checkInId
+ * @desc    Delete a check-in
+ * @access  Private
+ */
+router.delete(
+  '/:id/check-ins/:checkInId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const goal = await goalService.deleteCheckIn(req.user.id, req.params['id'] ?? '', req.params['checkInId'] ?? '');
+    res.json(successResponse(goal, 'Check-in deleted'));
+  })
+);
+
+export default router;
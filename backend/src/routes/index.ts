@@ -4,5 +4,13 @@
 
 export { default as authRoutes } from './auth.routes';
 export { default as logRoutes } from './log.routes';
+export { default as uploadRoutes } from './upload.routes';
 export { default as summaryRoutes } from './summary.routes';
 export { default as chatRoutes } from './chat.routes';
+export { default as storageRoutes } from './storage.routes';
+export { default as adminRoutes } from './admin.routes';
+export { default as usageRoutes } from './usage.routes';
+export { default as rulesRoutes } from './rules.routes';
+export { default as categoriesRoutes } from './categories.routes';
+export { default as activitiesRoutes } from './activities.routes';
+export { default as goalsRoutes } from './goals.routes';
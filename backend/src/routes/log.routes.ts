@@ -6,28 +6,28 @@ import { authenticate } from '../middleware/auth.middleware';
 import { asyncHandler, ValidationError } from '../middleware/error.middleware';
 import { successResponse, paginatedResponse, parsePagination } from '../utils/response';
 import { audioService } from '../services/audio.service';
-import { aiService } from '../services/ai.service';
+import { logPipeline } from '../services/pipeline.service';
 import { logger } from '../utils/logger';
+import { ALLOWED_AUDIO_TYPES } from '../utils/audio.utils';
+import { CAPTION_CONTENT_TYPES, CAPTION_FORMATS, CaptionFormat, formatCaptions } from '../utils/captions.utils';
 
 const router = Router();
 
 /**
- * Allowed audio MIME types (MP3, WAV, and WebM for browser compatibility)
+ * Max file size: 10MB
  */
-const ALLOWED_AUDIO_TYPES = [
-  'audio/mp3',
-  'audio/mpeg',      // MP3
-  'audio/wav',
-  'audio/x-wav',     // WAV
-  'audio/wave',
-  'audio/webm',      // WebM (browser default)
-  'audio/ogg',       // Ogg Vorbis
-];
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
 /**
- * Max file size: 10MB
+ * Max length of a typed text entry (characters)
  */
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_TEXT_ENTRY_LENGTH = 10000;
+
+/**
+ * Search query length limits (characters)
+ */
+const MIN_SEARCH_QUERY_LENGTH = 2;
+const MAX_SEARCH_QUERY_LENGTH = 200;
 
 /**
  * Multer configuration for audio file uploads
@@ -60,7 +60,7 @@ const handleMulterError = (err: unknown, res: Response): boolean => {
       res.status(400).json({
         success: false,
         error: {
-          message: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`,
+          message: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB; use /api/log/uploads for larger recordings.`,
           statusCode: 400,
           code: 'FILE_TOO_LARGE',
         },
@@ -87,10 +87,12 @@ const handleMulterError = (err: unknown, res: Response): boolean => {
  * @desc    Upload audio file for transcription and logging
  *          1. Accept single audio file (field: "audio")
  *          2. Validate file type (MP3, WAV) and size (< 10MB)
- *          3. Upload to Cloudinary (or local storage for dev)
+ *          3. Store via the configured storage adapter (Cloudinary, S3, local)
  *          4. Call transcribeAudio(audioUrl) service
  *          5. Save AudioLog { userId, transcript, timestamp }
  *          6. Respond { success: true, message: "Log uploaded", logId }
+ *          Storage and transcription failures surface through the error handler
+ *          as UPLOAD_FAILURE / TRANSCRIPTION_FAILURE (502, 503 or 504)
  * @access  Private
  * @body    multipart/form-data with 'audio' field
  */
@@ -147,80 +149,124 @@ router.post(
     // Get title from form data
     const title = req.body.title as string | undefined;
 
-    try {
-      // Process the audio upload:
-      // 1. Upload to Cloudinary (if configured, else skip)
-      // 2. Transcribe via OnDemand Media API
-      // 3. Save to AudioLog
-      const result = await audioService.processAudioUpload(
-        req.user.id,
-        req.file.buffer,
-        req.file.mimetype,
-        req.file.originalname,
-        title
-      );
-
-      // Update user streak
-      const { User } = await import('../models/User');
-      const user = await User.findById(req.user.id);
-      if (user) {
-        await user.updateStreak();
-        logger.info(`Streak updated for user ${req.user.id}: ${user.streakCount} days`);
-      }
+    // Process the audio upload:
+    // 1. Check the content matches the declared type; read duration, sample rate, channels
+    // 2. Store the file (Cloudinary, S3-compatible or local disk)
+    // 3. Transcribe via the configured provider
+    // 4. Save to AudioLog
+    const result = await audioService.processAudioUpload(
+      req.user.id,
+      req.file.buffer,
+      req.file.mimetype,
+      req.file.originalname,
+      title
+    );
+
+    // Update user streak
+    const { User } = await import('../models/User');
+    const user = await User.findById(req.user.id);
+    if (user) {
+      await user.updateStreak();
+      logger.info(`Streak updated for user ${req.user.id}: ${user.streakCount} days`);
+    }
 
-      // Optionally categorize the transcript asynchronously
-      aiService.categorizeAudioLog(result.audioLog._id.toString(), req.user.id)
-        .catch((error) => logger.error('Background categorization failed:', error));
-
-      // Success response: { success: true, message: "Log uploaded", logId }
-      res.status(201).json({
-        success: true,
-        message: 'Log uploaded',
-        logId: result.audioLog._id.toString(),
-        data: {
-          transcript: result.transcript,
-          duration: result.duration,
-          audioUrl: result.audioUrl,
-          timestamp: result.audioLog.timestamp,
-          streak: user ? {
-            current: user.streakCount,
-            longest: user.longestStreak,
-          } : null,
-        },
+    // Queue categorization and activity tracking on the durable job queue
+    // (a log left pending here can be recovered via POST /api/log/:id/retry)
+    await logPipeline.enqueue(result.audioLog._id.toString(), req.user.id)
+      .catch((error) => logger.error('Failed to queue log processing:', error));
+
+    // Success response: { success: true, message: "Log uploaded", logId }
+    res.status(201).json({
+      success: true,
+      message: 'Log uploaded',
+      logId: result.audioLog._id.toString(),
+      data: {
+        transcript: result.transcript,
+        duration: result.duration,
+        audioUrl: result.audioUrl,
+        timestamp: result.audioLog.timestamp,
+        streak: user ? {
+          current: user.streakCount,
+          longest: user.longestStreak,
+        } : null,
+      },
+    });
+  })
+);
+
+/**
+ * @route   POST /api/log/text
+ * @desc    Create a journal entry from typed text
+ * @access  Private
+ * @body    { text: string, title?: string }
+ * @returns { success: true, message: "Log saved", logId }
+ */
+router.post(
+  '/text',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
       });
-    } catch (error) {
-      // Error: Cloudinary/upload failure or transcription failure
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      if (errorMessage.includes('Cloudinary')) {
-        logger.error('Cloudinary upload failure:', error);
-        res.status(500).json({
-          success: false,
-          error: {
-            message: 'Failed to upload audio file to storage.',
-            statusCode: 500,
-            code: 'UPLOAD_FAILURE',
-          },
-        });
-        return;
-      }
+      return;
+    }
 
-      if (errorMessage.includes('Transcription') || errorMessage.includes('transcription')) {
-        logger.error('Transcription failure:', error);
-        res.status(500).json({
-          success: false,
-          error: {
-            message: 'Failed to transcribe audio file.',
-            statusCode: 500,
-            code: 'TRANSCRIPTION_FAILURE',
-          },
-        });
-        return;
-      }
+    const { text, title } = req.body as { text?: unknown; title?: unknown };
 
-      // Re-throw for global error handler
-      throw error;
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Entry text is required', statusCode: 400, code: 'MISSING_TEXT' },
+      });
+      return;
     }
+
+    if (text.length > MAX_TEXT_ENTRY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `Entry is too long. Maximum length is ${MAX_TEXT_ENTRY_LENGTH} characters.`,
+          statusCode: 400,
+          code: 'TEXT_TOO_LONG',
+        },
+      });
+      return;
+    }
+
+    const audioLog = await audioService.createTextLog(
+      req.user.id,
+      text,
+      typeof title === 'string' ? title : undefined
+    );
+
+    // Update user streak
+    const { User } = await import('../models/User');
+    const user = await User.findById(req.user.id);
+    if (user) {
+      await user.updateStreak();
+      logger.info(`Streak updated for user ${req.user.id}: ${user.streakCount} days`);
+    }
+
+    // Same categorization and activity tracking pipeline as recordings
+    await logPipeline.enqueue(audioLog._id.toString(), req.user.id)
+      .catch((error) => logger.error('Failed to queue log processing:', error));
+
+    res.status(201).json({
+      success: true,
+      message: 'Log saved',
+      logId: audioLog._id.toString(),
+      data: {
+        source: audioLog.source,
+        transcript: audioLog.transcript,
+        timestamp: audioLog.timestamp,
+        streak: user ? {
+          current: user.streakCount,
+          longest: user.longestStreak,
+        } : null,
+      },
+    });
   })
 );
 
@@ -262,6 +308,73 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/log/search
+ * @desc    Full-text search over transcripts with ranked, highlighted snippets
+ * @access  Private
+ * @query   q (required), page, limit, startDate, endDate, category, sentiment, keyword
+ * @returns Logs ordered by relevance, each with `score`, `position` and `snippets`
+ */
+router.get(
+  '/search',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const query = typeof req.query['q'] === 'string' ? req.query['q'].trim() : '';
+
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `Search query must be at least ${MIN_SEARCH_QUERY_LENGTH} characters`,
+          statusCode: 400,
+          code: 'MISSING_QUERY',
+        },
+      });
+      return;
+    }
+
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new ValidationError(`Search query cannot exceed ${MAX_SEARCH_QUERY_LENGTH} characters`);
+    }
+
+    const { page, limit } = parsePagination(req.query as { page?: string; limit?: string });
+    const skip = (page - 1) * limit;
+
+    // Parse optional filters
+    const startDate = req.query['startDate'] ? new Date(req.query['startDate'] as string) : undefined;
+    const endDate = req.query['endDate'] ? new Date(req.query['endDate'] as string) : undefined;
+
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      throw new ValidationError('Invalid startDate or endDate');
+    }
+
+    const { results, total } = await audioService.searchAudioLogs(req.user.id, query, {
+      startDate,
+      endDate,
+      category: req.query['category'] as string | undefined,
+      sentiment: req.query['sentiment'] as string | undefined,
+      keyword: req.query['keyword'] as string | undefined,
+    }, { limit, skip });
+
+    const data = results.map(({ log, score, position, snippets }) => ({
+      ...log.toJSON(),
+      score,
+      position,
+      snippets,
+    }));
+
+    res.json(paginatedResponse(data, total, page, limit));
+  })
+);
+
 /**
  * @route   GET /api/log/:id
  * @desc    Get a specific audio log
@@ -302,9 +415,279 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/log/:id/audio
+ * @desc    Get a signed, time-limited playback URL for a log's recording
+ *          Fails with PLAYBACK_UNAVAILABLE (503) when the recording's storage
+ *          can't sign URLs, e.g. local storage without STORAGE_SIGNING_SECRET
+ * @access  Private
+ * @returns { url, expiresAt }
+ */
+router.get(
+  '/:id/audio',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const logId = req.params['id'];
+    if (!logId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Log ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const playback = await audioService.getPlaybackUrl(logId, req.user.id);
+
+    if (!playback) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Audio not found for this log', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.json(successResponse(playback));
+  })
+);
+
+/**
+ * @route   GET /api/log/:id/captions
+ * @desc    Export a log's timestamped transcript segments as captions
+ * @access  Private
+ * @query   format - 'vtt' (default) or 'srt'
+ * @returns Caption file (text/vtt or application/x-subrip) as an attachment
+ */
+router.get(
+  '/:id/captions',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const logId = req.params['id'];
+    if (!logId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Log ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const format = (req.query['format'] as string | undefined) || 'vtt';
+    if (!CAPTION_FORMATS.includes(format as CaptionFormat)) {
+      throw new ValidationError(`Invalid caption format. Must be one of: ${CAPTION_FORMATS.join(', ')}`);
+    }
+
+    const audioLog = await audioService.getAudioLog(logId, req.user.id);
+
+    if (!audioLog) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Audio log not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    if (!audioLog.segments.length) {
+      res.status(404).json({
+        success: false,
+        error: {
+          message: 'No timestamped transcript is available for this log',
+          statusCode: 404,
+          code: 'NO_SEGMENTS',
+        },
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', CAPTION_CONTENT_TYPES[format as CaptionFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="log-${audioLog._id}.${format}"`);
+    res.send(formatCaptions(audioLog.segments, format as CaptionFormat));
+  })
+);
+
+/**
+ * @route   GET /api/log/:id/status
+ * @desc    Get the AI processing status of a log and its latest job
+ * @access  Private
+ * @returns { logId, processingStatus, processingError, job }
+ */
+router.get(
+  '/:id/status',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const logId = req.params['id'];
+    if (!logId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Log ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const state = await logPipeline.getState(logId, req.user.id);
+
+    if (!state) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Audio log not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.json(successResponse(state));
+  })
+);
+
+/**
+ * @route   POST /api/log/:id/retry
+ * @desc    Re-queue AI processing for a log that failed or never finished
+ * @access  Private
+ * @returns 202 with the queued job; 409 if already queued or processed
+ */
+router.post(
+  '/:id/retry',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const logId = req.params['id'];
+    if (!logId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Log ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const job = await logPipeline.retry(logId, req.user.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Audio log not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.status(202).json(successResponse({
+      logId,
+      processingStatus: 'pending',
+      jobId: job._id.toString(),
+    }, 'Log queued for processing'));
+  })
+);
+
+/**
+ * @route   PATCH /api/log/:id
+ * @desc    Edit a log's transcript and/or title; the previous version is kept in `revisions`
+ * @access  Private
+ * @body    { transcript?: string, title?: string }
+ * @returns The updated log; an edited transcript is re-analysed in the background
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const logId = req.params['id'];
+    if (!logId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Log ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const { transcript, title } = req.body as { transcript?: unknown; title?: unknown };
+
+    if (transcript === undefined && title === undefined) {
+      throw new ValidationError('Provide a transcript or title to update');
+    }
+
+    if (transcript !== undefined && (typeof transcript !== 'string' || !transcript.trim())) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Transcript cannot be empty', statusCode: 400, code: 'MISSING_TEXT' },
+      });
+      return;
+    }
+
+    if (typeof transcript === 'string' && transcript.length > MAX_TEXT_ENTRY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `Transcript is too long. Maximum length is ${MAX_TEXT_ENTRY_LENGTH} characters.`,
+          statusCode: 400,
+          code: 'TEXT_TOO_LONG',
+        },
+      });
+      return;
+    }
+
+    if (title !== undefined && typeof title !== 'string') {
+      throw new ValidationError('Title must be a string');
+    }
+
+    const result = await audioService.updateAudioLog(logId, req.user.id, { transcript, title });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Audio log not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    const { audioLog, transcriptChanged } = result;
+
+    // Categorization and the activity tracker entry are redone for the new transcript
+    if (transcriptChanged) {
+      await logPipeline.reanalyze(audioLog);
+      audioLog.processingStatus = 'pending';
+    }
+
+    res.json(successResponse(audioLog, transcriptChanged ? 'Log updated; re-analysing' : 'Log updated'));
+  })
+);
+
 /**
  * @route   DELETE /api/log/:id
- * @desc    Delete an audio log (also removes from Cloudinary if stored there)
+ * @desc    Delete an audio log (also removes the stored audio file)
  * @access  Private
  */
 router.delete(
@@ -0,0 +1,138 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler, ValidationError } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { rulesService } from '../services/rules';
+
+const router = Router();
+
+/**
+ * Longest text accepted by the rule tester
+ */
+const MAX_TEST_TEXT_LENGTH = 10000;
+
+/**
+ * @route   GET /api/rules
+ * @desc    The current user's keyword rules and the built-in lexicon
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const rules = await rulesService.listRules(req.user.id);
+    res.json(successResponse({ rules, defaults: rulesService.getDefaultRules() }));
+  })
+);
+
+/**
+ * @route   POST /api/rules
+ * @desc    Add a keyword rule, e.g. { keyword: "reels", category: "consumption", points: -1 }
+ * @access  Private
+ * @body    keyword - Word or phrase; a trailing * matches any ending
+ * @body    category - ID of one of the user's categories (see GET /api/categories)
+ * @body    points - Non-zero integer between -3 and 3
+ */
+router.post(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { keyword, category, points } = req.body as Record<string, unknown>;
+    const rule = await rulesService.createRule(req.user.id, { keyword, category, points });
+    res.status(201).json(successResponse(rule, 'Rule created'));
+  })
+);
+
+/**
+ * @route   POST /api/rules/test
+ * @desc    Extract and classify a text with the rule classifier, including the user's rules
+ * @access  Private
+ * @body    text - Text to analyse
+ */
+router.post(
+  '/test',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { text } = req.body as { text?: unknown };
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new ValidationError('text is required');
+    }
+    if (text.length > MAX_TEST_TEXT_LENGTH) {
+      throw new ValidationError(`text cannot exceed ${MAX_TEST_TEXT_LENGTH} characters`);
+    }
+
+    res.json(successResponse(await rulesService.analyze(text, req.user.id)));
+  })
+);
+
+/**
+ * @route   PATCH /api/rules/:id
+ * @desc    Change the keyword, category or points of a rule
+ * @access  Private
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { keyword, category, points } = req.body as Record<string, unknown>;
+    const rule = await rulesService.updateRule(req.user.id, req.params['id'] ?? '', { keyword, category, points });
+    res.json(successResponse(rule, 'Rule updated'));
+  })
+);
+
+/**
+ * @route   DELETE /api/rules/:id
+ * @desc    Delete a rule
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    await rulesService.deleteRule(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(null, 'Rule deleted'));
+  })
+);
+
+export default router;
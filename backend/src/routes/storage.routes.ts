@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/error.middleware';
+import { errorResponse } from '../utils/response';
+import { getStorageAdapter, LocalStorageAdapter } from '../services/storage';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * @route   GET /api/storage/*
+ * @desc    Serve a file from local storage
+ *          The signed URL is issued by an authenticated endpoint
+ *          (e.g. GET /api/log/:id/audio), so the signature is the credential here.
+ *          Supports Range requests so the browser audio player can seek.
+ * @access  Public (requires valid `expires` + `signature` query params)
+ */
+router.get(
+  '/*',
+  asyncHandler(async (req: Request, res: Response) => {
+    const adapter = getStorageAdapter('local');
+    const key = (req.params as Record<string, string>)['0'] || '';
+    const expires = parseInt(req.query['expires'] as string, 10);
+    const signature = (req.query['signature'] as string) || '';
+
+    if (!(adapter instanceof LocalStorageAdapter) || !adapter.verifySignature(key, expires, signature)) {
+      res.status(403).json(errorResponse('Invalid or expired storage URL', 403, 'INVALID_SIGNATURE'));
+      return;
+    }
+
+    let filePath: string;
+    try {
+      filePath = adapter.resolvePath(key);
+    } catch {
+      res.status(400).json(errorResponse('Invalid storage key', 400));
+      return;
+    }
+
+    // The audio element on the frontend origin must be allowed to load this
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    res.sendFile(filePath, (err) => {
+      if (err && !res.headersSent) {
+        logger.warn(`Storage file not served: ${key}`, { error: err.message });
+        res.status(404).json(errorResponse('File not found', 404));
+      }
+    });
+  })
+);
+
+export default router;
@@ -1,17 +1,24 @@
 import { Router, Response } from 'express';
 import { AuthenticatedRequest } from '../types/express';
 import { authenticate } from '../middleware/auth.middleware';
-import { asyncHandler, NotFoundError } from '../middleware/error.middleware';
+import { asyncHandler, NotFoundError, QuotaExceededError, ValidationError } from '../middleware/error.middleware';
 import { successResponse } from '../utils/response';
 import { aiService } from '../services/ai.service';
+import { categoryService } from '../services/category.service';
+import { correctionService } from '../services/correction.service';
+import { activityService, MAX_HISTORY_DAYS } from '../services/activity.service';
 import { logger } from '../utils/logger';
+import { emptyCategoryCounts } from '../shared/taxonomy';
 
 const router = Router();
 
 /**
  * @route   GET /api/summary/activities
- * @desc    Get activity tracking summary (5 categories based on last 10 logs)
+ * @desc    Get activity tracking summary (points per category of the user, summed over a window of their logs)
  * @access  Private
+ * @query   logs - Most recent logs to count (1-500, default ACTIVITY_WINDOW_LOGS)
+ * @query   days - Only count logs from the last N days (0 = no limit, default ACTIVITY_WINDOW_DAYS)
+ * @query   halfLife - Days after which a log's points count half (0 = no decay, default ACTIVITY_DECAY_HALF_LIFE_DAYS)
  */
 router.get(
   '/activities',
@@ -27,12 +34,19 @@ router.get(
 
     logger.debug(`Fetching activity summary for user ${req.user.id}`);
 
-    const activitySummary = await aiService.getActivitySummary(req.user.id);
+    const window = activityService.parseWindow({
+      logs: req.query['logs'],
+      days: req.query['days'],
+      halfLife: req.query['halfLife'],
+    });
+    const activitySummary = await aiService.getActivitySummary(req.user.id, window);
 
     if (!activitySummary) {
       res.json(
         successResponse({
-          counts: { growth: 0, health: 0, work: 0, consumption: 0, other: 0 },
+          categories: await categoryService.getCategories(req.user.id),
+          counts: emptyCategoryCounts(),
+          window,
           recentLogs: [],
           review: 'Start recording your daily reflections to get personalized insights about your life patterns.',
           totalLogs: 0,
@@ -45,6 +59,37 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/summary/activities/history
+ * @desc    The user's activity counts at the end of each day, for charting momentum per category
+ * @access  Private
+ * @query   days - Days to return, today included (1-180, default 30)
+ */
+router.get(
+  '/activities/history',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const days = req.query['days'] === undefined ? 30 : Number(req.query['days']);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+      throw new ValidationError(`days must be an integer between 1 and ${MAX_HISTORY_DAYS}`);
+    }
+
+    res.json(successResponse({
+      categories: await categoryService.getCategories(req.user.id),
+      window: activityService.defaultWindow,
+      snapshots: await activityService.getHistory(req.user.id, days),
+    }));
+  })
+);
+
 /**
  * @route   POST /api/summary/activities/review
  * @desc    Generate a fresh activity review
@@ -70,6 +115,131 @@ router.post(
   })
 );
 
+/**
+ * @route   POST /api/summary/activities/:logId/details
+ * @desc    Add a classification the AI missed to a log's activity analysis;
+ *          the log's points and the activity counts are recomputed
+ * @access  Private
+ * @body    activity, category (one of the user's categories), points (1 or -1), reasoning (optional)
+ */
+router.post(
+  '/activities/:logId/details',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { activity, category, points, reasoning } = req.body as Record<string, unknown>;
+    const result = await correctionService.addDetail(req.user.id, req.params['logId'] ?? '', { activity, category, points, reasoning });
+    res.status(201).json(successResponse(result, 'Classification added'));
+  })
+);
+
+/**
+ * @route   PATCH /api/summary/activities/:logId/details/:detailId
+ * @desc    Correct the activity, category or points of a classification
+ * @access  Private
+ */
+router.patch(
+  '/activities/:logId/details/:detailId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { activity, category, points, reasoning } = req.body as Record<string, unknown>;
+    const result = await correctionService.updateDetail(
+      req.user.id,
+      req.params['logId'] ?? '',
+      req.params['detailId'] ?? '',
+      { activity, category, points, reasoning }
+    );
+    res.json(successResponse(result, 'Classification corrected'));
+  })
+);
+
+/**
+ * @route   DELETE /api/summary/activities/:logId/details/:detailId
+ * @desc    Remove a wrong classification
+ * @access  Private
+ */
+router.delete(
+  '/activities/:logId/details/:detailId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const result = await correctionService.removeDetail(req.user.id, req.params['logId'] ?? '', req.params['detailId'] ?? '');
+    res.json(successResponse(result, 'Classification removed'));
+  })
+);
+
+/**
+ * @route   GET /api/summary/activities/corrections
+ * @desc    The user's corrections, most recent first; the latest are given
+ *          to the AI as examples when classifying new logs
+ * @access  Private
+ * @query   limit - Corrections to return (1-100, default 50)
+ */
+router.get(
+  '/activities/corrections',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const limit = req.query['limit'] === undefined ? 50 : Number(req.query['limit']);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('limit must be an integer between 1 and 100');
+    }
+
+    res.json(successResponse(await correctionService.listCorrections(req.user.id, limit)));
+  })
+);
+
+/**
+ * @route   DELETE /api/summary/activities/corrections/:id
+ * @desc    Stop giving a correction to the AI as an example
+ * @access  Private
+ */
+router.delete(
+  '/activities/corrections/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    await correctionService.deleteCorrection(req.user.id, req.params['id'] ?? '');
+    res.json(successResponse(null, 'Correction deleted'));
+  })
+);
+
 /**
  * @route   GET /api/summary/:weekId
  * @desc    Get weekly summary for a specific week
@@ -116,6 +286,18 @@ router.get(
     // Get summary for the week
     let summary = await aiService.getSummary(req.user.id, weekId);
 
+    // A deleted log left the stored summary out of date
+    if (summary?.isStale) {
+      logger.info(`Regenerating stale summary for week ${weekId}, user ${req.user.id}`);
+      try {
+        summary = (await aiService.generateWeeklySummary(req.user.id, summary.weekStart)).summary;
+      } catch (error) {
+        // Over the AI quota: serve the out-of-date summary rather than nothing
+        if (!(error instanceof QuotaExceededError)) throw error;
+        logger.info(`Serving stale summary for week ${weekId}: ${error.message}`);
+      }
+    }
+
     // If no summary exists, try to generate one
     if (!summary) {
       // Parse week start date from weekId
@@ -153,7 +335,7 @@ router.get(
           weekEnd: summary.weekEnd,
           metrics: summary.metrics,
           story: summary.story,
-          ttsUrl: summary.ttsUrl,
+          ttsUrl: await aiService.resolveTtsUrl(summary),
           generatedAt: summary.generatedAt,
           isComplete: summary.isComplete,
         },
@@ -195,10 +377,10 @@ router.get(
     // Try to find existing summary
     let summary = await aiService.getSummary(req.user.id, currentWeekId);
 
-    // If no summary exists, auto-generate
-    if (!summary) {
+    // If no summary exists or it is stale, auto-generate
+    if (!summary || summary.isStale) {
       logger.info(`Auto-generating summary for ${currentWeekId}, user ${req.user.id}`);
-      const result = await aiService.generateWeeklySummary(req.user.id, weekStartDate);
+      const result = await aiService.generateWeeklySummary(req.user.id, summary?.weekStart ?? weekStartDate);
       summary = result.summary;
     }
 
@@ -220,7 +402,7 @@ router.get(
           phaseConfidence: derivedPhase.confidence,
           metrics: summary.metrics,
           story: summary.story,
-          ttsUrl: summary.ttsUrl,
+          ttsUrl: await aiService.resolveTtsUrl(summary),
           generatedAt: summary.generatedAt,
           isComplete: summary.isComplete,
           streak: user ? {
@@ -249,7 +431,7 @@ function derivePhaseFromMetrics(metrics: {
 
   if (positiveRatio > 0.7 && categories.includes('work')) {
     return { phase: 'Builder', confidence: Math.round(positiveRatio * 100) };
-  } else if (categories.includes('learning')) {
+  } else if (categories.includes('growth')) {
     return { phase: 'Explorer', confidence: Math.round((positiveRatio + 0.3) * 70) };
   } else if (positiveRatio > 0.5) {
     return { phase: 'Optimizer', confidence: Math.round(positiveRatio * 90) };
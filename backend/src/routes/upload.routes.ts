@@ -0,0 +1,270 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { chunkedUploadService } from '../services/upload.service';
+import { logPipeline } from '../services/pipeline.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Resumable chunked uploads for long recordings
+ * 1. POST   /api/log/uploads                          - initiate, returns uploadId and partSize
+ * 2. PUT    /api/log/uploads/:uploadId/parts/:number  - raw part bytes (application/octet-stream)
+ * 3. POST   /api/log/uploads/:uploadId/complete       - assemble and create the log
+ * Interrupted clients call GET /api/log/uploads/:uploadId and re-send missing parts.
+ */
+
+/**
+ * @route   POST /api/log/uploads
+ * @desc    Start a resumable upload session
+ * @access  Private
+ * @body    { mimeType: string, size: number, filename?: string, title?: string }
+ * @returns { uploadId, partSize, totalParts, receivedParts, expiresAt }
+ */
+router.post(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const { mimeType, size, filename, title } = req.body as {
+      mimeType?: string;
+      size?: number;
+      filename?: string;
+      title?: string;
+    };
+
+    if (!mimeType || size === undefined) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'mimeType and size are required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const session = await chunkedUploadService.initiate(req.user.id, {
+      mimeType,
+      size: Number(size),
+      filename,
+      title,
+    });
+
+    res.status(201).json(successResponse(session, 'Upload session started'));
+  })
+);
+
+/**
+ * @route   GET /api/log/uploads/:uploadId
+ * @desc    Get upload progress (which parts have been received)
+ * @access  Private
+ */
+router.get(
+  '/:uploadId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const uploadId = req.params['uploadId'];
+    if (!uploadId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Upload ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const session = await chunkedUploadService.getState(uploadId, req.user.id);
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Upload session not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.json(successResponse(session));
+  })
+);
+
+/**
+ * @route   PUT /api/log/uploads/:uploadId/parts/:partNumber
+ * @desc    Upload one part; the body is streamed straight to storage
+ * @access  Private
+ * @body    Raw bytes (Content-Type: application/octet-stream, Content-Length required)
+ * @returns { partNumber, etag, bytes }
+ */
+router.put(
+  '/:uploadId/parts/:partNumber',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const uploadId = req.params['uploadId'];
+    const partNumber = parseInt(req.params['partNumber'] || '', 10);
+    if (!uploadId || Number.isNaN(partNumber)) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Upload ID and part number are required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const contentLength = parseInt(req.headers['content-length'] || '', 10);
+    if (Number.isNaN(contentLength)) {
+      res.status(411).json({
+        success: false,
+        error: { message: 'Content-Length header is required', statusCode: 411, code: 'LENGTH_REQUIRED' },
+      });
+      return;
+    }
+
+    const part = await chunkedUploadService.uploadPart(uploadId, req.user.id, partNumber, req, contentLength);
+
+    if (!part) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Upload session not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.json(successResponse(part));
+  })
+);
+
+/**
+ * @route   POST /api/log/uploads/:uploadId/complete
+ * @desc    Assemble the parts and create the audio log
+ * @access  Private
+ * @returns Same shape as POST /api/log; transcription runs in the background
+ */
+router.post(
+  '/:uploadId/complete',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const uploadId = req.params['uploadId'];
+    if (!uploadId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Upload ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const result = await chunkedUploadService.complete(uploadId, req.user.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Upload session not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    const { audioLog, created } = result;
+    const logId = audioLog._id.toString();
+
+    let user = null;
+    if (created) {
+      // Update user streak
+      const { User } = await import('../models/User');
+      user = await User.findById(req.user.id);
+      if (user) {
+        await user.updateStreak();
+        logger.info(`Streak updated for user ${req.user.id}: ${user.streakCount} days`);
+      }
+
+      // Transcription, categorization and activity tracking run on the job queue
+      await logPipeline.enqueue(logId, req.user.id)
+        .catch((error) => logger.error('Failed to queue log processing:', error));
+    }
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: 'Log uploaded',
+      logId,
+      data: {
+        processingStatus: audioLog.processingStatus,
+        duration: audioLog.duration,
+        audioUrl: audioLog.audioUrl,
+        timestamp: audioLog.timestamp,
+        streak: user ? {
+          current: user.streakCount,
+          longest: user.longestStreak,
+        } : null,
+      },
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/log/uploads/:uploadId
+ * @desc    Cancel an upload session and discard its parts
+ * @access  Private
+ */
+router.delete(
+  '/:uploadId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const uploadId = req.params['uploadId'];
+    if (!uploadId) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Upload ID is required', statusCode: 400 },
+      });
+      return;
+    }
+
+    const aborted = await chunkedUploadService.abort(uploadId, req.user.id);
+
+    if (!aborted) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Upload session not found', statusCode: 404 },
+      });
+      return;
+    }
+
+    res.json(successResponse(null, 'Upload cancelled'));
+  })
+);
+
+export default router;
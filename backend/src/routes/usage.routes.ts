@@ -0,0 +1,38 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../types/express';
+import { authenticate } from '../middleware/auth.middleware';
+import { asyncHandler, ValidationError } from '../middleware/error.middleware';
+import { successResponse } from '../utils/response';
+import { usageService } from '../services/usage.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/usage
+ * @desc    AI usage of the current user: today's quota position, and calls,
+ *          tokens and latency by day, task and provider
+ * @access  Private
+ * @query   days - Days to report, today included (1-90, default 7)
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'User not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const days = req.query['days'] === undefined ? 7 : Number(req.query['days']);
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      throw new ValidationError('days must be an integer between 1 and 90');
+    }
+
+    res.json(successResponse(await usageService.getReport(req.user.id, days)));
+  })
+);
+
+export default router;
@@ -7,6 +7,8 @@ import { app } from './app';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import { validateAuth0Config } from './config/auth0';
 import { logger } from './utils/logger';
+import { jobQueue } from './services/queue.service';
+import { validateStorageConfig } from './services/storage';
 
 /**
  * Server configuration
@@ -21,6 +23,9 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`${signal} received. Starting graceful shutdown...`);
   
   try {
+    // Let in-flight background jobs finish
+    await jobQueue.stop();
+
     // Close database connection
     await disconnectDatabase();
     
@@ -55,10 +60,16 @@ const startServer = async (): Promise<void> => {
       logger.warn('⚠️  Auth0 not configured - authentication will not work');
     }
 
+    // Validate storage config (local storage needs a signing secret in production)
+    validateStorageConfig();
+
     // Connect to MongoDB
     logger.info('Connecting to MongoDB...');
     await connectDatabase();
 
+    // Start the background job worker (post-upload AI pipeline)
+    jobQueue.start();
+
     // Start HTTP server
     const server = app.listen(PORT, () => {
       logger.info(`
@@ -0,0 +1,410 @@
+import mongoose from 'mongoose';
+import { ActivityEntry, IActivityEntry } from '../models/ActivityEntry';
+import { ActivityTracker, IActivityCounts, IActivityTracker } from '../models/ActivityTracker';
+import { ActivitySnapshot } from '../models/ActivitySnapshot';
+import { ValidationError } from '../middleware/error.middleware';
+import { emptyCategoryCounts } from '../shared/taxonomy';
+
+/**
+ * Default window activity counts are aggregated over: the last
+ * ACTIVITY_WINDOW_LOGS entries, recorded in the last ACTIVITY_WINDOW_DAYS
+ * days (0 = no day limit), each entry's points halved every
+ * ACTIVITY_DECAY_HALF_LIFE_DAYS days (0 = no decay)
+ */
+const ACTIVITY_WINDOW_LOGS = parseInt(process.env.ACTIVITY_WINDOW_LOGS || '20', 10);
+const ACTIVITY_WINDOW_DAYS = parseInt(process.env.ACTIVITY_WINDOW_DAYS || '0', 10);
+const ACTIVITY_DECAY_HALF_LIFE_DAYS = parseFloat(process.env.ACTIVITY_DECAY_HALF_LIFE_DAYS || '14');
+
+/**
+ * Most entries a window may span
+ */
+export const MAX_WINDOW_LOGS = 500;
+const MAX_WINDOW_DAYS = 3650;
+const MAX_HALF_LIFE_DAYS = 365;
+
+/**
+ * Most days of snapshot history returned at once
+ */
+export const MAX_HISTORY_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Which activity entries counts are aggregated over: the last `logs`
+ * entries, of those recorded in the last `days` days (0 = no day limit),
+ * and how fast their points fade (`halfLifeDays`, 0 = not at all)
+ */
+export interface ActivityWindow {
+  logs: number;
+  days: number;
+  halfLifeDays: number;
+}
+
+/**
+ * A user's counts at the end of a day
+ */
+export interface ActivitySnapshotView {
+  date: string;                     // YYYY-MM-DD (UTC)
+  counts: IActivityCounts;
+  logs: number;                     // Entries recorded that day
+}
+
+/**
+ * Fields of an entry that counts are summed from
+ */
+type WindowEntry = Pick<IActivityEntry, '_id' | 'timestamp' | 'categoryPoints'>;
+
+/**
+ * Fields of an entry set by an analysis of its log
+ */
+export type ActivityEntryInput = Pick<
+  IActivityEntry,
+  'title' | 'timestamp' | 'extractedActivities' | 'classificationDetails' | 'categoryPoints' | 'provenance'
+>;
+
+/**
+ * Activity Service
+ * Keeps one activity entry per analysed log and aggregates the user's
+ * activity counts from a window of them. The tracker caches the counts
+ * over the default window, and daily snapshots keep their history.
+ */
+export class ActivityService {
+  /**
+   * The default window, from ACTIVITY_WINDOW_LOGS, ACTIVITY_WINDOW_DAYS and ACTIVITY_DECAY_HALF_LIFE_DAYS
+   */
+  get defaultWindow(): ActivityWindow {
+    return { logs: ACTIVITY_WINDOW_LOGS, days: ACTIVITY_WINDOW_DAYS, halfLifeDays: ACTIVITY_DECAY_HALF_LIFE_DAYS };
+  }
+
+  /**
+   * A window from query parameters, falling back to the default window
+   * @throws ValidationError for out-of-range values
+   */
+  parseWindow(query: { logs?: unknown; days?: unknown; halfLife?: unknown }): ActivityWindow {
+    const parse = (value: unknown, name: string, min: number, max: number, fallback: number, integer = true): number => {
+      if (value === undefined || value === '') return fallback;
+      const number = Number(value);
+      if (!Number.isFinite(number) || (integer && !Number.isInteger(number)) || number < min || number > max) {
+        throw new ValidationError(`${name} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`);
+      }
+      return number;
+    };
+
+    return {
+      logs: parse(query.logs, 'logs', 1, MAX_WINDOW_LOGS, this.defaultWindow.logs),
+      days: parse(query.days, 'days', 0, MAX_WINDOW_DAYS, this.defaultWindow.days),
+      halfLifeDays: parse(query.halfLife, 'halfLife', 0, MAX_HALF_LIFE_DAYS, this.defaultWindow.halfLifeDays, false),
+    };
+  }
+
+  /**
+   * Store the analysis of a log, replacing an earlier one, and refresh the user's counts
+   * Re-analysis replaces the details the user corrected, so `correctedAt` is cleared.
+   */
+  async recordEntry(userId: string, logId: string, input: ActivityEntryInput): Promise<IActivityTracker> {
+    await ActivityEntry.findOneAndUpdate(
+      { userId: new mongoose.Types.ObjectId(userId), logId: new mongoose.Types.ObjectId(logId) },
+      { $set: input, $unset: { correctedAt: 1 } },
+      { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+    return this.refreshCounts(userId, input.timestamp);
+  }
+
+  /**
+   * A user's entry for a log
+   */
+  async findEntry(userId: string, logId: string): Promise<IActivityEntry | null> {
+    if (!mongoose.Types.ObjectId.isValid(logId)) {
+      return null;
+    }
+    return ActivityEntry.findOne({
+      userId: new mongoose.Types.ObjectId(userId),
+      logId: new mongoose.Types.ObjectId(logId),
+    });
+  }
+
+  /**
+   * A user's entries in a window, oldest first
+   */
+  async listEntries(userId: string, window: ActivityWindow = this.defaultWindow): Promise<IActivityEntry[]> {
+    const entries = await ActivityEntry.find(this.windowFilter(userId, window))
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(window.logs);
+    return entries.reverse();
+  }
+
+  /**
+   * Whether the user has any entries
+   */
+  async hasEntries(userId: string | mongoose.Types.ObjectId): Promise<boolean> {
+    return (await ActivityEntry.exists({ userId: new mongoose.Types.ObjectId(String(userId)) })) !== null;
+  }
+
+  /**
+   * A user's points per category, summed over the entries in a window
+   * With a half-life, each entry's points are halved for every half-life
+   * between its log and `asOf`.
+   * @param options.exclude - Logs left out, e.g. deleted ones not yet pruned
+   * @param options.asOf - Counts as they were at this time (default: now)
+   */
+  async getCounts(
+    userId: string | mongoose.Types.ObjectId,
+    window: ActivityWindow = this.defaultWindow,
+    options: { exclude?: mongoose.Types.ObjectId[]; asOf?: Date } = {}
+  ): Promise<IActivityCounts> {
+    const asOf = options.asOf ?? new Date();
+    const filter = this.windowFilter(String(userId), window, options.asOf);
+    if (options.exclude && options.exclude.length > 0) {
+      filter.logId = { $nin: options.exclude };
+    }
+
+    const decay = window.halfLifeDays > 0
+      ? { $pow: [0.5, { $divide: [{ $max: [0, { $subtract: [asOf, '$timestamp'] }] }, window.halfLifeDays * DAY_MS] }] }
+      : { $literal: 1 };
+
+    const totals = await ActivityEntry.aggregate<{ _id: string; total: number }>([
+      { $match: filter },
+      { $sort: { timestamp: -1, _id: -1 } },
+      { $limit: window.logs },
+      { $project: { points: { $objectToArray: { $ifNull: ['$categoryPoints', {}] } }, decay } },
+      { $unwind: '$points' },
+      { $group: { _id: '$points.k', total: { $sum: { $multiply: ['$points.v', '$decay'] } } } },
+    ]);
+
+    const counts: IActivityCounts = emptyCategoryCounts();
+    for (const { _id: category, total } of totals) {
+      counts[category] = Math.round((total || 0) * 100) / 100;
+    }
+    return counts;
+  }
+
+  /**
+   * Recompute the counts cached on the user's tracker (creating it) and
+   * today's snapshot
+   * @param changedAt - Time of an entry that changed; snapshots from its day on are dropped
+   */
+  async refreshCounts(userId: string | mongoose.Types.ObjectId, changedAt?: Date): Promise<IActivityTracker> {
+    const id = new mongoose.Types.ObjectId(String(userId));
+    if (changedAt) {
+      await this.dropSnapshots(id, changedAt);
+    }
+
+    const counts = await this.getCounts(id);
+    const tracker = await ActivityTracker.findOneAndUpdate(
+      { userId: id },
+      { $set: { counts } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    await this.snapshotDay(id, new Date(), counts);
+    return tracker as IActivityTracker;
+  }
+
+  /**
+   * Remove a log's entry and refresh the user's counts
+   * @returns true when an entry was removed
+   */
+  async removeEntry(userId: mongoose.Types.ObjectId, logId: mongoose.Types.ObjectId): Promise<boolean> {
+    const entry = await ActivityEntry.findOneAndDelete({ userId, logId });
+    if (!entry) {
+      return false;
+    }
+    await this.refreshCounts(userId, entry.timestamp);
+    return true;
+  }
+
+  /**
+   * A user's counts at the end of each of the last `days` days, oldest first
+   * Missing snapshots, and those taken over another window, are computed
+   * together from one aggregation and stored; days before the user's first
+   * entry are all zero. Today's snapshot is always recomputed, as its counts
+   * still fade until the day ends.
+   */
+  async getHistory(userId: string, days: number): Promise<ActivitySnapshotView[]> {
+    const id = new mongoose.Types.ObjectId(userId);
+    const window = this.defaultWindow;
+    const today = this.startOfDay(new Date());
+    const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+    const [first, stored] = await Promise.all([
+      ActivityEntry.findOne({ userId: id }, { timestamp: 1 }).sort({ timestamp: 1 }),
+      ActivitySnapshot.find({
+        userId: id,
+        date: { $gte: from, $lt: today },
+        'window.logs': window.logs,
+        'window.days': window.days,
+        'window.halfLifeDays': window.halfLifeDays,
+      }).lean(),
+    ]);
+    const byDate = new Map(stored.map((snapshot) => [snapshot.date.getTime(), snapshot]));
+    const firstDay = first ? this.startOfDay(first.timestamp).getTime() : Infinity;
+
+    const missing: Date[] = [];
+    for (let time = Math.max(from.getTime(), firstDay); time <= today.getTime(); time += DAY_MS) {
+      if (!byDate.has(time)) {
+        missing.push(new Date(time));
+      }
+    }
+    const computed = await this.snapshotDays(id, missing, window);
+
+    const history: ActivitySnapshotView[] = [];
+    for (let time = from.getTime(); time <= today.getTime(); time += DAY_MS) {
+      const snapshot = byDate.get(time) ?? computed.get(time) ?? { counts: emptyCategoryCounts(), logs: 0 };
+      history.push({ date: new Date(time).toISOString().slice(0, 10), counts: snapshot.counts, logs: snapshot.logs });
+    }
+    return history;
+  }
+
+  /**
+   * Drop a user's snapshots from a day on, after an entry of that day changed
+   */
+  async dropSnapshots(userId: mongoose.Types.ObjectId, from: Date): Promise<void> {
+    await ActivitySnapshot.deleteMany({ userId, date: { $gte: this.startOfDay(from) } });
+  }
+
+  /**
+   * Store a user's counts at the end of a day (or now, for today)
+   * @param counts - Counts already computed for that time
+   */
+  private async snapshotDay(
+    userId: mongoose.Types.ObjectId,
+    day: Date,
+    counts?: IActivityCounts
+  ): Promise<{ counts: IActivityCounts; logs: number }> {
+    const date = this.startOfDay(day);
+    const end = this.endOfDay(date);
+    const window = this.defaultWindow;
+
+    const snapshot = {
+      counts: counts ?? await this.getCounts(userId, window, { asOf: end }),
+      logs: await ActivityEntry.countDocuments({ userId, timestamp: { $gte: date, $lte: end } }),
+    };
+    await ActivitySnapshot.updateOne({ userId, date }, { $set: { ...snapshot, window } }, { upsert: true });
+    return snapshot;
+  }
+
+  /**
+   * Compute and store a user's snapshots of several days (ascending)
+   * One aggregation loads the entries the days' windows can reach: those
+   * recorded from the first day to the end of the last, and the `logs`
+   * before them. Each day's counts are then summed as getCounts does.
+   * @returns The snapshots, keyed by the time of their day
+   */
+  private async snapshotDays(
+    userId: mongoose.Types.ObjectId,
+    days: Date[],
+    window: ActivityWindow
+  ): Promise<Map<number, { counts: IActivityCounts; logs: number }>> {
+    const snapshots = new Map<number, { counts: IActivityCounts; logs: number }>();
+    const firstDay = days[0];
+    const lastDay = days[days.length - 1];
+    if (!firstDay || !lastDay) {
+      return snapshots;
+    }
+
+    const timestamp: Record<string, Date> = { $lte: this.endOfDay(lastDay) };
+    if (window.days > 0) {
+      timestamp['$gte'] = new Date(firstDay.getTime() - window.days * DAY_MS);
+    }
+    const [result] = await ActivityEntry.aggregate<{ before: WindowEntry[]; during: WindowEntry[] }>([
+      { $match: { userId, timestamp } },
+      { $project: { timestamp: 1, categoryPoints: 1 } },
+      {
+        $facet: {
+          before: [{ $match: { timestamp: { $lt: firstDay } } }, { $sort: { timestamp: -1, _id: -1 } }, { $limit: window.logs }],
+          during: [{ $match: { timestamp: { $gte: firstDay } } }],
+        },
+      },
+    ]);
+    // Most recent first, as getCounts picks them
+    const entries = [...(result?.during ?? []), ...(result?.before ?? [])].sort((a, b) =>
+      b.timestamp.getTime() - a.timestamp.getTime() || String(b._id).localeCompare(String(a._id))
+    );
+
+    for (const day of days) {
+      const end = this.endOfDay(day);
+      const since = window.days > 0 ? end.getTime() - window.days * DAY_MS : -Infinity;
+      const inWindow = entries
+        .filter((entry) => entry.timestamp <= end && entry.timestamp.getTime() >= since)
+        .slice(0, window.logs);
+
+      snapshots.set(day.getTime(), {
+        counts: this.sumPoints(inWindow, window, end),
+        logs: entries.filter((entry) => entry.timestamp >= day && entry.timestamp <= end).length,
+      });
+    }
+
+    await ActivitySnapshot.bulkWrite(days.map((day) => ({
+      updateOne: {
+        filter: { userId, date: day },
+        update: { $set: { ...snapshots.get(day.getTime()), window } },
+        upsert: true,
+      },
+    })));
+    return snapshots;
+  }
+
+  /**
+   * Points per category of loaded entries, decayed to `asOf` (getCounts in memory)
+   */
+  private sumPoints(entries: WindowEntry[], window: ActivityWindow, asOf: Date): IActivityCounts {
+    const totals: Record<string, number> = {};
+    for (const entry of entries) {
+      const decay = window.halfLifeDays > 0
+        ? Math.pow(0.5, Math.max(0, asOf.getTime() - entry.timestamp.getTime()) / (window.halfLifeDays * DAY_MS))
+        : 1;
+      for (const [category, points] of Object.entries(entry.categoryPoints ?? {})) {
+        if (typeof points === 'number') {
+          totals[category] = (totals[category] ?? 0) + points * decay;
+        }
+      }
+    }
+
+    const counts: IActivityCounts = emptyCategoryCounts();
+    for (const [category, total] of Object.entries(totals)) {
+      counts[category] = Math.round((total || 0) * 100) / 100;
+    }
+    return counts;
+  }
+
+  /**
+   * Last moment of a day, or now for today
+   */
+  private endOfDay(day: Date): Date {
+    return new Date(Math.min(day.getTime() + DAY_MS - 1, Date.now()));
+  }
+
+  private startOfDay(time: Date): Date {
+    return new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()));
+  }
+
+  /**
+   * Keep an entry's title in step with its log's
+   */
+  async setTitle(userId: mongoose.Types.ObjectId, logId: mongoose.Types.ObjectId, title?: string): Promise<void> {
+    await ActivityEntry.updateOne({ userId, logId }, title ? { $set: { title } } : { $unset: { title: 1 } });
+  }
+
+  /**
+   * Entries of a user in a window ending at `asOf` (default: now, without an upper bound)
+   */
+  private windowFilter(userId: string, window: ActivityWindow, asOf?: Date): mongoose.FilterQuery<IActivityEntry> {
+    const filter: mongoose.FilterQuery<IActivityEntry> = { userId: new mongoose.Types.ObjectId(userId) };
+    const end = asOf ?? new Date();
+    const timestamp: Record<string, Date> = {};
+    if (window.days > 0) {
+      timestamp['$gte'] = new Date(end.getTime() - window.days * DAY_MS);
+    }
+    if (asOf) {
+      timestamp['$lte'] = asOf;
+    }
+    if (Object.keys(timestamp).length > 0) {
+      filter.timestamp = timestamp;
+    }
+    return filter;
+  }
+}
+
+// Export singleton instance
+export const activityService = new ActivityService();
+
+export default activityService;
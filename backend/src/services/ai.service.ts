@@ -1,8 +1,30 @@
 import { AudioLog, IAudioLog } from '../models/AudioLog';
 import { Summary, ISummary, IMetrics } from '../models/Summary';
 import { ChatMessage } from '../models/ChatMessage';
+import { IAIProvenance } from '../models/Provenance';
+import { IActivityEntry } from '../models/ActivityEntry';
+import { IActivityMerge } from '../models/ActivityMerge';
+import { ConflictError, QuotaExceededError } from '../middleware/error.middleware';
 import { logger } from '../utils/logger';
 import { getWeekStart, getWeekEnd } from '../utils/week.utils';
+import {
+  ActivityCategory, ActivityPoints, CATEGORIES, CATEGORY_IDS, CategoryCounts, emptyCategoryCounts, toCategoryId,
+} from '../shared/taxonomy';
+import { storage, getStorageAdapter } from './storage';
+import {
+  llm, LLMRouter, LLMRequest, LLMResponse, LLMGenerator, LLMCallMetrics, MeteredGenerator, OutputValidation,
+  generateStructured, categorizationSchema, extractionSchema, classificationSchemaFor, analysisSchemaFor,
+  canonicalizationSchema,
+} from './llm';
+import { prompts, RenderedPrompt } from './prompt.service';
+import { resilience, providerErrorFromStatus, parseRetryAfter, toProviderError, ProviderError } from './resilience';
+import { rulesService } from './rules';
+import { scoreDetails, sumWeightedPoints } from './scoring';
+import { categoryService } from './category.service';
+import { correctionService, toDetailView, ClassificationDetailView } from './correction.service';
+import { activityService, ActivityWindow } from './activity.service';
+import { canonicalService } from './canonical';
+import { goalService } from './goal.service';
 import mongoose from 'mongoose';
 
 /**
@@ -14,6 +36,82 @@ export interface CategorizationResult {
   sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
   keywords: string[];
   title: string;
+  validation: OutputValidation;
+  provenance?: IAIProvenance; // Unset when the AI call failed; prompt is 'analyze' for single-call analysis
+}
+
+/**
+ * Categories offered to the categorize and analyze prompts, from the shared taxonomy
+ */
+const CATEGORY_LIST = CATEGORY_IDS.map((id) => `${id} (${CATEGORIES[id].examples})`).join(', ');
+
+/**
+ * A user's categories and scoring rules, as the classify and analyze prompts take them
+ */
+interface ScoringContext {
+  ids: string[];                // Category IDs, for the output schema
+  categories: string;           // Each category with what earns and costs points
+  rules: string;                // The user's keyword rules
+  points: ActivityPoints;       // Zero points per category, the shape of `category_points`
+  examples: string;             // The user's recent corrections of classifications
+}
+
+/**
+ * How each structured analysis step of a log was obtained, and the worst of them
+ * Stored on the log as `metadata.analysisValidation`
+ */
+export interface AnalysisValidation {
+  status: OutputValidation;
+  steps: Partial<Record<'analyze' | 'categorize' | 'extract' | 'classify', OutputValidation>>;
+}
+
+/**
+ * How a log is analysed (ANALYSIS_PIPELINE)
+ * - single: one `analyze` call returns categorization, activities and classification;
+ *   falls back to the staged pipeline when its output fails validation
+ * - staged: separate categorize, extract and classify calls
+ */
+export type AnalysisPipeline = 'single' | 'staged';
+
+const ANALYSIS_PIPELINE: AnalysisPipeline = process.env.ANALYSIS_PIPELINE === 'staged' ? 'staged' : 'single';
+
+/**
+ * Re-prompts allowed for the single-call analysis before falling back (ANALYSIS_MAX_REPAIRS, default 1)
+ */
+const ANALYSIS_MAX_REPAIRS = parseInt(process.env.ANALYSIS_MAX_REPAIRS || '1', 10);
+
+/**
+ * Cost of analysing a log, stored on the log as `metadata.analysisMetrics`
+ * Counts cover every model call, including a failed single call before the fallback
+ */
+export interface AnalysisMetrics extends LLMCallMetrics {
+  pipeline: AnalysisPipeline;   // Pipeline that produced the stored result
+  fallback: boolean;            // The single call failed and the staged pipeline ran
+  durationMs: number;           // Wall-clock time of the whole analysis, including tracker updates
+  analyzedAt: Date;
+}
+
+/**
+ * Analysis metrics averaged per pipeline
+ */
+export interface AnalysisMetricsSummary {
+  pipeline: AnalysisPipeline;
+  logs: number;
+  fallbacks: number;
+  avgCalls: number;
+  avgLatencyMs: number;
+  avgDurationMs: number;
+  avgTotalTokens: number;
+}
+
+/**
+ * Extracted and classified activities of a log, ready for its tracker entry
+ */
+export interface ActivityAnalysis {
+  extractedActivities: { activity: string; context: string }[];
+  classificationDetails: { activity: string; category: string; points: number; weight?: number; reasoning: string }[];
+  categoryPoints: ActivityPoints;
+  provenance: IActivityEntry['provenance'];
 }
 
 /**
@@ -25,6 +123,30 @@ export interface SummaryGenerationResult {
   ttsUrl?: string;
 }
 
+/**
+ * Options for the log analysis steps
+ * In strict mode AI failures are thrown instead of being replaced by
+ * default values, so the job queue can retry them
+ */
+export interface AnalysisOptions {
+  strict?: boolean;
+  fallbackOnError?: boolean; // Strict mode's last attempt: fall back to defaults and the rule classifier instead of throwing
+  meter?: MeteredGenerator;  // Collects the cost of the model calls made for the analysis
+  userId?: string;           // Account the model calls are charged to
+  quotaExempt?: boolean;     // Maintenance work (backfills): recorded but not limited by daily quotas
+}
+
+/**
+ * Compare AI classifications with the offline rule classifier and flag
+ * disagreements on the log as `metadata.ruleCheck` (RULES_CROSS_CHECK)
+ */
+const RULES_CROSS_CHECK = process.env.RULES_CROSS_CHECK === 'true';
+
+/**
+ * Lifetime of signed TTS playback URLs (seconds)
+ */
+const TTS_URL_TTL = parseInt(process.env.PLAYBACK_URL_TTL || '3600', 10);
+
 /**
  * Chat response interface
  */
@@ -39,16 +161,14 @@ export interface ChatResponse {
  * Handles categorization, summarization, and chat functionality
  */
 export class AIService {
-  private readonly geminiApiUrl: string;
-  private readonly geminiApiKey: string;
+  private readonly llm: LLMRouter;
   private readonly elevenLabsApiUrl: string;
   private readonly elevenLabsApiKey: string;
   private readonly chatApiUrl: string;
   private readonly chatApiKey: string;
 
-  constructor() {
-    this.geminiApiKey = process.env.GEMINI_KEY || '';
-    this.geminiApiUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  constructor(router: LLMRouter = llm) {
+    this.llm = router;
     this.elevenLabsApiKey = process.env.ELEVEN_KEY || '';
     this.elevenLabsApiUrl = 'https://api.elevenlabs.io/v1';
     this.chatApiKey = process.env.OND_CHAT_KEY || '';
@@ -58,53 +178,47 @@ export class AIService {
   /**
    * Categorize a transcript using AI
    * @param transcript - Text to categorize
+   * @param options - Analysis options
    */
-  async categorizeTranscript(transcript: string): Promise<CategorizationResult> {
+  async categorizeTranscript(transcript: string, options: AnalysisOptions = {}): Promise<CategorizationResult> {
     try {
-      const prompt = `Analyze the following transcript and provide:
-1. A category (one of: health, work, personal, family, social, finance, learning, other)
-2. A confidence score (0-1)
-3. Sentiment (positive, negative, neutral, or mixed)
-4. Up to 5 keywords
-5. A short, descriptive title (max 50 characters) that summarizes what the recording is about
-
-Transcript: "${transcript}"
+      const prompt = prompts.render('categorize', { transcript, categories: CATEGORY_LIST });
 
-Respond in JSON format:
-{
-  "category": "string",
-  "confidence": number,
-  "sentiment": "string",
-  "keywords": ["string"],
-  "title": "string"
-}`;
-
-      const result = await this.callGeminiApi(prompt);
-
-      // Parse the JSON response
-      const parsed = this.parseJsonResponse<CategorizationResult>(result);
+      const { value, validation, provider, model } = await generateStructured(
+        this.generator(options),
+        this.request(prompt, options),
+        categorizationSchema,
+        () => this.defaultCategorization(transcript)
+      );
 
       return {
-        category: parsed.category || 'other',
-        confidence: parsed.confidence || 0.5,
-        sentiment: parsed.sentiment || 'neutral',
-        keywords: parsed.keywords || [],
-        title: parsed.title || this.generateFallbackTitle(transcript),
+        ...value,
+        title: value.title || this.generateFallbackTitle(transcript),
+        validation,
+        provenance: this.provenance(prompt, provider, model),
       };
     } catch (error) {
       logger.error('Error categorizing transcript:', error);
+      if (this.rethrows(error, options)) throw error;
 
       // Return default categorization on error
-      return {
-        category: 'other',
-        confidence: 0,
-        sentiment: 'neutral',
-        keywords: [],
-        title: this.generateFallbackTitle(transcript),
-      };
+      return { ...this.defaultCategorization(transcript), validation: 'defaulted' };
     }
   }
 
+  /**
+   * Categorization used when the AI gives no valid answer
+   */
+  private defaultCategorization(transcript: string): Omit<CategorizationResult, 'validation' | 'provenance'> {
+    return {
+      category: 'other',
+      confidence: 0,
+      sentiment: 'neutral',
+      keywords: [],
+      title: this.generateFallbackTitle(transcript),
+    };
+  }
+
   /**
    * Generate a fallback title from transcript when AI fails
    * @param transcript - The transcript text
@@ -127,14 +241,10 @@ Respond in JSON format:
    */
   async generateTitle(transcript: string): Promise<string> {
     try {
-      const prompt = `Generate a short, descriptive title (max 50 characters) that summarizes what this recording is about. The title should be clear and help the user understand the content at a glance.
-
-Transcript: "${transcript.substring(0, 500)}"
+      const prompt = prompts.render('title', { transcript: transcript.substring(0, 500) });
 
-Respond with just the title, no quotes or extra formatting.`;
-
-      const result = await this.callGeminiApi(prompt);
-      const title = result.trim().replace(/^["']|["']$/g, ''); // Remove quotes if present
+      const result = await this.complete(this.request(prompt));
+      const title = result.text.trim().replace(/^["']|["']$/g, ''); // Remove quotes if present
       
       // Ensure title is not too long
       if (title.length > 60) {
@@ -152,8 +262,14 @@ Respond with just the title, no quotes or extra formatting.`;
    * Update audio log with categorization
    * @param audioLogId - Audio log ID
    * @param userId - User ID for authorization
+   * @param options - Analysis options
+   * @throws ConflictError while the log has no transcript yet
    */
-  async categorizeAudioLog(audioLogId: string, userId: string): Promise<IAudioLog | null> {
+  async categorizeAudioLog(
+    audioLogId: string,
+    userId: string,
+    options: AnalysisOptions = {}
+  ): Promise<IAudioLog | null> {
     const audioLog = await AudioLog.findOne({
       _id: new mongoose.Types.ObjectId(audioLogId),
       userId: new mongoose.Types.ObjectId(userId),
@@ -163,7 +279,20 @@ Respond with just the title, no quotes or extra formatting.`;
       return null;
     }
 
-    const categorization = await this.categorizeTranscript(audioLog.transcript);
+    const transcript = audioLog.transcript;
+    if (!transcript) {
+      throw new ConflictError('Log is still being transcribed');
+    }
+
+    const startedAt = Date.now();
+    const meter = new MeteredGenerator(this.llm);
+    const analysisOptions: AnalysisOptions = { ...options, userId, meter };
+
+    const single = ANALYSIS_PIPELINE === 'single'
+      ? await this.analyzeTranscript(transcript, analysisOptions)
+      : null;
+    const categorization = single?.categorization
+      ?? await this.categorizeTranscript(transcript, analysisOptions);
 
     audioLog.category = categorization.category;
     audioLog.sentiment = categorization.sentiment;
@@ -174,62 +303,205 @@ Respond with just the title, no quotes or extra formatting.`;
     if (!audioLog.metadata) audioLog.metadata = {};
     audioLog.metadata.keywords = categorization.keywords;
     audioLog.metadata.categoryConfidence = categorization.confidence;
+    if (categorization.provenance) {
+      audioLog.metadata.provenance = { [categorization.provenance.prompt]: categorization.provenance };
+    } else {
+      delete audioLog.metadata.provenance;
+    }
 
     await audioLog.save();
     logger.info(`Audio log categorized${!audioLog.title ? ` with title: "${categorization.title}"` : ' (user title preserved)'}`);
     
     // Also analyze activities and update tracker
-    await this.analyzeAndTrackActivities(audioLogId, userId, audioLog.transcript, audioLog.title);
+    const { steps: activitySteps, analysis: activities } = await this.analyzeAndTrackActivities(
+      audioLogId, userId, transcript, audioLog, analysisOptions, single?.activities
+    );
+    const ruleCheck = RULES_CROSS_CHECK && activities && !activities.provenance?.rules
+      ? await rulesService.crossCheck(transcript, activities.categoryPoints, userId)
+      : undefined;
+    if (ruleCheck && ruleCheck.disagreements.length > 0) {
+      logger.warn(`Rule classifier disagrees with the AI on log ${audioLogId}`, { disagreements: ruleCheck.disagreements });
+    }
+
+    const metrics: AnalysisMetrics = {
+      pipeline: single ? 'single' : 'staged',
+      fallback: ANALYSIS_PIPELINE === 'single' && !single,
+      ...meter.metrics,
+      durationMs: Date.now() - startedAt,
+      analyzedAt: new Date(),
+    };
+
+    audioLog.metadata = {
+      ...audioLog.metadata,
+      analysisValidation: this.summarizeValidation(
+        single ? { analyze: single.validation } : { categorize: categorization.validation, ...activitySteps }
+      ),
+      analysisMetrics: metrics,
+      ruleCheck,
+    };
+    if (!ruleCheck) delete audioLog.metadata.ruleCheck;
+    await audioLog.save();
+    logger.info(`Audio log ${audioLogId} analysed`, { ...metrics });
     
     return audioLog;
   }
 
   /**
-   * STEP 1: Extract activities from transcript
-   * Uses the exact prompt provided by user
+   * Average analysis cost per pipeline, from the metrics stored on logs
+   * @param since - Only logs analysed from this date
    */
-  async extractActivities(transcript: string): Promise<{ activity: string; context: string }[]> {
+  async getAnalysisMetrics(since?: Date): Promise<AnalysisMetricsSummary[]> {
+    const results = await AudioLog.aggregate<AnalysisMetricsSummary>([
+      {
+        $match: {
+          'metadata.analysisMetrics': { $exists: true },
+          ...(since && { 'metadata.analysisMetrics.analyzedAt': { $gte: since } }),
+        },
+      },
+      {
+        $group: {
+          _id: '$metadata.analysisMetrics.pipeline',
+          logs: { $sum: 1 },
+          fallbacks: { $sum: { $cond: ['$metadata.analysisMetrics.fallback', 1, 0] } },
+          avgCalls: { $avg: '$metadata.analysisMetrics.calls' },
+          avgLatencyMs: { $avg: '$metadata.analysisMetrics.latencyMs' },
+          avgDurationMs: { $avg: '$metadata.analysisMetrics.durationMs' },
+          avgTotalTokens: { $avg: '$metadata.analysisMetrics.totalTokens' },
+        },
+      },
+      { $project: { _id: 0, pipeline: '$_id', logs: 1, fallbacks: 1, avgCalls: 1, avgLatencyMs: 1, avgDurationMs: 1, avgTotalTokens: 1 } },
+      { $sort: { pipeline: 1 } },
+    ]);
+
+    return results.map((result) => ({
+      ...result,
+      avgCalls: Math.round(result.avgCalls * 100) / 100,
+      avgLatencyMs: Math.round(result.avgLatencyMs),
+      avgDurationMs: Math.round(result.avgDurationMs),
+      avgTotalTokens: Math.round(result.avgTotalTokens),
+    }));
+  }
+
+  /**
+   * Single-call analysis: categorization, activities and classification from one structured response
+   * @returns null when the output failed validation (or the call failed outside strict mode),
+   *          so the caller falls back to the staged pipeline
+   */
+  async analyzeTranscript(
+    transcript: string,
+    options: AnalysisOptions = {}
+  ): Promise<{ categorization: CategorizationResult; activities: ActivityAnalysis; validation: OutputValidation } | null> {
     try {
-      const prompt = `You are an activity extraction assistant. Analyze the following voice-to-text transcript of a daily log and extract all activities mentioned.
-
-TRANSCRIPT:
-${transcript}
-
-Your task:
-1. Carefully read through the entire transcript
-2. Identify ALL activities, tasks, habits, or events the person mentions doing or experiencing
-3. Extract both explicit activities (e.g., "I went to the gym") and implicit ones (e.g., "had pizza for dinner" = ate junk food)
-4. Include health-related activities (exercise, meals, sleep, mental health practices)
-5. Include work/productivity activities (meetings, coding, studying, projects)
-6. Include learning/growth activities (reading, courses, skill development)
-7. Include consumption activities (TV shows, social media, movies, games)
-8. Include any other miscellaneous activities
-
-Return your response as a JSON object with this exact structure:
-{
-  "activities": [
-    {
-      "activity": "brief description of the activity",
-      "context": "any relevant details or duration mentioned"
+      const scoring = await this.scoringContext(options.userId);
+      const prompt = prompts.render('analyze', {
+        transcript,
+        categories: CATEGORY_LIST,
+        activityCategories: scoring.categories,
+        rules: scoring.rules,
+        points: scoring.points,
+        examples: scoring.examples,
+      });
+
+      const result = await generateStructured(
+        this.generator(options),
+        this.request(prompt, options),
+        analysisSchemaFor(scoring.ids),
+        () => null,
+        ANALYSIS_MAX_REPAIRS
+      );
+      if (!result.value) {
+        logger.warn('Single-call analysis failed validation - falling back to the staged pipeline', { errors: result.errors });
+        return null;
+      }
+
+      const { value, validation } = result;
+      const provenance = this.provenance(prompt, result.provider, result.model);
+      return {
+        categorization: {
+          category: value.category,
+          confidence: value.confidence,
+          sentiment: value.sentiment,
+          keywords: value.keywords,
+          title: value.title || this.generateFallbackTitle(transcript),
+          validation,
+          provenance,
+        },
+        activities: {
+          extractedActivities: value.activities,
+          classificationDetails: value.classification_details,
+          categoryPoints: value.category_points,
+          provenance: { analyze: provenance },
+        },
+        validation,
+      };
+    } catch (error) {
+      logger.error('Error in single-call analysis:', error);
+      if (this.rethrows(error, options)) throw error;
+      return null;
     }
-  ]
-}
+  }
 
-Rules:
-- If absolutely NO activities are mentioned (highly unlikely), return: {"activities": [{"activity": "N/A", "context": "No activities discussed"}]}
-- Be thorough - don't miss activities mentioned casually in conversation
-- Keep descriptions clear and concise
-- Focus on actionable activities, not just thoughts or feelings (unless they involve specific practices like meditation or journaling)
+  /**
+   * A user's categories, keyword rules and corrections for the classification prompts
+   * Rules only give the direction of the points, as the AI scores each
+   * activity +1 or -1 per category.
+   */
+  private async scoringContext(userId?: string): Promise<ScoringContext> {
+    const categories = await categoryService.getCategories(userId);
+    const rules = userId ? await rulesService.listRules(userId) : [];
+    const examples = await correctionService.getExamples(userId);
 
-Return ONLY the JSON object, no additional text.`;
+    return {
+      ids: categories.map((category) => category.id),
+      categories: categories
+        .map((category, i) => [
+          `${i + 1}. ${category.id}: **${category.label}**${category.description ? ` (${category.description})` : ''}`,
+          ...(category.positive ? [`   - +1: ${category.positive}`] : []),
+          ...(category.negative ? [`   - -1: ${category.negative}`] : []),
+        ].join('\n'))
+        .join('\n\n'),
+      rules: rules.length > 0
+        ? rules.map((rule) => `- "${rule.keyword}": ${rule.points > 0 ? '+1' : '-1'} ${rule.category}`).join('\n')
+        : '- None',
+      points: Object.fromEntries(categories.map((category) => [category.id, 0])),
+      examples: examples.length > 0 ? examples.join('\n') : '- None',
+    };
+  }
 
-      const result = await this.callGeminiApi(prompt);
-      const parsed = this.parseJsonResponse<{ activities: { activity: string; context: string }[] }>(result);
+  /**
+   * Combine per-step validation outcomes; the log's status is its worst step
+   */
+  private summarizeValidation(steps: AnalysisValidation['steps']): AnalysisValidation {
+    const outcomes = Object.values(steps);
+    const status: OutputValidation = outcomes.includes('defaulted')
+      ? 'defaulted'
+      : outcomes.includes('repaired') ? 'repaired' : 'validated';
+    return { status, steps };
+  }
 
-      return parsed.activities || [{ activity: 'N/A', context: 'No activities discussed' }];
+  /**
+   * STEP 1: Extract activities from transcript
+   * Uses the exact prompt provided by user
+   */
+  async extractActivities(
+    transcript: string,
+    options: AnalysisOptions = {}
+  ): Promise<{ activities: { activity: string; context: string }[]; validation: OutputValidation; provenance?: IAIProvenance }> {
+    try {
+      const prompt = prompts.render('extract', { transcript });
+
+      const { value, validation, provider, model } = await generateStructured(
+        this.generator(options),
+        this.request(prompt, options),
+        extractionSchema,
+        () => ({ activities: [{ activity: 'N/A', context: 'Error extracting activities' }] })
+      );
+
+      return { activities: value.activities, validation, provenance: this.provenance(prompt, provider, model) };
     } catch (error) {
       logger.error('Error extracting activities:', error);
-      return [{ activity: 'N/A', context: 'Error extracting activities' }];
+      if (this.rethrows(error, options)) throw error;
+      return { activities: [{ activity: 'N/A', context: 'Error extracting activities' }], validation: 'defaulted' };
     }
   }
 
@@ -237,84 +509,48 @@ Return ONLY the JSON object, no additional text.`;
    * STEP 2: Classify activities into categories with points
    * Uses the exact prompt provided by user
    */
-  async classifyActivities(activities: { activity: string; context: string }[]): Promise<{
-    categoryPoints: { growth: number; health: number; work: number; consumption: number; other: number };
+  async classifyActivities(
+    activities: { activity: string; context: string }[],
+    options: AnalysisOptions = {}
+  ): Promise<{
+    categoryPoints: ActivityPoints;
     classificationDetails: { activity: string; category: string; points: number; reasoning: string }[];
+    validation: OutputValidation;
+    provenance?: IAIProvenance;
   }> {
     try {
-      const activitiesJson = JSON.stringify(activities, null, 2);
-
-      const prompt = `You are a life tracking classifier. You will receive a list of activities and must classify each one into specific categories with point values.
-
-ACTIVITIES:
-${activitiesJson}
-
-CLASSIFICATION CATEGORIES:
-
-1. **Growth** (Learning & Development)
-   - +1: Reading books, taking courses, learning new skills, practicing instruments, language learning, educational content, personal development activities, journaling for self-reflection
-   - -1: Avoiding learning opportunities, procrastinating on development goals
-
-2. **Health** (Physical & Mental Wellness)
-   - +1: Exercise/workout, healthy meals, adequate sleep, meditation, yoga, mental health practices, drinking water, taking breaks, outdoor activities
-   - -1: Junk food, excessive alcohol, smoking, skipping meals, poor sleep, sedentary behavior, stress without coping mechanisms
-
-3. **Work** (Professional Productivity)
-   - +1: Completing work tasks, attending meetings, coding/developing, studying for work/school, project progress, focused work sessions
-   - -1: Procrastinating on work, missing deadlines, unproductive work time
-
-4. **Consumption** (Passive Entertainment)
-   - +1: Never assign positive points to consumption (this is a passive category)
-   - -1: Watching TV/movies, social media scrolling, gaming (recreational, not educational), binge-watching content, excessive phone use
-
-5. **Other** (Miscellaneous Activities)
-   - +1: ONLY if there are genuinely no activities that fit the above 4 categories (least preferred option)
-   - This should rarely be used
-
-CLASSIFICATION RULES:
-1. Each activity can affect MULTIPLE categories (e.g., "cooked a healthy meal" = +1 Health, +1 Work if mentioned as productive)
-2. Assign points based on the nature and impact of each activity
-3. An activity can give both positive and negative points to different categories (e.g., "worked late into the night" = +1 Work, -1 Health)
-4. Be precise: "ate food" without context = 0 points; "ate salad" = +1 Health; "ate fast food" = -1 Health
-5. Only use "Other" when activities genuinely don't fit any category
-6. If activities is "N/A", assign +1 to Other only
-
-Return your response as a JSON object with this exact structure:
-{
-  "category_points": {
-    "growth": 0,
-    "health": 0,
-    "work": 0,
-    "consumption": 0,
-    "other": 0
-  },
-  "classification_details": [
-    {
-      "activity": "activity description",
-      "category": "category name",
-      "points": +1 or -1,
-      "reasoning": "brief explanation"
-    }
-  ]
-}
-
-Return ONLY the JSON object, no additional text.`;
+      const scoring = await this.scoringContext(options.userId);
+      const prompt = prompts.render('classify', {
+        activities,
+        categories: scoring.categories,
+        rules: scoring.rules,
+        points: scoring.points,
+        examples: scoring.examples,
+      });
 
-      const result = await this.callGeminiApi(prompt);
-      const parsed = this.parseJsonResponse<{
-        category_points: { growth: number; health: number; work: number; consumption: number; other: number };
-        classification_details: { activity: string; category: string; points: number; reasoning: string }[];
-      }>(result);
+      const { value, validation, provider, model } = await generateStructured(
+        this.generator(options),
+        this.request(prompt, options),
+        classificationSchemaFor(scoring.ids),
+        () => ({
+          category_points: emptyCategoryCounts(),
+          classification_details: [],
+        })
+      );
 
       return {
-        categoryPoints: parsed.category_points || { growth: 0, health: 0, work: 0, consumption: 0, other: 0 },
-        classificationDetails: parsed.classification_details || [],
+        categoryPoints: value.category_points,
+        classificationDetails: value.classification_details,
+        validation,
+        provenance: this.provenance(prompt, provider, model),
       };
     } catch (error) {
       logger.error('Error classifying activities:', error);
+      if (this.rethrows(error, options)) throw error;
       return {
-        categoryPoints: { growth: 0, health: 0, work: 0, consumption: 0, other: 0 },
+        categoryPoints: emptyCategoryCounts(),
         classificationDetails: [],
+        validation: 'defaulted',
       };
     }
   }
@@ -323,34 +559,25 @@ Return ONLY the JSON object, no additional text.`;
    * STEP 3: Generate personal review based on aggregated counts
    * Uses the exact prompt provided by user
    */
-  async generatePersonalReview(counts: { growth: number; health: number; work: number; consumption: number; other: number }): Promise<string> {
+  async generatePersonalReview(counts: ActivityPoints, userId?: string): Promise<string> {
     try {
-      const prompt = `You are a life coach providing personalized feedback. Based on the activity classification scores (excluding "Other"), provide a brief review of future prospects and actionable suggestions.
-
-CATEGORY SCORES:
-- Growth: ${counts.growth}
-- Health: ${counts.health}
-- Work: ${counts.work}
-- Consumption: ${counts.consumption}
-
-Your task:
-1. Analyze the pattern across all 4 categories (ignore "Other")
-2. Identify strengths (positive scores) and areas of concern (negative scores)
-3. Provide 2-3 specific, actionable suggestions for improvement
-4. Keep the tone encouraging but honest
-5. Focus on the most impactful changes they can make
-
-Write a review in approximately 100 words that includes:
-- A brief assessment of their current trajectory
-- Recognition of what they're doing well
-- Specific suggestions for improvement prioritized by impact
-- An encouraging closing statement
-
-Keep it concise, actionable, and motivating. Write in second person ("you"). Return ONLY the review text, nothing else.`;
-
-      const review = await this.callGeminiApi(prompt);
-      return review.trim();
+      const categories = await categoryService.getCategories(userId);
+      const prompt = prompts.render('review', {
+        growth: counts['growth'] ?? 0,
+        health: counts['health'] ?? 0,
+        work: counts['work'] ?? 0,
+        consumption: counts['consumption'] ?? 0,
+        scores: categories
+          .filter((category) => category.id !== 'other')
+          .map((category) => `- ${category.label}: ${counts[category.id] ?? 0}`)
+          .join('\n'),
+        goals: userId ? await goalService.describeCurrent(userId) : 'No goals set',
+      });
+
+      const review = await this.complete(this.request(prompt, { userId }));
+      return review.text.trim();
     } catch (error) {
+      if (error instanceof QuotaExceededError) throw error;
       logger.error('Error generating personal review:', error);
       return 'Keep recording your reflections to unlock personalized insights about your journey.';
     }
@@ -358,78 +585,111 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
 
   /**
    * Main function: Analyze transcript and update activity tracker
-   * Implements the 3-step process
+   * Implements the 3-step process; steps 1 and 2 are skipped when the
+   * single-call analysis already produced the activities
+   * @param log - Title and recording time of the log, stored on its activity entry
+   * @param analysis - Activities from the single-call analysis
+   * @returns Validation outcome of the extract and classify steps that ran, and the
+   *          activities tracked (unset when tracking failed)
    */
   async analyzeAndTrackActivities(
     audioLogId: string,
     userId: string,
     transcript: string,
-    title?: string
-  ): Promise<void> {
+    log: { title?: string; timestamp: Date },
+    options: AnalysisOptions = {},
+    analysis?: ActivityAnalysis
+  ): Promise<{ steps: AnalysisValidation['steps']; analysis?: ActivityAnalysis }> {
+    const steps: AnalysisValidation['steps'] = {};
+    let tracked: ActivityAnalysis | undefined;
     try {
-      const { ActivityTracker } = await import('../models/ActivityTracker');
-
-      // STEP 1: Extract activities from transcript
-      logger.info(`Step 1: Extracting activities from transcript for log ${audioLogId}`);
-      const extractedActivities = await this.extractActivities(transcript);
+      const activities = analysis ?? await this.runActivitySteps(audioLogId, transcript, options, steps);
 
-      // Check if we got valid activities
-      if (extractedActivities.length === 1 && extractedActivities[0]?.activity === 'N/A') {
-        logger.debug('No activities detected in transcript');
-      }
+      // Weigh each classified activity by its duration and intensity
+      const classificationDetails = scoreDetails(activities.extractedActivities, activities.classificationDetails);
+      tracked = { ...activities, classificationDetails, categoryPoints: sumWeightedPoints(classificationDetails) };
+      const { extractedActivities, categoryPoints, provenance } = tracked;
 
-      // STEP 2: Classify activities into categories
-      logger.info(`Step 2: Classifying ${extractedActivities.length} activities`);
-      const { categoryPoints, classificationDetails } = await this.classifyActivities(extractedActivities);
-
-      // Find or create activity tracker for user
-      let tracker = await ActivityTracker.findOne({
-        userId: new mongoose.Types.ObjectId(userId)
-      });
-
-      if (!tracker) {
-        tracker = new ActivityTracker({
-          userId: new mongoose.Types.ObjectId(userId),
-          counts: { growth: 0, health: 0, work: 0, consumption: 0, other: 0 },
-          recentLogs: [],
-        });
-      }
-
-      // Add new log entry with full details
-      const logEntry = {
-        logId: new mongoose.Types.ObjectId(audioLogId),
-        title,
-        timestamp: new Date(),
+      // Re-analysis (retry, edited transcript or backfill) replaces the log's entry
+      const tracker = await activityService.recordEntry(userId, audioLogId, {
+        title: log.title,
+        timestamp: log.timestamp,
         extractedActivities,
         classificationDetails,
         categoryPoints,
-      };
-
-      // Add to recent logs (keep last 20)
-      tracker.recentLogs.push(logEntry);
-      if (tracker.recentLogs.length > 20) {
-        tracker.recentLogs = tracker.recentLogs.slice(-20);
-      }
-
-      // Recalculate total counts from all recent logs
-      const counts = { growth: 0, health: 0, work: 0, consumption: 0, other: 0 };
-      for (const log of tracker.recentLogs) {
-        if (log.categoryPoints) {
-          counts.growth += log.categoryPoints.growth || 0;
-          counts.health += log.categoryPoints.health || 0;
-          counts.work += log.categoryPoints.work || 0;
-          counts.consumption += log.categoryPoints.consumption || 0;
-          counts.other += log.categoryPoints.other || 0;
-        }
-      }
-      tracker.counts = counts;
+        provenance,
+      });
+      logger.info(`Activity tracker updated for user ${userId}:`, tracker.counts);
 
-      await tracker.save();
-      logger.info(`Activity tracker updated for user ${userId}:`, counts);
+      // Cluster new wordings into the user's canonical activities; the stats register them otherwise
+      await canonicalService.register(userId, extractedActivities.map(({ activity }) => activity)).catch((error) => {
+        logger.warn(`Could not register the activities of log ${audioLogId}:`, error);
+      });
     } catch (error) {
       logger.error('Error tracking activities:', error);
+      if (options.strict) throw error;
       // Don't throw - activity tracking failure shouldn't break the main flow
     }
+    return { steps, analysis: tracked };
+  }
+
+  /**
+   * Steps 1 and 2 of the staged pipeline: extract activities, then classify them
+   * @param steps - Receives the validation outcome of each step
+   */
+  private async runActivitySteps(
+    audioLogId: string,
+    transcript: string,
+    options: AnalysisOptions,
+    steps: AnalysisValidation['steps']
+  ): Promise<ActivityAnalysis> {
+    // STEP 1: Extract activities from transcript
+    logger.info(`Step 1: Extracting activities from transcript for log ${audioLogId}`);
+    const {
+      activities: extractedActivities,
+      validation: extractValidation,
+      provenance: extractProvenance,
+    } = await this.extractActivities(transcript, options);
+    steps.extract = extractValidation;
+
+    // No valid answer from the AI: extract and classify with the offline rules
+    if (extractValidation === 'defaulted') {
+      logger.warn(`Activity extraction defaulted for log ${audioLogId} - using the rule classifier`);
+      const { provenance, ...ruleAnalysis } = await rulesService.analyze(transcript, options.userId);
+      return { ...ruleAnalysis, provenance: { rules: provenance } };
+    }
+
+    // Check if we got valid activities
+    if (extractedActivities.length === 1 && extractedActivities[0]?.activity === 'N/A') {
+      logger.debug('No activities detected in transcript');
+    }
+
+    // STEP 2: Classify activities into categories
+    logger.info(`Step 2: Classifying ${extractedActivities.length} activities`);
+    const {
+      categoryPoints,
+      classificationDetails,
+      validation: classifyValidation,
+      provenance: classifyProvenance,
+    } = await this.classifyActivities(extractedActivities, options);
+    steps.classify = classifyValidation;
+
+    if (classifyValidation === 'defaulted') {
+      logger.warn(`Activity classification defaulted for log ${audioLogId} - using the rule classifier`);
+      const { provenance, ...ruleClassification } = await rulesService.classify(extractedActivities, options.userId);
+      return {
+        extractedActivities,
+        ...ruleClassification,
+        provenance: { extract: extractProvenance, rules: provenance },
+      };
+    }
+
+    return {
+      extractedActivities,
+      classificationDetails,
+      categoryPoints,
+      provenance: { extract: extractProvenance, classify: classifyProvenance },
+    };
   }
 
   /**
@@ -444,13 +704,13 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
         userId: new mongoose.Types.ObjectId(userId)
       });
 
-      if (!tracker || tracker.recentLogs.length === 0) {
+      if (!tracker || !(await activityService.hasEntries(userId))) {
         return 'Start recording your daily reflections to get personalized insights about your life patterns and growth trajectory.';
       }
 
       // STEP 3: Generate personal review based on aggregated counts
       logger.info(`Step 3: Generating personal review for user ${userId}`);
-      const review = await this.generatePersonalReview(tracker.counts);
+      const review = await this.generatePersonalReview(tracker.counts, userId);
 
       // Update tracker with new review
       tracker.lastReview = review;
@@ -459,6 +719,7 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
 
       return review;
     } catch (error) {
+      if (error instanceof QuotaExceededError) throw error;
       logger.error('Error generating activity review:', error);
       return 'Keep recording your reflections to unlock personalized insights about your journey.';
     }
@@ -467,15 +728,20 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
   /**
    * Get activity summary for a user
    * @param userId - User ID
+   * @param window - Entries the counts and recent logs cover (default: ACTIVITY_WINDOW_LOGS / ACTIVITY_WINDOW_DAYS)
    */
-  async getActivitySummary(userId: string): Promise<{
-    counts: { growth: number; health: number; work: number; consumption: number; other: number };
+  async getActivitySummary(userId: string, window: ActivityWindow = activityService.defaultWindow): Promise<{
+    categories: ActivityCategory[];
+    counts: ActivityPoints;
+    window: ActivityWindow;
     recentLogs: {
+      logId: string;
       title?: string;
       timestamp: Date;
       extractedActivities: { activity: string; context: string }[];
-      classificationDetails: { activity: string; category: string; points: number; reasoning: string }[];
-      categoryPoints: { growth: number; health: number; work: number; consumption: number; other: number };
+      classificationDetails: ClassificationDetailView[];
+      categoryPoints: ActivityPoints;
+      correctedAt?: Date;
     }[];
     review: string;
     totalLogs: number;
@@ -496,20 +762,33 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
       let review = tracker.lastReview || '';
 
       if (!tracker.lastReview || !tracker.lastReviewAt || tracker.lastReviewAt < oneHourAgo) {
-        review = await this.generateActivityReview(userId);
+        try {
+          review = await this.generateActivityReview(userId);
+        } catch (error) {
+          // Over quota: the counts are still useful, keep the previous review
+          if (!(error instanceof QuotaExceededError)) throw error;
+          logger.info(`Keeping previous activity review for user ${userId}: ${error.message}`);
+          review = review || 'Keep recording your reflections to unlock personalized insights about your journey.';
+        }
       }
 
+      const entries = await activityService.listEntries(userId, window);
+
       return {
-        counts: tracker.counts,
-        recentLogs: tracker.recentLogs.map(log => ({
+        categories: await categoryService.getCategories(userId),
+        counts: await activityService.getCounts(userId, window),
+        window,
+        recentLogs: entries.map(log => ({
+          logId: log.logId.toString(),
           title: log.title,
           timestamp: log.timestamp,
           extractedActivities: log.extractedActivities || [],
-          classificationDetails: log.classificationDetails || [],
-          categoryPoints: log.categoryPoints || { growth: 0, health: 0, work: 0, consumption: 0, other: 0 },
+          classificationDetails: (log.classificationDetails || []).map(toDetailView),
+          categoryPoints: log.categoryPoints || emptyCategoryCounts(),
+          correctedAt: log.correctedAt,
         })),
         review,
-        totalLogs: tracker.recentLogs.length,
+        totalLogs: entries.length,
       };
     } catch (error) {
       logger.error('Error getting activity summary:', error);
@@ -517,36 +796,90 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
     }
   }
 
+  /**
+   * Ask the AI which of a user's canonical activities are the same habit
+   * and save its suggestions for the user to review
+   * @returns The new suggestions, none when the AI gave no valid answer; validation is
+   *          unset when the user has too few activities to ask about
+   */
+  async suggestActivityMerges(userId: string): Promise<{ suggestions: IActivityMerge[]; validation?: OutputValidation }> {
+    const activities = await canonicalService.suggestionCandidates(userId);
+    if (activities.length < 2) {
+      return { suggestions: [] };
+    }
+
+    try {
+      const prompt = prompts.render('canonicalize', {
+        activities: activities.map((activity, index) => ({ n: index + 1, name: activity.name, aliases: activity.aliases })),
+      });
+
+      const { value, validation, provider, model } = await generateStructured(
+        this.llm,
+        this.request(prompt, { userId }),
+        canonicalizationSchema,
+        () => ({ groups: [] })
+      );
+
+      const suggestions = await canonicalService.recordSuggestions(
+        userId,
+        value.groups.map((group) => ({
+          name: group.name,
+          activityIds: group.members
+            .map((member) => activities[member - 1])
+            .filter((activity) => activity !== undefined)
+            .map((activity) => String(activity._id)),
+          reason: group.reason,
+        })),
+        this.provenance(prompt, provider, model)
+      );
+      return { suggestions, validation };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) throw error;
+      logger.error('Error suggesting activity merges:', error);
+      return { suggestions: [], validation: 'defaulted' };
+    }
+  }
+
   /**
    * Generate weekly summary for a user
    * @param userId - User's MongoDB ObjectId
    * @param weekStart - Start of the week
+   * @param options - quotaExempt for maintenance work such as backfills
    */
   async generateWeeklySummary(
     userId: string,
-    weekStart: Date
+    weekStart: Date,
+    options: Pick<AnalysisOptions, 'quotaExempt'> = {}
   ): Promise<SummaryGenerationResult> {
     try {
       // Calculate week end
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekEnd.getDate() + 7);
 
-      // Get all audio logs for the week
+      // Get the week's transcribed logs; chunked uploads have no transcript until transcribed
       const logs = await AudioLog.find({
         userId: new mongoose.Types.ObjectId(userId),
         timestamp: { $gte: weekStart, $lt: weekEnd },
+        transcript: { $exists: true },
       }).sort({ timestamp: 1 });
 
-      // Calculate metrics
+      // Calculate metrics, with how the user's goals went
       const metrics = this.calculateMetrics(logs);
+      metrics.goals = await goalService.weekReport(userId, weekStart, weekEnd);
 
       // Generate narrative story
-      const story = await this.generateStoryNarrative(logs, metrics);
+      const { story, provenance: storyProvenance } = await this.generateStoryNarrative(logs, metrics, { ...options, userId });
 
-      // Generate TTS audio (optional)
-      let ttsUrl: string | undefined;
+      // Generate TTS audio (optional); a failure leaves the summary without audio
+      let tts: { url?: string; provider: string; key: string } | undefined;
+      let ttsError: ProviderError | undefined;
       if (this.elevenLabsApiKey) {
-        ttsUrl = await this.generateTTS(story);
+        try {
+          tts = await this.generateTTS(story);
+        } catch (error) {
+          ttsError = toProviderError(error, { provider: 'elevenlabs', service: 'tts' });
+          logger.warn(`TTS failed for user ${userId} (${ttsError.code}): ${ttsError.message}`);
+        }
       }
 
       // Create or update summary
@@ -561,16 +894,21 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
           weekEnd,
           metrics,
           story,
-          ttsUrl,
+          ...(storyProvenance && { storyProvenance }),
+          ttsUrl: tts?.url,
+          ttsStorage: tts && { provider: tts.provider, key: tts.key },
+          ...(ttsError && { ttsError: { provider: ttsError.provider, code: ttsError.code, message: ttsError.message } }),
           generatedAt: new Date(),
           isComplete: true,
+          isStale: false,
+          $unset: { staleSince: 1, ...(!storyProvenance && { storyProvenance: 1 }), ...(!ttsError && { ttsError: 1 }) },
         },
         { upsert: true, new: true }
       );
 
       logger.info(`Weekly summary generated for user ${userId}`, { weekStart });
 
-      return { summary, story, ttsUrl };
+      return { summary, story, ttsUrl: await this.resolveTtsUrl(summary) };
     } catch (error) {
       logger.error('Error generating weekly summary:', error);
       throw error;
@@ -581,7 +919,7 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
    * Calculate metrics from audio logs
    */
   private calculateMetrics(logs: IAudioLog[]): IMetrics {
-    const categoryCounts: Record<string, number> = {};
+    const categoryCounts: Partial<CategoryCounts> = {};
     const sentimentBreakdown = {
       positive: 0,
       negative: 0,
@@ -593,7 +931,7 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
 
     for (const log of logs) {
       // Count categories
-      const category = log.category || 'uncategorized';
+      const category = toCategoryId(log.category);
       categoryCounts[category] = (categoryCounts[category] || 0) + 1;
 
       // Count sentiments
@@ -634,58 +972,57 @@ Keep it concise, actionable, and motivating. Write in second person ("you"). Ret
 
   /**
    * Generate a narrative story from logs and metrics
+   * Fallback text (no logs, or the AI call failed) has no provenance
    */
   private async generateStoryNarrative(
     logs: IAudioLog[],
-    metrics: IMetrics
-  ): Promise<string> {
+    metrics: IMetrics,
+    options: AnalysisOptions
+  ): Promise<{ story: string; provenance?: IAIProvenance }> {
     if (logs.length === 0) {
-      return 'No audio logs recorded this week. Start logging to get your personalized weekly summary!';
+      return { story: 'No audio logs recorded this week. Start logging to get your personalized weekly summary!' };
     }
 
     try {
       const transcriptsSummary = logs
         .slice(0, 20) // Limit to avoid token limits
-        .map((log) => `- ${log.transcript.substring(0, 200)}`)
+        .map((log) => `- ${(log.transcript ?? '').substring(0, 200)}`)
         .join('\n');
 
-      const prompt = `Based on the following weekly data, create a warm, personalized narrative summary (2-3 paragraphs) that reflects on the user's week. Be encouraging and insightful.
-
-Metrics:
-- Total entries: ${metrics.totalLogs}
-- Categories: ${JSON.stringify(metrics.categoryCounts)}
-- Sentiment: ${JSON.stringify(metrics.sentimentBreakdown)}
-- Top themes: ${metrics.topKeywords?.join(', ') || 'N/A'}
-
-Sample entries:
-${transcriptsSummary}
-
-Write a narrative that:
-1. Highlights key themes and patterns
-2. Acknowledges the user's emotions and experiences
-3. Provides gentle encouragement or insights
-4. Feels personal, not generic`;
+      const prompt = prompts.render('story', {
+        totalLogs: metrics.totalLogs,
+        categoryCounts: metrics.categoryCounts,
+        sentimentBreakdown: metrics.sentimentBreakdown,
+        topThemes: metrics.topKeywords?.join(', ') || 'N/A',
+        entries: transcriptsSummary,
+        goals: goalService.describeWeek(metrics.goals ?? []),
+      });
 
-      const story = await this.callGeminiApi(prompt);
-      return story.trim();
+      const response = await this.complete(this.request(prompt, options));
+      return {
+        story: response.text.trim(),
+        provenance: this.provenance(prompt, response.provider, response.model),
+      };
     } catch (error) {
+      if (error instanceof QuotaExceededError) throw error;
       logger.error('Error generating story narrative:', error);
-      return `This week you had ${metrics.totalLogs} entries across various categories. Keep logging to build a complete picture of your journey!`;
+      return {
+        story: `This week you had ${metrics.totalLogs} entries across various categories. Keep logging to build a complete picture of your journey!`,
+      };
     }
   }
 
   /**
-   * Generate TTS audio using Eleven Labs and upload to Cloudinary
+   * Generate TTS audio using Eleven Labs and store it via the storage adapter
+   * @throws ProviderError when Eleven Labs or the storage upload fails
    */
-  private async generateTTS(text: string): Promise<string | undefined> {
-    if (!this.elevenLabsApiKey) {
-      logger.warn('ELEVEN_KEY not configured - skipping TTS generation');
-      return undefined;
-    }
+  private async generateTTS(text: string): Promise<{ url?: string; provider: string; key: string }> {
+    const context = { provider: 'elevenlabs', service: 'tts' as const };
 
-    try {
+    const audioBuffer = await resilience.call('elevenlabs', { ...context, operation: 'text-to-speech' }, async (signal) => {
       const response = await fetch(`${this.elevenLabsApiUrl}/text-to-speech/21m00Tcm4TlvDq8ikWAM`, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
           'xi-api-key': this.elevenLabsApiKey,
@@ -701,36 +1038,43 @@ Write a narrative that:
       });
 
       if (!response.ok) {
-        throw new Error(`Eleven Labs API error: ${response.status}`);
+        throw providerErrorFromStatus(response.status, `Eleven Labs API error: ${response.status} - ${await response.text()}`, {
+          ...context,
+          retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+        });
       }
 
-      // Get audio buffer from response
-      const audioBuffer = Buffer.from(await response.arrayBuffer());
-      
-      // Upload to Cloudinary
-      const cloudinary = await import('cloudinary');
-      
-      return new Promise<string | undefined>((resolve) => {
-        const uploadStream = cloudinary.v2.uploader.upload_stream(
-          {
-            resource_type: 'video', // Cloudinary uses 'video' for audio
-            folder: 'tts_summaries',
-            format: 'mp3',
-          },
-          (error, result) => {
-            if (error) {
-              logger.error('Failed to upload TTS to Cloudinary:', error);
-              resolve(undefined);
-              return;
-            }
-            logger.info('TTS uploaded to Cloudinary:', result?.public_id);
-            resolve(result?.secure_url);
-          }
-        );
-        uploadStream.end(audioBuffer);
-      });
+      return Buffer.from(await response.arrayBuffer());
+    });
+
+    const stored = await storage.put({
+      buffer: audioBuffer,
+      mimeType: 'audio/mpeg',
+      folder: 'tts_summaries',
+    });
+    logger.info(`TTS stored via ${stored.provider}: ${stored.key}`);
+
+    return { url: stored.publicUrl, provider: stored.provider, key: stored.key };
+  }
+
+  /**
+   * Get a playable TTS URL for a summary
+   * Backends without public URLs get a fresh signed URL on every read
+   */
+  async resolveTtsUrl(summary: ISummary): Promise<string | undefined> {
+    if (summary.ttsUrl || !summary.ttsStorage) {
+      return summary.ttsUrl;
+    }
+
+    const adapter = getStorageAdapter(summary.ttsStorage.provider);
+    if (!adapter?.isConfigured()) {
+      return undefined;
+    }
+
+    try {
+      return await adapter.getSignedUrl(summary.ttsStorage.key, TTS_URL_TTL);
     } catch (error) {
-      logger.error('Error generating TTS:', error);
+      logger.warn('Failed to sign TTS URL:', error);
       return undefined;
     }
   }
@@ -767,7 +1111,7 @@ Write a narrative that:
       messages.push({ role: 'user', content: message });
 
       // Generate response
-      const response = await this.generateChatResponse(messages);
+      const response = await this.generateChatResponse(messages, userId);
 
       // Save assistant response
       await ChatMessage.create({
@@ -792,102 +1136,67 @@ Write a narrative that:
    * Generate chat response using AI
    */
   private async generateChatResponse(
-    messages: Array<{ role: string; content: string }>
+    messages: Array<{ role: string; content: string }>,
+    userId: string
   ): Promise<string> {
     try {
-      const systemPrompt = `You are a helpful, empathetic AI assistant for a personal journaling and reflection app. You help users:
-1. Reflect on their experiences and emotions
-2. Identify patterns in their behavior and thoughts
-3. Set and track personal goals
-4. Provide gentle encouragement and support
-
-Be warm, supportive, and non-judgmental. Ask thoughtful follow-up questions when appropriate.`;
+      const systemPrompt = prompts.render('chat', {});
 
       const conversationContext = messages
         .map((m) => `${m.role}: ${m.content}`)
         .join('\n');
 
-      const prompt = `${systemPrompt}\n\nConversation:\n${conversationContext}\n\nassistant:`;
+      const prompt = `Conversation:\n${conversationContext}\n\nassistant:`;
 
-      const response = await this.callGeminiApi(prompt);
-      return response.trim();
+      const response = await this.complete({ task: 'chat', prompt, system: systemPrompt.text, userId });
+      return response.text.trim();
     } catch (error) {
+      if (error instanceof QuotaExceededError) throw error;
       logger.error('Error generating chat response:', error);
       return "I'm having trouble processing that right now. Could you try again?";
     }
   }
 
   /**
-   * Call Gemini API
+   * Model calls for an analysis go through its meter when it has one
    */
-  private async callGeminiApi(prompt: string): Promise<string> {
-    if (!this.geminiApiKey) {
-      logger.warn('GEMINI_KEY not configured, using placeholder response');
-      return '[Placeholder response - configure GEMINI_KEY for real AI responses]';
-    }
-
-    try {
-      const response = await fetch(
-        `${this.geminiApiUrl}/models/gemini-2.5-flash:generateContent?key=${this.geminiApiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [{ text: prompt }],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 1024,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-      }
-
-      const data = await response.json() as {
-        candidates?: Array<{
-          content?: {
-            parts?: Array<{ text?: string }>;
-          };
-        }>;
-      };
+  private generator(options: AnalysisOptions): LLMGenerator {
+    return options.meter ?? this.llm;
+  }
 
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  /**
+   * Request for a rendered prompt, charged to the analysis' user
+   */
+  private request(prompt: RenderedPrompt, options: AnalysisOptions = {}): LLMRequest {
+    return {
+      task: prompt.name,
+      prompt: prompt.text,
+      promptVersion: prompt.version,
+      userId: options.userId,
+      quotaExempt: options.quotaExempt,
+    };
+  }
 
-      if (!text) {
-        throw new Error('No text in Gemini response');
-      }
+  /**
+   * Whether a failed analysis step is thrown instead of replaced by defaults
+   * Quota errors stay thrown in strict mode so the queue defers the job.
+   */
+  private rethrows(error: unknown, options: AnalysisOptions): boolean {
+    return !!options.strict && (!options.fallbackOnError || error instanceof QuotaExceededError);
+  }
 
-      return text;
-    } catch (error) {
-      logger.error('Gemini API error:', error);
-      throw error;
-    }
+  /**
+   * Send a prompt to the provider and model configured for its task
+   */
+  private async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.llm.generate(request);
   }
 
   /**
-   * Parse JSON from AI response
+   * Record which prompt version and model produced a result
    */
-  private parseJsonResponse<T>(text: string): T {
-    // Try to extract JSON from the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]) as T;
-      } catch {
-        logger.warn('Failed to parse JSON from AI response');
-      }
-    }
-    return {} as T;
+  private provenance(prompt: RenderedPrompt, provider: string, model: string): IAIProvenance {
+    return { prompt: prompt.name, promptVersion: prompt.version, provider, model };
   }
 
   /**
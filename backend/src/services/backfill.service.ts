@@ -0,0 +1,394 @@
+import mongoose, { FilterQuery, UpdateQuery } from 'mongoose';
+import { AudioLog, IAudioLog } from '../models/AudioLog';
+import { BackfillRun, BackfillPrompt, IBackfillFilter, IBackfillRun, MAX_BACKFILL_FAILURES } from '../models/BackfillRun';
+import { Summary } from '../models/Summary';
+import { ConflictError } from '../middleware/error.middleware';
+import { logger } from '../utils/logger';
+import { aiService } from './ai.service';
+import { reconciliation } from './reconcile.service';
+
+/**
+ * Backfill tuning, read from the environment
+ */
+const DEFAULT_RATE_PER_MINUTE = parseInt(process.env.BACKFILL_RATE_PER_MINUTE || '20', 10);
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.BACKFILL_HEARTBEAT_TIMEOUT_MS || '600000', 10);
+
+/**
+ * Logs listed in a dry-run preview
+ */
+const PREVIEW_SAMPLE_SIZE = 20;
+
+/**
+ * Which logs to re-analyse and how fast
+ */
+export interface BackfillOptions {
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  prompt?: BackfillPrompt;  // Prompt `promptVersion` refers to (default categorize)
+  promptVersion?: number;   // Only logs analysed with this version of the prompt
+  ratePerMinute?: number;   // Logs per minute (default BACKFILL_RATE_PER_MINUTE)
+  requestedBy?: string;
+}
+
+/**
+ * What a run with the same options would touch, without running it
+ */
+export interface BackfillPreview {
+  dryRun: true;
+  total: number;
+  users: { userId: string; logs: number }[];
+  summaries: number;                // Existing summaries that would be regenerated
+  estimatedMinutes: number;
+  sampleLogIds: string[];
+}
+
+/**
+ * Called after every log and after the rebuild with the run's latest state
+ */
+export type BackfillProgressHandler = (run: IBackfillRun) => void;
+
+/**
+ * Backfill Service
+ * Re-runs categorization and activity analysis over historical logs so
+ * scores stay comparable after prompt or model changes, then rebuilds the
+ * affected activity trackers and weekly summaries.
+ *
+ * Runs are persisted in `BackfillRun` and visit logs in `_id` order, so a
+ * paused, failed or abandoned run resumes after the last log it visited.
+ * Only logs that finished the pipeline are selected; user-provided and
+ * earlier AI titles are kept since the two can't be told apart.
+ */
+export class BackfillService {
+  /**
+   * Count the logs, users and summaries a run would touch
+   */
+  async preview(options: BackfillOptions): Promise<BackfillPreview> {
+    const filter = this.toFilter(options);
+    const query = this.buildQuery(filter);
+    const ratePerMinute = options.ratePerMinute || DEFAULT_RATE_PER_MINUTE;
+
+    const [total, users, sample] = await Promise.all([
+      AudioLog.countDocuments(query),
+      AudioLog.aggregate<{ _id: mongoose.Types.ObjectId; logs: number }>([
+        { $match: query },
+        { $group: { _id: '$userId', logs: { $sum: 1 } } },
+        { $sort: { logs: -1 } },
+      ]),
+      AudioLog.find(query, { _id: 1 }).sort({ _id: 1 }).limit(PREVIEW_SAMPLE_SIZE),
+    ]);
+
+    let summaries = 0;
+    for (const { _id: userId } of users) {
+      const timestamps = await AudioLog.find({ ...query, userId }).distinct('timestamp');
+      summaries += (await this.findSummaryIds(userId, timestamps)).length;
+    }
+
+    return {
+      dryRun: true,
+      total,
+      users: users.map(({ _id, logs }) => ({ userId: _id.toString(), logs })),
+      summaries,
+      estimatedMinutes: Math.ceil((total + summaries) / ratePerMinute),
+      sampleLogIds: sample.map((log) => log._id.toString()),
+    };
+  }
+
+  /**
+   * Create a run; call `execute` to process it
+   * @throws ConflictError when another run is in progress
+   */
+  async start(options: BackfillOptions): Promise<IBackfillRun> {
+    await this.assertNoActiveRun();
+
+    const filter = this.toFilter(options);
+    const run = await BackfillRun.create({
+      filter,
+      ratePerMinute: options.ratePerMinute || DEFAULT_RATE_PER_MINUTE,
+      total: await AudioLog.countDocuments(this.buildQuery(filter)),
+      requestedBy: options.requestedBy,
+    });
+
+    logger.info(`Backfill run ${run._id} created`, { filter, total: run.total, ratePerMinute: run.ratePerMinute });
+    return run;
+  }
+
+  /**
+   * Mark a paused, failed or abandoned run as running again; call `execute` to process it
+   * @returns null when the run doesn't exist
+   * @throws ConflictError when the run is complete or another run is in progress
+   */
+  async resume(runId: string): Promise<IBackfillRun | null> {
+    const run = await BackfillRun.findById(runId);
+    if (!run) {
+      return null;
+    }
+
+    if (run.status === 'completed') {
+      throw new ConflictError('Backfill run has already completed');
+    }
+    await this.assertNoActiveRun();
+
+    const resumed = await BackfillRun.findByIdAndUpdate(
+      run._id,
+      { $set: { status: 'running', heartbeatAt: new Date() }, $unset: { lastError: 1, finishedAt: 1 } },
+      { new: true }
+    );
+
+    logger.info(`Backfill run ${runId} resumed`, { processed: run.processed, total: run.total });
+    return resumed;
+  }
+
+  /**
+   * Ask a running run to stop after the log it is working on
+   * @returns null when the run doesn't exist
+   * @throws ConflictError when the run isn't running
+   */
+  async pause(runId: string): Promise<IBackfillRun | null> {
+    const run = await BackfillRun.findById(runId);
+    if (!run) {
+      return null;
+    }
+
+    const paused = await BackfillRun.findOneAndUpdate(
+      { _id: run._id, status: 'running' },
+      { $set: { status: 'paused' } },
+      { new: true }
+    );
+    if (!paused) {
+      throw new ConflictError(`Backfill run is ${run.status}, not running`);
+    }
+
+    logger.info(`Backfill run ${runId} paused`);
+    return paused;
+  }
+
+  async getRun(runId: string): Promise<IBackfillRun | null> {
+    return BackfillRun.findById(runId);
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  async list(limit = 20): Promise<IBackfillRun[]> {
+    return BackfillRun.find().sort({ createdAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Re-analyse the run's remaining logs at its rate limit, then rebuild
+   * trackers and summaries. Returns when the run completes, is paused or fails;
+   * failures of individual logs are recorded and skipped.
+   */
+  async execute(runId: string, onProgress?: BackfillProgressHandler): Promise<IBackfillRun | null> {
+    let run: IBackfillRun | null = await BackfillRun.findById(runId);
+    const query = run && this.buildQuery(run.filter);
+    const intervalMs = run ? 60000 / run.ratePerMinute : 0;
+
+    try {
+      while (run?.status === 'running' && query) {
+        const log: IAudioLog | null = await AudioLog.findOne(run.cursor ? { ...query, _id: { $gt: run.cursor } } : query)
+          .sort({ _id: 1 });
+        if (!log) break;
+
+        const startedAt = Date.now();
+        run = await this.update(run._id, await this.reanalyze(log));
+        if (run) onProgress?.(run);
+
+        const wait = intervalMs - (Date.now() - startedAt);
+        if (run?.status === 'running' && wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+      }
+
+      if (run?.status !== 'running') {
+        logger.info(`Backfill run ${runId} stopped`, { status: run?.status });
+        return run;
+      }
+
+      run = await this.rebuild(run, intervalMs);
+      if (run) onProgress?.(run);
+      return run;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Backfill run ${runId} failed: ${message}`);
+      return BackfillRun.findByIdAndUpdate(
+        runId,
+        { $set: { status: 'failed', lastError: message, finishedAt: new Date() } },
+        { new: true }
+      );
+    }
+  }
+
+  /**
+   * Re-run categorization and activity analysis for one log
+   * @returns The run update recording the outcome
+   */
+  private async reanalyze(log: IAudioLog): Promise<UpdateQuery<IBackfillRun>> {
+    const logId = log._id.toString();
+    const base = { $set: { cursor: log._id, heartbeatAt: new Date() } };
+
+    try {
+      await aiService.categorizeAudioLog(logId, log.userId.toString(), { strict: true, quotaExempt: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Backfill could not re-analyse log ${logId}: ${message}`);
+      return {
+        ...base,
+        $inc: { failed: 1 },
+        $push: { failures: { $each: [{ logId: log._id, error: message }], $slice: -MAX_BACKFILL_FAILURES } },
+      };
+    }
+
+    const summaryIds = await this.findSummaryIds(log.userId, [log.timestamp]);
+    return {
+      ...base,
+      $inc: { processed: 1 },
+      $addToSet: { affectedUsers: log.userId, affectedWeeks: { $each: summaryIds } },
+    };
+  }
+
+  /**
+   * Rebuild the trackers of affected users and regenerate affected summaries,
+   * then mark the run complete
+   * The heartbeat is kept up after every tracker and summary. A pause stops
+   * after the summary in progress; resuming skips the summaries already visited.
+   */
+  private async rebuild(run: IBackfillRun, intervalMs: number): Promise<IBackfillRun | null> {
+    logger.info(`Backfill run ${run._id}: rebuilding ${run.affectedUsers.length} tracker(s) and ${run.affectedWeeks.length} summary(ies)`);
+
+    for (const userId of run.affectedUsers) {
+      await reconciliation.rebuildTracker(userId);
+      await BackfillRun.updateOne({ _id: run._id }, { $set: { heartbeatAt: new Date() } });
+    }
+
+    const visited = new Set(run.rebuiltWeeks.map(String));
+    for (const summaryId of run.affectedWeeks) {
+      if (visited.has(String(summaryId))) continue;
+
+      const startedAt = Date.now();
+      const summary = await Summary.findById(summaryId, { userId: 1, weekStart: 1 });
+      if (summary) {
+        await aiService.generateWeeklySummary(summary.userId.toString(), summary.weekStart, { quotaExempt: true });
+      }
+
+      const current = await BackfillRun.findByIdAndUpdate(
+        run._id,
+        {
+          $set: { heartbeatAt: new Date() },
+          $addToSet: { rebuiltWeeks: summaryId },
+          $inc: { summariesRebuilt: summary ? 1 : 0 },
+        },
+        { new: true }
+      );
+      if (current?.status !== 'running') {
+        logger.info(`Backfill run ${run._id} stopped while rebuilding summaries`, { status: current?.status });
+        return current;
+      }
+
+      const wait = intervalMs - (Date.now() - startedAt);
+      if (summary && wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+    }
+
+    // A pause requested after the last summary still wins
+    const completed = await BackfillRun.findOneAndUpdate(
+      { _id: run._id, status: 'running' },
+      { $set: { status: 'completed', finishedAt: new Date(), heartbeatAt: new Date() } },
+      { new: true }
+    );
+    if (!completed) {
+      return BackfillRun.findById(run._id);
+    }
+
+    logger.info(`Backfill run ${run._id} completed`, {
+      processed: completed.processed,
+      failed: completed.failed,
+      summariesRebuilt: completed.summariesRebuilt,
+    });
+    return completed;
+  }
+
+  /**
+   * Apply a progress update; the returned document also reflects a pause requested meanwhile
+   */
+  private async update(runId: mongoose.Types.ObjectId, update: UpdateQuery<IBackfillRun>): Promise<IBackfillRun | null> {
+    const run = await BackfillRun.findByIdAndUpdate(runId, update, { new: true });
+    if (run && (run.processed + run.failed) % 10 === 0) {
+      logger.info(`Backfill run ${runId}: ${run.processed + run.failed}/${run.total} logs`, { failed: run.failed });
+    }
+    return run;
+  }
+
+  /**
+   * Summaries covering any of the given log timestamps
+   */
+  private async findSummaryIds(userId: mongoose.Types.ObjectId, timestamps: Date[]): Promise<mongoose.Types.ObjectId[]> {
+    if (!timestamps.length) {
+      return [];
+    }
+
+    return Summary.find({
+      userId,
+      $or: timestamps.map((timestamp) => ({ weekStart: { $lte: timestamp }, weekEnd: { $gt: timestamp } })),
+    }).distinct('_id');
+  }
+
+  /**
+   * Only one run at a time, so runs don't compete for the provider's rate limits
+   * A running run whose heartbeat has timed out was abandoned and doesn't count
+   */
+  private async assertNoActiveRun(): Promise<void> {
+    const active = await BackfillRun.findOne({
+      status: 'running',
+      heartbeatAt: { $gt: new Date(Date.now() - HEARTBEAT_TIMEOUT_MS) },
+    });
+    if (active) {
+      throw new ConflictError(`Backfill run ${active._id} is already in progress`);
+    }
+  }
+
+  private toFilter(options: BackfillOptions): IBackfillFilter {
+    return {
+      userId: options.userId ? new mongoose.Types.ObjectId(options.userId) : undefined,
+      from: options.from,
+      to: options.to,
+      prompt: options.promptVersion !== undefined ? options.prompt || 'categorize' : undefined,
+      promptVersion: options.promptVersion,
+    };
+  }
+
+  /**
+   * Logs matching a run's filter that finished the pipeline
+   * (logs created before the job queue count when they were categorized)
+   */
+  private buildQuery(filter: IBackfillFilter): FilterQuery<IAudioLog> {
+    const query: FilterQuery<IAudioLog> = {
+      transcript: { $nin: [null, ''] },
+      $or: [
+        { processingStatus: 'tracked' },
+        { processingStatus: { $exists: false }, category: { $exists: true } },
+      ],
+    };
+
+    if (filter.userId) {
+      query.userId = filter.userId;
+    }
+    if (filter.from || filter.to) {
+      query.timestamp = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lt: filter.to }),
+      };
+    }
+    if (filter.promptVersion !== undefined) {
+      query[`metadata.provenance.${filter.prompt || 'categorize'}.promptVersion`] = filter.promptVersion;
+    }
+
+    return query;
+  }
+}
+
+// Export singleton instance
+export const backfill = new BackfillService();
+
+export default backfill;
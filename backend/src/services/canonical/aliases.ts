@@ -0,0 +1,55 @@
+/**
+ * Activity aliases
+ * Reduces an extracted activity to the words that name it, so wordings that
+ * differ only in filler ("went to the gym", "gym session", "45 min at the
+ * gym") share an alias. Different words for the same habit ("gym" and
+ * "workout") are merged by the user or on the AI's suggestion.
+ */
+
+/**
+ * Longest alias kept; longer descriptions are cut
+ */
+export const MAX_ALIAS_LENGTH = 100;
+
+/**
+ * Words that don't tell activities apart
+ */
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'some', 'my', 'our', 'to', 'for', 'of', 'at', 'with', 'in', 'on', 'into', 'about',
+  'went', 'go', 'goes', 'going', 'did', 'do', 'does', 'doing', 'had', 'have', 'has', 'having',
+  'got', 'get', 'getting', 'spent', 'spend', 'spending', 'took', 'take', 'taking',
+  'session', 'sessions', 'bit', 'quick', 'today', 'yesterday', 'tonight', 'again',
+]);
+
+const DURATION = /\b\d+(?:[.,]\d+)?\s*(?:h|hrs?|hours?|mins?|minutes?)\b/gi;
+
+/**
+ * Alias of an extracted activity: lowercase words without punctuation,
+ * durations and filler; all its words when it is nothing but filler
+ */
+export function normalizeActivity(activity: string): string {
+  const words = activity
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(DURATION, ' ')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const kept = words.filter((word) => !FILLER_WORDS.has(word));
+  return (kept.length > 0 ? kept : words).join(' ').slice(0, MAX_ALIAS_LENGTH).trim();
+}
+
+/**
+ * Whether an extracted activity is the "nothing found" placeholder
+ */
+export function isPlaceholderActivity(activity: string): boolean {
+  return activity.trim().toUpperCase() === 'N/A';
+}
+
+/**
+ * Display name of a new canonical activity: its alias, capitalized
+ */
+export function activityName(alias: string, maxLength: number): string {
+  const name = alias.slice(0, maxLength).trim();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
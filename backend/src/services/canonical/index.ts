@@ -0,0 +1,455 @@
+import mongoose from 'mongoose';
+import { CanonicalActivity, ICanonicalActivity, MAX_ACTIVITY_NAME_LENGTH } from '../../models/CanonicalActivity';
+import { ActivityMerge, IActivityMerge, IMergedActivity, ActivityMergeStatus } from '../../models/ActivityMerge';
+import { ActivityEntry } from '../../models/ActivityEntry';
+import { IAIProvenance } from '../../models/Provenance';
+import { ConflictError, NotFoundError, ValidationError } from '../../middleware/error.middleware';
+import { activityName, isPlaceholderActivity, normalizeActivity } from './aliases';
+import { habitStats, HabitStats } from './stats';
+
+export * from './aliases';
+export * from './stats';
+
+/**
+ * Longest period the statistics cover (days)
+ */
+export const MAX_STATS_DAYS = 365;
+
+/**
+ * Most activities listed in the statistics
+ */
+export const MAX_STATS_ACTIVITIES = 200;
+
+/**
+ * Most activities the AI is asked to group, most recently changed first
+ */
+export const MAX_SUGGESTION_ACTIVITIES = 150;
+
+/**
+ * Most merges listed
+ */
+const MAX_LISTED_MERGES = 100;
+
+const MERGE_STATUSES: ActivityMergeStatus[] = ['pending', 'accepted', 'rejected', 'undone'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Activities the AI suggests merging, by canonical activity ID
+ */
+export interface MergeSuggestion {
+  name: string;
+  activityIds: string[];
+  reason?: string;
+}
+
+/**
+ * Statistics of one canonical activity
+ */
+export interface ActivityStatsView extends HabitStats {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+/**
+ * Habit statistics of a user's activities over a period
+ */
+export interface ActivityStats {
+  days: number;
+  timeZone: string;
+  logs: number;                       // Analysed logs in the period
+  activities: ActivityStatsView[];    // Most frequent first
+}
+
+/**
+ * Canonical Activity Service
+ * Clusters the free-text activities extracted from a user's logs into
+ * canonical activities. Wordings that normalize to the same alias share an
+ * activity as soon as they are extracted; the rest are merged by the user,
+ * or suggested by the AI and merged once the user accepts. Every merge is
+ * recorded and can be undone.
+ */
+export class CanonicalService {
+  /**
+   * Add an activity for each extracted activity whose alias the user has none for
+   */
+  async register(userId: string, activities: string[]): Promise<void> {
+    const aliases = new Set(
+      activities
+        .filter((activity) => !isPlaceholderActivity(activity))
+        .map(normalizeActivity)
+        .filter(Boolean)
+    );
+    if (aliases.size === 0) {
+      return;
+    }
+
+    const owner = new mongoose.Types.ObjectId(userId);
+    const known = await CanonicalActivity.find({ userId: owner, aliases: { $in: [...aliases] } }, { aliases: 1 }).lean();
+    for (const activity of known) {
+      for (const alias of activity.aliases) aliases.delete(alias);
+    }
+    if (aliases.size === 0) {
+      return;
+    }
+
+    try {
+      await CanonicalActivity.insertMany(
+        [...aliases].map((alias) => ({ userId: owner, name: activityName(alias, MAX_ACTIVITY_NAME_LENGTH), aliases: [alias] })),
+        { ordered: false }
+      );
+    } catch (error) {
+      // Registered meanwhile by another analysis of the user's logs; the rest were added
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  /**
+   * A user's canonical activities, by name
+   */
+  async listActivities(userId: string): Promise<ICanonicalActivity[]> {
+    return CanonicalActivity.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .collation({ locale: 'en' })
+      .sort({ name: 1 });
+  }
+
+  /**
+   * All wordings of the activities the given aliases belong to, by alias
+   * An alias the user has no activity for stands for itself.
+   */
+  async aliasGroups(userId: string, aliases: string[]): Promise<Map<string, string[]>> {
+    const activities = await CanonicalActivity.find(
+      { userId: new mongoose.Types.ObjectId(userId), aliases: { $in: aliases } },
+      { aliases: 1 }
+    ).lean();
+    return new Map(aliases.map((alias) => [
+      alias,
+      activities.find((activity) => activity.aliases.includes(alias))?.aliases ?? [alias],
+    ]));
+  }
+
+  /**
+   * Rename a user's activity
+   * @throws NotFoundError when the activity is not the user's
+   */
+  async renameActivity(userId: string, activityId: string, name: unknown): Promise<ICanonicalActivity> {
+    const activity = await this.findActivity(userId, activityId);
+    activity.name = this.validateName(name);
+    await activity.save();
+    return activity;
+  }
+
+  /**
+   * Merge activities into the first one, e.g. "gym" and "workout"
+   * @param name - Name of the merged activity (default: the first one's)
+   * @throws ValidationError unless given two or more of the user's activities
+   */
+  async mergeActivities(userId: string, activityIds: unknown, name?: unknown): Promise<IActivityMerge> {
+    if (!Array.isArray(activityIds) || activityIds.length < 2 || !activityIds.every((id) => typeof id === 'string')) {
+      throw new ValidationError('activityIds must list at least two activity IDs');
+    }
+    const ids = [...new Set(activityIds as string[])];
+    const activities = await this.findActivities(userId, ids);
+    if (activities.length !== ids.length) {
+      throw new NotFoundError('Activity not found');
+    }
+    if (activities.length < 2) {
+      throw new ValidationError('activityIds must list at least two activity IDs');
+    }
+
+    const mergedName = name === undefined ? activities[0]?.name ?? '' : this.validateName(name);
+    await this.applyMerge(activities, mergedName);
+    return ActivityMerge.create({
+      userId: new mongoose.Types.ObjectId(userId),
+      name: mergedName,
+      activities: activities.map(this.snapshot),
+      source: 'user',
+      status: 'accepted',
+      reviewedAt: new Date(),
+    });
+  }
+
+  /**
+   * Move an alias out of an activity into an activity of its own
+   * @returns The new activity
+   * @throws NotFoundError when the activity is not the user's or has no such alias
+   * @throws ConflictError when it is the activity's only alias
+   */
+  async splitAlias(userId: string, activityId: string, alias: string): Promise<ICanonicalActivity> {
+    const activity = await this.findActivity(userId, activityId);
+    const key = normalizeActivity(alias);
+    if (!activity.aliases.includes(key)) {
+      throw new NotFoundError('Alias not found');
+    }
+    if (activity.aliases.length === 1) {
+      throw new ConflictError('An activity keeps at least one alias');
+    }
+
+    activity.aliases = activity.aliases.filter((existing) => existing !== key);
+    await activity.save();
+    return CanonicalActivity.create({
+      userId: activity.userId,
+      name: activityName(key, MAX_ACTIVITY_NAME_LENGTH),
+      aliases: [key],
+    });
+  }
+
+  /**
+   * Activities to ask the AI to group, most recently changed first
+   */
+  async suggestionCandidates(userId: string): Promise<ICanonicalActivity[]> {
+    return CanonicalActivity.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ updatedAt: -1 })
+      .limit(MAX_SUGGESTION_ACTIVITIES);
+  }
+
+  /**
+   * Save the AI's merge suggestions for the user to review
+   * Suggestions the user rejected before, or touching an activity that is
+   * already in a pending suggestion, are skipped. The activity with the
+   * most aliases is the one kept.
+   * @returns The suggestions saved
+   */
+  async recordSuggestions(userId: string, suggestions: MergeSuggestion[], provenance?: IAIProvenance): Promise<IActivityMerge[]> {
+    const owner = new mongoose.Types.ObjectId(userId);
+    const reviewed = await ActivityMerge.find({ userId: owner, status: { $in: ['pending', 'rejected'] } }, { activities: 1, status: 1 }).lean();
+    const rejected = new Set(reviewed.filter((merge) => merge.status === 'rejected').map((merge) => this.mergeKey(merge.activities)));
+    const pending = new Set(reviewed
+      .filter((merge) => merge.status === 'pending')
+      .flatMap((merge) => merge.activities.map((activity) => String(activity.activityId))));
+
+    const saved: IActivityMerge[] = [];
+    for (const suggestion of suggestions) {
+      const activities = (await this.findActivities(userId, suggestion.activityIds))
+        .sort((a, b) => b.aliases.length - a.aliases.length);
+      if (activities.length < 2) continue;
+
+      const snapshots = activities.map(this.snapshot);
+      if (rejected.has(this.mergeKey(snapshots)) || snapshots.some((activity) => pending.has(String(activity.activityId)))) {
+        continue;
+      }
+
+      saved.push(await ActivityMerge.create({
+        userId: owner,
+        name: suggestion.name.slice(0, MAX_ACTIVITY_NAME_LENGTH).trim(),
+        activities: snapshots,
+        reason: suggestion.reason,
+        source: 'ai',
+        status: 'pending',
+        provenance,
+      }));
+      for (const activity of snapshots) pending.add(String(activity.activityId));
+    }
+    return saved;
+  }
+
+  /**
+   * A user's merges, most recent first
+   * @param status - Only merges in this status
+   */
+  async listMerges(userId: string, status?: string): Promise<IActivityMerge[]> {
+    if (status !== undefined && !MERGE_STATUSES.includes(status as ActivityMergeStatus)) {
+      throw new ValidationError(`status must be one of: ${MERGE_STATUSES.join(', ')}`);
+    }
+    return ActivityMerge.find({ userId: new mongoose.Types.ObjectId(userId), ...(status ? { status } : {}) })
+      .sort({ createdAt: -1 })
+      .limit(MAX_LISTED_MERGES);
+  }
+
+  /**
+   * Merge the activities of a pending suggestion
+   * @param name - Overrides the suggested name
+   * @throws ConflictError when fewer than two of the activities are left
+   */
+  async acceptMerge(userId: string, mergeId: string, name?: unknown): Promise<IActivityMerge> {
+    const merge = await this.findMerge(userId, mergeId, 'pending');
+    const mergedName = name === undefined ? merge.name : this.validateName(name);
+
+    // Merged or split since the suggestion: merge the activities as they are now
+    const activities = await this.findActivities(userId, merge.activities.map((activity) => String(activity.activityId)));
+    if (activities.length < 2) {
+      throw new ConflictError('The suggested activities have changed since; reject this suggestion');
+    }
+
+    await this.applyMerge(activities, mergedName);
+    merge.name = mergedName;
+    merge.activities = activities.map(this.snapshot);
+    merge.status = 'accepted';
+    merge.reviewedAt = new Date();
+    await merge.save();
+    return merge;
+  }
+
+  /**
+   * Reject a pending suggestion; the same activities aren't suggested again
+   */
+  async rejectMerge(userId: string, mergeId: string): Promise<IActivityMerge> {
+    const merge = await this.findMerge(userId, mergeId, 'pending');
+    merge.status = 'rejected';
+    merge.reviewedAt = new Date();
+    await merge.save();
+    return merge;
+  }
+
+  /**
+   * Split an accepted merge back into the activities it combined
+   * Aliases moved out of the merged activity since are left where they are.
+   * @throws ConflictError when the merged activity has been merged into another since
+   */
+  async undoMerge(userId: string, mergeId: string): Promise<IActivityMerge> {
+    const merge = await this.findMerge(userId, mergeId, 'accepted');
+    const [kept, ...others] = merge.activities;
+    const merged = kept && await CanonicalActivity.findOne({ _id: kept.activityId, userId: merge.userId });
+    if (!kept || !merged) {
+      throw new ConflictError('The merged activity has been merged again since; undo that merge first');
+    }
+
+    const restored = others
+      .map((activity) => ({ ...activity, aliases: activity.aliases.filter((alias) => merged.aliases.includes(alias)) }))
+      .filter((activity) => activity.aliases.length > 0);
+    const moved = new Set(restored.flatMap((activity) => activity.aliases));
+
+    const remaining = merged.aliases.filter((alias) => !moved.has(alias));
+    if (remaining.length > 0) {
+      merged.name = kept.name;
+      merged.aliases = remaining;
+      await merged.save();
+    } else {
+      await merged.deleteOne();
+    }
+    if (restored.length > 0) {
+      await CanonicalActivity.insertMany(restored.map((activity) => ({
+        _id: activity.activityId,
+        userId: merge.userId,
+        name: activity.name,
+        aliases: activity.aliases,
+      })));
+    }
+
+    merge.status = 'undone';
+    merge.reviewedAt = new Date();
+    await merge.save();
+    return merge;
+  }
+
+  /**
+   * Frequency, last occurrence, typical weekday and time, and weekly trend
+   * of each of a user's activities over the last `days` days
+   * Activities of logs analysed before they were canonicalized are
+   * registered on the way.
+   * @param timeZone - IANA time zone the weekday and time are read in
+   */
+  async getStats(userId: string, options: { days: number; timeZone: string; limit: number }): Promise<ActivityStats> {
+    const owner = new mongoose.Types.ObjectId(userId);
+    const now = new Date();
+    const entries = await ActivityEntry.find(
+      { userId: owner, timestamp: { $gt: new Date(now.getTime() - options.days * DAY_MS), $lte: now } },
+      { timestamp: 1, 'extractedActivities.activity': 1 }
+    ).lean();
+
+    await this.register(userId, entries.flatMap((entry) => entry.extractedActivities.map(({ activity }) => activity)));
+    const activities = await CanonicalActivity.find({ userId: owner }).lean();
+    const byAlias = new Map(activities.flatMap((activity) => activity.aliases.map((alias) => [alias, String(activity._id)] as const)));
+
+    // A log counts once per activity, however many of its wordings it mentions
+    const occurrences = new Map<string, Date[]>();
+    for (const entry of entries) {
+      const ids = new Set(entry.extractedActivities
+        .filter(({ activity }) => !isPlaceholderActivity(activity))
+        .map(({ activity }) => byAlias.get(normalizeActivity(activity)))
+        .filter((id): id is string => id !== undefined));
+      for (const id of ids) {
+        occurrences.set(id, [...occurrences.get(id) ?? [], entry.timestamp]);
+      }
+    }
+
+    const stats = activities
+      .filter((activity) => occurrences.has(String(activity._id)))
+      .map((activity) => ({
+        id: String(activity._id),
+        name: activity.name,
+        aliases: activity.aliases,
+        ...habitStats(occurrences.get(String(activity._id)) ?? [], { days: options.days, timeZone: options.timeZone, now }),
+      }))
+      .sort((a, b) => b.count - a.count || b.lastOccurrence.getTime() - a.lastOccurrence.getTime())
+      .slice(0, options.limit);
+
+    return { days: options.days, timeZone: options.timeZone, logs: entries.length, activities: stats };
+  }
+
+  /**
+   * Move the aliases of the other activities into the first one, and delete them
+   */
+  private async applyMerge(activities: ICanonicalActivity[], name: string): Promise<void> {
+    const [kept, ...others] = activities;
+    if (!kept) return;
+
+    // Delete first: an alias belongs to one activity at a time
+    await CanonicalActivity.deleteMany({ _id: { $in: others.map((activity) => activity._id) }, userId: kept.userId });
+    kept.name = name;
+    kept.aliases = [...new Set([...kept.aliases, ...others.flatMap((activity) => activity.aliases)])];
+    await kept.save();
+  }
+
+  /**
+   * Of the given IDs, the user's activities, in the order given
+   */
+  private async findActivities(userId: string, activityIds: string[]): Promise<ICanonicalActivity[]> {
+    const ids = activityIds.filter((id) => mongoose.Types.ObjectId.isValid(id));
+    const activities = await CanonicalActivity.find({
+      _id: { $in: ids.map((id) => new mongoose.Types.ObjectId(id)) },
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+    return ids.flatMap((id) => activities.filter((activity) => String(activity._id) === id));
+  }
+
+  private async findActivity(userId: string, activityId: string): Promise<ICanonicalActivity> {
+    const [activity] = await this.findActivities(userId, [activityId]);
+    if (!activity) {
+      throw new NotFoundError('Activity not found');
+    }
+    return activity;
+  }
+
+  /**
+   * @throws NotFoundError when the merge is not the user's
+   * @throws ConflictError when the merge is not in the expected status
+   */
+  private async findMerge(userId: string, mergeId: string, status: ActivityMergeStatus): Promise<IActivityMerge> {
+    const merge = mongoose.Types.ObjectId.isValid(mergeId)
+      ? await ActivityMerge.findOne({ _id: new mongoose.Types.ObjectId(mergeId), userId: new mongoose.Types.ObjectId(userId) })
+      : null;
+    if (!merge) {
+      throw new NotFoundError('Merge not found');
+    }
+    if (merge.status !== status) {
+      throw new ConflictError(`The merge is ${merge.status}`);
+    }
+    return merge;
+  }
+
+  private snapshot(activity: ICanonicalActivity): IMergedActivity {
+    return { activityId: activity._id, name: activity.name, aliases: [...activity.aliases] };
+  }
+
+  /**
+   * Same key for merges of the same activities, in any order
+   */
+  private mergeKey(activities: IMergedActivity[]): string {
+    return activities.map((activity) => String(activity.activityId)).sort().join(',');
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ValidationError('Name is required');
+    }
+    if (name.trim().length > MAX_ACTIVITY_NAME_LENGTH) {
+      throw new ValidationError(`Name cannot exceed ${MAX_ACTIVITY_NAME_LENGTH} characters`);
+    }
+    return name.trim();
+  }
+}
+
+export const canonicalService = new CanonicalService();
+export default canonicalService;
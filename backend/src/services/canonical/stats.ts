@@ -0,0 +1,162 @@
+/**
+ * Habit statistics
+ * How often, when and how steadily an activity comes up in a user's logs.
+ * Occurrences are the times of the logs that mention the activity (when it
+ * was talked about, which is usually the day it was done).
+ */
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+export type TrendDirection = 'rising' | 'falling' | 'steady';
+
+/**
+ * Occurrences in one week of the trend line
+ */
+export interface TrendPoint {
+  start: string;                      // Day the week starts (UTC), YYYY-MM-DD
+  count: number;
+}
+
+/**
+ * Statistics of one activity over a period
+ */
+export interface HabitStats {
+  count: number;                      // Logs that mention the activity
+  perWeek: number;                    // Average occurrences per week
+  lastOccurrence: Date;
+  typicalWeekday: Weekday;            // Most common weekday, in the user's time zone
+  typicalHour: number;                // Most common hour (0-23), in the user's time zone
+  typicalTimeOfDay: TimeOfDay;
+  trend: TrendPoint[];                // Occurrences per week, oldest first; the last week ends now
+  slope: number;                      // Change in weekly occurrences per week (least squares)
+  direction: TrendDirection;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Smallest weekly change (occurrences per week, per week) read as rising or falling
+ */
+export const TREND_THRESHOLD = 0.1;
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Hour each part of the day starts at; night runs until morning
+ */
+const TIMES_OF_DAY: { from: number; time: TimeOfDay }[] = [
+  { from: 22, time: 'night' },
+  { from: 17, time: 'evening' },
+  { from: 12, time: 'afternoon' },
+  { from: 5, time: 'morning' },
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', hour: 'numeric', hourCycle: 'h23' });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Whether a time zone is a known IANA zone, e.g. "Europe/Berlin"
+ */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Weekday and hour of a time in a time zone
+ */
+function localTime(date: Date, timeZone: string): { weekday: Weekday; hour: number } {
+  const parts = formatter(timeZone).formatToParts(date);
+  const weekday = parts.find((part) => part.type === 'weekday')?.value.toLowerCase() as Weekday;
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  return { weekday, hour };
+}
+
+/**
+ * Most frequent value; ties go to the value listed first in `order`
+ */
+function mostFrequent<T>(values: T[], order: readonly T[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best: T | undefined;
+  for (const value of order) {
+    if ((counts.get(value) ?? 0) > (best === undefined ? 0 : counts.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+function timeOfDay(hour: number): TimeOfDay {
+  return TIMES_OF_DAY.find(({ from }) => hour >= from)?.time ?? 'night';
+}
+
+/**
+ * Least-squares slope of a series against its index
+ */
+function slopeOf(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Statistics of an activity from the times it occurred
+ * @param occurrences - At least one, all within the period
+ * @param period - Days covered, ending at `now`, and the user's time zone
+ */
+export function habitStats(
+  occurrences: Date[],
+  period: { days: number; timeZone: string; now?: Date }
+): HabitStats {
+  const now = period.now ?? new Date();
+  const local = occurrences.map((date) => localTime(date, period.timeZone));
+  const hours = local.map(({ hour }) => hour);
+
+  // Weeks counted back from now; the oldest may reach back before the period
+  const weeks = Math.max(1, Math.ceil(period.days / 7));
+  const trend: TrendPoint[] = Array.from({ length: weeks }, (_, index) => ({
+    start: new Date(now.getTime() - (weeks - index) * WEEK_MS).toISOString().slice(0, 10),
+    count: 0,
+  }));
+  for (const date of occurrences) {
+    const point = trend[weeks - 1 - Math.floor((now.getTime() - date.getTime()) / WEEK_MS)];
+    if (point) point.count++;
+  }
+
+  const slope = round(slopeOf(trend.map(({ count }) => count)));
+  const typicalHour = mostFrequent(hours, Array.from({ length: 24 }, (_, hour) => hour)) ?? 0;
+
+  return {
+    count: occurrences.length,
+    perWeek: round(occurrences.length / (period.days / 7)),
+    lastOccurrence: new Date(Math.max(...occurrences.map((date) => date.getTime()))),
+    typicalWeekday: mostFrequent(local.map(({ weekday }) => weekday), WEEKDAYS) ?? 'monday',
+    typicalHour,
+    typicalTimeOfDay: mostFrequent(hours.map(timeOfDay), ['morning', 'afternoon', 'evening', 'night']) ?? timeOfDay(typicalHour),
+    trend,
+    slope,
+    direction: slope >= TREND_THRESHOLD ? 'rising' : slope <= -TREND_THRESHOLD ? 'falling' : 'steady',
+  };
+}
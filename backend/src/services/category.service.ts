@@ -0,0 +1,250 @@
+import mongoose from 'mongoose';
+import { UserCategory, IUserCategory, MAX_USER_CATEGORIES } from '../models/UserCategory';
+import { ClassificationRule } from '../models/ClassificationRule';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error.middleware';
+import {
+  ActivityCategory, CATEGORIES, LEGACY_CATEGORIES, defaultActivityCategories, isCategoryId,
+} from '../shared/taxonomy';
+
+/**
+ * Fields of a category that can be set
+ */
+export interface CategoryInput {
+  key?: unknown;
+  label?: unknown;
+  description?: unknown;
+  emoji?: unknown;
+  color?: unknown;
+  positive?: unknown;
+  negative?: unknown;
+}
+
+type CategoryFields = Partial<Pick<IUserCategory, 'key' | 'label' | 'description' | 'emoji' | 'color' | 'positive' | 'negative'>>;
+
+/**
+ * Look of user-defined categories created without an emoji or color
+ */
+const DEFAULT_EMOJI = '🏷️';
+const DEFAULT_COLOR = { dark: '#94a3b8', light: '#64748b' };
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{1,29}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Category Service
+ * The categories each user's activities are scored in: the built-in taxonomy,
+ * reworded where the user changed it, followed by the user's own categories.
+ */
+export class CategoryService {
+  /**
+   * A user's activity categories, built-in ones first
+   * @param userId - Without a user, the built-in categories
+   */
+  async getCategories(userId?: string): Promise<ActivityCategory[]> {
+    const defaults = defaultActivityCategories();
+    if (!userId) {
+      return defaults;
+    }
+
+    const entries = await UserCategory.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ createdAt: 1 })
+      .lean();
+    const overrides = new Map(entries.filter((entry) => isCategoryId(entry.key)).map((entry) => [entry.key, entry]));
+
+    return [
+      ...defaults.map((category) => {
+        const override = overrides.get(category.id);
+        return override ? { ...category, ...this.definedFields(override) } : category;
+      }),
+      ...entries
+        .filter((entry) => !isCategoryId(entry.key))
+        .map((entry) => ({
+          id: entry.key,
+          label: entry.label || entry.key,
+          description: entry.description || '',
+          emoji: entry.emoji || DEFAULT_EMOJI,
+          color: entry.color || DEFAULT_COLOR,
+          positive: entry.positive || '',
+          negative: entry.negative || '',
+          builtIn: false,
+        })),
+    ];
+  }
+
+  /**
+   * Add a category for a user
+   * The key is derived from the label when not given.
+   * @throws ValidationError for invalid fields or when the user has MAX_USER_CATEGORIES categories
+   * @throws ConflictError when the key is taken
+   */
+  async createCategory(userId: string, input: CategoryInput): Promise<ActivityCategory> {
+    const fields = this.validate(input, true);
+    const key = input.key !== undefined ? this.validateKey(input.key) : this.validateKey(this.slugify(fields.label ?? ''));
+    if (isCategoryId(key)) {
+      throw new ConflictError(`"${key}" is a built-in category; edit it instead`);
+    }
+    if (!fields.positive && !fields.negative) {
+      throw new ValidationError('Describe what earns positive or negative points in the category');
+    }
+
+    const count = await UserCategory.countDocuments({
+      userId: new mongoose.Types.ObjectId(userId),
+      key: { $nin: Object.keys(CATEGORIES) },
+    });
+    if (count >= MAX_USER_CATEGORIES) {
+      throw new ValidationError(`You can define at most ${MAX_USER_CATEGORIES} categories`);
+    }
+
+    try {
+      await UserCategory.create({ userId: new mongoose.Types.ObjectId(userId), ...fields, key });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictError(`You already have a category "${key}"`);
+      }
+      throw error;
+    }
+    return this.getCategory(userId, key);
+  }
+
+  /**
+   * Change a user's category, or reword a built-in one for the user
+   * @throws NotFoundError when the user has no such category
+   */
+  async updateCategory(userId: string, key: string, input: CategoryInput): Promise<ActivityCategory> {
+    if (input.key !== undefined) {
+      throw new ValidationError('The key of a category cannot be changed');
+    }
+    const fields = this.validate(input, false);
+    const filter = { userId: new mongoose.Types.ObjectId(userId), key };
+
+    const updated = isCategoryId(key)
+      ? await UserCategory.findOneAndUpdate(filter, { $set: fields }, { new: true, upsert: true, runValidators: true })
+      : await UserCategory.findOneAndUpdate(filter, { $set: fields }, { new: true, runValidators: true });
+    if (!updated) {
+      throw new NotFoundError('Category not found');
+    }
+    return this.getCategory(userId, key);
+  }
+
+  /**
+   * Delete a user's category, or undo the user's changes to a built-in one
+   * @returns Whether a built-in category was reset (rather than a category deleted)
+   * @throws NotFoundError when the user has no such category (or hasn't changed the built-in one)
+   * @throws ConflictError when rules still score in the category
+   */
+  async deleteCategory(userId: string, key: string): Promise<{ reset: boolean }> {
+    const filter = { userId: new mongoose.Types.ObjectId(userId), key };
+
+    if (!isCategoryId(key)) {
+      const rules = await ClassificationRule.countDocuments({ userId: filter.userId, category: key });
+      if (rules > 0) {
+        throw new ConflictError(`${rules} of your rules score in this category; change or delete them first`);
+      }
+    }
+
+    const result = await UserCategory.deleteOne(filter);
+    if (result.deletedCount === 0) {
+      throw new NotFoundError(isCategoryId(key) ? 'Category has no changes to reset' : 'Category not found');
+    }
+    return { reset: isCategoryId(key) };
+  }
+
+  /**
+   * One of a user's categories
+   */
+  private async getCategory(userId: string, key: string): Promise<ActivityCategory> {
+    const category = (await this.getCategories(userId)).find((candidate) => candidate.id === key);
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+    return category;
+  }
+
+  /**
+   * Fields an override sets
+   */
+  private definedFields(entry: CategoryFields): Partial<ActivityCategory> {
+    const fields: Partial<ActivityCategory> = {};
+    for (const field of ['label', 'description', 'emoji', 'color', 'positive', 'negative'] as const) {
+      if (entry[field] !== undefined) {
+        Object.assign(fields, { [field]: entry[field] });
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Category key from a label: "Game Dev" → "game_dev"
+   */
+  private slugify(label: string): string {
+    return label
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^[_0-9]+|_+$/g, '')
+      .slice(0, 30);
+  }
+
+  private validateKey(value: unknown): string {
+    const key = typeof value === 'string' ? value.trim() : '';
+    if (!KEY_PATTERN.test(key)) {
+      throw new ValidationError('key must be 2 to 30 lowercase letters, digits or underscores, starting with a letter');
+    }
+    if (key in LEGACY_CATEGORIES) {
+      throw new ValidationError(`"${key}" is reserved; choose another key`);
+    }
+    return key;
+  }
+
+  /**
+   * Check category fields (all but the key)
+   * @param required - Whether a label must be given (creation)
+   */
+  private validate(input: CategoryInput, required: boolean): CategoryFields {
+    const fields: CategoryFields = {};
+
+    const text = (field: 'label' | 'description' | 'emoji' | 'positive' | 'negative', max: number, min = 0) => {
+      const value = input[field];
+      if (value === undefined) return;
+      if (typeof value !== 'string' || value.trim().length < min || value.trim().length > max) {
+        throw new ValidationError(`${field} must be ${min > 0 ? `${min} to ` : 'at most '}${max} characters`);
+      }
+      fields[field] = value.trim();
+    };
+
+    if (required && input.label === undefined) {
+      throw new ValidationError('label is required');
+    }
+    text('label', 30, 1);
+    text('description', 100);
+    text('emoji', 8, 1);
+    text('positive', 500);
+    text('negative', 500);
+
+    if (input.color !== undefined) {
+      const color = input.color as { dark?: unknown; light?: unknown } | null;
+      if (
+        typeof color !== 'object' || color === null
+        || typeof color.dark !== 'string' || !COLOR_PATTERN.test(color.dark)
+        || typeof color.light !== 'string' || !COLOR_PATTERN.test(color.light)
+      ) {
+        throw new ValidationError('color must be { dark, light } with #rrggbb values');
+      }
+      fields.color = { dark: color.dark, light: color.light };
+    }
+
+    if (!required && Object.keys(fields).length === 0) {
+      throw new ValidationError('Provide label, description, emoji, color, positive or negative');
+    }
+    if (required) {
+      fields.emoji ??= DEFAULT_EMOJI;
+      fields.color ??= DEFAULT_COLOR;
+    }
+    return fields;
+  }
+}
+
+// Export singleton instance
+export const categoryService = new CategoryService();
+
+export default categoryService;
@@ -1,6 +1,7 @@
 import axios, { AxiosError } from 'axios';
 import { ChatMessage, IChatMessage } from '../models/ChatMessage';
 import { logger } from '../utils/logger';
+import { resilience, ProviderError } from './resilience';
 import mongoose from 'mongoose';
 import crypto from 'crypto';
 
@@ -10,6 +11,8 @@ import crypto from 'crypto';
 const OND_CHAT_API_URL = process.env.OND_CHAT_URL || 'https://api.on-demand.io/chat/v1';
 const OND_CHAT_KEY = process.env.OND_CHAT_KEY || '';
 
+const CONTEXT = { provider: 'ondemand-chat', service: 'chat' as const };
+
 /**
  * OnDemand Chat API response interface
  */
@@ -215,37 +218,35 @@ export class ChatService {
     }
 
     try {
-      const response = await axios.post<OnDemandChatResponse>(
-        `${this.apiUrl}/sessions/${sessionId}/query`,
-        {
-          endpointId: 'predefined-openai-gpt4o',
-          query: messages[messages.length - 1]?.content || '',
-          pluginIds: [],
-          responseMode: 'sync',
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'apikey': this.apiKey,
+      const response = await resilience.call('ondemand-chat', { ...CONTEXT, operation: 'query' }, (signal) =>
+        axios.post<OnDemandChatResponse>(
+          `${this.apiUrl}/sessions/${sessionId}/query`,
+          {
+            endpointId: 'predefined-openai-gpt4o',
+            query: messages[messages.length - 1]?.content || '',
+            pluginIds: [],
+            responseMode: 'sync',
           },
-          timeout: 60000, // 60 second timeout
-        }
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              'apikey': this.apiKey,
+            },
+            signal,
+          }
+        )
       );
 
       return response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError<OnDemandChatError>;
-        const errorMessage = axiosError.response?.data?.error?.message || axiosError.message;
-
-        logger.error('OnDemand Chat API error:', {
-          status: axiosError.response?.status,
-          message: errorMessage,
-          sessionId,
-        });
-
-        throw new Error(`Chat API error: ${errorMessage}`);
-      }
+      const cause = error instanceof ProviderError ? error.cause : error;
+      const axiosError = axios.isAxiosError(cause) ? cause as AxiosError<OnDemandChatError> : undefined;
+
+      logger.error('OnDemand Chat API error:', {
+        status: axiosError?.response?.status,
+        message: axiosError?.response?.data?.error?.message || (error instanceof Error ? error.message : error),
+        sessionId,
+      });
       throw error;
     }
   }
@@ -263,20 +264,22 @@ export class ChatService {
     }
 
     try {
-      // Create session with OnDemand API
-      const response = await axios.post(
-        `${this.apiUrl}/sessions`,
-        {
-          externalUserId: userId,
-          pluginIds: [],
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'apikey': this.apiKey,
+      // Create session with OnDemand API (no retries: a local session works too)
+      const response = await resilience.call('ondemand-chat', { ...CONTEXT, operation: 'create session', retry: false, timeoutMs: 10000 }, (signal) =>
+        axios.post(
+          `${this.apiUrl}/sessions`,
+          {
+            externalUserId: userId,
+            pluginIds: [],
           },
-          timeout: 10000,
-        }
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              'apikey': this.apiKey,
+            },
+            signal,
+          }
+        )
       );
 
       // Return the external session ID if provided, otherwise use our generated one
@@ -0,0 +1,303 @@
+import mongoose from 'mongoose';
+import { IActivityCounts } from '../models/ActivityTracker';
+import { IClassificationDetail, IExtractedActivity } from '../models/ActivityEntry';
+import {
+  ClassificationCorrection, IClassificationCorrection, ICorrectionScore, CorrectionAction,
+} from '../models/ClassificationCorrection';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware';
+import { categoryService } from './category.service';
+import { activityService } from './activity.service';
+import { scoreDetails, sumWeightedPoints } from './scoring';
+
+/**
+ * Recent corrections given to the classification prompts as examples
+ */
+const MAX_EXAMPLES = 10;
+
+/**
+ * Fields of a classification detail that can be set
+ */
+export interface DetailInput {
+  activity?: unknown;
+  category?: unknown;
+  points?: unknown;
+  reasoning?: unknown;
+}
+
+/**
+ * A classification detail as returned to the user
+ */
+export interface ClassificationDetailView {
+  id: string;
+  activity: string;
+  category: string;
+  points: number;
+  weight: number;
+  reasoning: string;
+  corrected: boolean;
+}
+
+/**
+ * An activity entry after a correction, and the user's new counts
+ */
+export interface CorrectionResult {
+  logId: string;
+  classificationDetails: ClassificationDetailView[];
+  categoryPoints: IActivityCounts;
+  counts: IActivityCounts;
+  correction: IClassificationCorrection;
+}
+
+/**
+ * A classification detail as returned to the user
+ */
+export function toDetailView(detail: IClassificationDetail): ClassificationDetailView {
+  return {
+    id: String(detail._id),
+    activity: detail.activity,
+    category: detail.category,
+    points: detail.points,
+    weight: detail.weight ?? 1,
+    reasoning: detail.reasoning,
+    corrected: detail.corrected === true,
+  };
+}
+
+/**
+ * Correction Service
+ * Users add, change and remove the classification details of their activity
+ * entries. Points are recomputed from the details, and every
+ * correction is kept as an example for the user's later classifications.
+ */
+export class CorrectionService {
+  /**
+   * Add a classification detail the AI missed
+   * @throws NotFoundError when the log has no activity entry
+   */
+  async addDetail(userId: string, logId: string, input: DetailInput): Promise<CorrectionResult> {
+    const fields = await this.validate(userId, input, true);
+
+    return this.correct(userId, logId, 'add', (details, activities) => {
+      const detail = {
+        activity: fields.activity ?? '',
+        category: fields.category ?? '',
+        points: fields.points ?? 0,
+        weight: 1,
+        reasoning: fields.reasoning || 'Added by you',
+        corrected: true,
+      };
+      detail.weight = this.weigh(activities, detail);
+      details.push(detail);
+      return { activity: detail.activity, after: { category: detail.category, points: detail.points } };
+    });
+  }
+
+  /**
+   * Change the activity, category or points of a classification detail
+   * @throws NotFoundError when the log has no activity entry or the detail doesn't exist
+   */
+  async updateDetail(userId: string, logId: string, detailId: string, input: DetailInput): Promise<CorrectionResult> {
+    const fields = await this.validate(userId, input, false);
+
+    return this.correct(userId, logId, 'edit', (details, activities) => {
+      const detail = this.findDetail(details, detailId);
+      const before = { category: detail.category, points: detail.points };
+
+      Object.assign(detail, fields, { corrected: true });
+      if (fields.activity) detail.weight = this.weigh(activities, detail);
+      if (!fields.reasoning) detail.reasoning = 'Corrected by you';
+      return { activity: detail.activity, before, after: { category: detail.category, points: detail.points } };
+    });
+  }
+
+  /**
+   * Remove a classification detail
+   * @throws NotFoundError when the log has no activity entry or the detail doesn't exist
+   */
+  async removeDetail(userId: string, logId: string, detailId: string): Promise<CorrectionResult> {
+    return this.correct(userId, logId, 'remove', (details) => {
+      const detail = this.findDetail(details, detailId);
+      details.splice(details.indexOf(detail), 1);
+      return { activity: detail.activity, before: { category: detail.category, points: detail.points } };
+    });
+  }
+
+  /**
+   * A user's corrections, most recent first
+   */
+  async listCorrections(userId: string, limit: number): Promise<IClassificationCorrection[]> {
+    return ClassificationCorrection.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * Forget a correction, so it is no longer given as an example
+   * The activity entry keeps the corrected details.
+   * @throws NotFoundError when the correction is not the user's
+   */
+  async deleteCorrection(userId: string, correctionId: string): Promise<void> {
+    const result = mongoose.Types.ObjectId.isValid(correctionId)
+      ? await ClassificationCorrection.deleteOne({
+        _id: new mongoose.Types.ObjectId(correctionId),
+        userId: new mongoose.Types.ObjectId(userId),
+      })
+      : { deletedCount: 0 };
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundError('Correction not found');
+    }
+  }
+
+  /**
+   * The user's recent corrections as example lines for the classification
+   * prompts, one per activity and category (the latest wins)
+   */
+  async getExamples(userId?: string): Promise<string[]> {
+    if (!userId) {
+      return [];
+    }
+
+    const corrections = await ClassificationCorrection.find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .limit(MAX_EXAMPLES * 3)
+      .lean();
+
+    const seen = new Set<string>();
+    const examples: string[] = [];
+    for (const correction of corrections) {
+      const category = correction.after?.category ?? correction.before?.category ?? '';
+      const key = `${correction.activity.toLowerCase()}|${category}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      examples.push(this.describe(correction.action, correction.activity, correction.before, correction.after));
+      if (examples.length === MAX_EXAMPLES) break;
+    }
+    return examples;
+  }
+
+  /**
+   * Example line for a correction, e.g. `"ate salad": health +1 (not health -1)`
+   */
+  private describe(action: CorrectionAction, activity: string, before?: ICorrectionScore, after?: ICorrectionScore): string {
+    const score = (value: ICorrectionScore) => `${value.category} ${value.points > 0 ? '+1' : '-1'}`;
+    if (action === 'remove' || !after) {
+      return `- "${activity}": no points in ${before?.category ?? 'any category'}${before ? ` (not ${score(before)})` : ''}`;
+    }
+    if (action === 'add' || !before) {
+      return `- "${activity}": ${score(after)} (this was missed)`;
+    }
+    return `- "${activity}": ${score(after)} (not ${score(before)})`;
+  }
+
+  /**
+   * Apply a change to the details of a user's activity entry, recompute its
+   * points and the user's counts, and record the correction
+   * @param change - Changes the details in place, given the log's extracted
+   *   activities to weigh them by; returns what was corrected
+   */
+  private async correct(
+    userId: string,
+    logId: string,
+    action: CorrectionAction,
+    change: (
+      details: IClassificationDetail[],
+      activities: IExtractedActivity[]
+    ) => Pick<IClassificationCorrection, 'activity' | 'before' | 'after'>
+  ): Promise<CorrectionResult> {
+    const entry = await activityService.findEntry(userId, logId);
+    if (!entry) {
+      throw new NotFoundError('No activity analysis for this log');
+    }
+
+    const corrected = change(entry.classificationDetails, entry.extractedActivities);
+    entry.categoryPoints = sumWeightedPoints(entry.classificationDetails);
+    entry.correctedAt = new Date();
+    await entry.save();
+    const tracker = await activityService.refreshCounts(entry.userId, entry.timestamp);
+
+    const correction = await ClassificationCorrection.create({
+      userId: entry.userId,
+      logId: entry.logId,
+      action,
+      ...corrected,
+    });
+
+    return {
+      logId,
+      classificationDetails: entry.classificationDetails.map(toDetailView),
+      categoryPoints: entry.categoryPoints,
+      counts: tracker.counts,
+      correction,
+    };
+  }
+
+  /**
+   * Weight of a detail, with the context of the extracted activity it
+   * matches (e.g. "for 2 hours"), as the analysis weighs it
+   */
+  private weigh(activities: IExtractedActivity[], detail: Pick<IClassificationDetail, 'activity' | 'category' | 'points'>): number {
+    return scoreDetails(activities, [detail])[0]?.weight ?? 1;
+  }
+
+  private findDetail(details: IClassificationDetail[], detailId: string): IClassificationDetail {
+    const detail = details.find((candidate) => String(candidate._id) === detailId);
+    if (!detail) {
+      throw new NotFoundError('Classification detail not found');
+    }
+    return detail;
+  }
+
+  /**
+   * Check detail fields
+   * @param required - Whether activity, category and points must be given (adding)
+   */
+  private async validate(
+    userId: string,
+    input: DetailInput,
+    required: boolean
+  ): Promise<Partial<Pick<IClassificationDetail, 'activity' | 'category' | 'points' | 'reasoning'>>> {
+    const fields: Partial<Pick<IClassificationDetail, 'activity' | 'category' | 'points' | 'reasoning'>> = {};
+
+    if (input.activity !== undefined || required) {
+      const activity = typeof input.activity === 'string' ? input.activity.trim() : '';
+      if (!activity || activity.length > 200) {
+        throw new ValidationError('activity must be 1 to 200 characters');
+      }
+      fields.activity = activity;
+    }
+
+    if (input.category !== undefined || required) {
+      const categories = (await categoryService.getCategories(userId)).map((category) => category.id);
+      if (typeof input.category !== 'string' || !categories.includes(input.category)) {
+        throw new ValidationError(`category must be one of: ${categories.join(', ')}`);
+      }
+      fields.category = input.category;
+    }
+
+    if (input.points !== undefined || required) {
+      if (input.points !== 1 && input.points !== -1) {
+        throw new ValidationError('points must be 1 or -1');
+      }
+      fields.points = input.points;
+    }
+
+    if (input.reasoning !== undefined) {
+      if (typeof input.reasoning !== 'string' || input.reasoning.length > 300) {
+        throw new ValidationError('reasoning must be a string of at most 300 characters');
+      }
+      fields.reasoning = input.reasoning.trim();
+    }
+
+    if (Object.keys(fields).length === 0) {
+      throw new ValidationError('Provide activity, category, points or reasoning');
+    }
+    return fields;
+  }
+}
+
+// Export singleton instance
+export const correctionService = new CorrectionService();
+
+export default correctionService;
@@ -0,0 +1,546 @@
+import mongoose from 'mongoose';
+import { Goal, IGoal, IGoalTarget, IGoalWeekStatus, GoalPeriod, GoalUnit, MAX_USER_GOALS } from '../models/Goal';
+import { GoalCheckIn, IGoalCheckIn } from '../models/GoalCheckIn';
+import { ActivityEntry } from '../models/ActivityEntry';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware';
+import { getWeekId, getWeekStart } from '../utils/week.utils';
+import { logger } from '../utils/logger';
+import { canonicalService, isPlaceholderActivity, normalizeActivity } from './canonical';
+import { parseMinutes } from './scoring';
+import { reconciliation } from './reconcile.service';
+
+/**
+ * Fields of a goal that can be set
+ */
+export interface GoalInput {
+  title?: unknown;
+  activities?: unknown;
+  target?: unknown;
+  archived?: unknown;
+}
+
+/**
+ * Fields of a check-in
+ */
+export interface CheckInInput {
+  amount?: unknown;
+  date?: unknown;
+  note?: unknown;
+}
+
+/**
+ * Progress toward a goal in one period (UTC day, ISO week or calendar month)
+ */
+export interface GoalPeriodProgress {
+  start: Date;
+  end: Date;                          // Exclusive
+  amount: number;                     // detected + checkedIn, in the target's unit
+  detected: number;                   // From the activities of the user's logs
+  checkedIn: number;                  // From manual check-ins
+  met: boolean;
+}
+
+/**
+ * A goal with its progress
+ */
+export interface GoalView {
+  id: string;
+  title: string;
+  activities: string[];
+  target: IGoalTarget;
+  archived: boolean;
+  createdAt: Date;
+  current: GoalPeriodProgress;
+  history: GoalPeriodProgress[];      // The periods before the current one, oldest first
+  streak: number;                     // Periods met in a row, up to the current one
+  checkIns?: IGoalCheckIn[];          // Most recent first (single goal only)
+}
+
+/**
+ * Progress made at one time: a matching log or a check-in
+ */
+interface GoalEvent {
+  date: Date;
+  amount: number;
+  source: 'log' | 'check-in';
+}
+
+/**
+ * Periods before the current one shown in a goal's history (and counted in its streak)
+ */
+const HISTORY_PERIODS = 8;
+
+/**
+ * Check-ins listed with a goal
+ */
+const LISTED_CHECK_INS = 20;
+
+const MAX_ACTIVITIES = 10;
+const UNITS: GoalUnit[] = ['times', 'minutes'];
+const PERIODS: GoalPeriod[] = ['day', 'week', 'month'];
+
+/**
+ * Largest target and check-in per unit
+ */
+const MAX_AMOUNT: Record<GoalUnit, number> = { times: 100, minutes: 10000 };
+const MAX_CHECK_IN: Record<GoalUnit, number> = { times: 20, minutes: 1440 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_NAMES: Record<GoalPeriod, string> = { day: 'today', week: 'this week', month: 'this month' };
+
+/**
+ * Start of the period a date falls in (UTC)
+ */
+export function periodStart(date: Date, period: GoalPeriod): Date {
+  switch (period) {
+    case 'day':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    case 'week':
+      return getWeekStart(getWeekId(date));
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+}
+
+/**
+ * Start of the period after the one starting at `start`
+ */
+export function nextPeriod(start: Date, period: GoalPeriod): Date {
+  switch (period) {
+    case 'day':
+      return new Date(start.getTime() + DAY_MS);
+    case 'week':
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+}
+
+/**
+ * Start of the period before the one starting at `start`
+ */
+function previousPeriod(start: Date, period: GoalPeriod): Date {
+  return periodStart(new Date(start.getTime() - 1), period);
+}
+
+/**
+ * Whether an extracted activity counts toward a goal: it contains every word
+ * of one of the goal's aliases ("reading" matches "reading a novel")
+ */
+export function matchesGoal(aliases: string[], activity: string): boolean {
+  const words = normalizeActivity(activity).split(' ');
+  return aliases.some((alias) => alias.split(' ').every((word) => words.includes(word)));
+}
+
+/**
+ * A target in words, e.g. "4 times a week", "20 minutes a day"
+ */
+export function describeTarget(target: IGoalTarget): string {
+  const unit = target.unit === 'times' && target.amount === 1 ? 'time' : target.unit;
+  return `${target.amount} ${unit} a ${target.period}`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Goal Service
+ * Goals users set for themselves, and their progress: activities from the
+ * user's logs that match a goal's activities (or the canonical activities
+ * they were merged into) count toward it, one time per log or the minutes
+ * stated, and manual check-ins add what wasn't mentioned out loud.
+ */
+export class GoalService {
+  /**
+   * A user's goals with their progress, oldest first
+   * @param includeArchived - Also list archived goals
+   */
+  async listGoals(userId: string, includeArchived = false): Promise<GoalView[]> {
+    const goals = await Goal.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      ...(!includeArchived && { archived: false }),
+    }).sort({ createdAt: 1 });
+    return this.withProgress(userId, goals);
+  }
+
+  /**
+   * A user's goal with its progress and recent check-ins
+   * @throws NotFoundError when the goal is not the user's
+   */
+  async getGoal(userId: string, goalId: string): Promise<GoalView> {
+    const goal = await this.findGoal(userId, goalId);
+    const [view] = await this.withProgress(userId, [goal]);
+    const checkIns = await GoalCheckIn.find({ goalId: goal._id }).sort({ date: -1 }).limit(LISTED_CHECK_INS);
+    return { ...view!, checkIns };
+  }
+
+  /**
+   * Add a goal for a user
+   * @throws ValidationError for invalid fields or when the user has MAX_USER_GOALS goals
+   */
+  async createGoal(userId: string, input: GoalInput): Promise<GoalView> {
+    const fields = this.validate(input, true);
+    const count = await Goal.countDocuments({ userId: new mongoose.Types.ObjectId(userId) });
+    if (count >= MAX_USER_GOALS) {
+      throw new ValidationError(`You can have at most ${MAX_USER_GOALS} goals; delete or reuse an archived one`);
+    }
+
+    const goal = await Goal.create({ userId: new mongoose.Types.ObjectId(userId), ...fields });
+    await this.registerActivities(userId, goal.activities);
+    return this.getGoal(userId, String(goal._id));
+  }
+
+  /**
+   * Change a user's goal
+   * @throws NotFoundError when the goal is not the user's
+   */
+  async updateGoal(userId: string, goalId: string, input: GoalInput): Promise<GoalView> {
+    const fields = this.validate(input, false);
+    const goal = await this.findGoal(userId, goalId);
+    goal.set(fields);
+    await goal.save();
+    if (fields.activities) {
+      await this.registerActivities(userId, fields.activities);
+    }
+    return this.getGoal(userId, goalId);
+  }
+
+  /**
+   * Delete a user's goal and its check-ins
+   * @throws NotFoundError when the goal is not the user's
+   */
+  async deleteGoal(userId: string, goalId: string): Promise<void> {
+    const goal = await this.findGoal(userId, goalId);
+    await GoalCheckIn.deleteMany({ goalId: goal._id });
+    await goal.deleteOne();
+  }
+
+  /**
+   * Record progress the user made toward a goal
+   * The summary of the check-in's week is regenerated on next read.
+   * @throws NotFoundError when the goal is not the user's
+   */
+  async checkIn(userId: string, goalId: string, input: CheckInInput): Promise<{ checkIn: IGoalCheckIn; goal: GoalView }> {
+    const goal = await this.findGoal(userId, goalId);
+    const fields = this.validateCheckIn(goal.target.unit, input);
+
+    const checkIn = await GoalCheckIn.create({ userId: goal.userId, goalId: goal._id, ...fields });
+    await reconciliation.markSummaryStale(goal.userId, checkIn.date);
+    return { checkIn, goal: await this.getGoal(userId, goalId) };
+  }
+
+  /**
+   * Delete a check-in
+   * @throws NotFoundError when the goal or check-in is not the user's
+   */
+  async deleteCheckIn(userId: string, goalId: string, checkInId: string): Promise<GoalView> {
+    const goal = await this.findGoal(userId, goalId);
+    const checkIn = mongoose.Types.ObjectId.isValid(checkInId)
+      ? await GoalCheckIn.findOneAndDelete({ _id: new mongoose.Types.ObjectId(checkInId), goalId: goal._id })
+      : null;
+    if (!checkIn) {
+      throw new NotFoundError('Check-in not found');
+    }
+
+    await reconciliation.markSummaryStale(goal.userId, checkIn.date);
+    return this.getGoal(userId, goalId);
+  }
+
+  /**
+   * How a user's goals went in a week, for the weekly summary
+   * Daily goals report each day of the week, weekly goals the week and
+   * monthly goals the month up to the week's end.
+   * @param weekEnd - Exclusive
+   */
+  async weekReport(userId: string, weekStart: Date, weekEnd: Date): Promise<IGoalWeekStatus[]> {
+    const goals = await Goal.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      archived: false,
+      createdAt: { $lt: weekEnd },
+    }).sort({ createdAt: 1 });
+    if (goals.length === 0) {
+      return [];
+    }
+
+    const monthStart = periodStart(new Date(weekEnd.getTime() - 1), 'month');
+    const from = monthStart < weekStart ? monthStart : weekStart;
+    const events = await this.events(userId, goals, from, weekEnd);
+
+    return goals.map((goal) => {
+      const { period } = goal.target;
+      const periods: { start: Date; end: Date }[] = [];
+      if (period === 'month') {
+        periods.push({ start: monthStart, end: weekEnd });
+      } else {
+        for (let start = weekStart; start < weekEnd; start = nextPeriod(start, period)) {
+          periods.push({ start, end: nextPeriod(start, period) });
+        }
+      }
+
+      const progress = periods.map(({ start, end }) => this.progress(events.get(String(goal._id)) ?? [], start, end, goal.target));
+      return {
+        goalId: String(goal._id),
+        title: goal.title,
+        target: { amount: goal.target.amount, unit: goal.target.unit, period },
+        amount: round(progress.reduce((sum, { amount }) => sum + amount, 0)),
+        periods: progress.length,
+        periodsMet: progress.filter(({ met }) => met).length,
+      };
+    });
+  }
+
+  /**
+   * A week's goal report as lines for a prompt
+   */
+  describeWeek(statuses: IGoalWeekStatus[]): string {
+    if (statuses.length === 0) {
+      return 'No goals set';
+    }
+    return statuses.map((status) => {
+      const { target } = status;
+      const goal = `- ${status.title} (${describeTarget(target)})`;
+      switch (target.period) {
+        case 'day':
+          return `${goal}: met on ${status.periodsMet} of ${status.periods} days, ${status.amount} ${target.unit} in total`;
+        case 'week':
+          return `${goal}: ${status.amount} of ${target.amount} ${target.unit}, ${status.periodsMet > 0 ? 'met' : 'not met'}`;
+        case 'month':
+          return `${goal}: ${status.amount} of ${target.amount} ${target.unit} so far this month`;
+      }
+    }).join('\n');
+  }
+
+  /**
+   * A user's active goals and their current progress as lines for a prompt
+   */
+  async describeCurrent(userId: string): Promise<string> {
+    const goals = await this.listGoals(userId).catch((error) => {
+      logger.warn(`Could not load the goals of user ${userId}:`, error);
+      return [];
+    });
+    if (goals.length === 0) {
+      return 'No goals set';
+    }
+    return goals.map(({ title, target, current, streak }) =>
+      `- ${title} (${describeTarget(target)}): ${current.amount} of ${target.amount} ${target.unit} ${PERIOD_NAMES[target.period]}`
+      + (streak > 0 ? `, met ${streak} ${target.period}(s) in a row` : '')
+    ).join('\n');
+  }
+
+  /**
+   * Progress of goals in their current and previous periods
+   */
+  private async withProgress(userId: string, goals: IGoal[]): Promise<GoalView[]> {
+    if (goals.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const periods = new Map(goals.map((goal) => {
+      const { period } = goal.target;
+      const starts = [periodStart(now, period)];
+      while (starts.length <= HISTORY_PERIODS) starts.unshift(previousPeriod(starts[0]!, period));
+      return [String(goal._id), starts];
+    }));
+    const from = new Date(Math.min(...[...periods.values()].map((starts) => starts[0]!.getTime())));
+    const events = await this.events(userId, goals, from, now);
+
+    return goals.map((goal) => {
+      const { period } = goal.target;
+      const progress = (periods.get(String(goal._id)) ?? []).map((start) =>
+        this.progress(events.get(String(goal._id)) ?? [], start, nextPeriod(start, period), goal.target));
+      const current = progress.pop()!;
+
+      let streak = 0;
+      for (const { met } of [...progress].reverse()) {
+        if (!met) break;
+        streak++;
+      }
+
+      return {
+        id: String(goal._id),
+        title: goal.title,
+        activities: goal.activities,
+        target: { amount: goal.target.amount, unit: goal.target.unit, period },
+        archived: goal.archived,
+        createdAt: goal.createdAt,
+        current,
+        history: progress,
+        // The current period only breaks the streak once it is over
+        streak: current.met ? streak + 1 : streak,
+      };
+    });
+  }
+
+  /**
+   * Progress events of each goal between two dates, by goal ID
+   */
+  private async events(userId: string, goals: IGoal[], from: Date, to: Date): Promise<Map<string, GoalEvent[]>> {
+    const owner = new mongoose.Types.ObjectId(userId);
+    const [entries, checkIns] = await Promise.all([
+      ActivityEntry.find(
+        { userId: owner, timestamp: { $gte: from, $lt: to } },
+        { timestamp: 1, extractedActivities: 1 }
+      ).lean(),
+      GoalCheckIn.find({ goalId: { $in: goals.map((goal) => goal._id) }, date: { $gte: from, $lt: to } }).lean(),
+    ]);
+
+    // A goal's activities count with the other wordings of their canonical activities
+    const groups = await canonicalService.aliasGroups(
+      userId,
+      [...new Set(goals.flatMap((goal) => goal.activities.map(normalizeActivity)))]
+    );
+
+    return new Map(goals.map((goal) => {
+      const aliases = [...new Set(goal.activities.flatMap((activity) => groups.get(normalizeActivity(activity)) ?? []))];
+      const events: GoalEvent[] = [];
+
+      for (const entry of entries) {
+        const matched = entry.extractedActivities.filter(({ activity }) =>
+          !isPlaceholderActivity(activity) && matchesGoal(aliases, activity));
+        if (matched.length === 0) continue;
+
+        // Minutes goals count the durations stated; a log without one adds nothing
+        const amount = goal.target.unit === 'times'
+          ? 1
+          : matched.reduce((sum, { activity, context }) => sum + (parseMinutes(`${activity} ${context}`) ?? 0), 0);
+        events.push({ date: entry.timestamp, amount, source: 'log' });
+      }
+      for (const checkIn of checkIns.filter((checkIn) => checkIn.goalId.equals(goal._id))) {
+        events.push({ date: checkIn.date, amount: checkIn.amount, source: 'check-in' });
+      }
+
+      return [String(goal._id), events];
+    }));
+  }
+
+  private progress(events: GoalEvent[], start: Date, end: Date, target: IGoalTarget): GoalPeriodProgress {
+    let detected = 0;
+    let checkedIn = 0;
+    for (const event of events) {
+      if (event.date < start || event.date >= end) continue;
+      if (event.source === 'log') detected += event.amount;
+      else checkedIn += event.amount;
+    }
+
+    const amount = round(detected + checkedIn);
+    return { start, end, amount, detected: round(detected), checkedIn: round(checkedIn), met: amount >= target.amount };
+  }
+
+  /**
+   * Add a goal's activities to the user's canonical activities, so they can
+   * be merged with the wordings the user's logs use
+   */
+  private async registerActivities(userId: string, activities: string[]): Promise<void> {
+    await canonicalService.register(userId, activities).catch((error) => {
+      logger.warn(`Could not register the goal activities of user ${userId}:`, error);
+    });
+  }
+
+  private async findGoal(userId: string, goalId: string): Promise<IGoal> {
+    const goal = mongoose.Types.ObjectId.isValid(goalId)
+      ? await Goal.findOne({ _id: new mongoose.Types.ObjectId(goalId), userId: new mongoose.Types.ObjectId(userId) })
+      : null;
+    if (!goal) {
+      throw new NotFoundError('Goal not found');
+    }
+    return goal;
+  }
+
+  /**
+   * @param required - Whether title, activities and target must be given (creation)
+   */
+  private validate(input: GoalInput, required: boolean): Partial<Pick<IGoal, 'title' | 'activities' | 'target' | 'archived'>> {
+    const fields: Partial<Pick<IGoal, 'title' | 'activities' | 'target' | 'archived'>> = {};
+
+    if (input.title !== undefined || required) {
+      if (typeof input.title !== 'string' || !input.title.trim()) {
+        throw new ValidationError('Title is required');
+      }
+      if (input.title.trim().length > 100) {
+        throw new ValidationError('Title cannot exceed 100 characters');
+      }
+      fields.title = input.title.trim();
+    }
+
+    if (input.activities !== undefined || required) {
+      const activities = typeof input.activities === 'string' ? [input.activities] : input.activities;
+      if (!Array.isArray(activities) || !activities.every((activity) => typeof activity === 'string')) {
+        throw new ValidationError('activities must list the activities that count toward the goal, e.g. ["gym", "running"]');
+      }
+      const seen = new Set<string>();
+      fields.activities = (activities as string[])
+        .map((activity) => activity.trim())
+        .filter((activity) => {
+          const alias = normalizeActivity(activity);
+          if (!alias || seen.has(alias)) return false;
+          seen.add(alias);
+          return true;
+        });
+      if (fields.activities.length === 0 || fields.activities.length > MAX_ACTIVITIES) {
+        throw new ValidationError(`A goal tracks 1 to ${MAX_ACTIVITIES} activities`);
+      }
+      if (fields.activities.some((activity) => activity.length > 100)) {
+        throw new ValidationError('Activities cannot exceed 100 characters');
+      }
+    }
+
+    if (input.target !== undefined || required) {
+      const target = (input.target ?? {}) as Record<string, unknown>;
+      const unit = target['unit'] ?? 'times';
+      if (!UNITS.includes(unit as GoalUnit)) {
+        throw new ValidationError(`target.unit must be one of: ${UNITS.join(', ')}`);
+      }
+      if (!PERIODS.includes(target['period'] as GoalPeriod)) {
+        throw new ValidationError(`target.period must be one of: ${PERIODS.join(', ')}`);
+      }
+      const max = MAX_AMOUNT[unit as GoalUnit];
+      const amount = target['amount'];
+      if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 1 || amount > max) {
+        throw new ValidationError(`target.amount must be an integer between 1 and ${max}`);
+      }
+      fields.target = { amount, unit: unit as GoalUnit, period: target['period'] as GoalPeriod };
+    }
+
+    if (input.archived !== undefined) {
+      if (typeof input.archived !== 'boolean') {
+        throw new ValidationError('archived must be true or false');
+      }
+      fields.archived = input.archived;
+    }
+
+    return fields;
+  }
+
+  private validateCheckIn(unit: GoalUnit, input: CheckInInput): Pick<IGoalCheckIn, 'amount' | 'date' | 'note'> {
+    const max = MAX_CHECK_IN[unit];
+    const amount = input.amount ?? (unit === 'times' ? 1 : undefined);
+    if (typeof amount !== 'number' || amount <= 0 || amount > max || (unit === 'times' && !Number.isInteger(amount))) {
+      throw new ValidationError(unit === 'minutes'
+        ? `amount must be the minutes spent, up to ${max}`
+        : `amount must be an integer between 1 and ${max}`);
+    }
+
+    const now = new Date();
+    let date = input.date === undefined ? now : new Date(String(input.date));
+    if (isNaN(date.getTime())) {
+      throw new ValidationError('date must be an ISO date, e.g. 2026-10-18');
+    }
+    if (date.getTime() > now.getTime() + DAY_MS) {
+      throw new ValidationError('Check-ins cannot be in the future');
+    }
+    // Up to a day ahead is the user's today in a time zone ahead of UTC; record
+    // it as now, so it counts toward the current period straight away
+    if (date > now) {
+      date = now;
+    }
+
+    if (input.note !== undefined && (typeof input.note !== 'string' || input.note.trim().length > 200)) {
+      throw new ValidationError('note must be text of up to 200 characters');
+    }
+    return { amount: round(amount), date, note: typeof input.note === 'string' ? input.note.trim() || undefined : undefined };
+  }
+}
+
+export const goalService = new GoalService();
+export default goalService;
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { LLMCacheEntry } from '../../models/LLMCacheEntry';
+import { logger } from '../../utils/logger';
+import { LLMRequest, LLMResponse, LLMTask } from './types';
+
+/**
+ * Seconds a response is reused (LLM_CACHE_TTL, default 7 days; 0 disables the cache)
+ */
+const LLM_CACHE_TTL = parseInt(process.env.LLM_CACHE_TTL ?? '604800', 10);
+
+/**
+ * Chat replies are never cached: a conversation shouldn't repeat itself
+ */
+const UNCACHED_TASKS: LLMTask[] = ['chat'];
+
+/**
+ * Content-addressed cache of model responses
+ * Entries are keyed by a hash of the task, prompt version, provider, model
+ * and the full input, so a new prompt version, model or transcript never
+ * reuses an old answer. Entries expire after the TTL. Cache failures are
+ * logged and treated as misses.
+ */
+export class LLMResponseCache {
+  constructor(private readonly ttlSeconds: number = LLM_CACHE_TTL) {}
+
+  isCacheable(request: LLMRequest): boolean {
+    return this.ttlSeconds > 0 && !UNCACHED_TASKS.includes(request.task);
+  }
+
+  /**
+   * Cache key for a request routed to a provider
+   */
+  key(provider: string, request: LLMRequest): string {
+    const input = {
+      task: request.task,
+      promptVersion: request.promptVersion ?? null,
+      provider,
+      model: request.model ?? null,
+      system: request.system ?? null,
+      prompt: request.prompt,
+      json: request.json ?? false,
+      temperature: request.temperature ?? null,
+      maxOutputTokens: request.maxOutputTokens ?? null,
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex');
+  }
+
+  /**
+   * Cached response for a key; carries no usage since the hit cost nothing
+   */
+  async get(key: string): Promise<LLMResponse | null> {
+    try {
+      const entry = await LLMCacheEntry.findOneAndUpdate(
+        { key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 } },
+        { new: true }
+      );
+      if (!entry) {
+        return null;
+      }
+
+      logger.debug(`LLM cache hit: ${entry.task} ${entry.provider}/${entry.llmModel}`, { hits: entry.hits });
+      return { text: entry.text, provider: entry.provider, model: entry.llmModel, cached: true };
+    } catch (error) {
+      logger.warn('LLM cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  async set(key: string, request: LLMRequest, response: LLMResponse): Promise<void> {
+    try {
+      await LLMCacheEntry.updateOne(
+        { key },
+        {
+          $set: {
+            task: request.task,
+            promptVersion: request.promptVersion,
+            provider: response.provider,
+            llmModel: response.model,
+            text: response.text,
+            usage: response.usage,
+            expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+          },
+          $setOnInsert: { hits: 0 },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.warn('LLM cache write failed:', error);
+    }
+  }
+}
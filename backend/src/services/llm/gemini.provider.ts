@@ -0,0 +1,112 @@
+import { logger } from '../../utils/logger';
+import { resilience, providerErrorFromStatus, parseRetryAfter, ProviderResponseError } from '../resilience';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Gemini configuration
+ * - GEMINI_KEY: Google AI Studio API key
+ * - GEMINI_MODEL: default model (default: gemini-2.5-flash)
+ */
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+/**
+ * generateContent response
+ */
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Google Gemini provider
+ * The API key is sent in a header so it never appears in request URLs or logs.
+ * Calls go through the `gemini` resilience policy (timeout, retries, circuit breaker).
+ */
+export class GeminiLLMProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly defaultModel: string;
+  private readonly apiKey: string;
+
+  constructor(apiKey = process.env.GEMINI_KEY || '', defaultModel = GEMINI_MODEL) {
+    this.apiKey = apiKey;
+    this.defaultModel = defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+
+    const context = { provider: 'gemini', service: 'llm' as const };
+
+    try {
+      const data = await resilience.call('gemini', { ...context, operation: 'generateContent' }, async (signal) => {
+        const response = await fetch(`${GEMINI_API_URL}/models/${model}:generateContent`, {
+          method: 'POST',
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': this.apiKey,
+          },
+          body: JSON.stringify({
+            ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+            contents: [
+              {
+                role: 'user',
+                parts: [{ text: request.prompt }],
+              },
+            ],
+            generationConfig: {
+              temperature: request.temperature ?? 0.7,
+              maxOutputTokens: request.maxOutputTokens ?? 1024,
+              ...(request.json && { responseMimeType: 'application/json' }),
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw providerErrorFromStatus(response.status, `Gemini API error: ${response.status} - ${errorText}`, {
+            ...context,
+            retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+          });
+        }
+
+        return await response.json() as GeminiResponse;
+      });
+
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (!text) {
+        throw new ProviderResponseError('No text in Gemini response', context);
+      }
+
+      return {
+        text,
+        provider: this.name,
+        model,
+        usage: data.usageMetadata && {
+          promptTokens: data.usageMetadata.promptTokenCount,
+          completionTokens: data.usageMetadata.candidatesTokenCount,
+          totalTokens: data.usageMetadata.totalTokenCount,
+        },
+      };
+    } catch (error) {
+      logger.error('Gemini API error:', error);
+      throw error;
+    }
+  }
+}
+
+export default GeminiLLMProvider;
@@ -0,0 +1,171 @@
+import { logger } from '../../utils/logger';
+import { LLMProvider, LLMRequest, LLMResponse, LLMTask, LLMUsageLedger, LLM_TASKS } from './types';
+import { LLMResponseCache } from './cache';
+import { usageService } from '../usage.service';
+import { GeminiLLMProvider } from './gemini.provider';
+import { OpenAICompatibleLLMProvider } from './openai-compatible.provider';
+import { MockLLMProvider } from './mock.provider';
+
+export * from './types';
+export * from './structured';
+export * from './schemas';
+export * from './metering';
+export { LLMResponseCache } from './cache';
+export { GeminiLLMProvider } from './gemini.provider';
+export { OpenAICompatibleLLMProvider } from './openai-compatible.provider';
+export { MockLLMProvider } from './mock.provider';
+
+/**
+ * Supported values for LLM_PROVIDER and LLM_<TASK>_PROVIDER
+ */
+export type LLMProviderName = 'gemini' | 'local' | 'mock';
+
+/**
+ * Provider and model a task is sent to
+ */
+export interface LLMRoute {
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Optional services wrapped around every provider call
+ */
+export interface LLMRouterServices {
+  cache?: LLMResponseCache;
+  usage?: LLMUsageLedger;
+}
+
+/**
+ * Routes each AI task to a provider and model
+ *
+ * Configuration:
+ * - LLM_PROVIDER: default provider for every task (gemini | local | mock).
+ *   Defaults to gemini when GEMINI_KEY is set, otherwise mock
+ * - LLM_MODEL: default model, overriding the provider's own default
+ * - LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL: per-task overrides, where TASK is
+ *   TITLE, CATEGORIZE, EXTRACT, CLASSIFY, ANALYZE, REVIEW, STORY or CHAT
+ *
+ * A provider that isn't configured falls back to the mock provider.
+ *
+ * With services attached, cacheable requests are answered from the response
+ * cache first; otherwise the user's daily quota is checked before the call.
+ * Plain text responses are cached as they arrive; JSON responses only once
+ * `remember` is called with them after they pass validation.
+ * Every call, hit or miss, is recorded in the usage ledger.
+ */
+export class LLMRouter {
+  private readonly providers: Record<LLMProviderName, LLMProvider>;
+  private readonly routes: Record<LLMTask, LLMRoute>;
+  private readonly cache?: LLMResponseCache;
+  private readonly usage?: LLMUsageLedger;
+
+  constructor(
+    providers: LLMProvider[] = [new GeminiLLMProvider(), new OpenAICompatibleLLMProvider(), new MockLLMProvider()],
+    env: NodeJS.ProcessEnv = process.env,
+    services: LLMRouterServices = {}
+  ) {
+    this.cache = services.cache;
+    this.usage = services.usage;
+    this.providers = Object.fromEntries(providers.map((provider) => [provider.name, provider])) as Record<LLMProviderName, LLMProvider>;
+
+    const defaultProvider = env.LLM_PROVIDER || (this.providers.gemini?.isConfigured() ? 'gemini' : 'mock');
+    this.routes = Object.fromEntries(
+      LLM_TASKS.map((task) => {
+        const key = `LLM_${task.toUpperCase()}`;
+        const provider = this.resolveProvider(env[`${key}_PROVIDER`] || defaultProvider, task);
+        const model = env[`${key}_MODEL`] || (provider.name === defaultProvider && env.LLM_MODEL) || provider.defaultModel;
+        return [task, { provider, model }];
+      })
+    ) as Record<LLMTask, LLMRoute>;
+
+    logger.info('LLM routes', Object.fromEntries(
+      LLM_TASKS.map((task) => [task, `${this.routes[task].provider.name}/${this.routes[task].model}`])
+    ));
+  }
+
+  /**
+   * Provider and model configured for a task
+   */
+  route(task: LLMTask): LLMRoute {
+    return this.routes[task];
+  }
+
+  /**
+   * Send a prompt to the provider configured for its task
+   * A model named in the request takes precedence over the route's model
+   * @throws QuotaExceededError when the request's user has used up a daily quota
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { provider, routed, key } = this.routed(request);
+    const account = { userId: request.userId, task: request.task, provider: provider.name, model: routed.model };
+
+    const cached = key ? await this.cache?.get(key) : null;
+    if (cached) {
+      await this.usage?.record({ ...account, cached: true, latencyMs: 0 });
+      return cached;
+    }
+
+    if (request.userId && !request.quotaExempt) {
+      await this.usage?.assertWithinQuota(request.userId);
+    }
+
+    const startedAt = Date.now();
+    let response: LLMResponse;
+    try {
+      response = await provider.generate(routed);
+    } catch (error) {
+      await this.usage?.record({ ...account, failed: true, latencyMs: Date.now() - startedAt });
+      throw error;
+    }
+
+    await this.usage?.record({ ...account, usage: response.usage, latencyMs: Date.now() - startedAt });
+    if (key && !routed.json) {
+      await this.cache?.set(key, routed, response);
+    }
+    return response;
+  }
+
+  /**
+   * Cache a JSON response once it has passed validation
+   * Responses that came from the cache are left as they are.
+   */
+  async remember(request: LLMRequest, response: LLMResponse): Promise<void> {
+    const { routed, key } = this.routed(request);
+    if (key && !response.cached) {
+      await this.cache?.set(key, routed, response);
+    }
+  }
+
+  /**
+   * Provider, request with its model filled in, and cache key (when cacheable) for a request
+   */
+  private routed(request: LLMRequest): { provider: LLMProvider; routed: LLMRequest & { model: string }; key?: string } {
+    const { provider, model } = this.route(request.task);
+    const routed = { ...request, model: request.model || model };
+    const key = this.cache?.isCacheable(routed) ? this.cache.key(provider.name, routed) : undefined;
+    return { provider, routed, key };
+  }
+
+  private resolveProvider(name: string, task: LLMTask): LLMProvider {
+    const provider = this.providers[name as LLMProviderName];
+    const mock = this.providers.mock;
+
+    if (!provider) {
+      logger.warn(`Unknown LLM provider "${name}" for ${task} - falling back to mock`);
+      return mock;
+    }
+
+    if (!provider.isConfigured()) {
+      logger.warn(`LLM provider "${name}" is not configured for ${task} - falling back to mock`);
+      return mock;
+    }
+
+    return provider;
+  }
+}
+
+// Export singleton instance
+export const llm = new LLMRouter(undefined, undefined, { cache: new LLMResponseCache(), usage: usageService });
+
+export default llm;
@@ -0,0 +1,43 @@
+import { LLMRequest, LLMResponse } from './types';
+import { LLMGenerator } from './structured';
+
+/**
+ * Model calls, time and tokens spent on a unit of work
+ */
+export interface LLMCallMetrics {
+  calls: number;
+  latencyMs: number;          // Summed over calls, including failed ones
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Generator wrapper that adds up the cost of every call made through it
+ * Wrap the router once per unit of work (e.g. one log's analysis) and
+ * read `metrics` afterwards. Providers that report no usage count as 0 tokens.
+ */
+export class MeteredGenerator implements LLMGenerator {
+  readonly metrics: LLMCallMetrics = { calls: 0, latencyMs: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  constructor(private readonly generator: LLMGenerator) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.generator.generate(request);
+      const { promptTokens = 0, completionTokens = 0, totalTokens } = response.usage ?? {};
+      this.metrics.promptTokens += promptTokens;
+      this.metrics.completionTokens += completionTokens;
+      this.metrics.totalTokens += totalTokens ?? promptTokens + completionTokens;
+      return response;
+    } finally {
+      this.metrics.calls++;
+      this.metrics.latencyMs += Date.now() - startedAt;
+    }
+  }
+
+  async remember(request: LLMRequest, response: LLMResponse): Promise<void> {
+    await this.generator.remember?.(request, response);
+  }
+}
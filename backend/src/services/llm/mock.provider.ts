@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { logger } from '../../utils/logger';
+import { LLMProvider, LLMRequest, LLMResponse, LLMTask } from './types';
+
+/**
+ * Mock configuration
+ * - LLM_MOCK_FIXTURES: path to a JSON fixture file (optional)
+ *
+ * Fixture file format - per task, a single response or a list of rules tried in order:
+ *   {
+ *     "categorize": [
+ *       { "match": "gym", "response": { "category": "health", "confidence": 0.9 } },
+ *       { "response": { "category": "other" } }
+ *     ],
+ *     "chat": "Fixed reply"
+ *   }
+ * `match` is a case-insensitive substring of the prompt; object responses are sent as JSON.
+ */
+const LLM_MOCK_FIXTURES = process.env.LLM_MOCK_FIXTURES || '';
+
+type FixtureResponse = string | Record<string, unknown>;
+
+interface FixtureRule {
+  match?: string;
+  response: FixtureResponse;
+}
+
+export type LLMFixtures = Partial<Record<LLMTask, FixtureResponse | FixtureRule[]>>;
+
+/**
+ * Responses used when no fixture matches
+ * JSON tasks return well-formed but neutral results; `title` is empty so
+ * callers fall back to a title derived from the transcript
+ */
+const DEFAULT_RESPONSES: Record<LLMTask, FixtureResponse> = {
+  title: '',
+  categorize: { category: 'other', confidence: 0.5, sentiment: 'neutral', keywords: [] },
+  extract: { activities: [{ activity: 'N/A', context: 'No activities discussed' }] },
+  classify: {
+    category_points: { growth: 0, health: 0, work: 0, consumption: 0, other: 1 },
+    classification_details: [{ activity: 'N/A', category: 'other', points: 1, reasoning: 'No activities discussed' }],
+  },
+  analyze: {
+    category: 'other',
+    confidence: 0.5,
+    sentiment: 'neutral',
+    keywords: [],
+    activities: [{ activity: 'N/A', context: 'No activities discussed' }],
+    category_points: { growth: 0, health: 0, work: 0, consumption: 0, other: 1 },
+    classification_details: [{ activity: 'N/A', category: 'other', points: 1, reasoning: 'No activities discussed' }],
+  },
+  review: 'Keep recording your reflections to unlock personalized insights about your journey.',
+  story: 'This week you kept up your reflections. Keep logging to build a complete picture of your journey!',
+  chat: "I'm running in offline mode right now, but I'm still here to listen. What's on your mind?",
+  canonicalize: { groups: [] },
+};
+
+/**
+ * Deterministic fixture-driven provider
+ * Never calls out; the same prompt always produces the same response.
+ * Used for tests, local development and when no real provider is configured.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock';
+  private readonly fixtures: LLMFixtures;
+
+  constructor(fixtures: LLMFixtures | string = LLM_MOCK_FIXTURES) {
+    this.fixtures = typeof fixtures === 'string' ? this.loadFixtures(fixtures) : fixtures;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = this.findResponse(request) ?? DEFAULT_RESPONSES[request.task];
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+
+    return {
+      text,
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+
+  private findResponse(request: LLMRequest): FixtureResponse | undefined {
+    const fixture = this.fixtures[request.task];
+    if (fixture === undefined || !Array.isArray(fixture)) {
+      return fixture;
+    }
+
+    const prompt = request.prompt.toLowerCase();
+    return fixture.find((rule) => !rule.match || prompt.includes(rule.match.toLowerCase()))?.response;
+  }
+
+  private loadFixtures(path: string): LLMFixtures {
+    if (!path) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as LLMFixtures;
+    } catch (error) {
+      logger.error(`Failed to load LLM mock fixtures from ${path}:`, error);
+      return {};
+    }
+  }
+}
+
+export default MockLLMProvider;
@@ -0,0 +1,103 @@
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { resilience, ProviderResponseError } from '../resilience';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Local OpenAI-compatible server configuration
+ * - LOCAL_LLM_URL: base URL of the /v1 API, e.g.
+ *     http://localhost:11434/v1   (Ollama)
+ *     http://localhost:8080/v1    (llama.cpp server)
+ * - LOCAL_LLM_MODEL: default model (default: llama3.1)
+ * - LOCAL_LLM_API_KEY: bearer token, for servers that require one
+ */
+const LOCAL_LLM_URL = process.env.LOCAL_LLM_URL || '';
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY || '';
+
+/**
+ * Chat completion response
+ */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * OpenAI-compatible provider for self-hosted models (Ollama, llama.cpp, vLLM)
+ * Calls POST {baseUrl}/chat/completions through the `local-llm` resilience policy
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly defaultModel: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+
+  constructor(baseUrl = LOCAL_LLM_URL, defaultModel = LOCAL_LLM_MODEL, apiKey = LOCAL_LLM_API_KEY) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultModel = defaultModel;
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+
+    const context = { provider: 'local-llm', service: 'llm' as const };
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    try {
+      const response = await resilience.call('local-llm', { ...context, operation: 'chat/completions' }, (signal) =>
+        axios.post<ChatCompletionResponse>(
+          `${this.baseUrl}/chat/completions`,
+          {
+            model,
+            messages,
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxOutputTokens ?? 1024,
+            ...(request.json && { response_format: { type: 'json_object' } }),
+          },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+            },
+            signal,
+          }
+        )
+      );
+
+      const text = response.data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new ProviderResponseError('No text in local model response', context);
+      }
+
+      return {
+        text,
+        provider: this.name,
+        model: response.data.model || model,
+        usage: response.data.usage && {
+          promptTokens: response.data.usage.prompt_tokens,
+          completionTokens: response.data.usage.completion_tokens,
+          totalTokens: response.data.usage.total_tokens,
+        },
+      };
+    } catch (error) {
+      logger.error('Local LLM error:', error);
+      throw error;
+    }
+  }
+}
+
+export default OpenAICompatibleLLMProvider;
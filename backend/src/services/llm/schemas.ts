@@ -0,0 +1,94 @@
+import { array, Infer, number, object, oneOf, optional, string } from '../../utils/schema.utils';
+import { ActivityPoints, CATEGORY_IDS, LEGACY_CATEGORIES, isCategoryId } from '../../shared/taxonomy';
+
+/**
+ * Runtime schemas for the structured (JSON) prompts
+ */
+
+export const SENTIMENTS = ['positive', 'negative', 'neutral', 'mixed'] as const;
+
+/**
+ * Log categories come from the shared taxonomy; retired categories (from
+ * prompts pinned to an old version) are mapped onto it
+ */
+const category = oneOf(CATEGORY_IDS, LEGACY_CATEGORIES);
+
+/**
+ * categorize: category, confidence, sentiment, keywords and title for a transcript
+ */
+const categorizationFields = {
+  category,
+  confidence: number({ min: 0, max: 1 }),
+  sentiment: oneOf(SENTIMENTS),
+  keywords: optional(array(string({ minLength: 1 }), { maxItems: 5 }), []),
+  title: optional(string({ maxLength: 100 }), ''), // AudioLog title limit; empty falls back to the transcript
+};
+export const categorizationSchema = object(categorizationFields);
+
+/**
+ * extract: activities mentioned in a transcript
+ */
+const extractionFields = {
+  activities: array(
+    object({
+      activity: string({ minLength: 1 }),
+      context: optional(string(), ''),
+    }),
+    { minItems: 1 }
+  ),
+};
+export const extractionSchema = object(extractionFields);
+
+const activityPoints = number({ min: -50, max: 50, integer: true });
+
+/**
+ * classify: points per activity category, with the reasoning for each activity
+ * @param categories - IDs of the user's activity categories; points of the
+ *                     built-in ones are required, those of user categories
+ *                     default to 0 (prompts pinned to an old version omit them)
+ */
+const classificationFields = (categories: readonly string[]) => ({
+  category_points: object<ActivityPoints>(
+    Object.fromEntries(categories.map((id) => [id, isCategoryId(id) ? activityPoints : optional(activityPoints, 0)]))
+  ),
+  classification_details: array(
+    object({
+      activity: string({ minLength: 1 }),
+      category: oneOf(categories, LEGACY_CATEGORIES),
+      points: number({ min: -1, max: 1, integer: true }),
+      reasoning: optional(string(), ''),
+    })
+  ),
+});
+export const classificationSchemaFor = (categories: readonly string[]) => object(classificationFields(categories));
+export const classificationSchema = classificationSchemaFor(CATEGORY_IDS);
+
+/**
+ * analyze: categorization, activities and classification in one response
+ * The log's category is always one of the built-in ones.
+ */
+export const analysisSchemaFor = (categories: readonly string[]) => object({
+  ...categorizationFields,
+  ...extractionFields,
+  ...classificationFields(categories),
+});
+export const analysisSchema = analysisSchemaFor(CATEGORY_IDS);
+
+/**
+ * canonicalize: groups of a user's activities to merge, by their numbers in the prompt
+ */
+export const canonicalizationSchema = object({
+  groups: array(
+    object({
+      name: string({ minLength: 1, maxLength: 60 }),
+      members: array(number({ min: 1, integer: true }), { minItems: 2 }),
+      reason: optional(string(), ''),
+    })
+  ),
+});
+
+export type CategorizationOutput = Infer<typeof categorizationSchema>;
+export type ExtractionOutput = Infer<typeof extractionSchema>;
+export type ClassificationOutput = Infer<typeof classificationSchema>;
+export type AnalysisOutput = Infer<typeof analysisSchema>;
+export type CanonicalizationOutput = Infer<typeof canonicalizationSchema>;
@@ -0,0 +1,109 @@
+import { logger } from '../../utils/logger';
+import { parseJson, Schema } from '../../utils/schema.utils';
+import { LLMRequest, LLMResponse } from './types';
+
+/**
+ * Re-prompts allowed after an invalid response (LLM_MAX_REPAIRS, default 2)
+ */
+const LLM_MAX_REPAIRS = parseInt(process.env.LLM_MAX_REPAIRS || '2', 10);
+
+/**
+ * How a structured result was obtained
+ * - validated: the first response matched the schema
+ * - repaired: a re-prompt with the validation errors produced a valid response
+ * - defaulted: no valid response; default values were used
+ */
+export type OutputValidation = 'validated' | 'repaired' | 'defaulted';
+
+/**
+ * Validated output of a structured prompt
+ */
+export interface StructuredResult<T> {
+  value: T;
+  validation: OutputValidation;
+  attempts: number;          // Model calls made
+  errors: string[];          // Validation errors of the last invalid response
+  provider: string;          // Provider and model of the last response
+  model: string;
+}
+
+/**
+ * Anything that can answer an LLMRequest (a provider or the task router)
+ * `remember` keeps a response that passed validation for reuse; JSON
+ * responses are not reused before that.
+ */
+export interface LLMGenerator {
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  remember?(request: LLMRequest, response: LLMResponse): Promise<void>;
+}
+
+/**
+ * Ask for JSON, validate it against a schema, and re-prompt with the
+ * validation errors until it passes or the repair budget runs out
+ * Provider errors (network, quota) are thrown; only invalid output is defaulted.
+ * Only a valid response is cached, so a retry never replays an invalid one.
+ * @param generator - Provider or router to call
+ * @param request - Structured prompt; `json` is forced on
+ * @param schema - Expected shape of the response
+ * @param fallback - Value used when no valid response is produced
+ */
+export const generateStructured = async <T>(
+  generator: LLMGenerator,
+  request: LLMRequest,
+  schema: Schema<T>,
+  fallback: () => T,
+  maxRepairs: number = LLM_MAX_REPAIRS
+): Promise<StructuredResult<T>> => {
+  let prompt = request.prompt;
+  let errors: string[] = [];
+  let last: LLMResponse | undefined;
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const attemptRequest = { ...request, prompt, json: true };
+    const response = await generator.generate(attemptRequest);
+    last = response;
+    const result = parseJson(schema, response.text);
+
+    if (result.success) {
+      await generator.remember?.(attemptRequest, response);
+      if (attempt > 1) {
+        logger.info(`LLM ${request.task} output repaired after ${attempt} attempts`);
+      }
+      return {
+        value: result.value,
+        validation: attempt === 1 ? 'validated' : 'repaired',
+        attempts: attempt,
+        errors: [],
+        provider: response.provider,
+        model: response.model,
+      };
+    }
+
+    errors = result.errors;
+    logger.warn(`LLM ${request.task} output failed validation (attempt ${attempt})`, { errors });
+    prompt = repairPrompt(request.prompt, response.text, errors);
+  }
+
+  logger.warn(`LLM ${request.task} output still invalid after ${maxRepairs + 1} attempts - using defaults`);
+  return {
+    value: fallback(),
+    validation: 'defaulted',
+    attempts: maxRepairs + 1,
+    errors,
+    provider: last?.provider ?? 'unknown',
+    model: last?.model ?? 'unknown',
+  };
+};
+
+/**
+ * Original prompt followed by the rejected response and what was wrong with it
+ */
+const repairPrompt = (prompt: string, response: string, errors: string[]): string => `${prompt}
+
+Your previous response was:
+${response.substring(0, 2000)}
+
+It was rejected because:
+${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
+
+Return ONLY the corrected JSON object with the exact structure requested above.`;
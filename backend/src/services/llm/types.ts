@@ -0,0 +1,83 @@
+/**
+ * LLM provider contracts
+ * Every text-generation backend (hosted, local or mock) implements LLMProvider
+ */
+
+/**
+ * AI features that call a model; each can be routed to its own provider and model
+ */
+export type LLMTask = 'title' | 'categorize' | 'extract' | 'classify' | 'analyze' | 'review' | 'story' | 'chat' | 'canonicalize';
+
+export const LLM_TASKS: LLMTask[] = ['title', 'categorize', 'extract', 'classify', 'analyze', 'review', 'story', 'chat', 'canonicalize'];
+
+/**
+ * Prompt handed to a provider
+ */
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  system?: string;           // System instruction, sent separately where the API supports it
+  model?: string;            // Overrides the provider's default model
+  json?: boolean;            // Ask for a JSON object response
+  temperature?: number;
+  maxOutputTokens?: number;
+  promptVersion?: number;    // Version of the prompt template, part of the cache key
+  userId?: string;           // Account the call is charged to in the usage ledger
+  quotaExempt?: boolean;     // Recorded but not limited by daily quotas (maintenance work)
+}
+
+/**
+ * Token counts reported by the provider
+ */
+export interface LLMUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Normalized generation output
+ */
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  cached?: boolean;          // Served from the response cache
+}
+
+/**
+ * One model call, as recorded in the usage ledger
+ */
+export interface LLMUsageEntry {
+  userId?: string;
+  task: LLMTask;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  usage?: LLMUsage;
+  cached?: boolean;          // Served from the response cache; no tokens charged
+  failed?: boolean;          // The provider call threw
+}
+
+/**
+ * Usage accounting used by the router: records every call and enforces daily quotas
+ */
+export interface LLMUsageLedger {
+  /** @throws QuotaExceededError when the user has used up a daily quota */
+  assertWithinQuota(userId: string): Promise<void>;
+  record(entry: LLMUsageEntry): Promise<void>;
+}
+
+/**
+ * Text generation provider interface
+ */
+export interface LLMProvider {
+  /** Provider identifier, used in routing configuration */
+  readonly name: string;
+  /** Model used when a request doesn't name one */
+  readonly defaultModel: string;
+  /** Whether the provider has everything it needs (keys, URLs) */
+  isConfigured(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
@@ -0,0 +1,230 @@
+import mongoose from 'mongoose';
+import { AudioLog, IAudioLog, ProcessingStatus } from '../models/AudioLog';
+import { IJob, JobStatus } from '../models/Job';
+import { ConflictError } from '../middleware/error.middleware';
+import { logger } from '../utils/logger';
+import { aiService } from './ai.service';
+import { audioService } from './audio.service';
+import { jobQueue, JobQueue } from './queue.service';
+import { ProviderError } from './resilience';
+
+/**
+ * Job type for the post-upload AI pipeline
+ */
+const PROCESS_LOG_JOB = 'process-audio-log';
+
+/**
+ * Payload stored on a pipeline job
+ */
+interface ProcessLogPayload {
+  logId: string;
+  userId: string;
+}
+
+/**
+ * Processing state of a log, as returned by the status endpoint
+ */
+export interface LogProcessingState {
+  logId: string;
+  processingStatus: ProcessingStatus;
+  processingError?: string;
+  job: {
+    id: string;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt?: Date;
+    lastError?: string;
+  } | null;
+}
+
+/**
+ * Log Pipeline Service
+ * Runs transcription (for chunked uploads), categorization and activity
+ * tracking for new and edited logs through the
+ * durable job queue and keeps `AudioLog.processingStatus` in sync
+ */
+export class LogPipelineService {
+  private readonly queue: JobQueue;
+
+  constructor(queue: JobQueue = jobQueue) {
+    this.queue = queue;
+    this.queue.register(PROCESS_LOG_JOB, {
+      run: (job) => this.process(job),
+      onDeadLetter: (job, error) => this.markFailed(job, error),
+    });
+  }
+
+  /**
+   * Queue a log for AI processing
+   * @param logId - Audio log ID
+   * @param userId - Owner's user ID
+   */
+  async enqueue(logId: string, userId: string): Promise<IJob> {
+    const active = await this.queue.findActive(PROCESS_LOG_JOB, logId);
+    if (active) {
+      return active;
+    }
+
+    await AudioLog.updateOne(
+      { _id: new mongoose.Types.ObjectId(logId) },
+      { $set: { processingStatus: 'pending' }, $unset: { processingError: 1 } }
+    );
+
+    const payload: ProcessLogPayload = { logId, userId };
+    return this.queue.enqueue(PROCESS_LOG_JOB, { ...payload }, { key: logId });
+  }
+
+  /**
+   * Re-queue a log whose processing failed or was lost
+   * @returns null when the log doesn't exist
+   * @throws ConflictError when the log is queued, running or already tracked
+   */
+  async retry(logId: string, userId: string): Promise<IJob | null> {
+    const log = await this.findLog(logId, userId);
+    if (!log) {
+      return null;
+    }
+
+    if (await this.queue.findActive(PROCESS_LOG_JOB, logId)) {
+      throw new ConflictError('Log is already queued for processing');
+    }
+
+    if (this.getStatus(log) === 'tracked') {
+      throw new ConflictError('Log has already been processed');
+    }
+
+    logger.info(`Retrying processing for log ${logId}`);
+    return this.enqueue(logId, userId);
+  }
+
+  /**
+   * Re-run categorization and activity tracking after a log's transcript was edited
+   * The log's activity entry is replaced so counts are recalculated
+   * @param log - The edited log
+   */
+  async reanalyze(log: IAudioLog): Promise<IJob> {
+    const logId = log._id.toString();
+
+    await AudioLog.updateOne(
+      { _id: log._id },
+      { $set: { processingStatus: 'pending' }, $unset: { processingError: 1 } }
+    );
+
+    const payload: ProcessLogPayload = {
+      logId,
+      userId: log.userId.toString(),
+    };
+
+    logger.info(`Re-analysing edited log ${logId}`);
+    return this.queue.enqueue(PROCESS_LOG_JOB, { ...payload }, { key: logId });
+  }
+
+  /**
+   * Get the processing state of a log and its latest job
+   * @returns null when the log doesn't exist
+   */
+  async getState(logId: string, userId: string): Promise<LogProcessingState | null> {
+    const log = await this.findLog(logId, userId);
+    if (!log) {
+      return null;
+    }
+
+    const job = await this.queue.findLatest(PROCESS_LOG_JOB, logId);
+
+    return {
+      logId,
+      processingStatus: this.getStatus(log),
+      processingError: log.processingError,
+      job: job ? {
+        id: job._id.toString(),
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextAttemptAt: job.status === 'queued' ? job.runAt : undefined,
+        lastError: job.lastError,
+      } : null,
+    };
+  }
+
+  /**
+   * Job handler: transcribe if needed, categorize the log and update the activity tracker
+   * Throws on failures so the queue retries with backoff; the last attempt, or an
+   * AI request that retrying can't fix, falls back to the rule classifier
+   */
+  private async process(job: IJob): Promise<void> {
+    const { logId, userId } = job.payload as unknown as ProcessLogPayload;
+
+    const log = await this.findLog(logId, userId);
+    if (!log) {
+      // Deleted while queued - nothing left to do
+      logger.debug(`Skipping processing for missing log ${logId}`);
+      return;
+    }
+
+    if (!log.transcript) {
+      await this.setStatus(logId, 'transcribing');
+      await audioService.transcribeStoredAudioLog(logId);
+    }
+
+    await this.setStatus(logId, 'categorizing');
+    try {
+      await aiService.categorizeAudioLog(logId, userId, {
+        strict: true,
+        fallbackOnError: job.attempts >= job.maxAttempts,
+      });
+    } catch (error) {
+      if (!(error instanceof ProviderError && error.service === 'llm' && !error.retryable)) throw error;
+      logger.warn(`AI analysis of log ${logId} failed permanently (${error.code}) - falling back to the rule classifier`);
+      await aiService.categorizeAudioLog(logId, userId, { strict: true, fallbackOnError: true });
+    }
+    await this.setStatus(logId, 'tracked');
+
+    logger.info(`Log ${logId} processed (attempt ${job.attempts})`);
+  }
+
+  /**
+   * Dead-letter hook: record the failure on the log
+   */
+  private async markFailed(job: IJob, error: Error): Promise<void> {
+    const { logId } = job.payload as unknown as ProcessLogPayload;
+
+    await AudioLog.updateOne(
+      { _id: new mongoose.Types.ObjectId(logId) },
+      { $set: { processingStatus: 'failed', processingError: error.message } }
+    );
+    logger.error(`Processing failed for log ${logId} after ${job.attempts} attempt(s): ${error.message}`);
+  }
+
+  /**
+   * Update a log's processing status
+   */
+  private async setStatus(logId: string, status: ProcessingStatus): Promise<void> {
+    await AudioLog.updateOne(
+      { _id: new mongoose.Types.ObjectId(logId) },
+      { $set: { processingStatus: status }, $unset: { processingError: 1 } }
+    );
+  }
+
+  /**
+   * Logs created before the job queue have no status; treat categorized ones as tracked
+   */
+  private getStatus(log: IAudioLog): ProcessingStatus {
+    return log.processingStatus || (log.category ? 'tracked' : 'pending');
+  }
+
+  /**
+   * Find a log owned by the user
+   */
+  private async findLog(logId: string, userId: string): Promise<IAudioLog | null> {
+    return AudioLog.findOne({
+      _id: new mongoose.Types.ObjectId(logId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+  }
+}
+
+// Export singleton instance
+export const logPipeline = new LogPipelineService();
+
+export default logPipeline;
@@ -0,0 +1,88 @@
+import { AppError } from '../../middleware/error.middleware';
+import { logger } from '../../utils/logger';
+import { AudioContainer, AudioProbeResult, ContainerProbe, ProbeInput } from './types';
+import { WavProbe } from './wav.probe';
+import { WebmProbe } from './webm.probe';
+import { OggProbe } from './ogg.probe';
+import { Mp3Probe } from './mp3.probe';
+
+export * from './types';
+export { ProbeSampler } from './sampler';
+
+/**
+ * Bytes kept from the start and end of streamed uploads for probing
+ * The tail has to reach back to the last WebM cluster header
+ */
+export const PROBE_HEAD_BYTES = 64 * 1024;
+export const PROBE_TAIL_BYTES = 256 * 1024;
+
+/**
+ * Container expected for each accepted MIME type
+ */
+const MIME_CONTAINERS: Record<string, AudioContainer> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3',
+};
+
+/**
+ * Probes in detection order; MP3 frame sync is the loosest signature, so it goes last
+ */
+const PROBES: ContainerProbe[] = [new WavProbe(), new WebmProbe(), new OggProbe(), new Mp3Probe()];
+
+/**
+ * Identify the container from its leading bytes
+ * @returns null when no supported signature matches
+ */
+export const detectContainer = (head: Buffer): AudioContainer | null =>
+  PROBES.find((probe) => probe.matches(head))?.container ?? null;
+
+/**
+ * Check that the leading bytes match the declared MIME type
+ * @throws AppError (400) UNRECOGNIZED_AUDIO or AUDIO_TYPE_MISMATCH
+ */
+export const assertAudioSignature = (head: Buffer, declaredMimeType: string): AudioContainer => {
+  const detected = detectContainer(head);
+  if (!detected) {
+    throw new AppError('File content is not a recognized audio format', 400, 'UNRECOGNIZED_AUDIO');
+  }
+
+  const mimeType = (declaredMimeType.split(';')[0] || '').trim().toLowerCase();
+  const expected = MIME_CONTAINERS[mimeType];
+  if (expected && expected !== detected) {
+    throw new AppError(
+      `File content is ${detected.toUpperCase()} but was declared as ${mimeType}`,
+      400,
+      'AUDIO_TYPE_MISMATCH'
+    );
+  }
+
+  return detected;
+};
+
+/**
+ * Validate a recording's signature and read its duration, sample rate and channels
+ * Parse failures past the signature check are logged and yield a partial result
+ * @throws AppError (400) when the content doesn't match the declared type
+ */
+export const probeAudio = (input: ProbeInput, declaredMimeType: string): AudioProbeResult => {
+  const container = assertAudioSignature(input.head, declaredMimeType);
+  const probe = PROBES.find((candidate) => candidate.container === container)!;
+
+  try {
+    const result: AudioProbeResult = { container, ...probe.probe(input) };
+    if (result.duration !== undefined && !(Number.isFinite(result.duration) && result.duration >= 0)) {
+      delete result.duration;
+    }
+    return result;
+  } catch (error) {
+    logger.warn(`Audio probe failed for ${container} file:`, error);
+    return { container };
+  }
+};
+
+export default probeAudio;
@@ -0,0 +1,176 @@
+import { AudioProbeResult, ContainerProbe, ProbeInput } from './types';
+
+/**
+ * Bitrates in kbps, indexed by [table][bitrate index]
+ * Tables: MPEG-1 layer I, II, III; MPEG-2/2.5 layer I; MPEG-2/2.5 layer II/III
+ */
+const BITRATES = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+
+/**
+ * MPEG-1 sample rates; MPEG-2 halves them and MPEG-2.5 quarters them
+ */
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * Decoded MPEG audio frame header
+ */
+interface FrameHeader {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrate: number;          // bps
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;      // bytes
+}
+
+/**
+ * Length of a leading ID3v2 tag, footer included (0 when there is none)
+ * Tags with embedded cover art often run past the probe's head bytes.
+ */
+export const id3v2Length = (head: Buffer): number => {
+  if (head.length < 10 || head.toString('ascii', 0, 3) !== 'ID3') {
+    return 0;
+  }
+  // Tag size is a 28-bit syncsafe integer
+  const tagSize = ((head[6]! & 0x7f) << 21) | ((head[7]! & 0x7f) << 14) | ((head[8]! & 0x7f) << 7) | (head[9]! & 0x7f);
+  const hasFooter = (head[5]! & 0x10) !== 0;
+  return 10 + tagSize + (hasFooter ? 10 : 0);
+};
+
+/**
+ * MP3 (MPEG audio) probe
+ * Skips ID3v2 tags, reads the first frame header and uses a Xing/Info or
+ * VBRI header for the frame count, falling back to a constant-bitrate estimate.
+ * The frames are read from `body` when given, as a large tag leaves none in `head`.
+ */
+export class Mp3Probe implements ContainerProbe {
+  readonly container = 'mp3' as const;
+
+  matches(head: Buffer): boolean {
+    if (head.length >= 3 && head.toString('ascii', 0, 3) === 'ID3') {
+      return true;
+    }
+    return this.findFrame(head, 0, 1) !== null;
+  }
+
+  probe({ head, body, size }: ProbeInput): Omit<AudioProbeResult, 'container'> {
+    const audioStart = id3v2Length(head);
+    // Frames are searched from the start of `frames`, which sits at `base` in the file
+    const [frames, base] = body && audioStart > 0 ? [body, audioStart] : [head, 0];
+    const found = this.findFrame(frames, audioStart - base);
+    if (!found) {
+      return { codec: 'mp3' };
+    }
+
+    const { header } = found;
+    const offset = base + found.offset;
+    const result: Omit<AudioProbeResult, 'container'> = {
+      codec: header.layer === 3 ? 'mp3' : `mp${header.layer}`,
+      sampleRate: header.sampleRate,
+      channels: header.channels,
+      bitrate: header.bitrate,
+    };
+
+    const frameCount = this.readVbrFrameCount(frames, found.offset, header);
+    if (frameCount) {
+      result.duration = (frameCount * header.samplesPerFrame) / header.sampleRate;
+      result.bitrate = Math.round(((size - offset) * 8) / result.duration);
+    } else {
+      result.duration = ((size - offset) * 8) / header.bitrate;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find a frame header, requiring the following frame to line up when it is in the buffer
+   * @param limit - Stop scanning after this many bytes
+   */
+  private findFrame(head: Buffer, start: number, limit = head.length): { offset: number; header: FrameHeader } | null {
+    const end = Math.min(head.length - 4, start + limit);
+    for (let offset = start; offset <= end; offset++) {
+      const header = this.parseHeader(head, offset);
+      if (!header) continue;
+
+      const next = offset + header.frameLength;
+      if (next + 4 <= head.length && !this.parseHeader(head, next)) continue;
+
+      return { offset, header };
+    }
+    return null;
+  }
+
+  private parseHeader(buf: Buffer, offset: number): FrameHeader | null {
+    if (offset + 4 > buf.length || buf[offset] !== 0xff || (buf[offset + 1]! & 0xe0) !== 0xe0) {
+      return null;
+    }
+
+    const b1 = buf[offset + 1]!;
+    const b2 = buf[offset + 2]!;
+    const b3 = buf[offset + 3]!;
+
+    const versionBits = (b1 >> 3) & 0x03;
+    const layerBits = (b1 >> 1) & 0x03;
+    const bitrateIndex = b2 >> 4;
+    const sampleRateIndex = (b2 >> 2) & 0x03;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      return null;
+    }
+
+    const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+    const layer = (4 - layerBits) as 1 | 2 | 3;
+    const table = version === 1 ? layer - 1 : layer === 1 ? 3 : 4;
+    const bitrate = BITRATES[table]![bitrateIndex]! * 1000;
+    const sampleRate = SAMPLE_RATES[sampleRateIndex]! / (version === 1 ? 1 : version === 2 ? 2 : 4);
+    const padding = (b2 >> 1) & 0x01;
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+
+    const frameLength = layer === 1
+      ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+      : Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+    return {
+      version,
+      layer,
+      bitrate,
+      sampleRate,
+      channels: (b3 >> 6) === 3 ? 1 : 2,
+      samplesPerFrame,
+      frameLength,
+    };
+  }
+
+  /**
+   * Frame count from a Xing/Info or VBRI header in the first frame
+   */
+  private readVbrFrameCount(head: Buffer, offset: number, header: FrameHeader): number | null {
+    // Xing/Info sits after the side information
+    const sideInfo = header.version === 1
+      ? (header.channels === 1 ? 17 : 32)
+      : (header.channels === 1 ? 9 : 17);
+    const xing = offset + 4 + sideInfo;
+    if (xing + 12 <= head.length) {
+      const tag = head.toString('ascii', xing, xing + 4);
+      if ((tag === 'Xing' || tag === 'Info') && (head.readUInt32BE(xing + 4) & 0x01)) {
+        return head.readUInt32BE(xing + 8);
+      }
+    }
+
+    // VBRI (Fraunhofer) always sits 32 bytes after the header
+    const vbri = offset + 4 + 32;
+    if (vbri + 18 <= head.length && head.toString('ascii', vbri, vbri + 4) === 'VBRI') {
+      return head.readUInt32BE(vbri + 14);
+    }
+
+    return null;
+  }
+}
+
+export default Mp3Probe;
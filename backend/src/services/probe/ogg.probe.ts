@@ -0,0 +1,99 @@
+import { AudioProbeResult, ContainerProbe, ProbeInput } from './types';
+
+/**
+ * Ogg page capture pattern
+ */
+const CAPTURE = Buffer.from('OggS', 'ascii');
+
+/**
+ * Opus granule positions always count 48kHz samples
+ */
+const OPUS_GRANULE_RATE = 48000;
+
+/**
+ * Ogg (Opus/Vorbis) probe
+ * Reads the identification header in the first page and takes the
+ * duration from the granule position of the last page
+ */
+export class OggProbe implements ContainerProbe {
+  readonly container = 'ogg' as const;
+
+  matches(head: Buffer): boolean {
+    return head.length >= 4 && head.subarray(0, 4).equals(CAPTURE);
+  }
+
+  probe({ head, tail, size }: ProbeInput): Omit<AudioProbeResult, 'container'> {
+    const result: Omit<AudioProbeResult, 'container'> = {};
+    let granuleRate = 0;
+    let preSkip = 0;
+
+    const packet = this.firstPacket(head);
+    if (packet && packet.toString('ascii', 0, 8) === 'OpusHead' && packet.length >= 16) {
+      result.codec = 'opus';
+      result.channels = packet[9];
+      preSkip = packet.readUInt16LE(10);
+      result.sampleRate = packet.readUInt32LE(12) || OPUS_GRANULE_RATE;
+      granuleRate = OPUS_GRANULE_RATE;
+    } else if (packet && packet[0] === 0x01 && packet.toString('ascii', 1, 7) === 'vorbis' && packet.length >= 28) {
+      result.codec = 'vorbis';
+      result.channels = packet[11];
+      result.sampleRate = packet.readUInt32LE(12);
+      granuleRate = result.sampleRate;
+      const nominal = packet.readInt32LE(20);
+      if (nominal > 0) result.bitrate = nominal;
+    } else if (packet && packet.toString('ascii', 1, 5) === 'FLAC') {
+      result.codec = 'flac';
+    }
+
+    const granule = this.lastGranule(tail ?? head);
+    if (granuleRate > 0 && granule !== null && granule > preSkip) {
+      result.duration = (granule - preSkip) / granuleRate;
+      result.bitrate = Math.round((size * 8) / result.duration);
+    }
+
+    return result;
+  }
+
+  /**
+   * First packet of the first page (the codec identification header)
+   */
+  private firstPacket(head: Buffer): Buffer | null {
+    if (head.length < 27) {
+      return null;
+    }
+    const segments = head[26]!;
+    const dataStart = 27 + segments;
+    if (dataStart > head.length) {
+      return null;
+    }
+
+    // A packet ends at the first lacing value below 255
+    let length = 0;
+    for (let i = 0; i < segments; i++) {
+      const lacing = head[27 + i]!;
+      length += lacing;
+      if (lacing < 255) break;
+    }
+    return head.subarray(dataStart, Math.min(head.length, dataStart + length));
+  }
+
+  /**
+   * Granule position of the last complete page header in the buffer
+   */
+  private lastGranule(buf: Buffer): number | null {
+    let index = buf.lastIndexOf(CAPTURE);
+    while (index !== -1) {
+      if (index + 14 <= buf.length && buf[index + 4] === 0) {
+        const granule = buf.readBigInt64LE(index + 6);
+        // -1 marks pages where no packet finishes
+        if (granule >= 0n) {
+          return Number(granule);
+        }
+      }
+      index = index > 0 ? buf.lastIndexOf(CAPTURE, index - 1) : -1;
+    }
+    return null;
+  }
+}
+
+export default OggProbe;
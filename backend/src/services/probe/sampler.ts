@@ -0,0 +1,95 @@
+import { Transform, TransformCallback } from 'stream';
+import { id3v2Length } from './mp3.probe';
+
+/**
+ * Pass-through stream that keeps the first and/or last bytes it sees,
+ * so streamed uploads can be probed without buffering them. With `bodyBytes`,
+ * it also keeps the bytes after a leading ID3v2 tag, wherever the tag ends.
+ */
+export class ProbeSampler extends Transform {
+  private readonly headBytes: number;
+  private readonly tailBytes: number;
+  private headChunks: Buffer[] = [];
+  private headLength = 0;
+  private tailChunks: Buffer[] = [];
+  private tailLength = 0;
+  private readonly bodyBytes: number;
+  private bodyStart?: number;          // End of the ID3v2 tag; 0 when there is none, unset until known
+  private bodyChunks: Buffer[] = [];
+  private bodyLength = 0;
+  private position = 0;
+
+  /**
+   * @param options.headBytes - Leading bytes to keep (0 to skip)
+   * @param options.tailBytes - Trailing bytes to keep (0 to skip)
+   * @param options.bodyBytes - Bytes to keep after a leading ID3v2 tag (0 to skip; needs headBytes)
+   */
+  constructor(options: { headBytes?: number; tailBytes?: number; bodyBytes?: number }) {
+    super();
+    this.headBytes = options.headBytes || 0;
+    this.tailBytes = options.tailBytes || 0;
+    this.bodyBytes = options.bodyBytes || 0;
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const chunkStart = this.position;
+    this.position += chunk.length;
+
+    if (this.headLength < this.headBytes) {
+      const needed = this.headBytes - this.headLength;
+      const slice = chunk.subarray(0, needed);
+      this.headChunks.push(slice);
+      this.headLength += slice.length;
+    }
+
+    if (this.bodyBytes > 0) {
+      // The tag header is in the first 10 bytes, so the tag never ends before this chunk
+      if (this.bodyStart === undefined && this.headLength >= 10) {
+        this.bodyStart = id3v2Length(this.head);
+      }
+      if (this.bodyStart && this.bodyLength < this.bodyBytes) {
+        const from = Math.max(0, this.bodyStart + this.bodyLength - chunkStart);
+        const slice = chunk.subarray(from, from + this.bodyBytes - this.bodyLength);
+        if (slice.length > 0) {
+          this.bodyChunks.push(slice);
+          this.bodyLength += slice.length;
+        }
+      }
+    }
+
+    if (this.tailBytes > 0) {
+      this.tailChunks.push(chunk);
+      this.tailLength += chunk.length;
+      // Drop whole chunks that are no longer needed for the tail
+      while (this.tailChunks.length > 1 && this.tailLength - this.tailChunks[0]!.length >= this.tailBytes) {
+        this.tailLength -= this.tailChunks.shift()!.length;
+      }
+    }
+
+    callback(null, chunk);
+  }
+
+  /**
+   * Leading bytes seen so far
+   */
+  get head(): Buffer {
+    return Buffer.concat(this.headChunks);
+  }
+
+  /**
+   * Bytes seen so far after a leading ID3v2 tag (empty without one)
+   */
+  get body(): Buffer {
+    return Buffer.concat(this.bodyChunks);
+  }
+
+  /**
+   * Trailing bytes seen so far
+   */
+  get tail(): Buffer {
+    const tail = Buffer.concat(this.tailChunks);
+    return tail.subarray(Math.max(0, tail.length - this.tailBytes));
+  }
+}
+
+export default ProbeSampler;
@@ -0,0 +1,45 @@
+/**
+ * Container formats the audio probe understands
+ */
+export type AudioContainer = 'wav' | 'webm' | 'ogg' | 'mp3';
+
+/**
+ * Bytes available to a probe
+ * Small uploads pass the whole file as `head`; chunked uploads pass the
+ * first and last bytes of the file so it is never buffered in full
+ */
+export interface ProbeInput {
+  head: Buffer;
+  tail?: Buffer;      // Last bytes of the file; defaults to `head` when that is the whole file
+  body?: Buffer;      // First bytes after a leading ID3v2 tag, which may outgrow `head`
+  size: number;       // Total file size in bytes
+}
+
+/**
+ * What a probe learned about a recording
+ */
+export interface AudioProbeResult {
+  container: AudioContainer;
+  codec?: string;
+  duration?: number;    // Seconds
+  sampleRate?: number;  // Hz
+  channels?: number;
+  bitrate?: number;     // Bits per second (average)
+}
+
+/**
+ * Parser for one container format
+ */
+export interface ContainerProbe {
+  readonly container: AudioContainer;
+
+  /**
+   * Whether the leading bytes carry this container's signature
+   */
+  matches(head: Buffer): boolean;
+
+  /**
+   * Read stream properties; fields that can't be determined are left out
+   */
+  probe(input: ProbeInput): Omit<AudioProbeResult, 'container'>;
+}
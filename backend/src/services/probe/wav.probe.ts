@@ -0,0 +1,63 @@
+import { AudioProbeResult, ContainerProbe, ProbeInput } from './types';
+
+/**
+ * WAVE format tags
+ */
+const WAVE_CODECS: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0003: 'pcm_float',
+  0x0006: 'alaw',
+  0x0007: 'mulaw',
+  0xfffe: 'pcm', // WAVE_FORMAT_EXTENSIBLE
+};
+
+/**
+ * WAV (RIFF/WAVE) probe
+ * Reads the `fmt ` chunk and sizes the `data` chunk
+ */
+export class WavProbe implements ContainerProbe {
+  readonly container = 'wav' as const;
+
+  matches(head: Buffer): boolean {
+    return head.length >= 12
+      && head.toString('ascii', 0, 4) === 'RIFF'
+      && head.toString('ascii', 8, 12) === 'WAVE';
+  }
+
+  probe({ head, size }: ProbeInput): Omit<AudioProbeResult, 'container'> {
+    const result: Omit<AudioProbeResult, 'container'> = {};
+    let byteRate = 0;
+    let offset = 12;
+
+    while (offset + 8 <= head.length) {
+      const id = head.toString('ascii', offset, offset + 4);
+      const chunkSize = head.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (id === 'fmt ' && body + 16 <= head.length) {
+        const format = head.readUInt16LE(body);
+        result.codec = WAVE_CODECS[format] || `wav_0x${format.toString(16)}`;
+        result.channels = head.readUInt16LE(body + 2);
+        result.sampleRate = head.readUInt32LE(body + 4);
+        byteRate = head.readUInt32LE(body + 8);
+        result.bitrate = byteRate * 8;
+      } else if (id === 'data') {
+        // Streaming writers leave the size at 0 or 0xFFFFFFFF
+        const dataSize = chunkSize === 0 || chunkSize === 0xffffffff || body + chunkSize > size
+          ? size - body
+          : chunkSize;
+        if (byteRate > 0) {
+          result.duration = dataSize / byteRate;
+        }
+        break;
+      }
+
+      // Chunks are word-aligned
+      offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    return result;
+  }
+}
+
+export default WavProbe;
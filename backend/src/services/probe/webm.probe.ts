@@ -0,0 +1,224 @@
+import { AudioProbeResult, ContainerProbe, ProbeInput } from './types';
+
+/**
+ * EBML element IDs (with their length marker bits)
+ */
+const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  CodecID: 0x86,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+};
+
+const CLUSTER_ID_BYTES = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+
+/**
+ * Default Matroska timestamp unit (1ms)
+ */
+const DEFAULT_TIMECODE_SCALE = 1_000_000;
+
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_AAC: 'aac',
+  A_FLAC: 'flac',
+  A_MPEG: 'mp3',
+};
+
+/**
+ * Element header read from an EBML stream
+ */
+interface Element {
+  id: number;
+  dataStart: number;
+  dataEnd: number;          // Clamped to the buffer for unknown-size elements
+}
+
+/**
+ * WebM/Matroska probe
+ * Reads the segment Info and audio track from the head. Browser recordings
+ * (MediaRecorder) carry no Duration, so the last cluster's block
+ * timestamps in the tail are used instead.
+ */
+export class WebmProbe implements ContainerProbe {
+  readonly container = 'webm' as const;
+
+  matches(head: Buffer): boolean {
+    return head.length >= 4 && head.readUInt32BE(0) === EBML_ID.EBML;
+  }
+
+  probe({ head, tail, size }: ProbeInput): Omit<AudioProbeResult, 'container'> {
+    const result: Omit<AudioProbeResult, 'container'> = {};
+    let timecodeScale = DEFAULT_TIMECODE_SCALE;
+    let duration: number | undefined;
+
+    const segment = this.children(head, 0, head.length).find((el) => el.id === EBML_ID.Segment);
+    if (segment) {
+      for (const el of this.children(head, segment.dataStart, segment.dataEnd)) {
+        if (el.id === EBML_ID.Info) {
+          for (const info of this.children(head, el.dataStart, el.dataEnd)) {
+            if (info.id === EBML_ID.TimecodeScale) timecodeScale = this.readUint(head, info) || timecodeScale;
+            if (info.id === EBML_ID.Duration) duration = this.readFloat(head, info);
+          }
+        } else if (el.id === EBML_ID.Tracks) {
+          this.readAudioTrack(head, el, result);
+        } else if (el.id === EBML_ID.Cluster) {
+          break;
+        }
+      }
+    }
+
+    const ticks = duration ?? this.lastBlockTimecode(tail ?? head);
+    if (ticks !== undefined && ticks > 0) {
+      result.duration = (ticks * timecodeScale) / 1e9;
+      result.bitrate = Math.round((size * 8) / result.duration);
+    }
+
+    return result;
+  }
+
+  /**
+   * Codec, sample rate and channels of the first audio track
+   */
+  private readAudioTrack(buf: Buffer, tracks: Element, result: Omit<AudioProbeResult, 'container'>): void {
+    for (const entry of this.children(buf, tracks.dataStart, tracks.dataEnd)) {
+      if (entry.id !== EBML_ID.TrackEntry) continue;
+
+      let codecId: string | undefined;
+      let audio: Element | undefined;
+      for (const field of this.children(buf, entry.dataStart, entry.dataEnd)) {
+        if (field.id === EBML_ID.CodecID) codecId = buf.toString('ascii', field.dataStart, field.dataEnd).replace(/\0+$/, '');
+        if (field.id === EBML_ID.Audio) audio = field;
+      }
+      if (!audio) continue;
+
+      if (codecId) result.codec = MATROSKA_CODECS[codecId] || codecId.toLowerCase();
+      for (const field of this.children(buf, audio.dataStart, audio.dataEnd)) {
+        if (field.id === EBML_ID.SamplingFrequency) result.sampleRate = this.readFloat(buf, field);
+        if (field.id === EBML_ID.Channels) result.channels = this.readUint(buf, field);
+      }
+      return;
+    }
+  }
+
+  /**
+   * Timestamp (in timecode-scale ticks) of the last block in the last
+   * cluster found in the buffer
+   */
+  private lastBlockTimecode(buf: Buffer): number | undefined {
+    let index = buf.lastIndexOf(CLUSTER_ID_BYTES);
+    while (index !== -1) {
+      const cluster = this.readElement(buf, index, buf.length);
+      if (cluster) {
+        let clusterTimecode: number | undefined;
+        let lastBlock = 0;
+
+        for (const el of this.children(buf, cluster.dataStart, cluster.dataEnd)) {
+          if (el.id === EBML_ID.Timecode) {
+            clusterTimecode = this.readUint(buf, el);
+          } else if (el.id === EBML_ID.SimpleBlock) {
+            lastBlock = Math.max(lastBlock, this.readBlockTimecode(buf, el) ?? 0);
+          } else if (el.id === EBML_ID.BlockGroup) {
+            const block = this.children(buf, el.dataStart, el.dataEnd).find((child) => child.id === EBML_ID.Block);
+            if (block) lastBlock = Math.max(lastBlock, this.readBlockTimecode(buf, block) ?? 0);
+          }
+        }
+
+        if (clusterTimecode !== undefined) {
+          return clusterTimecode + lastBlock;
+        }
+      }
+      index = index > 0 ? buf.lastIndexOf(CLUSTER_ID_BYTES, index - 1) : -1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Relative timecode of a (Simple)Block: track number, then a signed 16-bit offset
+   */
+  private readBlockTimecode(buf: Buffer, block: Element): number | undefined {
+    const track = this.readVint(buf, block.dataStart, false);
+    const offset = track ? block.dataStart + track.length : -1;
+    return track && offset + 2 <= block.dataEnd ? buf.readInt16BE(offset) : undefined;
+  }
+
+  /**
+   * Direct children of the element whose data spans [start, end)
+   * Stops at the first element that can't be read (truncated buffer)
+   */
+  private children(buf: Buffer, start: number, end: number): Element[] {
+    const elements: Element[] = [];
+    let offset = start;
+    while (offset < end) {
+      const el = this.readElement(buf, offset, end);
+      if (!el) break;
+      elements.push(el);
+      if (el.dataEnd <= offset) break;
+      offset = el.dataEnd;
+    }
+    return elements;
+  }
+
+  private readElement(buf: Buffer, offset: number, end: number): Element | null {
+    const id = this.readVint(buf, offset, true);
+    if (!id) return null;
+    const size = this.readVint(buf, offset + id.length, false);
+    if (!size) return null;
+
+    const dataStart = offset + id.length + size.length;
+    const limit = Math.min(end, buf.length);
+    const dataEnd = size.unknown ? limit : Math.min(limit, dataStart + size.value);
+    return dataStart <= limit ? { id: id.value, dataStart, dataEnd } : null;
+  }
+
+  /**
+   * Read an EBML variable-length integer
+   * @param keepMarker - IDs keep their length marker bits; sizes drop them
+   */
+  private readVint(buf: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+    if (offset >= buf.length) return null;
+    const first = buf[offset]!;
+    if (first === 0) return null;
+
+    const length = 9 - first.toString(2).length;
+    if (offset + length > buf.length) return null;
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+      const byte = buf[offset + i]!;
+      value = value * 256 + byte;
+      allOnes = allOnes && byte === 0xff;
+    }
+    return { value, length, unknown: !keepMarker && allOnes };
+  }
+
+  private readUint(buf: Buffer, el: Element): number {
+    let value = 0;
+    for (let i = el.dataStart; i < el.dataEnd; i++) {
+      value = value * 256 + buf[i]!;
+    }
+    return value;
+  }
+
+  private readFloat(buf: Buffer, el: Element): number | undefined {
+    const length = el.dataEnd - el.dataStart;
+    if (length === 4) return buf.readFloatBE(el.dataStart);
+    if (length === 8) return buf.readDoubleBE(el.dataStart);
+    return undefined;
+  }
+}
+
+export default WebmProbe;
@@ -0,0 +1,250 @@
+import { readdirSync, readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { LLMTask, LLM_TASKS } from './llm';
+import { logger } from '../utils/logger';
+import { unifiedDiff } from '../utils/diff.utils';
+
+/**
+ * Directory holding prompt templates: <PROMPTS_DIR>/<name>/v<version>.txt
+ * Resolves to backend/prompts from both src/services and dist/services
+ */
+const PROMPTS_DIR = process.env.PROMPTS_DIR || path.resolve(__dirname, '../../prompts');
+
+/**
+ * Prompt names match the AI tasks that use them
+ */
+export type PromptName = LLMTask;
+
+/**
+ * Variable types a template can declare
+ * - string and number are inserted as-is
+ * - json is inserted as indented JSON
+ */
+export type PromptVariableType = 'string' | 'number' | 'json';
+
+/**
+ * Variables each prompt is rendered with
+ */
+export interface PromptVariables {
+  title: { transcript: string };
+  categorize: { transcript: string; categories: string };
+  extract: { transcript: string };
+  classify: { activities: unknown; categories: string; rules: string; points: unknown; examples: string };
+  analyze: {
+    transcript: string; categories: string; activityCategories: string; rules: string; points: unknown; examples: string;
+  };
+  review: { growth: number; health: number; work: number; consumption: number; scores: string; goals: string };
+  story: {
+    totalLogs: number; categoryCounts: unknown; sentimentBreakdown: unknown; topThemes: string; entries: string; goals: string;
+  };
+  chat: Record<string, never>;
+  canonicalize: { activities: unknown };
+}
+
+/**
+ * One version of a prompt template, parsed from its file
+ */
+export interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  description: string;
+  variables: Record<string, PromptVariableType>;
+  template: string;
+}
+
+/**
+ * Prompt text ready to send, with the version it came from
+ */
+export interface RenderedPrompt {
+  name: PromptName;
+  version: number;
+  text: string;
+}
+
+/**
+ * Registered prompt and its versions, as listed by the admin API
+ */
+export interface PromptSummary {
+  name: PromptName;
+  description: string;
+  variables: Record<string, PromptVariableType>;
+  activeVersion: number;
+  versions: number[];
+}
+
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'json'];
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Prompt Registry
+ * Loads named, versioned prompt templates from disk at startup. The highest
+ * version of each prompt is active unless PROMPT_<NAME>_VERSION pins another.
+ * Rendering checks variables against the types declared in the template.
+ *
+ * Template file format:
+ *   ---
+ *   description: What the prompt does
+ *   variables:
+ *     transcript: string
+ *   ---
+ *   Prompt text with {{transcript}} placeholders
+ */
+export class PromptRegistry {
+  private readonly templates = new Map<PromptName, Map<number, PromptTemplate>>();
+  private readonly active = new Map<PromptName, number>();
+
+  constructor(dir: string = PROMPTS_DIR, env: NodeJS.ProcessEnv = process.env) {
+    for (const name of LLM_TASKS) {
+      const versions = this.loadVersions(dir, name);
+      if (!versions.size) {
+        throw new Error(`No templates found for prompt "${name}" in ${dir}`);
+      }
+      this.templates.set(name, versions);
+
+      const pinned = env[`PROMPT_${name.toUpperCase()}_VERSION`];
+      const latest = Math.max(...versions.keys());
+      if (pinned && !versions.has(parseInt(pinned, 10))) {
+        logger.warn(`PROMPT_${name.toUpperCase()}_VERSION=${pinned} does not exist - using v${latest}`);
+      }
+      this.active.set(name, pinned && versions.has(parseInt(pinned, 10)) ? parseInt(pinned, 10) : latest);
+    }
+
+    logger.info('Prompt versions', Object.fromEntries(this.active));
+  }
+
+  /**
+   * Fill in the active version of a prompt
+   * @throws Error when a declared variable is missing or has the wrong type
+   */
+  render<N extends PromptName>(name: N, variables: PromptVariables[N]): RenderedPrompt {
+    const template = this.get(name);
+    const values = variables as Record<string, unknown>;
+
+    for (const [variable, type] of Object.entries(template.variables)) {
+      const value = values[variable];
+      if (value === undefined) {
+        throw new Error(`Prompt ${name}@v${template.version}: missing variable "${variable}"`);
+      }
+      if (type !== 'json' && typeof value !== type) {
+        throw new Error(`Prompt ${name}@v${template.version}: variable "${variable}" must be a ${type}`);
+      }
+    }
+
+    const text = template.template.replace(PLACEHOLDER, (_match, variable: string) => {
+      const value = values[variable];
+      return template.variables[variable] === 'json' ? JSON.stringify(value, null, 2) : String(value);
+    });
+
+    return { name, version: template.version, text };
+  }
+
+  /**
+   * A prompt template; the active version unless one is given
+   */
+  get(name: PromptName, version: number = this.activeVersion(name)): PromptTemplate {
+    const template = this.templates.get(name)?.get(version);
+    if (!template) {
+      throw new Error(`Prompt ${name}@v${version} is not registered`);
+    }
+    return template;
+  }
+
+  has(name: string, version?: number): name is PromptName {
+    const versions = this.templates.get(name as PromptName);
+    return Boolean(versions && (version === undefined || versions.has(version)));
+  }
+
+  activeVersion(name: PromptName): number {
+    return this.active.get(name)!;
+  }
+
+  /**
+   * Every registered prompt with its versions
+   */
+  list(): PromptSummary[] {
+    return [...this.templates.entries()].map(([name, versions]) => {
+      const active = this.get(name);
+      return {
+        name,
+        description: active.description,
+        variables: active.variables,
+        activeVersion: active.version,
+        versions: [...versions.keys()].sort((a, b) => a - b),
+      };
+    });
+  }
+
+  /**
+   * Unified diff between two versions of a prompt
+   */
+  diff(name: PromptName, from: number, to: number): string {
+    const before = this.get(name, from);
+    const after = this.get(name, to);
+    return unifiedDiff(before.template, after.template, `${name}@v${from}`, `${name}@v${to}`);
+  }
+
+  private loadVersions(dir: string, name: PromptName): Map<number, PromptTemplate> {
+    const versions = new Map<number, PromptTemplate>();
+    const promptDir = path.join(dir, name);
+    if (!existsSync(promptDir)) {
+      return versions;
+    }
+
+    for (const file of readdirSync(promptDir)) {
+      const match = /^v(\d+)\.txt$/.exec(file);
+      if (!match) continue;
+
+      const version = parseInt(match[1]!, 10);
+      versions.set(version, this.parse(name, version, readFileSync(path.join(promptDir, file), 'utf8')));
+    }
+    return versions;
+  }
+
+  /**
+   * Parse a template file: front matter header, then the template body
+   * @throws Error on a malformed header or undeclared placeholders
+   */
+  private parse(name: PromptName, version: number, source: string): PromptTemplate {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/.exec(source);
+    if (!match) {
+      throw new Error(`Prompt ${name}@v${version}: missing --- header`);
+    }
+
+    let description = '';
+    const variables: Record<string, PromptVariableType> = {};
+    let inVariables = false;
+
+    for (const line of match[1]!.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const field = /^(\s*)(\w+):\s*(.*)$/.exec(line);
+      if (!field) {
+        throw new Error(`Prompt ${name}@v${version}: cannot parse header line "${line}"`);
+      }
+      const [, indent, key, value] = field as unknown as [string, string, string, string];
+
+      if (indent && inVariables) {
+        if (!VARIABLE_TYPES.includes(value as PromptVariableType)) {
+          throw new Error(`Prompt ${name}@v${version}: variable "${key}" has unknown type "${value}"`);
+        }
+        variables[key] = value as PromptVariableType;
+      } else {
+        inVariables = key === 'variables';
+        if (key === 'description') description = value;
+      }
+    }
+
+    const template = match[2]!.trim();
+    for (const [, variable] of template.matchAll(PLACEHOLDER)) {
+      if (!variables[variable!]) {
+        throw new Error(`Prompt ${name}@v${version}: placeholder {{${variable}}} is not declared`);
+      }
+    }
+
+    return { name, version, description, variables, template };
+  }
+}
+
+// Export singleton instance
+export const prompts = new PromptRegistry();
+
+export default prompts;
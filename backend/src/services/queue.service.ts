@@ -0,0 +1,305 @@
+import os from 'os';
+import crypto from 'crypto';
+import { UpdateQuery } from 'mongoose';
+import { Job, IJob } from '../models/Job';
+import { QuotaExceededError } from '../middleware/error.middleware';
+import { ProviderError } from './resilience';
+import { logger } from '../utils/logger';
+
+/**
+ * Queue tuning, read from the environment
+ */
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10);
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000', 10);
+const BACKOFF_MAX_MS = parseInt(process.env.JOB_BACKOFF_MAX_MS || '900000', 10);
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000', 10);
+// Refresh a running job's lock well before it would be treated as stale
+const LOCK_REFRESH_MS = Math.max(1000, Math.floor(LOCK_TIMEOUT_MS / 3));
+
+/**
+ * Handler registered for a job type
+ * `run` throws to signal a retryable failure; `onDeadLetter` is called
+ * once when the final attempt fails
+ */
+export interface JobHandler {
+  run: (job: IJob) => Promise<void>;
+  onDeadLetter?: (job: IJob, error: Error) => Promise<void>;
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+  key?: string;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Job Queue
+ * Persists jobs in MongoDB and runs them with retries, exponential
+ * backoff and dead-lettering. Jobs survive restarts: a job whose worker
+ * died mid-run is released again once its lock times out.
+ */
+export class JobQueue {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly running = new Set<Promise<void>>();
+  private stopping = false;
+  private polling = false;
+
+  /**
+   * Register the handler for a job type
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   * If `key` is given and a job of the same type and key is still waiting
+   * to run, that job is returned instead of creating a duplicate. A running
+   * job may already have read stale data, so it is not reused.
+   */
+  async enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<IJob> {
+    if (options.key) {
+      const existing = await Job.findOne({ type, key: options.key, status: 'queued' });
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const job = await Job.create({
+      type,
+      key: options.key,
+      payload,
+      maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      runAt: new Date(Date.now() + (options.delayMs || 0)),
+    });
+
+    logger.debug(`Job enqueued: ${type} ${job._id}`, { key: options.key });
+    return job;
+  }
+
+  /**
+   * Find a queued or running job by type and key
+   */
+  async findActive(type: string, key: string): Promise<IJob | null> {
+    return Job.findOne({ type, key, status: { $in: ['queued', 'running'] } });
+  }
+
+  /**
+   * Find the most recent job by type and key
+   */
+  async findLatest(type: string, key: string): Promise<IJob | null> {
+    return Job.findOne({ type, key }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.stopping = false;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => logger.error('Job queue poll failed:', error));
+    }, POLL_INTERVAL_MS);
+
+    logger.info(`Job queue started (worker ${this.workerId}, concurrency ${CONCURRENCY})`);
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.allSettled([...this.running]);
+    logger.info('Job queue stopped');
+  }
+
+  /**
+   * Release stale locks and claim due jobs up to the concurrency limit
+   */
+  private async tick(): Promise<void> {
+    // Skip if the previous poll is still claiming
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.releaseStaleLocks();
+
+      while (!this.stopping && this.running.size < CONCURRENCY) {
+        const job = await this.claimNext();
+        if (!job) {
+          return;
+        }
+
+        const execution = this.execute(job).finally(() => {
+          this.running.delete(execution);
+        });
+        this.running.add(execution);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Atomically claim the next due job
+   */
+  private async claimNext(): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      {
+        status: 'queued',
+        runAt: { $lte: new Date() },
+        type: { $in: [...this.handlers.keys()] },
+      },
+      {
+        $set: { status: 'running', lockedAt: new Date(), lockedBy: this.workerId },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Requeue jobs whose worker stopped without finishing them
+   */
+  private async releaseStaleLocks(): Promise<void> {
+    const result = await Job.updateMany(
+      { status: 'running', lockedAt: { $lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+      { $set: { status: 'queued', runAt: new Date() }, $unset: { lockedAt: 1, lockedBy: 1 } }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.warn(`Released ${result.modifiedCount} stale job lock(s)`);
+    }
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   */
+  private async execute(job: IJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      return;
+    }
+
+    // Keep the lock fresh so a long run isn't released as stale mid-way
+    const heartbeat = setInterval(() => {
+      Job.updateOne(this.owned(job), { $set: { lockedAt: new Date() } }).catch((error) => {
+        logger.error(`Failed to refresh the lock of job ${job._id}:`, error);
+      });
+    }, LOCK_REFRESH_MS);
+
+    try {
+      await handler.run(job);
+
+      const settled = await this.settle(job, {
+        $set: { status: 'completed', completedAt: new Date() },
+        $unset: { lockedAt: 1, lockedBy: 1 },
+      });
+      if (settled) {
+        logger.debug(`Job completed: ${job.type} ${job._id}`);
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      // Over the user's daily AI quota: wait for the reset without using up an attempt
+      if (error instanceof QuotaExceededError) {
+        const settled = await this.settle(job, {
+          $set: { status: 'queued', lastError: error.message, runAt: new Date(Date.now() + error.retryAfter * 1000) },
+          $inc: { attempts: -1 },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        });
+        if (settled) {
+          logger.warn(`Job deferred ${error.retryAfter}s until the AI quota resets: ${job.type} ${job._id}`);
+        }
+        return;
+      }
+
+      // A rejected request or bad credentials won't fix themselves on retry
+      const permanent = error instanceof ProviderError && !error.retryable;
+
+      if (permanent || job.attempts >= job.maxAttempts) {
+        const settled = await this.settle(job, {
+          $set: { status: 'dead', lastError: error.message, failedAt: new Date() },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        });
+        if (!settled) {
+          return;
+        }
+        logger.error(`Job dead-lettered after ${job.attempts} attempt(s): ${job.type} ${job._id}`, {
+          key: job.key,
+          error: error.message,
+        });
+
+        if (handler.onDeadLetter) {
+          await handler.onDeadLetter(job, error).catch((hookError) => {
+            logger.error(`Dead-letter handler failed for job ${job._id}:`, hookError);
+          });
+        }
+        return;
+      }
+
+      const delay = this.getBackoffDelay(job.attempts);
+      const settled = await this.settle(job, {
+        $set: { status: 'queued', lastError: error.message, runAt: new Date(Date.now() + delay) },
+        $unset: { lockedAt: 1, lockedBy: 1 },
+      });
+      if (settled) {
+        logger.warn(`Job failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${job.type} ${job._id}`, {
+          error: error.message,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Filter matching the job only while this worker still holds its lock
+   */
+  private owned(job: IJob) {
+    return { _id: job._id, status: 'running', lockedBy: this.workerId };
+  }
+
+  /**
+   * Record a job's outcome, unless its lock was released as stale and
+   * another worker owns the job now
+   */
+  private async settle(job: IJob, update: UpdateQuery<IJob>): Promise<boolean> {
+    const result = await Job.updateOne(this.owned(job), update);
+    if (result.modifiedCount === 0) {
+      logger.warn(`Job finished after losing its lock, outcome dropped: ${job.type} ${job._id}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt - 1), capped
+   */
+  private getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
+
+export default jobQueue;
@@ -0,0 +1,192 @@
+import mongoose from 'mongoose';
+import { AudioLog, IAudioLog } from '../models/AudioLog';
+import { ActivityTracker, IActivityTracker } from '../models/ActivityTracker';
+import { ActivityEntry } from '../models/ActivityEntry';
+import { Summary } from '../models/Summary';
+import { logger } from '../utils/logger';
+import { toCategoryId } from '../shared/taxonomy';
+import { activityService } from './activity.service';
+
+/**
+ * Options for a repair run
+ */
+export interface RepairOptions {
+  userId?: string;    // Limit the run to one user
+  dryRun?: boolean;   // Report what would change without writing
+}
+
+/**
+ * Result of a repair run
+ */
+export interface RepairReport {
+  dryRun: boolean;
+  trackersScanned: number;
+  trackersRepaired: number;
+  orphanedEntriesRemoved: number;
+  summariesScanned: number;
+  summariesMarkedStale: number;
+}
+
+/**
+ * Reconciliation Service
+ * Keeps data derived from logs (activity tracker entries and weekly
+ * summaries) consistent when logs are deleted, and repairs data that
+ * has already drifted
+ */
+export class ReconciliationService {
+  /**
+   * Remove a deleted log's tracker entry and mark its week's summary stale
+   * @param log - The log that was deleted
+   */
+  async onLogDeleted(log: IAudioLog): Promise<void> {
+    await this.removeTrackerEntry(log.userId, log._id);
+    await this.markSummaryStale(log.userId, log.timestamp);
+  }
+
+  /**
+   * Remove a log's activity entry and recompute the user's counts
+   * @returns true when an entry was removed
+   */
+  async removeTrackerEntry(userId: mongoose.Types.ObjectId, logId: mongoose.Types.ObjectId): Promise<boolean> {
+    const removed = await activityService.removeEntry(userId, logId);
+    if (removed) {
+      logger.info(`Removed activity entry of log ${logId} for user ${userId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Mark the summary covering a date as stale so it is regenerated on next read
+   * @returns true when a summary was marked
+   */
+  async markSummaryStale(userId: mongoose.Types.ObjectId, date: Date): Promise<boolean> {
+    const result = await Summary.updateMany(
+      { userId, weekStart: { $lte: date }, weekEnd: { $gt: date }, isStale: { $ne: true } },
+      { $set: { isStale: true, staleSince: new Date() } }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.info(`Marked summary stale for user ${userId}`, { date });
+    }
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Rebuild a user's activity tracker after its entries were re-analysed:
+   * drop entries whose log no longer exists and recompute counts
+   * @returns false when the user has no tracker
+   */
+  async rebuildTracker(userId: mongoose.Types.ObjectId): Promise<boolean> {
+    const tracker = await ActivityTracker.findOne({ userId });
+    if (!tracker) {
+      return false;
+    }
+
+    const { removed } = await this.pruneTracker(tracker, false);
+    await tracker.save();
+
+    logger.info(`Rebuilt activity tracker for user ${userId}`, { removed, counts: tracker.counts });
+    return true;
+  }
+
+  /**
+   * Repair existing data: drop activity entries whose log no longer exists,
+   * recompute counts, and mark summaries whose metrics no longer match
+   * the logs in their week as stale
+   */
+  async repair(options: RepairOptions = {}): Promise<RepairReport> {
+    const dryRun = options.dryRun ?? false;
+    const filter = options.userId ? { userId: new mongoose.Types.ObjectId(options.userId) } : {};
+
+    const report: RepairReport = {
+      dryRun,
+      trackersScanned: 0,
+      trackersRepaired: 0,
+      orphanedEntriesRemoved: 0,
+      summariesScanned: 0,
+      summariesMarkedStale: 0,
+    };
+
+    for await (const tracker of ActivityTracker.find(filter).cursor()) {
+      report.trackersScanned++;
+
+      const { removed, countsChanged } = await this.pruneTracker(tracker, dryRun);
+
+      if (removed > 0 || countsChanged) {
+        report.trackersRepaired++;
+        report.orphanedEntriesRemoved += removed;
+        if (!dryRun) {
+          await tracker.save();
+        }
+        logger.info(`Repaired activity tracker for user ${tracker.userId}`, { removed, countsChanged, dryRun });
+      }
+    }
+
+    for await (const summary of Summary.find({ ...filter, isStale: { $ne: true } }).cursor()) {
+      report.summariesScanned++;
+
+      const logs = await AudioLog.find(
+        { userId: summary.userId, timestamp: { $gte: summary.weekStart, $lt: summary.weekEnd } },
+        { category: 1 }
+      );
+
+      const categoryCounts: Record<string, number> = {};
+      for (const log of logs) {
+        const category = toCategoryId(log.category);
+        categoryCounts[category] = (categoryCounts[category] || 0) + 1;
+      }
+
+      // Summaries counted under retired categories no longer match and are regenerated
+      const stored: Record<string, number> = summary.metrics.categoryCounts || {};
+      const categories = new Set([...Object.keys(stored), ...Object.keys(categoryCounts)]);
+      const matches = summary.metrics.totalLogs === logs.length
+        && [...categories].every((category) => (stored[category] || 0) === (categoryCounts[category] || 0));
+
+      if (!matches) {
+        report.summariesMarkedStale++;
+        if (!dryRun) {
+          await Summary.updateOne({ _id: summary._id }, { $set: { isStale: true, staleSince: new Date() } });
+        }
+        logger.info(`Summary ${summary._id} no longer matches its logs`, { dryRun });
+      }
+    }
+
+    logger.info('Repair run finished', { ...report });
+    return report;
+  }
+
+  /**
+   * Drop the activity entries of a user's deleted logs and recompute the
+   * tracker's counts without them (the tracker is not saved)
+   * @param dryRun - Leave the entries in place
+   */
+  private async pruneTracker(
+    tracker: IActivityTracker,
+    dryRun: boolean
+  ): Promise<{ removed: number; countsChanged: boolean }> {
+    const logIds: mongoose.Types.ObjectId[] = await ActivityEntry.find({ userId: tracker.userId }).distinct('logId');
+    const existing = await AudioLog.find({ _id: { $in: logIds }, userId: tracker.userId }).distinct('_id');
+    const existingIds = new Set(existing.map(String));
+    const orphaned = logIds.filter((logId) => !existingIds.has(logId.toString()));
+
+    if (orphaned.length > 0 && !dryRun) {
+      const oldest = await ActivityEntry.findOne({ userId: tracker.userId, logId: { $in: orphaned } }, { timestamp: 1 })
+        .sort({ timestamp: 1 });
+      await ActivityEntry.deleteMany({ userId: tracker.userId, logId: { $in: orphaned } });
+      if (oldest) await activityService.dropSnapshots(tracker.userId, oldest.timestamp);
+    }
+
+    const before: Record<string, number> = tracker.counts || {};
+    tracker.counts = await activityService.getCounts(tracker.userId, activityService.defaultWindow, { exclude: orphaned });
+    // Categories tracked before or after, e.g. a user category only deleted entries scored in
+    const countsChanged = [...new Set([...Object.keys(before), ...Object.keys(tracker.counts)])]
+      .some((key) => (tracker.counts[key] || 0) !== (before[key] || 0));
+
+    return { removed: orphaned.length, countsChanged };
+  }
+}
+
+// Export singleton instance
+export const reconciliation = new ReconciliationService();
+
+export default reconciliation;
@@ -0,0 +1,104 @@
+import { logger } from '../../utils/logger';
+
+/**
+ * Circuit states
+ * - closed: calls go through
+ * - open: calls fail fast until the reset timeout has passed
+ * - half-open: one trial call decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker tuning
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number;   // Consecutive failures that open the circuit
+  resetTimeoutMs: number;     // Time open before a trial call is allowed
+}
+
+/**
+ * Circuit breaker for one provider
+ * Only failures that say something about the provider's health (timeouts,
+ * 5xx, network errors, rate limits) should be reported with `onFailure`.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Current state; an open circuit past its reset timeout reports half-open
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go through now. In half-open state only one trial
+   * call is let through at a time.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Milliseconds until the circuit lets a trial call through
+   */
+  remainingOpenMs(): number {
+    return this.state === 'open'
+      ? Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now())
+      : 0;
+  }
+
+  onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  onFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit for ${this.name} opened after ${this.failures} consecutive failure(s)`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * A call that ended without saying anything about the provider's health
+   * (e.g. the request was rejected) releases a half-open trial slot
+   */
+  onNeutral(): void {
+    if (this.state === 'half-open') {
+      this.trialInFlight = false;
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,131 @@
+/**
+ * Typed failures of third-party calls
+ * Every external service (LLM, transcription, storage, TTS, chat) reports
+ * failures as a ProviderError, so callers and the error handler can react
+ * to the kind of failure instead of matching message text.
+ */
+
+/**
+ * Kind of service a provider offers
+ */
+export type ProviderService = 'llm' | 'transcription' | 'storage' | 'tts' | 'chat';
+
+/**
+ * Stable failure codes
+ */
+export type ProviderErrorCode =
+  | 'PROVIDER_ERROR'           // Unclassified failure
+  | 'PROVIDER_TIMEOUT'         // No response within the provider's timeout
+  | 'PROVIDER_RATE_LIMITED'    // 429 from the provider
+  | 'PROVIDER_UNAVAILABLE'     // 5xx or network failure
+  | 'PROVIDER_CIRCUIT_OPEN'    // Calls suspended after repeated failures
+  | 'PROVIDER_AUTH_FAILED'     // Missing, invalid or unsubscribed credentials
+  | 'PROVIDER_REJECTED'        // Other 4xx: the request itself is wrong
+  | 'PROVIDER_BAD_RESPONSE';   // Response without the expected content
+
+/**
+ * Where a failure came from
+ */
+export interface ProviderErrorContext {
+  provider: string;            // Resilience policy key, e.g. gemini, ondemand-stt, cloudinary
+  service: ProviderService;
+  status?: number;             // HTTP status, when the provider answered
+  retryAfter?: number;         // Seconds the provider asked us to wait
+  cause?: unknown;
+}
+
+/**
+ * Base class of third-party failures
+ */
+export class ProviderError extends Error {
+  public readonly provider: string;
+  public readonly service: ProviderService;
+  public readonly code: ProviderErrorCode;
+  public readonly retryable: boolean;
+  public readonly status?: number;
+  public readonly retryAfter?: number;
+  public readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    context: ProviderErrorContext,
+    code: ProviderErrorCode = 'PROVIDER_ERROR',
+    retryable = false
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    this.provider = context.provider;
+    this.service = context.service;
+    this.code = code;
+    this.retryable = retryable;
+    this.status = context.status;
+    this.retryAfter = context.retryAfter;
+    this.cause = context.cause;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * No response within the timeout (retryable)
+ */
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_TIMEOUT', true);
+  }
+}
+
+/**
+ * Rate limited by the provider (retryable, after `retryAfter` when given)
+ */
+export class ProviderRateLimitError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_RATE_LIMITED', true);
+  }
+}
+
+/**
+ * Server error or unreachable provider (retryable)
+ */
+export class ProviderUnavailableError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_UNAVAILABLE', true);
+  }
+}
+
+/**
+ * Calls suspended by the circuit breaker; `retryAfter` is when it half-opens.
+ * Retryable later, but never retried within the same call.
+ */
+export class CircuitOpenError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_CIRCUIT_OPEN', true);
+  }
+}
+
+/**
+ * Credentials rejected (not retryable)
+ */
+export class ProviderAuthError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_AUTH_FAILED', false);
+  }
+}
+
+/**
+ * Request rejected by the provider (not retryable)
+ */
+export class ProviderRequestError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_REJECTED', false);
+  }
+}
+
+/**
+ * Response missing the expected content (not retryable)
+ */
+export class ProviderResponseError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext) {
+    super(message, context, 'PROVIDER_BAD_RESPONSE', false);
+  }
+}
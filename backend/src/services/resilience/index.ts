@@ -0,0 +1,320 @@
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import {
+  ProviderError,
+  ProviderErrorContext,
+  ProviderService,
+  ProviderTimeoutError,
+  ProviderRateLimitError,
+  ProviderUnavailableError,
+  CircuitOpenError,
+  ProviderAuthError,
+  ProviderRequestError,
+} from './errors';
+
+export * from './errors';
+export { CircuitBreaker, CircuitState, CircuitBreakerOptions } from './circuit-breaker';
+
+/**
+ * How calls to one provider are protected
+ */
+export interface ResiliencePolicy {
+  timeoutMs: number;          // Per attempt
+  maxRetries: number;         // Extra attempts for retryable failures
+  baseDelayMs: number;        // Retry backoff: random delay up to base * 2^attempt
+  maxDelayMs: number;         // Backoff cap; a longer Retry-After ends retrying
+  failureThreshold: number;   // Consecutive failures that open the circuit
+  resetTimeoutMs: number;     // Time the circuit stays open
+}
+
+/**
+ * Defaults for every provider, read from the environment
+ * - PROVIDER_TIMEOUT_MS, PROVIDER_MAX_RETRIES
+ * - PROVIDER_RETRY_BASE_MS, PROVIDER_RETRY_MAX_MS
+ * - CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_RESET_MS
+ */
+const DEFAULT_POLICY: ResiliencePolicy = {
+  timeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '30000', 10),
+  maxRetries: parseInt(process.env.PROVIDER_MAX_RETRIES || '2', 10),
+  baseDelayMs: parseInt(process.env.PROVIDER_RETRY_BASE_MS || '500', 10),
+  maxDelayMs: parseInt(process.env.PROVIDER_RETRY_MAX_MS || '8000', 10),
+  failureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  resetTimeoutMs: parseInt(process.env.CIRCUIT_RESET_MS || '30000', 10),
+};
+
+/**
+ * Provider-specific defaults; `<PROVIDER>_TIMEOUT_MS` and `<PROVIDER>_MAX_RETRIES`
+ * override them (e.g. GEMINI_TIMEOUT_MS, ONDEMAND_STT_MAX_RETRIES)
+ */
+const PROVIDER_POLICIES: Record<string, Partial<ResiliencePolicy>> = {
+  gemini: { timeoutMs: 30000 },
+  'local-llm': { timeoutMs: 120000, maxRetries: 1 },     // Local models can be slow on CPU
+  'ondemand-stt': { timeoutMs: 90000 },
+  'ondemand-chat': { timeoutMs: 60000, maxRetries: 1 },
+  'local-stt': { timeoutMs: 120000, maxRetries: 1 },
+  elevenlabs: { timeoutMs: 30000 },
+  cloudinary: { timeoutMs: 60000 },
+  s3: { timeoutMs: 60000, maxRetries: 0 },               // The AWS SDK retries on its own
+  'audio-download': { timeoutMs: 60000 },
+};
+
+/**
+ * Statuses worth retrying
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Network error codes that mean the provider could not be reached
+ */
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+/**
+ * Options for a protected call
+ */
+export interface ResilientCallOptions {
+  service: ProviderService;
+  operation?: string;         // For logs, e.g. "generateContent"
+  retry?: boolean;            // false for calls that must not be repeated
+  timeoutMs?: number;         // Overrides the policy's timeout for this call
+}
+
+/**
+ * Circuit state of a provider, for health checks
+ */
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  retryInMs: number;
+}
+
+/**
+ * Resilience
+ * Runs third-party calls with a per-attempt timeout, jittered retries for
+ * retryable failures and a circuit breaker per provider. Failures come out
+ * as ProviderError subclasses.
+ */
+export class Resilience {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly policies = new Map<string, ResiliencePolicy>();
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  /**
+   * Run `operation` against `provider`
+   * The operation receives an AbortSignal that fires when the attempt times out;
+   * pass it to fetch/axios so the request is actually cancelled.
+   * @throws ProviderError
+   */
+  async call<T>(
+    provider: string,
+    options: ResilientCallOptions,
+    operation: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const policy = this.policy(provider);
+    const breaker = this.breaker(provider);
+    const context = { provider, service: options.service };
+    const attempts = options.retry === false ? 1 : policy.maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        const retryAfter = Math.ceil(breaker.remainingOpenMs() / 1000);
+        throw new CircuitOpenError(`${provider} is unavailable after repeated failures; retry in ${retryAfter}s`, {
+          ...context,
+          retryAfter,
+        });
+      }
+
+      try {
+        const result = await this.attempt(operation, options.timeoutMs ?? policy.timeoutMs, context);
+        breaker.onSuccess();
+        return result;
+      } catch (err) {
+        const error = toProviderError(err, context);
+        if (error.retryable) {
+          breaker.onFailure();
+        } else {
+          breaker.onNeutral();
+        }
+
+        const delay = this.retryDelay(error, attempt, policy);
+        if (attempt >= attempts || delay === null) {
+          throw error;
+        }
+
+        logger.warn(`${provider}${options.operation ? ` ${options.operation}` : ''} failed (${error.code}), retry ${attempt}/${attempts - 1} in ${delay}ms`, {
+          status: error.status,
+          message: error.message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Circuit state of every provider called so far
+   */
+  health(): ProviderHealth[] {
+    return [...this.breakers.values()].map((breaker) => ({
+      provider: breaker.name,
+      state: breaker.getState(),
+      retryInMs: breaker.remainingOpenMs(),
+    }));
+  }
+
+  /**
+   * Effective policy of a provider
+   */
+  policy(provider: string): ResiliencePolicy {
+    let policy = this.policies.get(provider);
+    if (!policy) {
+      const prefix = provider.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+      const timeout = this.env[`${prefix}_TIMEOUT_MS`];
+      const retries = this.env[`${prefix}_MAX_RETRIES`];
+      policy = {
+        ...DEFAULT_POLICY,
+        ...PROVIDER_POLICIES[provider],
+        ...(timeout && { timeoutMs: parseInt(timeout, 10) }),
+        ...(retries && { maxRetries: parseInt(retries, 10) }),
+      };
+      this.policies.set(provider, policy);
+    }
+    return policy;
+  }
+
+  private breaker(provider: string): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      const { failureThreshold, resetTimeoutMs } = this.policy(provider);
+      breaker = new CircuitBreaker(provider, { failureThreshold, resetTimeoutMs });
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * One attempt, rejected with ProviderTimeoutError once `timeoutMs` passes
+   * even if the operation ignores the abort signal
+   */
+  private async attempt<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    context: ProviderErrorContext
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new ProviderTimeoutError(`${context.provider} did not respond within ${timeoutMs}ms`, context));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([operation(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Full-jitter exponential backoff, or the provider's Retry-After.
+   * null when the failure should not be retried.
+   */
+  private retryDelay(error: ProviderError, attempt: number, policy: ResiliencePolicy): number | null {
+    if (!error.retryable || error instanceof CircuitOpenError) {
+      return null;
+    }
+
+    if (error.retryAfter !== undefined) {
+      const requested = error.retryAfter * 1000;
+      return requested <= policy.maxDelayMs ? requested : null;
+    }
+
+    const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+/**
+ * Error for an HTTP status returned by a provider
+ */
+export const providerErrorFromStatus = (
+  status: number,
+  message: string,
+  context: Omit<ProviderErrorContext, 'status'>
+): ProviderError => {
+  const full = { ...context, status };
+
+  if (status === 401 || status === 403) return new ProviderAuthError(message, full);
+  if (status === 429) return new ProviderRateLimitError(message, full);
+  if (status === 408) return new ProviderTimeoutError(message, full);
+  if (RETRYABLE_STATUSES.has(status)) return new ProviderUnavailableError(message, full);
+  if (status >= 400 && status < 500) return new ProviderRequestError(message, full);
+  return new ProviderError(message, full);
+};
+
+/**
+ * Seconds from a Retry-After header (delta-seconds or HTTP date)
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Classify any error thrown by a provider call
+ */
+export const toProviderError = (error: unknown, context: ProviderErrorContext): ProviderError => {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data as { message?: string; error?: string | { message?: string } } | undefined;
+    const detail = typeof data?.error === 'string' ? data.error : data?.error?.message || data?.message;
+    const message = `${context.provider} error: ${status ?? ''} ${detail || error.message}`.replace(/\s+/g, ' ');
+
+    if (status) {
+      return providerErrorFromStatus(status, message, {
+        ...context,
+        retryAfter: parseRetryAfter(error.response?.headers?.['retry-after'] as string | undefined),
+        cause: error,
+      });
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ProviderTimeoutError(message, { ...context, cause: error });
+    }
+    return new ProviderUnavailableError(message, { ...context, cause: error });
+  }
+
+  const code = (error as { code?: string } | undefined)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return new ProviderUnavailableError(`${context.provider} unreachable: ${message}`, { ...context, cause: error });
+  }
+  if (code === 'ETIMEDOUT' || (error instanceof Error && error.name === 'TimeoutError')) {
+    return new ProviderTimeoutError(`${context.provider} timed out: ${message}`, { ...context, cause: error });
+  }
+  // fetch reports network failures as "TypeError: fetch failed" with the reason in `cause`
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return new ProviderUnavailableError(`${context.provider} unreachable: ${String((error as { cause?: unknown }).cause ?? message)}`, {
+      ...context,
+      cause: error,
+    });
+  }
+
+  return new ProviderError(`${context.provider} error: ${message}`, { ...context, cause: error });
+};
+
+// Export singleton instance
+export const resilience = new Resilience();
+
+export default resilience;
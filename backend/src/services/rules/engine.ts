@@ -0,0 +1,202 @@
+/**
+ * Deterministic keyword classifier
+ * Extracts activities from a transcript and scores them per category from a
+ * list of keyword rules, without calling a model.
+ */
+import { ActivityPoints, emptyCategoryCounts } from '../../shared/taxonomy';
+import { escapeRegExp } from '../../utils/search.utils';
+
+/**
+ * Built-in or user-defined category ID
+ */
+export type RuleCategory = string;
+
+/**
+ * A keyword and the points it gives a category
+ */
+export interface KeywordRule {
+  keyword: string;              // Lowercase word or phrase; a trailing * matches any ending
+  category: RuleCategory;
+  points: number;
+  source: 'default' | 'user';
+}
+
+/**
+ * An activity in the shape the extract prompt returns
+ */
+export interface ExtractedActivity {
+  activity: string;
+  context: string;
+}
+
+/**
+ * A scored activity in the shape the classify prompt returns
+ */
+export interface ClassificationDetail {
+  activity: string;
+  category: string;
+  points: number;
+  reasoning: string;
+}
+
+/**
+ * Rules compiled for matching, longest keyword first
+ */
+export interface CompiledRule extends KeywordRule {
+  pattern: RegExp;
+}
+
+/**
+ * Words that cancel a keyword when they appear shortly before it
+ * ("didn't go to the gym", "no social media today")
+ */
+const NEGATIONS = new Set([
+  'no', 'not', 'never', 'without', 'skipped', 'avoided', 'stopped', 'quit',
+  "didn't", 'didnt', "don't", 'dont', "haven't", 'havent', "wasn't", 'wasnt', "couldn't", 'couldnt',
+]);
+
+/**
+ * Words before a keyword searched for a negation
+ */
+const NEGATION_WINDOW = 5;
+
+/**
+ * Sentences are split on terminal punctuation, then into clauses on commas and conjunctions
+ */
+const SENTENCE_SPLIT = /[.!?;\n]+/;
+const CLAUSE_SPLIT = /,\s+|\s+(?:and|then|but|also|plus)\s+/i;
+
+/**
+ * Longest activity description kept from a clause
+ */
+const MAX_ACTIVITY_LENGTH = 120;
+
+/**
+ * Compile rules for matching
+ * Later rules replace earlier ones with the same keyword, so user rules
+ * listed after the defaults override them.
+ */
+export function compileRules(rules: KeywordRule[]): CompiledRule[] {
+  const byKeyword = new Map<string, KeywordRule>();
+  for (const rule of rules) {
+    byKeyword.set(rule.keyword.trim().toLowerCase(), rule);
+  }
+
+  return [...byKeyword.entries()]
+    .map(([keyword, rule]) => ({ ...rule, keyword, pattern: keywordPattern(keyword) }))
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+}
+
+/**
+ * Whole-word pattern of a keyword: "book" also matches "books",
+ * "meditat*" matches "meditated" and "meditation"
+ */
+function keywordPattern(keyword: string): RegExp {
+  const wildcard = keyword.endsWith('*');
+  const words = keyword.replace(/\*$/, '').split(/\s+/).map(escapeRegExp).join('\\s+');
+  const ending = wildcard ? "[\\p{L}'-]*" : '(?:s|es)?';
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words}${ending}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Rules matched in a text, ignoring negated mentions
+ * A longer keyword claims its span first, so "junk food" wins over "food".
+ */
+export function matchRules(text: string, rules: CompiledRule[]): { rule: CompiledRule; match: string }[] {
+  const claimed: [number, number][] = [];
+  const matches: { rule: CompiledRule; match: string; index: number }[] = [];
+
+  for (const rule of rules) {
+    for (const found of text.matchAll(rule.pattern)) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      claimed.push([start, end]);
+
+      if (!isNegated(text.slice(0, start))) {
+        matches.push({ rule, match: found[0], index: start });
+      }
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .map(({ rule, match }) => ({ rule, match }));
+}
+
+function isNegated(before: string): boolean {
+  const words = before.toLowerCase().replace(/’/g, "'").match(/[\p{L}']+/gu) || [];
+  return words.slice(-NEGATION_WINDOW).some((word) => NEGATIONS.has(word));
+}
+
+/**
+ * Extract activities: every clause of the transcript that mentions a keyword
+ * The clause is the activity and its sentence the context. Transcripts
+ * without any keyword give the extract prompt's "N/A" activity.
+ */
+export function extractActivities(transcript: string, rules: CompiledRule[]): ExtractedActivity[] {
+  const activities: ExtractedActivity[] = [];
+
+  for (const sentence of transcript.split(SENTENCE_SPLIT)) {
+    const context = sentence.trim();
+    for (const clause of context.split(CLAUSE_SPLIT)) {
+      const activity = clause.trim();
+      if (activity && matchRules(activity, rules).length > 0) {
+        activities.push({ activity: truncate(activity), context: truncate(context) });
+      }
+    }
+  }
+
+  return activities.length > 0
+    ? activities
+    : [{ activity: 'N/A', context: 'No known activities mentioned' }];
+}
+
+/**
+ * Score activities per category
+ * Each activity gets one detail per category it touches, carrying the points
+ * of its strongest keyword. The context is only searched when the activity
+ * itself has no keyword. "N/A" scores +1 other, as in the classify prompt.
+ */
+export function classifyActivities(
+  activities: ExtractedActivity[],
+  rules: CompiledRule[]
+): { categoryPoints: ActivityPoints; classificationDetails: ClassificationDetail[] } {
+  const categoryPoints: ActivityPoints = emptyCategoryCounts();
+  const classificationDetails: ClassificationDetail[] = [];
+
+  for (const { activity, context } of activities) {
+    if (activity === 'N/A') {
+      classificationDetails.push({ activity, category: 'other', points: 1, reasoning: 'No activities detected' });
+      categoryPoints['other'] = (categoryPoints['other'] ?? 0) + 1;
+      continue;
+    }
+
+    const matches = matchRules(activity, rules);
+    const found = matches.length > 0 ? matches : matchRules(context, rules);
+
+    const strongest = new Map<RuleCategory, { rule: CompiledRule; match: string }>();
+    for (const candidate of found) {
+      const current = strongest.get(candidate.rule.category);
+      if (!current || Math.abs(candidate.rule.points) > Math.abs(current.rule.points)) {
+        strongest.set(candidate.rule.category, candidate);
+      }
+    }
+
+    for (const [category, { rule, match }] of strongest) {
+      classificationDetails.push({
+        activity,
+        category,
+        points: rule.points,
+        reasoning: `Mentions "${match}" (${rule.source === 'user' ? 'your rule' : 'built-in rule'} "${rule.keyword}")`,
+      });
+      categoryPoints[category] = (categoryPoints[category] ?? 0) + rule.points;
+    }
+  }
+
+  return { categoryPoints, classificationDetails };
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ACTIVITY_LENGTH ? `${text.slice(0, MAX_ACTIVITY_LENGTH - 1)}…` : text;
+}
@@ -0,0 +1,310 @@
+import mongoose from 'mongoose';
+import { AudioLog } from '../../models/AudioLog';
+import { ClassificationRule, IClassificationRule, MAX_USER_RULES } from '../../models/ClassificationRule';
+import { IActivityCounts } from '../../models/ActivityTracker';
+import { IAIProvenance } from '../../models/Provenance';
+import { categoryService } from '../category.service';
+import { ConflictError, NotFoundError, ValidationError } from '../../middleware/error.middleware';
+import {
+  compileRules, extractActivities, classifyActivities, matchRules,
+  CompiledRule, KeywordRule, RuleCategory, ExtractedActivity, ClassificationDetail,
+} from './engine';
+import { DEFAULT_RULES, LEXICON_VERSION } from './lexicon';
+
+export * from './engine';
+export { DEFAULT_RULES, LEXICON_VERSION } from './lexicon';
+
+/**
+ * Category left out of the cross-check: a catch-all the two classifiers use differently
+ */
+const UNCHECKED_CATEGORY = 'other';
+
+/**
+ * Fields of a user rule that can be set
+ */
+export interface RuleInput {
+  keyword?: unknown;
+  category?: unknown;
+  points?: unknown;
+}
+
+/**
+ * Offline analysis of a transcript, in the shape of the extract and classify steps
+ */
+export interface RuleAnalysis {
+  extractedActivities: ExtractedActivity[];
+  classificationDetails: ClassificationDetail[];
+  categoryPoints: IActivityCounts;
+  provenance: IAIProvenance;
+}
+
+/**
+ * A category the rules score with the opposite sign of the LLM (or that the LLM left at 0)
+ */
+export interface RuleDisagreement {
+  category: RuleCategory;
+  llmPoints: number;
+  rulePoints: number;
+  evidence: string[];         // Keywords behind the rule points
+}
+
+/**
+ * Outcome of a cross-check, stored on the log as `metadata.ruleCheck`
+ */
+export interface RuleCheck {
+  lexiconVersion: number;
+  checkedAt: Date;
+  disagreements: RuleDisagreement[];
+}
+
+/**
+ * A log whose AI classification the rules disagreed with
+ */
+export interface FlaggedLog {
+  logId: string;
+  userId: string;
+  title?: string;
+  timestamp: Date;
+  ruleCheck: RuleCheck;
+}
+
+/**
+ * Rules Service
+ * Keyword-based activity classification used when the AI gives no valid
+ * answer, and to cross-check the AI's category points.
+ * Users extend the built-in lexicon with their own keyword rules.
+ */
+export class RulesService {
+  private readonly defaults: KeywordRule[] = DEFAULT_RULES.map((rule) => ({ ...rule, source: 'default' }));
+
+  /**
+   * Provenance recorded on results of the rule classifier
+   */
+  readonly provenance: IAIProvenance = {
+    prompt: 'rules',
+    promptVersion: LEXICON_VERSION,
+    provider: 'rules',
+    model: 'lexicon',
+  };
+
+  /**
+   * Built-in rules
+   */
+  getDefaultRules(): KeywordRule[] {
+    return this.defaults;
+  }
+
+  /**
+   * A user's rules, alphabetically
+   */
+  async listRules(userId: string): Promise<IClassificationRule[]> {
+    return ClassificationRule.find({ userId: new mongoose.Types.ObjectId(userId) }).sort({ keyword: 1 });
+  }
+
+  /**
+   * Add a rule for a user
+   * @throws ValidationError for invalid fields or when the user has MAX_USER_RULES rules
+   * @throws ConflictError when the user already has a rule for the keyword
+   */
+  async createRule(userId: string, input: RuleInput): Promise<IClassificationRule> {
+    const fields = await this.validate(userId, input, true);
+
+    const count = await ClassificationRule.countDocuments({ userId: new mongoose.Types.ObjectId(userId) });
+    if (count >= MAX_USER_RULES) {
+      throw new ValidationError(`You can define at most ${MAX_USER_RULES} rules`);
+    }
+
+    try {
+      return await ClassificationRule.create({ userId: new mongoose.Types.ObjectId(userId), ...fields });
+    } catch (error) {
+      throw this.duplicateKeyword(error, fields.keyword);
+    }
+  }
+
+  /**
+   * Change a user's rule
+   * @throws NotFoundError when the rule is not the user's
+   */
+  async updateRule(userId: string, ruleId: string, input: RuleInput): Promise<IClassificationRule> {
+    const fields = await this.validate(userId, input, false);
+    if (!mongoose.Types.ObjectId.isValid(ruleId)) {
+      throw new NotFoundError('Rule not found');
+    }
+
+    try {
+      const rule = await ClassificationRule.findOneAndUpdate(
+        { _id: new mongoose.Types.ObjectId(ruleId), userId: new mongoose.Types.ObjectId(userId) },
+        { $set: fields },
+        { new: true, runValidators: true }
+      );
+      if (!rule) {
+        throw new NotFoundError('Rule not found');
+      }
+      return rule;
+    } catch (error) {
+      throw this.duplicateKeyword(error, fields.keyword);
+    }
+  }
+
+  /**
+   * Delete a user's rule
+   * @throws NotFoundError when the rule is not the user's
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const result = mongoose.Types.ObjectId.isValid(ruleId)
+      ? await ClassificationRule.deleteOne({
+        _id: new mongoose.Types.ObjectId(ruleId),
+        userId: new mongoose.Types.ObjectId(userId),
+      })
+      : { deletedCount: 0 };
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundError('Rule not found');
+    }
+  }
+
+  /**
+   * Extract and classify the activities of a transcript with the rules
+   * @param userId - Adds the user's rules to the built-in lexicon
+   */
+  async analyze(transcript: string, userId?: string): Promise<RuleAnalysis> {
+    const rules = await this.rulesFor(userId);
+    const extractedActivities = extractActivities(transcript, rules);
+    return {
+      extractedActivities,
+      ...classifyActivities(extractedActivities, rules),
+      provenance: this.provenance,
+    };
+  }
+
+  /**
+   * Classify activities extracted by the AI with the rules
+   */
+  async classify(
+    activities: ExtractedActivity[],
+    userId?: string
+  ): Promise<Pick<RuleAnalysis, 'categoryPoints' | 'classificationDetails' | 'provenance'>> {
+    const rules = await this.rulesFor(userId);
+    return { ...classifyActivities(activities, rules), provenance: this.provenance };
+  }
+
+  /**
+   * Compare the AI's category points for a transcript with the rules'
+   * A category disagrees when the rules score it and the AI gave it a
+   * different sign (or nothing).
+   */
+  async crossCheck(transcript: string, llmPoints: IActivityCounts, userId?: string): Promise<RuleCheck> {
+    const rules = await this.rulesFor(userId);
+    const { categoryPoints, classificationDetails } = classifyActivities(extractActivities(transcript, rules), rules);
+
+    const disagreements = Object.entries(categoryPoints)
+      .filter(([category, points]) => category !== UNCHECKED_CATEGORY && points !== 0 && Math.sign(points) !== Math.sign(llmPoints[category] ?? 0))
+      .map(([category, points]) => ({
+        category,
+        llmPoints: llmPoints[category] ?? 0,
+        rulePoints: points,
+        evidence: [...new Set(
+          classificationDetails
+            .filter((detail) => detail.category === category)
+            .flatMap((detail) => matchRules(detail.activity, rules).filter(({ rule }) => rule.category === category))
+            .map(({ match }) => match.toLowerCase())
+        )],
+      }));
+
+    return { lexiconVersion: LEXICON_VERSION, checkedAt: new Date(), disagreements };
+  }
+
+  /**
+   * Most recently checked logs with disagreements, for reviewing the AI or the lexicon
+   */
+  async getFlaggedLogs(limit: number): Promise<FlaggedLog[]> {
+    const logs = await AudioLog.find({ 'metadata.ruleCheck.disagreements.0': { $exists: true } })
+      .sort({ 'metadata.ruleCheck.checkedAt': -1 })
+      .limit(limit)
+      .select('userId title timestamp metadata.ruleCheck')
+      .lean();
+
+    return logs.map((log) => ({
+      logId: String(log._id),
+      userId: String(log.userId),
+      title: log.title,
+      timestamp: log.timestamp,
+      ruleCheck: log.metadata?.['ruleCheck'] as RuleCheck,
+    }));
+  }
+
+  /**
+   * Built-in rules followed by the user's, which override defaults with the same keyword
+   */
+  private async rulesFor(userId?: string): Promise<CompiledRule[]> {
+    const userRules: KeywordRule[] = userId
+      ? (await ClassificationRule.find({ userId: new mongoose.Types.ObjectId(userId) }).lean()).map((rule) => ({
+        keyword: rule.keyword,
+        category: rule.category,
+        points: rule.points,
+        source: 'user',
+      }))
+      : [];
+    return compileRules([...this.defaults, ...userRules]);
+  }
+
+  /**
+   * Check rule fields
+   * @param userId - The category must be one of the user's
+   * @param required - Whether every field must be given (creation)
+   */
+  private async validate(
+    userId: string,
+    input: RuleInput,
+    required: boolean
+  ): Promise<{ keyword?: string; category?: RuleCategory; points?: number }> {
+    const fields: { keyword?: string; category?: RuleCategory; points?: number } = {};
+
+    if (input.keyword !== undefined || required) {
+      const keyword = typeof input.keyword === 'string' ? input.keyword.trim().toLowerCase().replace(/\s+/g, ' ') : '';
+      if (keyword.replace(/\*$/, '').length < 2 || keyword.length > 60) {
+        throw new ValidationError('keyword must be 2 to 60 characters');
+      }
+      if (!/^[\p{L}\p{N}' -]+\*?$/u.test(keyword)) {
+        throw new ValidationError('keyword may only contain letters, digits, spaces, hyphens and apostrophes, with an optional trailing *');
+      }
+      fields.keyword = keyword;
+    }
+
+    if (input.category !== undefined || required) {
+      const categories = (await categoryService.getCategories(userId)).map((category) => category.id);
+      if (typeof input.category !== 'string' || !categories.includes(input.category)) {
+        throw new ValidationError(`category must be one of: ${categories.join(', ')}`);
+      }
+      fields.category = input.category;
+    }
+
+    if (input.points !== undefined || required) {
+      const points = input.points;
+      if (typeof points !== 'number' || !Number.isInteger(points) || points === 0 || Math.abs(points) > 3) {
+        throw new ValidationError('points must be a non-zero integer between -3 and 3');
+      }
+      fields.points = points;
+    }
+
+    if (Object.keys(fields).length === 0) {
+      throw new ValidationError('Provide keyword, category or points');
+    }
+    return fields;
+  }
+
+  /**
+   * Map a duplicate key error to a ConflictError
+   */
+  private duplicateKeyword(error: unknown, keyword?: string): unknown {
+    if ((error as { code?: number }).code === 11000) {
+      return new ConflictError(`You already have a rule for "${keyword ?? 'this keyword'}"`);
+    }
+    return error;
+  }
+}
+
+// Export singleton instance
+export const rulesService = new RulesService();
+
+export default rulesService;
@@ -0,0 +1,114 @@
+import { KeywordRule } from './engine';
+
+/**
+ * Version of the built-in lexicon, recorded as the `promptVersion` of
+ * rule-based provenance. Bump it whenever DEFAULT_RULES change.
+ */
+export const LEXICON_VERSION = 1;
+
+/**
+ * Built-in keyword rules, following the scoring of the classify prompt.
+ * A keyword matches whole words, plus plural endings; a trailing * matches
+ * any ending (e.g. "meditat*" matches meditated and meditation).
+ */
+export const DEFAULT_RULES: Omit<KeywordRule, 'source'>[] = [
+  // Growth: learning and development
+  { keyword: 'read*', category: 'growth', points: 1 },
+  { keyword: 'book', category: 'growth', points: 1 },
+  { keyword: 'course', category: 'growth', points: 1 },
+  { keyword: 'lecture', category: 'growth', points: 1 },
+  { keyword: 'tutorial', category: 'growth', points: 1 },
+  { keyword: 'learn*', category: 'growth', points: 1 },
+  { keyword: 'studied', category: 'growth', points: 1 },
+  { keyword: 'practiced', category: 'growth', points: 1 },
+  { keyword: 'practising', category: 'growth', points: 1 },
+  { keyword: 'practicing', category: 'growth', points: 1 },
+  { keyword: 'guitar', category: 'growth', points: 1 },
+  { keyword: 'piano', category: 'growth', points: 1 },
+  { keyword: 'duolingo', category: 'growth', points: 1 },
+  { keyword: 'journal*', category: 'growth', points: 1 },
+  { keyword: 'hackathon', category: 'growth', points: 1 },
+  { keyword: 'side project', category: 'growth', points: 1 },
+  { keyword: 'podcast', category: 'growth', points: 1 },
+
+  // Health: physical and mental wellness
+  { keyword: 'gym', category: 'health', points: 1 },
+  { keyword: 'workout', category: 'health', points: 1 },
+  { keyword: 'worked out', category: 'health', points: 1 },
+  { keyword: 'exercis*', category: 'health', points: 1 },
+  { keyword: 'run', category: 'health', points: 1 },
+  { keyword: 'ran', category: 'health', points: 1 },
+  { keyword: 'running', category: 'health', points: 1 },
+  { keyword: 'jog*', category: 'health', points: 1 },
+  { keyword: 'walk', category: 'health', points: 1 },
+  { keyword: 'walked', category: 'health', points: 1 },
+  { keyword: 'hike', category: 'health', points: 1 },
+  { keyword: 'hiked', category: 'health', points: 1 },
+  { keyword: 'swim*', category: 'health', points: 1 },
+  { keyword: 'cycling', category: 'health', points: 1 },
+  { keyword: 'yoga', category: 'health', points: 1 },
+  { keyword: 'meditat*', category: 'health', points: 1 },
+  { keyword: 'stretch*', category: 'health', points: 1 },
+  { keyword: 'salad', category: 'health', points: 1 },
+  { keyword: 'vegetable', category: 'health', points: 1 },
+  { keyword: 'healthy', category: 'health', points: 1 },
+  { keyword: 'drank water', category: 'health', points: 1 },
+  { keyword: 'slept well', category: 'health', points: 1 },
+  { keyword: 'good sleep', category: 'health', points: 1 },
+  { keyword: 'nap', category: 'health', points: 1 },
+  { keyword: 'therapy', category: 'health', points: 1 },
+  { keyword: 'junk food', category: 'health', points: -1 },
+  { keyword: 'fast food', category: 'health', points: -1 },
+  { keyword: 'pizza', category: 'health', points: -1 },
+  { keyword: 'burger', category: 'health', points: -1 },
+  { keyword: 'fries', category: 'health', points: -1 },
+  { keyword: 'soda', category: 'health', points: -1 },
+  { keyword: 'candy', category: 'health', points: -1 },
+  { keyword: 'drunk', category: 'health', points: -1 },
+  { keyword: 'hangover', category: 'health', points: -1 },
+  { keyword: 'smok*', category: 'health', points: -1 },
+  { keyword: 'cigarette', category: 'health', points: -1 },
+  { keyword: 'skipped breakfast', category: 'health', points: -1 },
+  { keyword: 'skipped lunch', category: 'health', points: -1 },
+  { keyword: 'skipped dinner', category: 'health', points: -1 },
+  { keyword: 'stayed up late', category: 'health', points: -1 },
+  { keyword: 'slept badly', category: 'health', points: -1 },
+  { keyword: 'poor sleep', category: 'health', points: -1 },
+  { keyword: 'insomnia', category: 'health', points: -1 },
+  { keyword: 'all-nighter', category: 'health', points: -1 },
+
+  // Work: professional productivity
+  { keyword: 'meeting', category: 'work', points: 1 },
+  { keyword: 'standup', category: 'work', points: 1 },
+  { keyword: 'stand-up', category: 'work', points: 1 },
+  { keyword: 'coded', category: 'work', points: 1 },
+  { keyword: 'coding', category: 'work', points: 1 },
+  { keyword: 'programming', category: 'work', points: 1 },
+  { keyword: 'debugg*', category: 'work', points: 1 },
+  { keyword: 'deployed', category: 'work', points: 1 },
+  { keyword: 'shipped', category: 'work', points: 1 },
+  { keyword: 'finished the report', category: 'work', points: 1 },
+  { keyword: 'presentation', category: 'work', points: 1 },
+  { keyword: 'client', category: 'work', points: 1 },
+  { keyword: 'deadline', category: 'work', points: 1 },
+  { keyword: 'emails', category: 'work', points: 1 },
+  { keyword: 'homework', category: 'work', points: 1 },
+  { keyword: 'assignment', category: 'work', points: 1 },
+  { keyword: 'procrastinat*', category: 'work', points: -1 },
+  { keyword: 'missed the deadline', category: 'work', points: -1 },
+
+  // Consumption: passive entertainment (never positive)
+  { keyword: 'reels', category: 'consumption', points: -1 },
+  { keyword: 'tiktok', category: 'consumption', points: -1 },
+  { keyword: 'instagram', category: 'consumption', points: -1 },
+  { keyword: 'youtube', category: 'consumption', points: -1 },
+  { keyword: 'netflix', category: 'consumption', points: -1 },
+  { keyword: 'social media', category: 'consumption', points: -1 },
+  { keyword: 'scroll*', category: 'consumption', points: -1 },
+  { keyword: 'binge*', category: 'consumption', points: -1 },
+  { keyword: 'tv', category: 'consumption', points: -1 },
+  { keyword: 'movie', category: 'consumption', points: -1 },
+  { keyword: 'video game', category: 'consumption', points: -1 },
+  { keyword: 'gaming', category: 'consumption', points: -1 },
+  { keyword: 'played games', category: 'consumption', points: -1 },
+];
@@ -0,0 +1,155 @@
+/**
+ * Activity weighting
+ * Scales the points of a classified activity by how long and how intensely
+ * it was done, read from the activity and its extracted context: a 3-hour
+ * hackathon outweighs a 5-minute article.
+ */
+import { ActivityPoints, emptyCategoryCounts } from '../../shared/taxonomy';
+
+/**
+ * An activity in the shape the extract prompt returns
+ */
+export interface ScoredActivity {
+  activity: string;
+  context: string;
+}
+
+/**
+ * A classification detail; `weight` is set by weighDetails
+ */
+export interface WeightedDetail {
+  activity: string;
+  category: string;
+  points: number;
+  weight?: number;
+}
+
+/**
+ * Weight by duration: the first tier the duration fits in
+ * Activities without a stated duration weigh 1.
+ */
+export const DURATION_WEIGHTS: { maxMinutes: number; weight: number }[] = [
+  { maxMinutes: 10, weight: 0.5 },
+  { maxMinutes: 30, weight: 0.75 },
+  { maxMinutes: 90, weight: 1 },
+  { maxMinutes: 180, weight: 1.5 },
+  { maxMinutes: Infinity, weight: 2 },
+];
+
+/**
+ * Intensity words and the factor they apply to the duration weight
+ */
+export const INTENSITY_WEIGHTS: { words: string[]; factor: number }[] = [
+  {
+    words: ['intense', 'intensely', 'hard', 'deep', 'exhausting', 'grueling', 'heavy', 'marathon', 'binge', 'binged', 'nonstop', 'a lot', 'lots of'],
+    factor: 1.5,
+  },
+  {
+    words: ['quick', 'quickly', 'brief', 'briefly', 'short', 'light', 'a bit', 'a little', 'skimmed', 'glanced', 'barely'],
+    factor: 0.75,
+  },
+];
+
+/**
+ * Bounds of a weight after intensity is applied
+ */
+export const MIN_WEIGHT = 0.25;
+export const MAX_WEIGHT = 3;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, couple: 2, few: 3,
+};
+
+const DURATION_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}])(\\d+(?:[.,]\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})(?:\\s+of)?[\\s-]*`
+  + '(h|hrs?|hours?|mins?|minutes?)(?![\\p{L}])',
+  'giu'
+);
+
+/**
+ * Durations named without a number
+ */
+const NAMED_DURATIONS: [RegExp, number][] = [
+  [/\bhalf an hour\b/i, 30],
+  [/\ball (?:day|afternoon)\b|\bwhole day\b/i, 6 * 60],
+  [/\ball (?:night|morning|evening)\b/i, 3 * 60],
+];
+
+/**
+ * Longest duration stated in a text, in minutes ("2 hours", "45 min",
+ * "a couple of hours", "all day")
+ */
+export function parseMinutes(text: string): number | undefined {
+  let minutes: number | undefined;
+  const keep = (value: number) => {
+    if (value > 0 && (minutes === undefined || value > minutes)) minutes = value;
+  };
+
+  for (const [, amount = '', unit = ''] of text.matchAll(DURATION_PATTERN)) {
+    const value = NUMBER_WORDS[amount.toLowerCase()] ?? parseFloat(amount.replace(',', '.'));
+    keep(unit.toLowerCase().startsWith('h') ? value * 60 : value);
+  }
+  for (const [pattern, value] of NAMED_DURATIONS) {
+    if (pattern.test(text)) keep(value);
+  }
+  return minutes;
+}
+
+/**
+ * Factor of the intensity words in a text; the first matching level wins
+ */
+export function intensityFactor(text: string): number {
+  const lower = text.toLowerCase();
+  for (const { words, factor } of INTENSITY_WEIGHTS) {
+    if (words.some((word) => new RegExp(`(?<![\\p{L}])${word}(?![\\p{L}])`, 'u').test(lower))) {
+      return factor;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Weight of an activity from its duration and intensity
+ */
+export function weighActivity(activity: string, context = ''): number {
+  const text = `${activity} ${context}`;
+  const minutes = parseMinutes(text);
+  const duration = minutes === undefined
+    ? 1
+    : DURATION_WEIGHTS.find((tier) => minutes <= tier.maxMinutes)?.weight ?? 1;
+
+  const weight = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, duration * intensityFactor(text)));
+  return Math.round(weight * 100) / 100;
+}
+
+/**
+ * Weigh each detail by the extracted activity it classifies
+ * Details are matched to activities by description, or by one containing
+ * the other; unmatched details are weighed from their own description.
+ */
+export function weighDetails<D extends WeightedDetail>(activities: ScoredActivity[], details: D[]): (D & { weight: number })[] {
+  const contextOf = (description: string): string => {
+    const key = description.trim().toLowerCase();
+    const match = activities.find((candidate) => candidate.activity.trim().toLowerCase() === key)
+      ?? activities.find((candidate) => {
+        const other = candidate.activity.trim().toLowerCase();
+        return other.length > 0 && (other.includes(key) || key.includes(other));
+      });
+    return match?.context ?? '';
+  };
+
+  return details.map((detail) => ({ ...detail, weight: weighActivity(detail.activity, contextOf(detail.activity)) }));
+}
+
+/**
+ * Points per category: each detail's points times its weight (1 when unset)
+ */
+export function sumWeightedPoints(details: WeightedDetail[]): ActivityPoints {
+  const points: ActivityPoints = emptyCategoryCounts();
+  for (const detail of details) {
+    const total = (points[detail.category] ?? 0) + detail.points * (detail.weight ?? 1);
+    points[detail.category] = Math.round(total * 100) / 100;
+  }
+  return points;
+}
@@ -0,0 +1,25 @@
+import { weighActivity, weighDetails, ScoredActivity, WeightedDetail } from './engine';
+
+export * from './engine';
+
+/**
+ * Weigh activities by duration and intensity (ACTIVITY_WEIGHTS=false scores every activity ±1)
+ */
+const ACTIVITY_WEIGHTS = process.env.ACTIVITY_WEIGHTS !== 'false';
+
+/**
+ * Weigh classification details by the extracted activities they classify
+ * With weighting off, every detail weighs 1.
+ */
+export function scoreDetails<D extends WeightedDetail>(activities: ScoredActivity[], details: D[]): (D & { weight: number })[] {
+  return ACTIVITY_WEIGHTS
+    ? weighDetails(activities, details)
+    : details.map((detail) => ({ ...detail, weight: 1 }));
+}
+
+/**
+ * Weight of a single activity, e.g. one added by the user (1 with weighting off)
+ */
+export function activityWeight(activity: string, context = ''): number {
+  return ACTIVITY_WEIGHTS ? weighActivity(activity, context) : 1;
+}
@@ -0,0 +1,71 @@
+import { logger } from '../../utils/logger';
+import { StorageAdapter } from './types';
+import { CloudinaryStorageAdapter } from './cloudinary.adapter';
+import { LocalStorageAdapter } from './local.adapter';
+import { S3StorageAdapter } from './s3.adapter';
+
+export * from './types';
+export { CloudinaryStorageAdapter } from './cloudinary.adapter';
+export { LocalStorageAdapter } from './local.adapter';
+export { S3StorageAdapter } from './s3.adapter';
+
+/**
+ * Supported values for STORAGE_PROVIDER
+ */
+export type StorageProviderName = 'cloudinary' | 'local' | 's3';
+
+/**
+ * One instance per backend, so objects written under an older
+ * STORAGE_PROVIDER can still be signed and deleted after switching
+ */
+const adapters: Record<StorageProviderName, StorageAdapter> = {
+  cloudinary: new CloudinaryStorageAdapter(),
+  local: new LocalStorageAdapter(),
+  s3: new S3StorageAdapter(),
+};
+
+/**
+ * Get the adapter that owns objects for a given provider name
+ */
+export const getStorageAdapter = (name: string): StorageAdapter | undefined => {
+  return adapters[name as StorageProviderName];
+};
+
+/**
+ * Select the active adapter
+ * STORAGE_PROVIDER=cloudinary | local | s3
+ * Defaults to cloudinary when CLOUDINARY_URL is set, otherwise local
+ */
+const resolveActiveAdapter = (): StorageAdapter => {
+  const name = process.env.STORAGE_PROVIDER || (process.env.CLOUDINARY_URL ? 'cloudinary' : 'local');
+  const adapter = getStorageAdapter(name);
+
+  if (!adapter) {
+    logger.warn(`Unknown STORAGE_PROVIDER "${name}" - falling back to local storage`);
+    return adapters.local;
+  }
+
+  if (!adapter.isConfigured()) {
+    logger.warn(`Storage provider "${name}" is not configured - falling back to local storage`);
+    return adapters.local;
+  }
+
+  logger.info(`Storage provider: ${adapter.name}`);
+  return adapter;
+};
+
+// Export singleton instance
+export const storage = resolveActiveAdapter();
+
+/**
+ * Validate that required storage configuration is present
+ * Local storage signs its playback URLs, so in production it needs a
+ * STORAGE_SIGNING_SECRET that every process and restart shares.
+ */
+export const validateStorageConfig = (): void => {
+  if (storage.name === 'local' && process.env.NODE_ENV === 'production' && !process.env.STORAGE_SIGNING_SECRET) {
+    throw new Error('STORAGE_SIGNING_SECRET environment variable is required');
+  }
+};
+
+export default storage;
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+import { extensionForMimeType } from '../../utils/audio.utils';
+
+/**
+ * Build a unique, path-safe object key: <folder>/<timestamp>-<random>.<ext>
+ */
+export const buildObjectKey = (folder: string, mimeType: string): string => {
+  const suffix = crypto.randomBytes(6).toString('hex');
+  return `${folder}/${Date.now()}-${suffix}.${extensionForMimeType(mimeType)}`;
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { promises as fs, createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from '../../utils/logger';
+import { StorageAdapter, StoragePutInput, StoredObject, MultipartUpload, UploadedPart } from './types';
+import { buildObjectKey } from './keys';
+import { PartStaging } from './part-staging';
+
+/**
+ * Local filesystem storage configuration
+ * - LOCAL_STORAGE_DIR: directory files are written to (default: ./uploads)
+ * - LOCAL_STORAGE_BASE_URL: public base URL of this API, used in signed links
+ *   (default: http://localhost:$PORT)
+ * - STORAGE_SIGNING_SECRET: HMAC secret for signed playback URLs. Required in
+ *   production; in development a random per-process secret is used instead
+ */
+const LOCAL_STORAGE_DIR = path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads');
+const LOCAL_STORAGE_BASE_URL = process.env.LOCAL_STORAGE_BASE_URL
+  || `http://localhost:${process.env.PORT || '3001'}`;
+
+/**
+ * Local filesystem adapter
+ * Files are served back through GET /api/storage/<key> with an HMAC signature
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'local';
+  private readonly rootDir: string;
+  private readonly baseUrl: string;
+  private readonly signingSecret?: string;
+  private readonly staging: PartStaging;
+
+  constructor(rootDir = LOCAL_STORAGE_DIR, baseUrl = LOCAL_STORAGE_BASE_URL, staging = new PartStaging()) {
+    this.rootDir = rootDir;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.staging = staging;
+
+    if (process.env.STORAGE_SIGNING_SECRET) {
+      this.signingSecret = process.env.STORAGE_SIGNING_SECRET;
+    } else if (process.env.NODE_ENV !== 'production') {
+      logger.warn('STORAGE_SIGNING_SECRET not configured - signed storage URLs will not survive a restart');
+      this.signingSecret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async put(input: StoragePutInput): Promise<StoredObject> {
+    const key = buildObjectKey(input.folder, input.mimeType);
+    const filePath = this.resolvePath(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, input.buffer);
+
+    return {
+      provider: this.name,
+      key,
+      bytes: input.buffer.length,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(key, expires);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/api/storage/${encodedKey}?expires=${expires}&signature=${signature}`;
+  }
+
+  async createMultipartUpload(input: Omit<StoragePutInput, 'buffer'>): Promise<MultipartUpload> {
+    return {
+      key: buildObjectKey(input.folder, input.mimeType),
+      uploadId: await this.staging.create(),
+      mimeType: input.mimeType,
+      folder: input.folder,
+    };
+  }
+
+  async uploadPart(upload: MultipartUpload, partNumber: number, body: Readable, bytes: number): Promise<UploadedPart> {
+    return this.staging.writePart(upload.uploadId, partNumber, body, bytes);
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts: UploadedPart[]): Promise<StoredObject> {
+    const filePath = this.resolvePath(upload.key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(this.staging.openAssembled(upload.uploadId, parts), createWriteStream(filePath));
+    await this.staging.remove(upload.uploadId);
+
+    return {
+      provider: this.name,
+      key: upload.key,
+      bytes: parts.reduce((total, part) => total + part.bytes, 0),
+    };
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    await this.staging.remove(upload.uploadId);
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl()
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Map an object key to an absolute path inside the storage root
+   * Throws if the key tries to escape the root directory
+   */
+  resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private sign(key: string, expires: number): string {
+    if (!this.signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET environment variable is required');
+    }
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+}
+
+export default LocalStorageAdapter;
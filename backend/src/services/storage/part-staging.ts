@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { UploadedPart } from './types';
+
+/**
+ * Directory where parts are staged for backends without native multipart
+ * uploads (default: <os tmpdir>/parallax-uploads)
+ */
+const UPLOAD_STAGING_DIR = path.resolve(
+  process.env.UPLOAD_STAGING_DIR || path.join(os.tmpdir(), 'parallax-uploads')
+);
+
+/**
+ * Disk staging for multipart uploads
+ * Each upload gets its own directory; parts are streamed to disk as they
+ * arrive and streamed back out in order when the upload completes
+ */
+export class PartStaging {
+  private readonly rootDir: string;
+
+  constructor(rootDir = UPLOAD_STAGING_DIR) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Create a new staging directory and return its ID
+   */
+  async create(): Promise<string> {
+    const uploadId = crypto.randomBytes(16).toString('hex');
+    await fs.promises.mkdir(this.dirFor(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  /**
+   * Stream a part to disk, checking its length and computing an MD5 ETag
+   */
+  async writePart(uploadId: string, partNumber: number, body: Readable, bytes: number): Promise<UploadedPart> {
+    const partPath = this.partPath(uploadId, partNumber);
+    const tempPath = `${partPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    const hash = crypto.createHash('md5');
+    let received = 0;
+
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > bytes) {
+          callback(new Error(`Part ${partNumber} is larger than the declared ${bytes} bytes`));
+          return;
+        }
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, meter, fs.createWriteStream(tempPath));
+      if (received !== bytes) {
+        throw new Error(`Part ${partNumber} ended after ${received} of ${bytes} bytes`);
+      }
+      // Rename last so an interrupted part never replaces a complete one
+      await fs.promises.rename(tempPath, partPath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return { partNumber, etag: hash.digest('hex'), bytes };
+  }
+
+  /**
+   * Read the staged parts back as one stream, in part-number order
+   */
+  openAssembled(uploadId: string, parts: UploadedPart[]): Readable {
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const partPath = (partNumber: number) => this.partPath(uploadId, partNumber);
+
+    return Readable.from((async function* () {
+      for (const part of ordered) {
+        yield* fs.createReadStream(partPath(part.partNumber));
+      }
+    })());
+  }
+
+  /**
+   * Delete a staging directory and everything in it
+   */
+  async remove(uploadId: string): Promise<void> {
+    await fs.promises.rm(this.dirFor(uploadId), { recursive: true, force: true });
+  }
+
+  private dirFor(uploadId: string): string {
+    if (!/^[a-f0-9]+$/.test(uploadId)) {
+      throw new Error(`Invalid staging upload ID: ${uploadId}`);
+    }
+    return path.join(this.rootDir, uploadId);
+  }
+
+  private partPath(uploadId: string, partNumber: number): string {
+    return path.join(this.dirFor(uploadId), String(partNumber).padStart(5, '0'));
+  }
+}
+
+export default PartStaging;
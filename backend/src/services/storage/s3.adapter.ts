@@ -0,0 +1,196 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { StorageAdapter, StoragePutInput, StoredObject, MultipartUpload, UploadedPart } from './types';
+import { buildObjectKey } from './keys';
+import { resilience, providerErrorFromStatus, toProviderError, ProviderError, ProviderResponseError } from '../resilience';
+
+const CONTEXT = { provider: 's3', service: 'storage' as const };
+
+/**
+ * S3-compatible storage configuration (AWS S3, MinIO, R2, ...)
+ * - S3_BUCKET: bucket name [required]
+ * - S3_REGION: region (default: us-east-1)
+ * - S3_ENDPOINT: custom endpoint, e.g. http://localhost:9000 for MinIO
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY: credentials
+ *   (falls back to the default AWS credential chain when unset)
+ * - S3_FORCE_PATH_STYLE: "true" for MinIO and most self-hosted servers
+ */
+interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * S3-compatible storage adapter
+ * Objects stay private; playback goes through presigned GET URLs.
+ * Uploads go through the `s3` resilience policy; the SDK does its own retries.
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  readonly name = 's3';
+  private readonly config: S3StorageConfig;
+  private client?: S3Client;
+
+  constructor(config: Partial<S3StorageConfig> = {}) {
+    this.config = {
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.bucket);
+  }
+
+  async put(input: StoragePutInput): Promise<StoredObject> {
+    const key = buildObjectKey(input.folder, input.mimeType);
+
+    await this.upload('PutObject', (abortSignal) => this.getClient().send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: input.buffer,
+      ContentType: input.mimeType,
+    }), { abortSignal }));
+
+    return {
+      provider: this.name,
+      key,
+      bytes: input.buffer.length,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.getClient().send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.getClient(),
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  async createMultipartUpload(input: Omit<StoragePutInput, 'buffer'>): Promise<MultipartUpload> {
+    const key = buildObjectKey(input.folder, input.mimeType);
+
+    const result = await this.upload('CreateMultipartUpload', (abortSignal) => this.getClient().send(new CreateMultipartUploadCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ContentType: input.mimeType,
+    }), { abortSignal }));
+
+    if (!result.UploadId) {
+      throw new ProviderResponseError('S3 upload failed: no UploadId returned', CONTEXT);
+    }
+
+    return { key, uploadId: result.UploadId, mimeType: input.mimeType, folder: input.folder };
+  }
+
+  /**
+   * Parts other than the last must be at least 5MB (S3 limit)
+   * The body is a stream, so a failed part is never retried here; the client re-sends it
+   */
+  async uploadPart(upload: MultipartUpload, partNumber: number, body: Readable, bytes: number): Promise<UploadedPart> {
+    const result = await this.upload('UploadPart', (abortSignal) => this.getClient().send(new UploadPartCommand({
+      Bucket: this.config.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+      PartNumber: partNumber,
+      Body: body,
+      ContentLength: bytes,
+    }), { abortSignal }), false);
+
+    return { partNumber, etag: result.ETag || '', bytes };
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts: UploadedPart[]): Promise<StoredObject> {
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+    await this.upload('CompleteMultipartUpload', (abortSignal) => this.getClient().send(new CompleteMultipartUploadCommand({
+      Bucket: this.config.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+      MultipartUpload: {
+        Parts: ordered.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }), { abortSignal }));
+
+    return {
+      provider: this.name,
+      key: upload.key,
+      bytes: ordered.reduce((total, part) => total + part.bytes, 0),
+    };
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    await this.getClient().send(new AbortMultipartUploadCommand({
+      Bucket: this.config.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+    }));
+  }
+
+  /**
+   * Run an upload operation under the `s3` resilience policy
+   * SDK errors carry the HTTP status in `$metadata`
+   */
+  private upload<T>(operation: string, send: (abortSignal: AbortSignal) => Promise<T>, retry = true): Promise<T> {
+    return resilience.call('s3', { ...CONTEXT, operation, retry }, async (signal) => {
+      try {
+        return await send(signal);
+      } catch (error) {
+        throw this.toProviderError(error);
+      }
+    });
+  }
+
+  private toProviderError(error: unknown): ProviderError {
+    const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+    const message = `S3 upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return status
+      ? providerErrorFromStatus(status, message, { ...CONTEXT, cause: error })
+      : toProviderError(error, CONTEXT);
+  }
+
+  /**
+   * Lazily create the S3 client so unused configurations cost nothing
+   */
+  private getClient(): S3Client {
+    if (!this.client) {
+      const { region, endpoint, accessKeyId, secretAccessKey, forcePathStyle } = this.config;
+      this.client = new S3Client({
+        region,
+        endpoint,
+        forcePathStyle,
+        ...(accessKeyId && secretAccessKey && {
+          credentials: { accessKeyId, secretAccessKey },
+        }),
+      });
+    }
+    return this.client;
+  }
+}
+
+export default S3StorageAdapter;
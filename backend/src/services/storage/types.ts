@@ -0,0 +1,78 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage adapter contracts
+ * Audio recordings and generated TTS files are persisted through a StorageAdapter
+ */
+
+/**
+ * File handed to an adapter for storage
+ */
+export interface StoragePutInput {
+  buffer: Buffer;
+  mimeType: string;
+  folder: string;        // Logical folder, e.g. 'audio_logs' or 'tts_summaries'
+  filename?: string;     // Original filename (used for extension / naming only)
+}
+
+/**
+ * Reference to a stored object
+ */
+export interface StoredObject {
+  provider: string;      // Adapter name that owns the object
+  key: string;           // Adapter-specific object key (Cloudinary public ID, S3 key, relative path)
+  bytes: number;
+  publicUrl?: string;    // Permanent public URL, only for backends that have one
+  duration?: number;     // Audio duration in seconds, when the backend reports it
+  format?: string;
+}
+
+/**
+ * Multipart upload in progress on a backend
+ * Parts are streamed in as they arrive and assembled on completion
+ */
+export interface MultipartUpload {
+  key: string;           // Object key the assembled file is written to
+  uploadId: string;      // Backend upload ID (S3 UploadId or staging directory name)
+  mimeType: string;
+  folder: string;
+}
+
+/**
+ * Part of a multipart upload that the backend has accepted
+ */
+export interface UploadedPart {
+  partNumber: number;    // 1-based
+  etag: string;
+  bytes: number;
+}
+
+/**
+ * Storage backend interface
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  isConfigured(): boolean;
+  put(input: StoragePutInput): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+  /**
+   * Create a time-limited URL that a browser or external service can fetch
+   * @param key - Object key returned by put()
+   * @param expiresInSeconds - URL lifetime
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  /**
+   * Start a multipart upload for a file that arrives in parts
+   */
+  createMultipartUpload(input: Omit<StoragePutInput, 'buffer'>): Promise<MultipartUpload>;
+  /**
+   * Stream one part to the backend; re-uploading a part number replaces it
+   * @param bytes - Exact part length (the stream must not be read into memory)
+   */
+  uploadPart(upload: MultipartUpload, partNumber: number, body: Readable, bytes: number): Promise<UploadedPart>;
+  /**
+   * Assemble the parts (in part-number order) into the final object
+   */
+  completeMultipartUpload(upload: MultipartUpload, parts: UploadedPart[]): Promise<StoredObject>;
+  abortMultipartUpload(upload: MultipartUpload): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import axios from 'axios';
+import { resilience, ProviderRequestError } from '../resilience';
+import { TranscriptionInput } from './types';
+
+const CONTEXT = { provider: 'audio-download', service: 'transcription' as const };
+
+/**
+ * Resolve the raw audio bytes for a transcription request.
+ * Local engines need the bytes themselves; when only a URL is known, download it.
+ */
+export const resolveAudioBuffer = async (input: TranscriptionInput): Promise<Buffer> => {
+  if (input.buffer) {
+    return input.buffer;
+  }
+
+  if (!input.audioUrl) {
+    throw new ProviderRequestError('Transcription failed: no audio buffer or URL provided', CONTEXT);
+  }
+
+  const audioUrl = input.audioUrl;
+  const response = await resilience.call('audio-download', { ...CONTEXT, operation: 'download' }, (signal) =>
+    axios.get<ArrayBuffer>(audioUrl, { responseType: 'arraybuffer', signal })
+  );
+  return Buffer.from(response.data);
+};
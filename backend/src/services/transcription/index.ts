@@ -0,0 +1,40 @@
+import { logger } from '../../utils/logger';
+import { TranscriptionProvider } from './types';
+import { OnDemandTranscriptionProvider } from './ondemand.provider';
+import { WhisperCppTranscriptionProvider } from './whisper-cpp.provider';
+import { LocalHttpTranscriptionProvider } from './local-http.provider';
+
+export * from './types';
+export { OnDemandTranscriptionProvider } from './ondemand.provider';
+export { WhisperCppTranscriptionProvider } from './whisper-cpp.provider';
+export { LocalHttpTranscriptionProvider } from './local-http.provider';
+
+/**
+ * Supported values for TRANSCRIPTION_PROVIDER
+ */
+export type TranscriptionProviderName = 'ondemand' | 'whisper-cpp' | 'local-http';
+
+/**
+ * Create the transcription provider selected by configuration
+ * TRANSCRIPTION_PROVIDER=ondemand (default) | whisper-cpp | local-http
+ */
+export const createTranscriptionProvider = (
+  name: string = process.env.TRANSCRIPTION_PROVIDER || 'ondemand'
+): TranscriptionProvider => {
+  switch (name) {
+    case 'whisper-cpp':
+      return new WhisperCppTranscriptionProvider();
+    case 'local-http':
+      return new LocalHttpTranscriptionProvider();
+    case 'ondemand':
+      return new OnDemandTranscriptionProvider();
+    default:
+      logger.warn(`Unknown TRANSCRIPTION_PROVIDER "${name}" - falling back to ondemand`);
+      return new OnDemandTranscriptionProvider();
+  }
+};
+
+// Export singleton instance
+export const transcriptionProvider = createTranscriptionProvider();
+
+export default transcriptionProvider;
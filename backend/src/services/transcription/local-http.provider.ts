@@ -0,0 +1,108 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { logger } from '../../utils/logger';
+import { resilience } from '../resilience';
+import { TranscriptionInput, TranscriptionProvider, TranscriptionResult } from './types';
+import { resolveAudioBuffer } from './audio-source';
+import { normalizeSegments } from './segments';
+import { extensionForMimeType } from '../../utils/audio.utils';
+
+/**
+ * Local HTTP speech-to-text configuration
+ * - LOCAL_STT_URL: full endpoint URL, e.g.
+ *     http://localhost:8080/inference                 (whisper.cpp server)
+ *     http://localhost:8000/v1/audio/transcriptions   (OpenAI-compatible servers)
+ * - LOCAL_STT_MODEL: model name sent with the request (default: whisper-1)
+ */
+const LOCAL_STT_URL = process.env.LOCAL_STT_URL || '';
+const LOCAL_STT_MODEL = process.env.LOCAL_STT_MODEL || 'whisper-1';
+
+const CONTEXT = { provider: 'local-stt', service: 'transcription' as const };
+
+/**
+ * `verbose_json` response from OpenAI-compatible and whisper.cpp servers
+ * Servers that ignore the format return only `text`
+ */
+interface VerboseTranscription {
+  text?: string;
+  language?: string;
+  segments?: Array<{ start: number; end: number; text: string; words?: Array<{ start: number; end: number; word: string }> }>;
+  words?: Array<{ start: number; end: number; word: string }>;
+}
+
+/**
+ * Local HTTP provider
+ * Posts the audio as multipart/form-data to a self-hosted transcription server
+ * through the `local-stt` resilience policy
+ */
+export class LocalHttpTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local-http';
+  readonly requiresUrl = false;
+  private readonly endpoint: string;
+  private readonly model: string;
+
+  constructor(endpoint = LOCAL_STT_URL, model = LOCAL_STT_MODEL) {
+    this.endpoint = endpoint;
+    this.model = model;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.endpoint);
+  }
+
+  /**
+   * Transcribe audio via the local server
+   */
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    const audioBuffer = await resolveAudioBuffer(input);
+
+    logger.info('Calling local speech-to-text server', { endpoint: this.endpoint });
+
+    // The form is a stream, so every attempt builds its own
+    const response = await resilience.call('local-stt', { ...CONTEXT, operation: 'transcribe' }, (signal) => {
+      const form = new FormData();
+      form.append('file', audioBuffer, {
+        filename: input.filename || `audio.${extensionForMimeType(input.mimeType)}`,
+        contentType: input.mimeType,
+      });
+      form.append('model', this.model);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+      form.append('timestamp_granularities[]', 'word');
+
+      return axios.post<VerboseTranscription>(this.endpoint, form, {
+        headers: form.getHeaders(),
+        maxBodyLength: Infinity,
+        signal,
+      });
+    });
+
+    const transcript = (response.data?.text || '').trim();
+
+    if (!transcript) {
+      logger.warn('Local speech-to-text server returned empty transcript');
+      return {
+        transcript: '[Audio could not be transcribed - please try again with clearer audio]',
+        provider: this.name,
+      };
+    }
+
+    logger.info('Audio transcribed successfully via local server');
+    return {
+      transcript,
+      provider: this.name,
+      language: response.data?.language,
+      segments: normalizeSegments(
+        (response.data?.segments || []).map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text || '',
+          words: segment.words?.map(({ start, end, word }) => ({ start, end, text: word || '' })),
+        })),
+        (response.data?.words || []).map(({ start, end, word }) => ({ start, end, text: word || '' }))
+      ),
+    };
+  }
+}
+
+export default LocalHttpTranscriptionProvider;
@@ -0,0 +1,120 @@
+import axios, { AxiosError } from 'axios';
+import { logger } from '../../utils/logger';
+import {
+  resilience,
+  toProviderError,
+  ProviderError,
+  ProviderAuthError,
+  ProviderRequestError,
+} from '../resilience';
+import { TranscriptionInput, TranscriptionProvider, TranscriptionResult } from './types';
+
+/**
+ * OnDemand Services API configuration
+ * Endpoint: POST https://api.on-demand.io/services/v1/public/service/execute/speech_to_text
+ */
+const OND_STT_URL = 'https://api.on-demand.io/services/v1/public/service/execute/speech_to_text';
+
+const CONTEXT = { provider: 'ondemand-stt', service: 'transcription' as const };
+
+/**
+ * OnDemand speech-to-text provider
+ * Transcribes audio from a public URL (e.g. Cloudinary) through the
+ * `ondemand-stt` resilience policy
+ */
+export class OnDemandTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'ondemand';
+  readonly requiresUrl = true;
+  private readonly apiKey: string;
+
+  constructor(apiKey = process.env.OND_MEDIA_KEY || '') {
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  /**
+   * Transcribe audio using OnDemand Services API
+   * @param input - Must include the public audio URL
+   */
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    if (!input.audioUrl) {
+      throw new ProviderRequestError('OnDemand transcription requires a public audio URL', CONTEXT);
+    }
+
+    logger.info('Calling OnDemand speech_to_text API', { audioUrl: input.audioUrl });
+
+    const response = await resilience.call('ondemand-stt', { ...CONTEXT, operation: 'speech_to_text' }, async (signal) => {
+      try {
+        return await axios.post<{
+          message: string;
+          data: { text: string };
+        }>(
+          OND_STT_URL,
+          {
+            audioUrl: input.audioUrl,
+          },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              'apikey': this.apiKey,
+            },
+            signal,
+          }
+        );
+      } catch (error) {
+        throw this.toProviderError(error);
+      }
+    });
+
+    const transcript = response.data?.data?.text || '';
+
+    if (!transcript) {
+      logger.warn('OnDemand API returned empty transcript');
+      return {
+        transcript: '[Audio could not be transcribed - please try again with clearer audio]',
+        provider: this.name,
+      };
+    }
+
+    logger.info('Audio transcribed successfully via OnDemand API');
+    return {
+      transcript: transcript.trim(),
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Turn OnDemand's error responses into actionable ProviderErrors
+   */
+  private toProviderError(error: unknown): ProviderError {
+    if (!axios.isAxiosError(error)) {
+      return toProviderError(error, CONTEXT);
+    }
+
+    const axiosError = error as AxiosError<{ message?: string; error?: string; errorCode?: string }>;
+    const status = axiosError.response?.status;
+    const errorMsg = axiosError.response?.data?.message || axiosError.response?.data?.error || axiosError.message;
+    const errorCode = axiosError.response?.data?.errorCode;
+    const context = { ...CONTEXT, status, cause: error };
+
+    logger.error('OnDemand transcription error:', {
+      status,
+      message: errorMsg,
+      errorCode,
+    });
+
+    if (errorCode === 'invalid_request' && errorMsg?.includes('subscribe')) {
+      return new ProviderAuthError('Speech-to-text service not subscribed. Please subscribe in OnDemand dashboard.', context);
+    } else if (status === 400) {
+      return new ProviderRequestError('Invalid audio URL or format. Please try recording again.', context);
+    } else if (status === 401) {
+      return new ProviderAuthError('Transcription service authentication failed. Check API key.', context);
+    }
+    return toProviderError(error, CONTEXT);
+  }
+}
+
+export default OnDemandTranscriptionProvider;
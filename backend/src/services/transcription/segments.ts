@@ -0,0 +1,38 @@
+import { TranscriptSegment, TranscriptWord } from './types';
+
+/**
+ * Clean up engine-reported segments: trim text, drop empty or malformed
+ * entries and keep them in playback order
+ * @param segments - Segments as reported by the engine
+ * @param words - Word timestamps reported separately (OpenAI-style responses);
+ *   each word is attached to the segment it starts in
+ */
+export const normalizeSegments = (
+  segments: TranscriptSegment[],
+  words: TranscriptWord[] = []
+): TranscriptSegment[] => {
+  const cleanWords = words
+    .map((word) => ({ ...word, text: word.text.trim() }))
+    .filter(isTimed);
+
+  const cleaned = segments
+    .map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.replace(/\s+/g, ' ').trim(),
+      words: segment.words?.map((word) => ({ ...word, text: word.text.trim() })).filter(isTimed),
+    }))
+    .filter(isTimed)
+    .sort((a, b) => a.start - b.start);
+
+  return cleaned.map((segment, index) => {
+    const next = cleaned[index + 1];
+    const words = segment.words?.length
+      ? segment.words
+      : cleanWords.filter((word) => word.start >= segment.start && (!next || word.start < next.start));
+    return words.length ? { ...segment, words } : { start: segment.start, end: segment.end, text: segment.text };
+  });
+};
+
+const isTimed = (entry: { start: number; end: number; text: string }): boolean =>
+  Boolean(entry.text) && Number.isFinite(entry.start) && Number.isFinite(entry.end) && entry.start >= 0 && entry.end >= entry.start;
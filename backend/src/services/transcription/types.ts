@@ -0,0 +1,57 @@
+/**
+ * Transcription provider contracts
+ * Every speech-to-text engine (hosted or local) implements TranscriptionProvider
+ */
+
+/**
+ * Audio handed to a provider for transcription.
+ * Hosted engines read from `audioUrl`, local engines read from `buffer`.
+ */
+export interface TranscriptionInput {
+  audioUrl?: string;
+  buffer?: Buffer;
+  mimeType: string;
+  filename?: string;
+}
+
+/**
+ * Word with its position in the audio (seconds)
+ */
+export interface TranscriptWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Timestamped stretch of the transcript (seconds), usually a sentence
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];  // Only from engines with word-level timestamps
+}
+
+/**
+ * Normalized transcription output
+ */
+export interface TranscriptionResult {
+  transcript: string;
+  provider: string;
+  language?: string;
+  segments?: TranscriptSegment[]; // Omitted by engines that don't return timestamps
+}
+
+/**
+ * Speech-to-text provider interface
+ */
+export interface TranscriptionProvider {
+  /** Provider identifier, stored alongside each transcript */
+  readonly name: string;
+  /** True when the provider can only fetch audio from a public URL */
+  readonly requiresUrl: boolean;
+  /** Whether the provider has everything it needs (keys, binaries, URLs) */
+  isConfigured(): boolean;
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,202 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { ProviderError, ProviderTimeoutError, ProviderUnavailableError } from '../resilience';
+import { TranscriptionInput, TranscriptionProvider, TranscriptionResult, TranscriptSegment, TranscriptWord } from './types';
+import { resolveAudioBuffer } from './audio-source';
+import { normalizeSegments } from './segments';
+import { extensionForMimeType } from '../../utils/audio.utils';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * whisper.cpp configuration
+ * - WHISPER_CPP_BIN: path to the whisper.cpp CLI (`whisper-cli`, formerly `main`)
+ * - WHISPER_CPP_MODEL: path to a ggml model file (e.g. models/ggml-base.en.bin)
+ * - WHISPER_CPP_LANGUAGE: spoken language, or "auto" (default: en)
+ * - WHISPER_CPP_THREADS: worker threads (default: 4)
+ * - WHISPER_CPP_TIMEOUT_MS: time allowed to ffmpeg and to whisper.cpp each
+ *   (default: 600000; long recordings on CPU need several minutes)
+ * - FFMPEG_BIN: ffmpeg used to convert uploads to 16kHz mono WAV (default: ffmpeg)
+ */
+interface WhisperCppConfig {
+  binPath: string;
+  modelPath: string;
+  language: string;
+  threads: number;
+  ffmpegPath: string;
+  timeoutMs: number;
+}
+
+/**
+ * Offsets in milliseconds, as written by whisper.cpp
+ */
+interface WhisperCppOffsets {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Shape of the JSON file written by `whisper-cli -ojf`
+ */
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    text?: string;
+    offsets?: WhisperCppOffsets;
+    tokens?: Array<{ text?: string; offsets?: WhisperCppOffsets }>;
+  }>;
+}
+
+/**
+ * Local whisper.cpp provider
+ * Runs entirely on the host - no audio leaves the machine
+ */
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper-cpp';
+  readonly requiresUrl = false;
+  private readonly config: WhisperCppConfig;
+
+  constructor(config: Partial<WhisperCppConfig> = {}) {
+    this.config = {
+      binPath: process.env.WHISPER_CPP_BIN || '',
+      modelPath: process.env.WHISPER_CPP_MODEL || '',
+      language: process.env.WHISPER_CPP_LANGUAGE || 'en',
+      threads: parseInt(process.env.WHISPER_CPP_THREADS || '4', 10),
+      ffmpegPath: process.env.FFMPEG_BIN || 'ffmpeg',
+      timeoutMs: parseInt(process.env.WHISPER_CPP_TIMEOUT_MS || '600000', 10),
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.binPath && this.config.modelPath);
+  }
+
+  /**
+   * Transcribe audio by converting it to WAV and running the whisper.cpp CLI
+   */
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+    try {
+      const audioBuffer = await resolveAudioBuffer(input);
+      const sourcePath = path.join(workDir, `input.${extensionForMimeType(input.mimeType)}`);
+      const wavPath = path.join(workDir, 'input.wav');
+      const outputBase = path.join(workDir, 'output');
+
+      await fs.writeFile(sourcePath, audioBuffer);
+
+      // whisper.cpp only reads 16kHz mono PCM WAV
+      await execFileAsync(
+        this.config.ffmpegPath,
+        ['-y', '-loglevel', 'error', '-i', sourcePath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+        { timeout: this.config.timeoutMs }
+      );
+
+      logger.info('Running whisper.cpp transcription', { model: path.basename(this.config.modelPath) });
+
+      await execFileAsync(
+        this.config.binPath,
+        [
+          '-m', this.config.modelPath,
+          '-f', wavPath,
+          '-l', this.config.language,
+          '-t', String(this.config.threads),
+          '-ojf',
+          '-of', outputBase,
+          '-np',
+        ],
+        { timeout: this.config.timeoutMs, maxBuffer: 10 * 1024 * 1024 }
+      );
+
+      const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+      const transcript = (output.transcription || [])
+        .map((segment) => segment.text || '')
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (!transcript) {
+        logger.warn('whisper.cpp returned empty transcript');
+        return {
+          transcript: '[Audio could not be transcribed - please try again with clearer audio]',
+          provider: this.name,
+        };
+      }
+
+      logger.info('Audio transcribed successfully via whisper.cpp');
+      return {
+        transcript,
+        provider: this.name,
+        language: output.result?.language,
+        segments: this.toSegments(output),
+      };
+    } catch (error) {
+      logger.error('whisper.cpp transcription error:', error);
+      throw this.toProviderError(error);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Classify a failed run so the job queue knows whether to retry it
+   * A process killed at the timeout (or by a signal, e.g. when memory ran
+   * out) is retryable; a missing binary, model or audio file is not.
+   */
+  private toProviderError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+
+    const context = { provider: this.name, service: 'transcription' as const, cause: error };
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failure = error as { killed?: boolean; signal?: string | null };
+    if (failure.killed) {
+      return new ProviderTimeoutError(`Transcription timed out after ${this.config.timeoutMs}ms`, context);
+    }
+    if (failure.signal) {
+      return new ProviderUnavailableError(`Transcription was interrupted (${failure.signal})`, context);
+    }
+    return new ProviderError(`Transcription failed: ${message}`, context);
+  }
+
+  /**
+   * Convert whisper.cpp segments to seconds, rebuilding words from tokens
+   * Tokens are word pieces; a leading space starts a new word
+   */
+  private toSegments(output: WhisperCppOutput): TranscriptSegment[] {
+    const segments = (output.transcription || []).map((segment) => {
+      const words: TranscriptWord[] = [];
+      for (const token of segment.tokens || []) {
+        const text = token.text || '';
+        // Special tokens such as [_BEG_] and [_TT_150] carry no speech
+        if (!text || text.startsWith('[_') || token.offsets?.from === undefined || token.offsets.to === undefined) {
+          continue;
+        }
+        const last = words[words.length - 1];
+        if (last && !text.startsWith(' ')) {
+          last.text += text;
+          last.end = token.offsets.to / 1000;
+        } else {
+          words.push({ start: token.offsets.from / 1000, end: token.offsets.to / 1000, text });
+        }
+      }
+
+      return {
+        start: (segment.offsets?.from ?? NaN) / 1000,
+        end: (segment.offsets?.to ?? NaN) / 1000,
+        text: segment.text || '',
+        words,
+      };
+    });
+
+    return normalizeSegments(segments);
+  }
+}
+
+export default WhisperCppTranscriptionProvider;
@@ -0,0 +1,464 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { UploadSession, IUploadSession, UploadSessionStatus } from '../models/UploadSession';
+import { IAudioLog, AudioLog } from '../models/AudioLog';
+import { IJob } from '../models/Job';
+import { ConflictError, ValidationError } from '../middleware/error.middleware';
+import { ALLOWED_AUDIO_TYPES } from '../utils/audio.utils';
+import { logger } from '../utils/logger';
+import { storage, getStorageAdapter, StorageAdapter, StoredObject, MultipartUpload, UploadedPart } from './storage';
+import { audioService } from './audio.service';
+import {
+  probeAudio,
+  assertAudioSignature,
+  AudioProbeResult,
+  ProbeSampler,
+  PROBE_HEAD_BYTES,
+  PROBE_TAIL_BYTES,
+} from './probe';
+import { jobQueue, JobQueue } from './queue.service';
+
+/**
+ * Chunked upload configuration
+ * - UPLOAD_PART_SIZE: bytes per part (minimum 5MB, the S3 multipart limit)
+ * - MAX_CHUNKED_UPLOAD_SIZE: largest accepted recording in bytes (default 200MB)
+ * - UPLOAD_SESSION_TTL: seconds an unfinished session stays resumable (default 24h)
+ */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const UPLOAD_PART_SIZE = Math.max(parseInt(process.env.UPLOAD_PART_SIZE || String(MIN_PART_SIZE), 10), MIN_PART_SIZE);
+const MAX_CHUNKED_UPLOAD_SIZE = parseInt(process.env.MAX_CHUNKED_UPLOAD_SIZE || String(200 * 1024 * 1024), 10);
+const UPLOAD_SESSION_TTL = parseInt(process.env.UPLOAD_SESSION_TTL || '86400', 10);
+
+/**
+ * How long a complete may hold a session in 'completing' before another
+ * complete takes it over (the first one is assumed to have died)
+ */
+const COMPLETE_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Job type that discards sessions which were never completed
+ */
+const EXPIRE_UPLOAD_JOB = 'expire-upload-session';
+
+/**
+ * Upload session as returned to clients
+ */
+export interface UploadSessionState {
+  uploadId: string;
+  status: UploadSessionStatus;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  logId?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Result of completing an upload
+ */
+export interface CompletedUpload {
+  audioLog: IAudioLog;
+  created: boolean;   // false when the session had already been completed (or its log created)
+}
+
+/**
+ * Chunked Upload Service
+ * Resumable uploads: initiate a session, stream parts straight to the
+ * storage backend, then complete to create the AudioLog
+ */
+export class ChunkedUploadService {
+  private readonly queue: JobQueue;
+
+  constructor(queue: JobQueue = jobQueue) {
+    this.queue = queue;
+    this.queue.register(EXPIRE_UPLOAD_JOB, {
+      run: (job) => this.expire(job),
+    });
+  }
+
+  /**
+   * Start an upload session
+   * @param userId - User's MongoDB ObjectId
+   * @param details - Declared MIME type and size, optional filename and title
+   */
+  async initiate(
+    userId: string,
+    details: { mimeType: string; size: number; filename?: string; title?: string }
+  ): Promise<UploadSessionState> {
+    const { mimeType, size, filename, title } = details;
+
+    if (!ALLOWED_AUDIO_TYPES.includes(mimeType)) {
+      throw new ValidationError(`Invalid file type: ${mimeType}. Only MP3, WAV, WebM and Ogg files are allowed.`);
+    }
+
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new ValidationError('size must be a positive number of bytes');
+    }
+
+    if (size > MAX_CHUNKED_UPLOAD_SIZE) {
+      throw new ValidationError(`File too large. Maximum size is ${MAX_CHUNKED_UPLOAD_SIZE / (1024 * 1024)}MB.`);
+    }
+
+    const multipart = await storage.createMultipartUpload({ mimeType, folder: 'audio_logs', filename });
+
+    const session = await UploadSession.create({
+      userId: new mongoose.Types.ObjectId(userId),
+      mimeType,
+      filename,
+      title: title?.trim() || undefined,
+      size,
+      partSize: UPLOAD_PART_SIZE,
+      totalParts: Math.ceil(size / UPLOAD_PART_SIZE),
+      storageProvider: storage.name,
+      storageKey: multipart.key,
+      storageUploadId: multipart.uploadId,
+      storageFolder: multipart.folder,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL * 1000),
+    });
+
+    await this.queue.enqueue(
+      EXPIRE_UPLOAD_JOB,
+      { sessionId: session._id.toString() },
+      { key: session._id.toString(), delayMs: UPLOAD_SESSION_TTL * 1000 }
+    );
+
+    logger.info(`Upload session ${session._id} started for user ${userId}`, {
+      size,
+      totalParts: session.totalParts,
+      storage: storage.name,
+    });
+
+    return this.toState(session);
+  }
+
+  /**
+   * Get a session's progress so a client can resume it
+   * @returns null when the session doesn't exist
+   */
+  async getState(sessionId: string, userId: string): Promise<UploadSessionState | null> {
+    const session = await this.findSession(sessionId, userId);
+    return session ? this.toState(session) : null;
+  }
+
+  /**
+   * Stream one part to storage
+   * @param body - Request stream; never buffered in full
+   * @param bytes - Declared Content-Length of the part
+   * @returns null when the session doesn't exist
+   */
+  async uploadPart(
+    sessionId: string,
+    userId: string,
+    partNumber: number,
+    body: Readable,
+    bytes: number
+  ): Promise<UploadedPart | null> {
+    const session = await this.findSession(sessionId, userId);
+    if (!session) {
+      return null;
+    }
+
+    this.assertActive(session);
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.totalParts) {
+      throw new ValidationError(`partNumber must be between 1 and ${session.totalParts}`);
+    }
+
+    const expectedBytes = partNumber < session.totalParts
+      ? session.partSize
+      : session.size - session.partSize * (session.totalParts - 1);
+
+    if (bytes !== expectedBytes) {
+      throw new ValidationError(`Part ${partNumber} must be exactly ${expectedBytes} bytes (got ${bytes})`);
+    }
+
+    // Keep the start of the file (and of its audio, past an ID3v2 tag) and the end of the last two parts for the audio probe
+    const sampler = new ProbeSampler({
+      headBytes: partNumber === 1 ? PROBE_HEAD_BYTES : 0,
+      bodyBytes: partNumber === 1 ? PROBE_HEAD_BYTES : 0,
+      tailBytes: partNumber >= session.totalParts - 1 ? PROBE_TAIL_BYTES : 0,
+    });
+    const [part] = await Promise.all([
+      this.getAdapter(session).uploadPart(this.toMultipart(session), partNumber, sampler, bytes)
+        .catch((error) => {
+          sampler.destroy(error);
+          throw error;
+        }),
+      pipeline(body, sampler),
+    ]);
+
+    const samples: Record<string, Buffer> = {};
+    if (partNumber === 1) {
+      // Reject mislabelled files before the rest is uploaded
+      try {
+        assertAudioSignature(sampler.head, session.mimeType);
+      } catch (error) {
+        await this.discard(session);
+        throw error;
+      }
+      samples['probeSamples.head'] = sampler.head;
+      if (sampler.body.length > 0) {
+        samples['probeSamples.body'] = sampler.body;
+      }
+    }
+    if (partNumber >= session.totalParts - 1) {
+      samples[`probeSamples.tail${partNumber}`] = sampler.tail;
+    }
+
+    await UploadSession.updateOne(
+      { _id: session._id, status: 'active' },
+      { $set: { [`parts.${partNumber}`]: { etag: part.etag, bytes: part.bytes }, ...samples } }
+    );
+
+    return part;
+  }
+
+  /**
+   * Assemble the parts and create the AudioLog
+   * Completing an already completed session returns its log, so clients
+   * can safely repeat the request after a dropped response. A completion
+   * that died midway is resumed once its claim goes stale.
+   * @returns null when the session doesn't exist
+   */
+  async complete(sessionId: string, userId: string): Promise<CompletedUpload | null> {
+    const session = await this.findSession(sessionId, userId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.status === 'completed' && session.logId) {
+      const audioLog = await AudioLog.findById(session.logId);
+      if (audioLog) {
+        return { audioLog, created: false };
+      }
+    }
+
+    const resumable = session.status === 'completing'
+      && session.updatedAt.getTime() < Date.now() - COMPLETE_CLAIM_TIMEOUT_MS
+      && session.expiresAt >= new Date();
+    if (!resumable) {
+      this.assertActive(session);
+    }
+
+    const missing = this.getMissingParts(session);
+    if (missing.length > 0) {
+      throw new ValidationError(`Upload is missing parts: ${missing.join(', ')}`);
+    }
+
+    // Claim the session so concurrent completes can't assemble twice
+    const claimed = await UploadSession.findOneAndUpdate(
+      resumable
+        ? { _id: session._id, status: 'completing', updatedAt: session.updatedAt }
+        : { _id: session._id, status: 'active' },
+      { $set: { status: 'completing' } },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new ConflictError('Upload is already being completed');
+    }
+
+    const parts: UploadedPart[] = [...claimed.parts.entries()].map(([partNumber, part]) => ({
+      partNumber: Number(partNumber),
+      etag: part.etag,
+      bytes: part.bytes,
+    }));
+
+    // A previous attempt may have assembled the object before failing to create its log
+    let stored: StoredObject | undefined = claimed.stored;
+    if (!stored) {
+      try {
+        stored = await this.getAdapter(claimed).completeMultipartUpload(this.toMultipart(claimed), parts);
+      } catch (error) {
+        // Nothing was assembled, so the parts are still staged; let the client retry completion
+        await UploadSession.updateOne({ _id: claimed._id }, { $set: { status: 'active' } });
+        throw error;
+      }
+      await UploadSession.updateOne({ _id: claimed._id }, { $set: { stored } });
+    }
+
+    // ...or created the log and died before marking the session completed
+    const existing = await this.findStoredLog(claimed.userId, stored);
+    if (existing) {
+      await UploadSession.updateOne({ _id: claimed._id }, { $set: { status: 'completed', logId: existing._id } });
+      logger.info(`Upload session ${claimed._id} resumed as existing log ${existing._id}`);
+      return { audioLog: existing, created: false };
+    }
+
+    let audioLog: IAudioLog;
+    try {
+      audioLog = await audioService.createPendingAudioLog(userId, stored, {
+        mimeType: claimed.mimeType,
+        filename: claimed.filename,
+        title: claimed.title,
+        probe: this.probe(claimed),
+      });
+    } catch (error) {
+      // The object is assembled and recorded on the session; a retry only creates the log
+      await UploadSession.updateOne({ _id: claimed._id }, { $set: { status: 'active' } });
+      throw error;
+    }
+
+    await UploadSession.updateOne(
+      { _id: claimed._id },
+      { $set: { status: 'completed', logId: audioLog._id } }
+    );
+
+    logger.info(`Upload session ${claimed._id} completed as log ${audioLog._id}`);
+    return { audioLog, created: true };
+  }
+
+  /**
+   * Cancel a session and discard its parts
+   * @returns false when the session doesn't exist
+   */
+  async abort(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.findSession(sessionId, userId);
+    if (!session) {
+      return false;
+    }
+
+    this.assertActive(session);
+    await this.discard(session);
+    return true;
+  }
+
+  /**
+   * Job handler: discard a session that was never completed
+   */
+  private async expire(job: IJob): Promise<void> {
+    const { sessionId } = job.payload as { sessionId: string };
+    const session = await UploadSession.findById(sessionId);
+
+    if (!session || session.status === 'completed' || session.status === 'aborted') {
+      return;
+    }
+
+    // A completion that died after creating the log leaves the object in use
+    const existing = session.stored ? await this.findStoredLog(session.userId, session.stored) : null;
+    if (existing) {
+      await UploadSession.updateOne({ _id: session._id }, { $set: { status: 'completed', logId: existing._id } });
+      logger.info(`Upload session ${sessionId} expired after its log ${existing._id} was created - marked completed`);
+      return;
+    }
+
+    await this.discard(session);
+    logger.info(`Upload session ${sessionId} expired`);
+  }
+
+  /**
+   * The log created from an assembled object, if any
+   */
+  private async findStoredLog(userId: mongoose.Types.ObjectId, stored: StoredObject): Promise<IAudioLog | null> {
+    return AudioLog.findOne({
+      userId,
+      'metadata.storageProvider': stored.provider,
+      'metadata.storageKey': stored.key,
+    });
+  }
+
+  /**
+   * Abort the backend upload (or delete the object it was assembled into) and mark the session aborted
+   */
+  private async discard(session: IUploadSession): Promise<void> {
+    if (session.stored) {
+      try {
+        await this.getAdapter(session).delete(session.stored.key);
+      } catch (error) {
+        logger.warn(`Failed to delete ${session.stored.provider} object ${session.stored.key}:`, error);
+      }
+    } else {
+      try {
+        await this.getAdapter(session).abortMultipartUpload(this.toMultipart(session));
+      } catch (error) {
+        logger.warn(`Failed to abort ${session.storageProvider} upload ${session.storageUploadId}:`, error);
+      }
+    }
+
+    await UploadSession.updateOne({ _id: session._id }, { $set: { status: 'aborted' } });
+  }
+
+  /**
+   * Probe the recording from the bytes sampled while its parts streamed through
+   */
+  private probe(session: IUploadSession): AudioProbeResult | undefined {
+    const head = session.probeSamples.get('head');
+    if (!head) {
+      return undefined;
+    }
+
+    const tails = [session.totalParts - 1, session.totalParts]
+      .map((partNumber) => session.probeSamples.get(`tail${partNumber}`))
+      .filter((tail): tail is Buffer => Boolean(tail));
+    const tail = Buffer.concat(tails);
+
+    return probeAudio({
+      head,
+      body: session.probeSamples.get('body'),
+      tail: tail.subarray(Math.max(0, tail.length - PROBE_TAIL_BYTES)),
+      size: session.size,
+    }, session.mimeType);
+  }
+
+  private assertActive(session: IUploadSession): void {
+    if (session.status !== 'active' || session.expiresAt < new Date()) {
+      throw new ConflictError(`Upload session is ${session.status === 'active' ? 'expired' : session.status}`);
+    }
+  }
+
+  private getMissingParts(session: IUploadSession): number[] {
+    const missing: number[] = [];
+    for (let partNumber = 1; partNumber <= session.totalParts; partNumber++) {
+      if (!session.parts.has(String(partNumber))) {
+        missing.push(partNumber);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Sessions keep using the backend they started on, even if STORAGE_PROVIDER changes
+   */
+  private getAdapter(session: IUploadSession): StorageAdapter {
+    const adapter = getStorageAdapter(session.storageProvider);
+    if (!adapter) {
+      throw new Error(`Unknown storage provider for upload session: ${session.storageProvider}`);
+    }
+    return adapter;
+  }
+
+  private toMultipart(session: IUploadSession): MultipartUpload {
+    return {
+      key: session.storageKey,
+      uploadId: session.storageUploadId,
+      mimeType: session.mimeType,
+      folder: session.storageFolder,
+    };
+  }
+
+  private toState(session: IUploadSession): UploadSessionState {
+    return {
+      uploadId: session._id.toString(),
+      status: session.status,
+      size: session.size,
+      partSize: session.partSize,
+      totalParts: session.totalParts,
+      receivedParts: [...session.parts.keys()].map(Number).sort((a, b) => a - b),
+      logId: session.logId?.toString(),
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  private async findSession(sessionId: string, userId: string): Promise<IUploadSession | null> {
+    return UploadSession.findOne({
+      _id: new mongoose.Types.ObjectId(sessionId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+  }
+}
+
+// Export singleton instance
+export const chunkedUploadService = new ChunkedUploadService();
+
+export default chunkedUploadService;
@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { UsageLedger } from '../models/UsageLedger';
+import { QuotaExceededError } from '../middleware/error.middleware';
+import { logger } from '../utils/logger';
+import { LLMUsageEntry, LLMUsageLedger } from './llm/types';
+
+/**
+ * Daily per-user quotas, read from the environment (0 or unset = unlimited)
+ * - LLM_DAILY_TOKEN_QUOTA: tokens charged by providers
+ * - LLM_DAILY_CALL_QUOTA: provider calls (cache hits are free)
+ */
+const DAILY_TOKEN_QUOTA = parseInt(process.env.LLM_DAILY_TOKEN_QUOTA || '0', 10);
+const DAILY_CALL_QUOTA = parseInt(process.env.LLM_DAILY_CALL_QUOTA || '0', 10);
+
+/**
+ * Summed ledger counters
+ */
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+}
+
+/**
+ * Usage of one quota today; limit and remaining are null when unlimited
+ */
+export interface QuotaUsage {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+/**
+ * A user's position against the daily quotas
+ */
+export interface QuotaStatus {
+  date: string;               // UTC day, YYYY-MM-DD
+  resetsAt: Date;
+  tokens: QuotaUsage;
+  calls: QuotaUsage;
+}
+
+/**
+ * A user's usage over recent days, as returned by GET /api/usage
+ */
+export interface UsageReport {
+  quota: QuotaStatus;
+  totals: UsageTotals;
+  days: (UsageTotals & { date: string })[];
+  byTask: (UsageTotals & { task: string })[];
+  byProvider: (UsageTotals & { provider: string; model: string })[];
+}
+
+const TOTAL_FIELDS: (keyof UsageTotals)[] = [
+  'calls', 'failedCalls', 'cachedCalls', 'promptTokens', 'completionTokens', 'totalTokens', 'latencyMs',
+];
+
+/**
+ * Usage Service
+ * Ledger of model calls per user, day, task, provider and model, and the
+ * daily quotas enforced by the LLM router
+ */
+export class UsageService implements LLMUsageLedger {
+  constructor(
+    private readonly tokenQuota: number = DAILY_TOKEN_QUOTA,
+    private readonly callQuota: number = DAILY_CALL_QUOTA
+  ) {}
+
+  /**
+   * Add a call to the ledger
+   * Failures are logged, never thrown: accounting must not break the AI feature
+   */
+  async record(entry: LLMUsageEntry): Promise<void> {
+    const { promptTokens = 0, completionTokens = 0, totalTokens } = entry.usage ?? {};
+
+    try {
+      await UsageLedger.updateOne(
+        {
+          userId: entry.userId ? new mongoose.Types.ObjectId(entry.userId) : null,
+          date: startOfDay(new Date()),
+          task: entry.task,
+          provider: entry.provider,
+          llmModel: entry.model,
+        },
+        {
+          $inc: entry.cached
+            ? { cachedCalls: 1 }
+            : {
+              calls: 1,
+              failedCalls: entry.failed ? 1 : 0,
+              promptTokens,
+              completionTokens,
+              totalTokens: totalTokens ?? promptTokens + completionTokens,
+              latencyMs: entry.latencyMs,
+            },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.warn('Failed to record LLM usage:', error);
+    }
+  }
+
+  /**
+   * @throws QuotaExceededError (429) once today's token or call quota is used up
+   */
+  async assertWithinQuota(userId: string): Promise<void> {
+    if (!this.tokenQuota && !this.callQuota) {
+      return;
+    }
+
+    const status = await this.getQuotaStatus(userId);
+    const exceeded = status.tokens.remaining === 0 ? 'token' : status.calls.remaining === 0 ? 'call' : null;
+    if (!exceeded) {
+      return;
+    }
+
+    const quota = exceeded === 'token' ? status.tokens : status.calls;
+    logger.warn(`Daily AI ${exceeded} quota exceeded for user ${userId}`, { ...quota });
+    throw new QuotaExceededError(
+      `Daily AI ${exceeded} quota of ${quota.limit} reached. It resets at ${status.resetsAt.toISOString()}.`,
+      Math.max(1, Math.ceil((status.resetsAt.getTime() - Date.now()) / 1000)),
+      { quota: exceeded === 'token' ? 'tokens' : 'calls', ...quota, resetsAt: status.resetsAt }
+    );
+  }
+
+  /**
+   * Today's usage against the quotas
+   */
+  async getQuotaStatus(userId: string): Promise<QuotaStatus> {
+    const today = startOfDay(new Date());
+    const [totals] = await this.sum({ userId: new mongoose.Types.ObjectId(userId), date: today }, null);
+
+    const quota = (limit: number, used: number): QuotaUsage => ({
+      limit: limit || null,
+      used,
+      remaining: limit ? Math.max(0, limit - used) : null,
+    });
+
+    return {
+      date: today.toISOString().slice(0, 10),
+      resetsAt: new Date(today.getTime() + 24 * 60 * 60 * 1000),
+      tokens: quota(this.tokenQuota, totals?.totalTokens ?? 0),
+      calls: quota(this.callQuota, totals?.calls ?? 0),
+    };
+  }
+
+  /**
+   * Usage over the last `days` days (today included), by day, task and provider
+   */
+  async getReport(userId: string, days: number): Promise<UsageReport> {
+    const since = startOfDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+    const match = { userId: new mongoose.Types.ObjectId(userId), date: { $gte: since } };
+
+    const [quota, [totals], byDay, byTask, byProvider] = await Promise.all([
+      this.getQuotaStatus(userId),
+      this.sum(match, null),
+      this.sum(match, { date: '$date' }),
+      this.sum(match, { task: '$task' }),
+      this.sum(match, { provider: '$provider', model: '$llmModel' }),
+    ]);
+
+    return {
+      quota,
+      totals: totals ?? emptyTotals(),
+      days: byDay
+        .map(({ date, ...rest }) => ({ date: (date as Date).toISOString().slice(0, 10), ...rest }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      byTask: byTask.map(({ task, ...rest }) => ({ task: String(task), ...rest })),
+      byProvider: byProvider.map(({ provider, model, ...rest }) => ({ provider: String(provider), model: String(model), ...rest })),
+    };
+  }
+
+  /**
+   * Sum ledger counters, grouped by the given fields (or overall)
+   */
+  private async sum(
+    match: Record<string, unknown>,
+    groupBy: Record<string, string> | null
+  ): Promise<(UsageTotals & Record<string, unknown>)[]> {
+    const results = await UsageLedger.aggregate<UsageTotals & { _id: Record<string, unknown> | null }>([
+      { $match: match },
+      {
+        $group: {
+          _id: groupBy,
+          ...Object.fromEntries(TOTAL_FIELDS.map((field) => [field, { $sum: `$${field}` }])),
+        },
+      },
+      { $sort: { totalTokens: -1 } },
+    ]);
+
+    return results.map(({ _id, ...totals }) => ({ ...(_id ?? {}), ...totals }));
+  }
+}
+
+/**
+ * Midnight UTC of the given day
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const emptyTotals = (): UsageTotals =>
+  Object.fromEntries(TOTAL_FIELDS.map((field) => [field, 0])) as unknown as UsageTotals;
+
+// Export singleton instance
+export const usageService = new UsageService();
+
+export default usageService;
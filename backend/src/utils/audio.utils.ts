@@ -0,0 +1,43 @@
+/**
+ * Audio format helpers shared by storage and transcription
+ */
+
+/**
+ * Audio MIME types accepted for upload (MP3, WAV, and WebM for browser compatibility)
+ */
+export const ALLOWED_AUDIO_TYPES = [
+  'audio/mp3',
+  'audio/mpeg',      // MP3
+  'audio/wav',
+  'audio/x-wav',     // WAV
+  'audio/wave',
+  'audio/webm',      // WebM (browser default)
+  'audio/ogg',       // Ogg Vorbis
+];
+
+/**
+ * Map an audio MIME type to a file extension / format name
+ * @param mimeType - Audio MIME type
+ * @returns Extension without the dot (defaults to webm)
+ */
+export function extensionForMimeType(mimeType: string): string {
+  const mimeToExtension: Record<string, string> = {
+    'audio/webm': 'webm',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/wave': 'wav',
+    'audio/mp3': 'mp3',
+    'audio/mpeg': 'mp3',
+    'audio/ogg': 'ogg',
+    'audio/flac': 'flac',
+    'audio/m4a': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/mp4': 'm4a',
+  };
+  return mimeToExtension[mimeType] || 'webm';
+}
+
+export default {
+  ALLOWED_AUDIO_TYPES,
+  extensionForMimeType,
+};
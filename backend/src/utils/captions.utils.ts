@@ -0,0 +1,53 @@
+import { ITranscriptSegment } from '../models/AudioLog';
+
+/**
+ * Supported caption export formats
+ */
+export type CaptionFormat = 'vtt' | 'srt';
+
+export const CAPTION_FORMATS: CaptionFormat[] = ['vtt', 'srt'];
+
+/**
+ * Response content type for each format
+ */
+export const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+};
+
+/**
+ * Format seconds as HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+ */
+const formatTimestamp = (seconds: number, separator: '.' | ','): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+};
+
+/**
+ * Cue text may not contain blank lines (they end the cue) or, in WebVTT, the "-->" arrow
+ */
+const cueText = (text: string): string => text.replace(/\s*\n\s*/g, ' ').replace(/-->/g, '->').trim();
+
+/**
+ * Render transcript segments as captions
+ * @param segments - Segments in playback order
+ * @param format - 'vtt' (WebVTT) or 'srt' (SubRip)
+ */
+export const formatCaptions = (segments: ITranscriptSegment[], format: CaptionFormat): string => {
+  const separator = format === 'vtt' ? '.' : ',';
+  const cues = segments.map((segment, index) =>
+    [
+      String(index + 1),
+      `${formatTimestamp(segment.start, separator)} --> ${formatTimestamp(segment.end, separator)}`,
+      cueText(segment.text),
+    ].join('\n')
+  );
+
+  return format === 'vtt'
+    ? ['WEBVTT', ...cues].join('\n\n') + '\n'
+    : cues.join('\n\n') + '\n';
+};
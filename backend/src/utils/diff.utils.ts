@@ -0,0 +1,93 @@
+/**
+ * Line-based text diff (longest common subsequence), rendered as a unified diff
+ * Intended for small documents such as prompt templates
+ */
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Lines of context kept around each change in unified output
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Compare two texts line by line
+ * @returns Every line of both texts, marked as unchanged, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push({ type: 'removed', text: a[i++]! });
+    } else {
+      lines.push({ type: 'added', text: b[j++]! });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++]! });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++]! });
+
+  return lines;
+}
+
+/**
+ * Render a diff in unified format, keeping a few lines of context around each change
+ * @param fromLabel - Name of the old text (--- header)
+ * @param toLabel - Name of the new text (+++ header)
+ */
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string): string {
+  const lines = diffLines(before, after);
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and the span of the hunk around it
+    const change = lines.findIndex((line, i) => i >= index && line.type !== 'context');
+    if (change === -1) break;
+
+    const start = Math.max(index, change - CONTEXT_LINES);
+    let end = change;
+    let quiet = 0;
+    while (end < lines.length && quiet <= CONTEXT_LINES * 2) {
+      quiet = lines[end]!.type === 'context' ? quiet + 1 : 0;
+      end++;
+    }
+    end = Math.min(lines.length, end - Math.max(0, quiet - CONTEXT_LINES));
+
+    const hunk = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter((line) => line.type !== 'added').length + 1;
+    const newStart = lines.slice(0, start).filter((line) => line.type !== 'removed').length + 1;
+    const oldCount = hunk.filter((line) => line.type !== 'added').length;
+    const newCount = hunk.filter((line) => line.type !== 'removed').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+    }
+    index = end;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,199 @@
+/**
+ * Minimal runtime schemas for validating untrusted JSON (AI output)
+ * Each schema checks a value and returns a cleaned copy or a list of errors
+ * with JSON paths, which are specific enough to send back to a model.
+ */
+
+/**
+ * Outcome of checking a value against a schema
+ */
+export type SchemaResult<T> =
+  | { success: true; value: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Runtime schema for values of type T
+ */
+export interface Schema<T> {
+  /** Short description of the expected value, used in error messages */
+  readonly description: string;
+  check(value: unknown, path: string): SchemaResult<T>;
+}
+
+/**
+ * Value type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = (path: string, message: string): { success: false; errors: string[] } => ({
+  success: false,
+  errors: [`${path || 'response'}: ${message}`],
+});
+
+/**
+ * String, trimmed
+ */
+export function string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  return {
+    description: 'string',
+    check(value, path) {
+      if (typeof value !== 'string') {
+        return fail(path, `expected a string, got ${describe(value)}`);
+      }
+      const trimmed = value.trim();
+      if (options.minLength !== undefined && trimmed.length < options.minLength) {
+        return fail(path, options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters`);
+      }
+      if (options.maxLength !== undefined && trimmed.length > options.maxLength) {
+        return fail(path, `must be at most ${options.maxLength} characters`);
+      }
+      return { success: true, value: trimmed };
+    },
+  };
+}
+
+/**
+ * Finite number within optional bounds
+ * Numeric strings ("0.8", "+1") are accepted, since models often quote numbers
+ */
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    description: 'number',
+    check(value, path) {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        return fail(path, `expected a number, got ${describe(value)}`);
+      }
+      if (options.integer && !Number.isInteger(parsed)) {
+        return fail(path, 'must be a whole number');
+      }
+      if (options.min !== undefined && parsed < options.min) {
+        return fail(path, `must be at least ${options.min}`);
+      }
+      if (options.max !== undefined && parsed > options.max) {
+        return fail(path, `must be at most ${options.max}`);
+      }
+      return { success: true, value: parsed };
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings, matched case-insensitively
+ * @param aliases - Other accepted strings (lowercase) and the value each stands for
+ */
+export function oneOf<T extends string>(values: readonly T[], aliases: Record<string, T> = {}): Schema<T> {
+  return {
+    description: values.map((v) => `"${v}"`).join(' | '),
+    check(value, path) {
+      const match = typeof value === 'string'
+        ? values.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase()) ?? aliases[value.trim().toLowerCase()]
+        : undefined;
+      if (!match) {
+        return fail(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return { success: true, value: match };
+    },
+  };
+}
+
+/**
+ * Array whose items all match a schema
+ */
+export function array<T>(item: Schema<T>, options: { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check(value, path) {
+      if (!Array.isArray(value)) {
+        return fail(path, `expected an array, got ${describe(value)}`);
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        return fail(path, `must contain at least ${options.minItems} item${options.minItems === 1 ? '' : 's'}`);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return fail(path, `must contain at most ${options.maxItems} items`);
+      }
+
+      const items: T[] = [];
+      const errors: string[] = [];
+      value.forEach((entry, index) => {
+        const result = item.check(entry, `${path}[${index}]`);
+        if (result.success) items.push(result.value);
+        else errors.push(...result.errors);
+      });
+      return errors.length ? { success: false, errors } : { success: true, value: items };
+    },
+  };
+}
+
+/**
+ * Object with known fields; unknown fields are dropped
+ */
+export function object<T extends Record<string, unknown>>(
+  shape: { [K in keyof T]: Schema<T[K]> }
+): Schema<T> {
+  return {
+    description: 'object',
+    check(value, path) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, `expected an object, got ${describe(value)}`);
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const errors: string[] = [];
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const result = shape[key].check(input[key], path ? `${path}.${key}` : key);
+        if (result.success) {
+          if (result.value !== undefined) output[key] = result.value;
+        } else {
+          errors.push(...result.errors);
+        }
+      }
+      return errors.length ? { success: false, errors } : { success: true, value: output as T };
+    },
+  };
+}
+
+/**
+ * Field that may be missing or null, replaced by a default
+ */
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    description: `${schema.description} (optional)`,
+    check(value, path) {
+      return value === undefined || value === null ? { success: true, value: fallback } : schema.check(value, path);
+    },
+  };
+}
+
+/**
+ * Parse JSON text (optionally wrapped in a Markdown code fence or prose) and validate it
+ */
+export function parseJson<T>(schema: Schema<T>, text: string): SchemaResult<T> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return fail('', 'no JSON object found');
+  }
+
+  const json = text.slice(start, end + 1);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    try {
+      // Models copy "+1" from prompts, which JSON doesn't allow
+      parsed = JSON.parse(json.replace(/([:[,]\s*)\+(?=\d)/g, '$1'));
+    } catch {
+      return fail('', `invalid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+    }
+  }
+  return schema.check(parsed, '');
+}
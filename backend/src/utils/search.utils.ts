@@ -0,0 +1,138 @@
+/**
+ * Full-text search helpers: query terms and highlighted snippets
+ */
+
+/**
+ * Excerpt of a transcript around search matches
+ */
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];   // [start, end) offsets of matches within `text`
+}
+
+/**
+ * Words MongoDB's text index ignores, so they are not highlighted either
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'if', 'in',
+  'is', 'it', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'with',
+]);
+
+/**
+ * Characters on either side of a match kept in a snippet
+ */
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split a search query into the terms worth highlighting
+ * Negated terms (`-word`) follow MongoDB $text syntax and are skipped
+ * @param query - Raw search query
+ * @returns Unique lowercase terms
+ */
+export function extractSearchTerms(query: string): string[] {
+  const tokens = query.toLowerCase().match(/-?[\p{L}\p{N}']+/gu) || [];
+  const terms = tokens
+    .filter((token) => !token.startsWith('-'))
+    .map((token) => token.replace(/'/g, ''))
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+  return [...new Set(terms)];
+}
+
+/**
+ * Strip common suffixes so highlights line up with the text index's stemming
+ * ("running" also highlights "run" and "runs")
+ */
+function stem(term: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= 3) {
+      const base = term.slice(0, -suffix.length);
+      // "running" -> "runn" -> "run"
+      return /([^aeiou])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+  return term;
+}
+
+/**
+ * Build highlighted snippets of a transcript for the given search terms
+ * Nearby matches are merged into one snippet; the densest snippets are kept
+ * @param text - Transcript to excerpt
+ * @param terms - Terms from extractSearchTerms()
+ * @param maxSnippets - Maximum number of snippets to return
+ * @returns Snippets in transcript order; the opening of the text when nothing matches
+ */
+export function buildSnippets(text: string, terms: string[], maxSnippets = 2): SearchSnippet[] {
+  if (!text) {
+    return [];
+  }
+
+  const matches: { start: number; end: number }[] = [];
+  if (terms.length > 0) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${terms.map((term) => escapeRegExp(stem(term))).join('|')})[\\p{L}\\p{N}']*`,
+      'giu'
+    );
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      matches.push({ start, end: start + match[0].length });
+    }
+  }
+
+  if (matches.length === 0) {
+    const end = Math.min(text.length, SNIPPET_RADIUS * 2);
+    return [{ text: text.slice(0, end) + (end < text.length ? '…' : ''), highlights: [] }];
+  }
+
+  // Group matches that are close enough to share a snippet
+  const windows: { start: number; end: number; matches: { start: number; end: number }[] }[] = [];
+  for (const match of matches) {
+    const last = windows[windows.length - 1];
+    if (last && match.start - last.end <= SNIPPET_RADIUS) {
+      last.end = match.end;
+      last.matches.push(match);
+    } else {
+      windows.push({ start: match.start, end: match.end, matches: [match] });
+    }
+  }
+
+  return windows
+    .sort((a, b) => b.matches.length - a.matches.length)
+    .slice(0, maxSnippets)
+    .sort((a, b) => a.start - b.start)
+    .map((window) => {
+      let from = Math.max(0, window.start - SNIPPET_RADIUS);
+      let to = Math.min(text.length, window.end + SNIPPET_RADIUS);
+
+      // Don't cut words in half
+      if (from > 0) {
+        const space = text.indexOf(' ', from);
+        if (space !== -1 && space < window.start) from = space + 1;
+      }
+      if (to < text.length) {
+        const space = text.lastIndexOf(' ', to);
+        if (space > window.end) to = space;
+      }
+
+      const prefix = from > 0 ? '…' : '';
+      const suffix = to < text.length ? '…' : '';
+      const offset = prefix.length - from;
+
+      return {
+        text: prefix + text.slice(from, to) + suffix,
+        highlights: window.matches.map((match): [number, number] => [match.start + offset, match.end + offset]),
+      };
+    });
+}
+
+export default {
+  escapeRegExp,
+  extractSearchTerms,
+  buildSnippets,
+};
@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth0 } from '@auth0/auth0-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Target, Plus, Check, X, Flame, Loader2 } from 'lucide-react';
+import { getGoals, createGoal, deleteGoal, checkInGoal } from '../lib/api';
+import type { GoalTarget } from '../lib/api';
+
+/**
+ * Progress toward a goal in one period
+ */
+interface GoalProgress {
+  start: string;
+  end: string;
+  amount: number;
+  detected: number;            // From the activities of the user's logs
+  checkedIn: number;           // From manual check-ins
+  met: boolean;
+}
+
+interface Goal {
+  id: string;
+  title: string;
+  activities: string[];
+  target: GoalTarget;
+  current: GoalProgress;
+  history: GoalProgress[];
+  streak: number;
+}
+
+const PERIOD_NAMES: Record<GoalTarget['period'], string> = { day: 'today', week: 'this week', month: 'this month' };
+
+const emptyForm = { title: '', activities: '', amount: '3', unit: 'times' as GoalTarget['unit'], period: 'week' as GoalTarget['period'] };
+
+/**
+ * GoalsPanel - The user's goals on the Dashboard
+ * Progress is detected from the activities of the user's logs; a check-in
+ * adds what wasn't mentioned (one time, or the minutes asked for).
+ */
+export default function GoalsPanel({ isDark }: { isDark: boolean }) {
+  const { getAccessTokenSilently } = useAuth0();
+  const [goals, setGoals] = useState<Goal[] | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accentColor = isDark ? '#00d4ff' : '#8B6914';
+  const mutedColor = isDark ? 'rgba(255, 255, 255, 0.5)' : 'rgba(61, 41, 20, 0.6)';
+  const borderColor = isDark ? 'rgba(255, 255, 255, 0.06)' : 'rgba(0, 0, 0, 0.08)';
+  const inputStyle = {
+    background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.7)',
+    border: `1px solid ${borderColor}`,
+    color: isDark ? '#ffffff' : '#3D2914',
+  };
+
+  const withToken = useCallback(
+    () => getAccessTokenSilently({ authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE } }),
+    [getAccessTokenSilently]
+  );
+
+  const fetchGoals = useCallback(async () => {
+    try {
+      const response = await getGoals(await withToken());
+      setGoals(response.data?.data || response.data || []);
+    } catch (err) {
+      // Goals are optional on the Dashboard; older servers have none
+      console.error('Error fetching goals:', err);
+      setGoals([]);
+    }
+  }, [withToken]);
+
+  useEffect(() => { fetchGoals(); }, [fetchGoals]);
+
+  const replaceGoal = (goal: Goal) => setGoals((current) => current?.map((g) => (g.id === goal.id ? goal : g)) ?? null);
+
+  const handleCheckIn = async (goal: Goal) => {
+    let amount: number | undefined;
+    if (goal.target.unit === 'minutes') {
+      const answer = window.prompt(`Minutes spent on "${goal.title}"`, String(goal.target.amount));
+      if (!answer) return;
+      amount = Number(answer);
+      if (!Number.isFinite(amount) || amount <= 0) return;
+    }
+
+    setBusy(goal.id);
+    try {
+      const response = await checkInGoal(await withToken(), goal.id, { amount });
+      replaceGoal((response.data?.data || response.data).goal);
+      setError(null);
+    } catch (err) {
+      console.error('Error checking in:', err);
+      setError('Unable to save your check-in.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (!window.confirm(`Delete the goal "${goal.title}" and its check-ins?`)) return;
+    setBusy(goal.id);
+    try {
+      await deleteGoal(await withToken(), goal.id);
+      setGoals((current) => current?.filter((g) => g.id !== goal.id) ?? null);
+    } catch (err) {
+      console.error('Error deleting goal:', err);
+      setError('Unable to delete the goal.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const activities = form.activities.split(',').map((activity) => activity.trim()).filter(Boolean);
+    setBusy('new');
+    try {
+      const response = await createGoal(await withToken(), {
+        title: form.title.trim(),
+        activities: activities.length > 0 ? activities : [form.title.trim()],
+        target: { amount: Number(form.amount), unit: form.unit, period: form.period },
+      });
+      setGoals((current) => [...(current ?? []), response.data?.data || response.data]);
+      setForm(emptyForm);
+      setAdding(false);
+      setError(null);
+    } catch (err) {
+      console.error('Error creating goal:', err);
+      setError('Unable to create the goal. Check the target and try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (goals === null) return null;
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45, duration: 0.6 }}
+      className="w-full max-w-3xl mt-8 p-6 rounded-2xl transition-colors duration-500"
+      style={{
+        background: isDark ? 'rgba(255, 255, 255, 0.02)' : 'rgba(255, 255, 255, 0.6)',
+        border: `1px solid ${borderColor}`,
+        backdropFilter: 'blur(10px)',
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5" style={{ color: accentColor }} />
+          <h2 className="text-lg font-semibold" style={{ fontFamily: "'Space Grotesk', sans-serif", color: isDark ? '#ffffff' : '#3D2914' }}>
+            Goals
+          </h2>
+        </div>
+        <button
+          onClick={() => setAdding((open) => !open)}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm"
+          style={{ fontFamily: "'Inter', sans-serif", color: accentColor, border: `1px solid ${borderColor}` }}
+        >
+          {adding ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          {adding ? 'Cancel' : 'New goal'}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {adding && (
+          <motion.form
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            onSubmit={handleCreate}
+            className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 overflow-hidden text-sm"
+            style={{ fontFamily: "'Inter', sans-serif" }}
+          >
+            <input required maxLength={100} placeholder="Goal, e.g. Exercise 4x/week" value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })} className="px-3 py-2 rounded-lg" style={inputStyle} />
+            <input placeholder="Activities, e.g. gym, running" value={form.activities}
+              onChange={(e) => setForm({ ...form, activities: e.target.value })} className="px-3 py-2 rounded-lg" style={inputStyle} />
+            <div className="flex gap-2">
+              <input required type="number" min={1} value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })} className="w-20 px-3 py-2 rounded-lg" style={inputStyle} />
+              <select value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value as GoalTarget['unit'] })}
+                className="px-3 py-2 rounded-lg" style={inputStyle}>
+                <option value="times">times</option>
+                <option value="minutes">minutes</option>
+              </select>
+              <select value={form.period} onChange={(e) => setForm({ ...form, period: e.target.value as GoalTarget['period'] })}
+                className="px-3 py-2 rounded-lg" style={inputStyle}>
+                <option value="day">a day</option>
+                <option value="week">a week</option>
+                <option value="month">a month</option>
+              </select>
+            </div>
+            <button type="submit" disabled={busy === 'new'} className="px-4 py-2 rounded-lg text-white disabled:opacity-50"
+              style={{ background: isDark ? 'linear-gradient(135deg, #003040 0%, #006080 100%)' : 'linear-gradient(135deg, #C2986C 0%, #D4A574 100%)' }}>
+              {busy === 'new' ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'Add goal'}
+            </button>
+          </motion.form>
+        )}
+      </AnimatePresence>
+
+      {error && (
+        <p className="text-sm mb-3 text-red-400" style={{ fontFamily: "'Inter', sans-serif" }}>{error}</p>
+      )}
+
+      {goals.length === 0 && !adding && (
+        <p className="text-sm" style={{ fontFamily: "'Inter', sans-serif", color: mutedColor }}>
+          Set a goal like "read 20 min daily" and your reflections will count toward it.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {goals.map((goal) => {
+          const ratio = Math.min(1, goal.current.amount / goal.target.amount);
+          return (
+            <div key={goal.id}>
+              <div className="flex items-center justify-between gap-3 mb-1.5" style={{ fontFamily: "'Inter', sans-serif" }}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate" style={{ color: isDark ? '#ffffff' : '#3D2914' }}>{goal.title}</p>
+                  <p className="text-xs" style={{ color: mutedColor }}>
+                    {goal.current.amount} of {goal.target.amount} {goal.target.unit} {PERIOD_NAMES[goal.target.period]}
+                    {goal.current.checkedIn > 0 && ` (${goal.current.checkedIn} checked in)`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {goal.streak > 1 && (
+                    <span className="flex items-center gap-1 text-xs" style={{ color: accentColor }} title={`Met ${goal.streak} ${goal.target.period}s in a row`}>
+                      <Flame className="w-3.5 h-3.5" />{goal.streak}
+                    </span>
+                  )}
+                  <button onClick={() => handleCheckIn(goal)} disabled={busy === goal.id}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs disabled:opacity-50"
+                    style={{ color: accentColor, border: `1px solid ${borderColor}` }} title="Check in progress you didn't mention in a log">
+                    {busy === goal.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                    Check in
+                  </button>
+                  <button onClick={() => handleDelete(goal)} disabled={busy === goal.id} className="p-1 rounded-lg disabled:opacity-50"
+                    style={{ color: mutedColor }} title="Delete goal">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 rounded-full overflow-hidden" style={{ background: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.06)' }}>
+                <motion.div
+                  className="h-full rounded-full"
+                  initial={{ width: 0 }}
+                  animate={{ width: `${ratio * 100}%` }}
+                  transition={{ duration: 0.8, ease: [0.22, 1, 0.36, 1] }}
+                  style={{ background: goal.current.met ? '#34d399' : accentColor }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.section>
+  );
+}
@@ -2,13 +2,15 @@ import { useRef, useState } from 'react';
 import html2canvas from 'html2canvas';
 import { motion } from 'framer-motion';
 import { Download, Share2, Loader2, Sparkles, Flame, Trophy } from 'lucide-react';
+import { CATEGORIES, toCategoryId } from '../lib/taxonomy';
+import type { CategoryCounts } from '../lib/taxonomy';
 
 interface ShareCardProps {
     phase: string;
     phaseConfidence: number;
     metrics: {
         totalLogs?: number;
-        categoryCounts?: Record<string, number>;
+        categoryCounts?: Partial<CategoryCounts>;
         totalDuration?: number;
     };
     story?: string;
@@ -102,9 +104,9 @@ export default function ShareCard({
         return colors[p] || 'from-purple-500 to-cyan-500';
     };
 
-    const topCategory = metrics.categoryCounts
-        ? Object.entries(metrics.categoryCounts).sort(([, a], [, b]) => b - a)[0]?.[0] || 'growth'
-        : 'growth';
+    const topCategory = CATEGORIES[toCategoryId(metrics.categoryCounts
+        ? Object.entries(metrics.categoryCounts).sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))[0]?.[0] || 'growth'
+        : 'growth')];
 
     const totalHours = metrics.totalDuration
         ? Math.round(metrics.totalDuration / 60)
@@ -178,7 +180,7 @@ export default function ShareCard({
                             {/* Focus Area */}
                             <div className="text-center text-gray-300">
                                 <span className="text-sm">Top focus: </span>
-                                <span className="font-semibold capitalize text-purple-400">{topCategory}</span>
+                                <span className="font-semibold text-purple-400">{topCategory.emoji} {topCategory.label}</span>
                             </div>
 
                             {/* Story Preview */}
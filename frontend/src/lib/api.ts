@@ -26,25 +26,153 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Upload progress reported by uploadAudioLog
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Chunked upload session as returned by /api/log/uploads
+ */
+interface UploadSession {
+  uploadId: string;
+  status: 'active' | 'completing' | 'completed' | 'aborted';
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+}
+
+const MAX_UPLOAD_ATTEMPTS = 5;
+
+// Sessions by recording, so uploading the same Blob again resumes instead of restarting
+const uploadSessions = new WeakMap<Blob, string>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Resolve once the browser is online
+ */
+const waitForOnline = () => navigator.onLine
+  ? Promise.resolve()
+  : new Promise<void>((resolve) => window.addEventListener('online', () => resolve(), { once: true }));
+
+/**
+ * Network errors, timeouts, 408/429 and 5xx responses are worth retrying
+ */
+const isRetryableError = (error: unknown) => {
+  if (!(error instanceof AxiosError)) return false;
+  const status = error.response?.status;
+  return !status || status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * Run a request, retrying transient failures with exponential backoff
+ */
+const withRetry = async <T>(request: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= MAX_UPLOAD_ATTEMPTS || !isRetryableError(error)) throw error;
+      await waitForOnline();
+      await sleep(Math.min(1000 * 2 ** (attempt - 1), 15000));
+    }
+  }
+};
+
+/**
+ * Look up the session previously started for this recording, if it can still be resumed
+ */
+const findResumableSession = async (audio: Blob, token: string): Promise<UploadSession | null> => {
+  const uploadId = uploadSessions.get(audio);
+  if (!uploadId) return null;
+
+  try {
+    const response = await withRetry(() => api.get(`/api/log/uploads/${uploadId}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    }));
+    const session = response.data.data as UploadSession;
+    if (session.status === 'active' || session.status === 'completed') return session;
+  } catch (error) {
+    if (!(error instanceof AxiosError) || error.response?.status !== 404) throw error;
+  }
+
+  uploadSessions.delete(audio);
+  return null;
+};
+
 /**
  * Upload audio log
+ * Sends the recording in parts through the resumable upload protocol. Failed parts
+ * are retried with backoff, and calling this again with the same Blob resumes the
+ * previous session, re-sending only the parts the server is missing.
  */
 export const uploadAudioLog = async (
-  formData: FormData,
+  audio: Blob,
   token: string,
-  onUploadProgress?: (progressEvent: { loaded: number; total?: number; progress?: number }) => void
+  options: { title?: string; filename?: string; onProgress?: (progress: UploadProgress) => void } = {}
 ) => {
-  const response = await api.post('/api/log', formData, {
-    headers: {
-      'Content-Type': 'multipart/form-data',
-      'Authorization': `Bearer ${token}`,
-    },
-    timeout: 180000, // 3 minutes for upload + transcription
-    onUploadProgress,
-  });
+  const headers = { 'Authorization': `Bearer ${token}` };
+  const mimeType = (audio.type || 'audio/webm').split(';')[0];
+
+  let session = await findResumableSession(audio, token);
+  if (!session) {
+    const response = await withRetry(() => api.post('/api/log/uploads', {
+      mimeType,
+      size: audio.size,
+      filename: options.filename,
+      title: options.title,
+    }, { headers }));
+    session = response.data.data as UploadSession;
+    uploadSessions.set(audio, session.uploadId);
+  }
+
+  const { uploadId, partSize, totalParts } = session;
+  const partBlob = (partNumber: number) =>
+    audio.slice((partNumber - 1) * partSize, Math.min(partNumber * partSize, audio.size));
+
+  const received = new Set(session.receivedParts);
+  let loaded = [...received].reduce((total, partNumber) => total + partBlob(partNumber).size, 0);
+  options.onProgress?.({ loaded, total: audio.size });
+
+  if (session.status === 'active') {
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (received.has(partNumber)) continue;
+
+      const part = partBlob(partNumber);
+      await withRetry(() => api.put(`/api/log/uploads/${uploadId}/parts/${partNumber}`, part, {
+        headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+        timeout: 120000,
+        onUploadProgress: (event) => options.onProgress?.({ loaded: loaded + event.loaded, total: audio.size }),
+      }));
+
+      loaded += part.size;
+      options.onProgress?.({ loaded, total: audio.size });
+    }
+  }
+
+  // Completing twice is safe: the server returns the log it already created
+  const response = await withRetry(() => api.post(`/api/log/uploads/${uploadId}/complete`, {}, {
+    headers,
+    timeout: 180000, // Assembling large recordings in storage
+  }));
+  uploadSessions.delete(audio);
   return response;
 };
 
+/**
+ * Create a journal entry from typed text
+ */
+export const createTextLog = async (token: string, text: string, title?: string) => {
+  return api.post('/api/log/text',
+    { text, title },
+    { headers: { 'Authorization': `Bearer ${token}` } }
+  );
+};
+
 /**
  * Get audio logs with pagination
  */
@@ -58,6 +186,28 @@ export const getAudioLogs = async (
   });
 };
 
+/**
+ * Full-text search over transcripts; results are ranked and carry highlighted snippets
+ */
+export const searchAudioLogs = async (
+  token: string,
+  params: {
+    q: string;
+    page?: number;
+    limit?: number;
+    startDate?: string;
+    endDate?: string;
+    category?: string;
+    sentiment?: string;
+    keyword?: string;
+  }
+) => {
+  return api.get('/api/log/search', {
+    params,
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
 /**
  * Get single audio log
  */
@@ -67,6 +217,48 @@ export const getAudioLog = async (token: string, logId: string) => {
   });
 };
 
+/**
+ * Get a signed playback URL for a log's recording
+ */
+export const getAudioPlaybackUrl = async (token: string, logId: string) => {
+  return api.get(`/api/log/${logId}/audio`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Download a log's timestamped transcript as a WebVTT or SRT caption file
+ */
+export const getLogCaptions = async (token: string, logId: string, format: 'vtt' | 'srt' = 'vtt') => {
+  return api.get<Blob>(`/api/log/${logId}/captions`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    params: { format },
+    responseType: 'blob',
+  });
+};
+
+/**
+ * Edit a log's transcript and/or title; an edited transcript is re-analysed in the background
+ */
+export const updateAudioLog = async (
+  token: string,
+  logId: string,
+  changes: { transcript?: string; title?: string }
+) => {
+  return api.patch(`/api/log/${logId}`, changes, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Get a log's background processing status
+ */
+export const getLogStatus = async (token: string, logId: string) => {
+  return api.get(`/api/log/${logId}/status`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
 /**
  * Delete audio log
  */
@@ -143,7 +335,7 @@ export const getChatHistory = async (token: string, sessionId: string) => {
 };
 
 /**
- * Get activity summary (5 categories based on last 10 logs)
+ * Get activity summary (the user's categories, counts over the server's default window)
  */
 export const getActivitySummary = async (token: string) => {
   return api.get('/api/summary/activities', {
@@ -151,6 +343,16 @@ export const getActivitySummary = async (token: string) => {
   });
 };
 
+/**
+ * Get the activity counts at the end of each of the last `days` days
+ */
+export const getActivityHistory = async (token: string, days = 30) => {
+  return api.get('/api/summary/activities/history', {
+    headers: { 'Authorization': `Bearer ${token}` },
+    params: { days },
+  });
+};
+
 /**
  * Generate fresh activity review
  */
@@ -160,4 +362,88 @@ export const generateActivityReview = async (token: string) => {
   });
 };
 
+/**
+ * Add a classification the AI missed to a log's activity analysis
+ */
+export const addClassificationDetail = async (
+  token: string,
+  logId: string,
+  detail: { activity: string; category: string; points: 1 | -1 }
+) => {
+  return api.post(`/api/summary/activities/${logId}/details`, detail, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Correct the category or points of a classification
+ */
+export const updateClassificationDetail = async (
+  token: string,
+  logId: string,
+  detailId: string,
+  changes: { activity?: string; category?: string; points?: 1 | -1 }
+) => {
+  return api.patch(`/api/summary/activities/${logId}/details/${detailId}`, changes, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Remove a wrong classification
+ */
+export const removeClassificationDetail = async (token: string, logId: string, detailId: string) => {
+  return api.delete(`/api/summary/activities/${logId}/details/${detailId}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * What a goal asks for each period
+ */
+export interface GoalTarget {
+  amount: number;
+  unit: 'times' | 'minutes';
+  period: 'day' | 'week' | 'month';
+}
+
+/**
+ * Get the user's goals with their progress
+ */
+export const getGoals = async (token: string) => {
+  return api.get('/api/goals', {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Add a goal, e.g. "Exercise 4x/week" tracking ["exercise", "gym"]
+ */
+export const createGoal = async (
+  token: string,
+  goal: { title: string; activities: string[]; target: GoalTarget }
+) => {
+  return api.post('/api/goals', goal, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Delete a goal and its check-ins
+ */
+export const deleteGoal = async (token: string, goalId: string) => {
+  return api.delete(`/api/goals/${goalId}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
+/**
+ * Record progress toward a goal that wasn't mentioned in a log
+ */
+export const checkInGoal = async (token: string, goalId: string, checkIn: { amount?: number; note?: string } = {}) => {
+  return api.post(`/api/goals/${goalId}/check-ins`, checkIn, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+};
+
 export default api;
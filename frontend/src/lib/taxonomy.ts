@@ -0,0 +1,153 @@
+// Generated from backend/src/shared/taxonomy.ts by `npm run sync:taxonomy` (backend).
+// Do not edit here: change the backend file and run the script again.
+
+/**
+ * Category taxonomy
+ * The one set of life categories used for log categorization, activity
+ * points, summary metrics and the frontend.
+ *
+ * The frontend keeps a copy (frontend/src/lib/taxonomy.ts, written by
+ * `npm run sync:taxonomy`), so this file must stay free of imports, Node APIs
+ * and TypeScript-only runtime syntax (enums).
+ */
+
+/**
+ * Category IDs, in display order
+ */
+export const CATEGORY_IDS = ['growth', 'health', 'work', 'consumption', 'other'] as const;
+
+export type CategoryId = (typeof CATEGORY_IDS)[number];
+
+/**
+ * How a category is described to the AI and shown to users
+ */
+export interface CategoryDefinition {
+  id: CategoryId;
+  label: string;
+  description: string;
+  examples: string;             // What belongs in the category, for prompts and tooltips
+  emoji: string;
+  color: { dark: string; light: string };
+  positive: string;             // What earns an activity +1, for the classification prompts
+  negative: string;             // What costs an activity -1 (empty when nothing does)
+}
+
+export const CATEGORIES: Record<CategoryId, CategoryDefinition> = {
+  growth: {
+    id: 'growth',
+    label: 'Growth',
+    description: 'Learning & Development',
+    examples: 'reading, courses, new skills, practice, journaling',
+    emoji: '📚',
+    color: { dark: '#00d4ff', light: '#8B6914' },
+    positive: 'Reading books, taking courses, learning new skills, practicing instruments, language learning, educational content, personal development activities, journaling for self-reflection',
+    negative: 'Avoiding learning opportunities, procrastinating on development goals',
+  },
+  health: {
+    id: 'health',
+    label: 'Health',
+    description: 'Physical & Mental Wellness',
+    examples: 'exercise, meals, sleep, meditation, mental health',
+    emoji: '💪',
+    color: { dark: '#10b981', light: '#2d8a5e' },
+    positive: 'Exercise/workout, healthy meals, adequate sleep, meditation, yoga, mental health practices, drinking water, taking breaks, outdoor activities',
+    negative: 'Junk food, excessive alcohol, smoking, skipping meals, poor sleep, sedentary behavior, stress without coping mechanisms',
+  },
+  work: {
+    id: 'work',
+    label: 'Work',
+    description: 'Professional Productivity',
+    examples: 'work tasks, meetings, coding, studying, projects',
+    emoji: '💼',
+    color: { dark: '#f59e0b', light: '#b8860b' },
+    positive: 'Completing work tasks, attending meetings, coding/developing, studying for work/school, project progress, focused work sessions',
+    negative: 'Procrastinating on work, missing deadlines, unproductive work time',
+  },
+  consumption: {
+    id: 'consumption',
+    label: 'Consumption',
+    description: 'Passive Entertainment',
+    examples: 'TV, movies, social media, gaming, scrolling',
+    emoji: '📺',
+    color: { dark: '#ef4444', light: '#c0392b' },
+    positive: 'Never assign positive points to consumption (this is a passive category)',
+    negative: 'Watching TV/movies, social media scrolling, gaming (recreational, not educational), binge-watching content, excessive phone use',
+  },
+  other: {
+    id: 'other',
+    label: 'Other',
+    description: 'Miscellaneous Activities',
+    examples: 'family, friends, errands, finances and anything else',
+    emoji: '📝',
+    color: { dark: '#8b5cf6', light: '#7c3aed' },
+    positive: 'ONLY if there are genuinely no activities that fit the other categories (least preferred option)',
+    negative: '',
+  },
+};
+
+/**
+ * Points or counts per category
+ */
+export type CategoryCounts = Record<CategoryId, number>;
+
+/**
+ * A category activities are scored in: a built-in one, possibly reworded by
+ * the user, or one the user defined
+ */
+export interface ActivityCategory {
+  id: string;
+  label: string;
+  description: string;
+  emoji: string;
+  color: { dark: string; light: string };
+  positive: string;
+  negative: string;
+  builtIn: boolean;
+}
+
+/**
+ * Activity points per category ID; categories without points may be missing
+ */
+export type ActivityPoints = Record<string, number>;
+
+/**
+ * Categories of the retired log taxonomy (health, work, personal, family,
+ * social, finance, learning, other) and the category each now belongs to
+ */
+export const LEGACY_CATEGORIES: Record<string, CategoryId> = {
+  learning: 'growth',
+  personal: 'other',
+  family: 'other',
+  social: 'other',
+  finance: 'other',
+};
+
+export function emptyCategoryCounts(): CategoryCounts {
+  return { growth: 0, health: 0, work: 0, consumption: 0, other: 0 };
+}
+
+/**
+ * Built-in categories as activity categories, for users who haven't changed any
+ */
+export function defaultActivityCategories(): ActivityCategory[] {
+  return CATEGORY_IDS.map((id) => {
+    const { label, description, emoji, color, positive, negative } = CATEGORIES[id];
+    return { id, label, description, emoji, color, positive, negative, builtIn: true };
+  });
+}
+
+export function isCategoryId(value: unknown): value is CategoryId {
+  return typeof value === 'string' && (CATEGORY_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Category for a stored or model-provided value: case-insensitive, legacy
+ * categories mapped, anything else "other"
+ */
+export function toCategoryId(value: string | null | undefined): CategoryId {
+  const normalized = (value || '').trim().toLowerCase();
+  if (isCategoryId(normalized)) {
+    return normalized;
+  }
+  return LEGACY_CATEGORIES[normalized] ?? 'other';
+}
@@ -2,12 +2,24 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth0 } from '@auth0/auth0-react';
 import { motion, AnimatePresence, useMotionValue, useSpring, useTransform } from 'framer-motion';
-import { Mic, MicOff, Loader2, CheckCircle, XCircle, X, AlertCircle, Sparkles } from 'lucide-react';
-import { uploadAudioLog } from '../lib/api';
+import { Mic, MicOff, Loader2, CheckCircle, XCircle, X, AlertCircle, Sparkles, RotateCw, Keyboard } from 'lucide-react';
+import { uploadAudioLog, createTextLog } from '../lib/api';
 import { AxiosError } from 'axios';
 import { useTheme } from '../context/ThemeContext';
 
-type RecordingState = 'idle' | 'recording' | 'uploading' | 'success' | 'error' | 'title-input';
+type RecordingState = 'idle' | 'recording' | 'uploading' | 'success' | 'error' | 'title-input' | 'typing';
+
+interface InterruptedUpload {
+  blob: Blob;
+  title: string;
+  filename: string;
+}
+
+// Longest typed entry accepted by the API
+const MAX_ENTRY_LENGTH = 10000;
+
+// How often an interrupted upload is retried while the browser is online
+const RESUME_INTERVAL_MS = 15000;
 
 interface Toast {
   message: string;
@@ -56,6 +68,9 @@ export default function DailyLog() {
   const [backendAvailable, setBackendAvailable] = useState(true);
   const [pendingBlob, setPendingBlob] = useState<Blob | null>(null);
   const [title, setTitle] = useState('');
+  const [entryText, setEntryText] = useState('');
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [interruptedUpload, setInterruptedUpload] = useState<InterruptedUpload | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -114,8 +129,9 @@ export default function DailyLog() {
     audioContextRef.current = null;
   }, []);
 
-  const uploadAudio = async (blob: Blob, logTitle: string) => {
+  const uploadAudio = useCallback(async (blob: Blob, logTitle: string, filename: string) => {
     setState('uploading');
+    setUploadProgress(0);
     try {
       if (!isAuthenticated) throw new Error('Not authenticated');
       const token = await getAccessTokenSilently({
@@ -124,15 +140,14 @@ export default function DailyLog() {
           scope: 'openid profile email',
         }
       });
-      
-      const mimeType = blob.type || 'audio/webm';
-      const extension = mimeType.includes('webm') ? 'webm' : mimeType.includes('mp3') ? 'mp3' : 'webm';
-      const file = new File([blob], `log-${Date.now()}.${extension}`, { type: mimeType });
-      const formData = new FormData();
-      formData.append('audio', file);
-      formData.append('title', logTitle.trim());
 
-      await uploadAudioLog(formData, token);
+      // Resumes the previous session when this blob was interrupted before
+      await uploadAudioLog(blob, token, {
+        title: logTitle.trim(),
+        filename,
+        onProgress: ({ loaded, total }) => setUploadProgress(Math.round((loaded / total) * 100)),
+      });
+      setInterruptedUpload(null);
       setState('success');
       showToast('Log uploaded successfully!', 'success');
       setTimeout(() => navigate('/success'), 1500);
@@ -143,16 +158,87 @@ export default function DailyLog() {
       if (error instanceof AxiosError) {
         const status = error.response?.status;
         if (status === 401) message = 'Session expired. Please log in again.';
-        else if (status === 404 || !error.response) {
+        else if (!error.response || status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+          // Keep the recording; the upload resumes where it stopped
+          setInterruptedUpload({ blob, title: logTitle, filename });
+          showToast('Connection lost. Your upload will resume automatically.', 'warning');
+          return;
+        } else if (status === 404) {
           message = 'Server not available.';
           setBackendAvailable(false);
         }
       }
+      setInterruptedUpload(null);
       showToast(message, 'error');
       setTimeout(() => setState('idle'), 3000);
     }
+  }, [isAuthenticated, getAccessTokenSilently, navigate, showToast]);
+
+  const submitTextEntry = async () => {
+    if (!entryText.trim()) return;
+    setState('uploading');
+    setUploadProgress(100);
+    try {
+      if (!isAuthenticated) throw new Error('Not authenticated');
+      const token = await getAccessTokenSilently({
+        authorizationParams: {
+          audience: import.meta.env.VITE_AUTH0_AUDIENCE,
+          scope: 'openid profile email',
+        }
+      });
+
+      await createTextLog(token, entryText.trim(), title.trim() || undefined);
+      setEntryText('');
+      setState('success');
+      showToast('Entry saved successfully!', 'success');
+      setTimeout(() => navigate('/success'), 1500);
+    } catch (error) {
+      console.error('Text entry error:', error);
+      let message = 'Could not save your entry. Please try again.';
+      if (error instanceof AxiosError) {
+        const status = error.response?.status;
+        if (status === 401) message = 'Session expired. Please log in again.';
+        else if (!error.response) message = 'Server not available.';
+      }
+      showToast(message, 'error');
+      // Back to the editor so the text isn't lost
+      setState('typing');
+    }
   };
 
+  const openTextEntry = () => {
+    setTitle('');
+    setState('typing');
+  };
+
+  const handleTextCancel = () => {
+    setState('idle');
+  };
+
+  const resumeUpload = useCallback(() => {
+    if (interruptedUpload) {
+      uploadAudio(interruptedUpload.blob, interruptedUpload.title, interruptedUpload.filename);
+    }
+  }, [interruptedUpload, uploadAudio]);
+
+  const discardUpload = () => {
+    setInterruptedUpload(null);
+    setState('idle');
+  };
+
+  // Resume interrupted uploads when the connection returns, and periodically while online
+  useEffect(() => {
+    if (!interruptedUpload || state !== 'error') return;
+    window.addEventListener('online', resumeUpload);
+    const timer = window.setInterval(() => {
+      if (navigator.onLine) resumeUpload();
+    }, RESUME_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', resumeUpload);
+      clearInterval(timer);
+    };
+  }, [interruptedUpload, state, resumeUpload]);
+
   const updateAudioLevel = useCallback(() => {
     if (!analyserRef.current) return;
     const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
@@ -230,7 +316,9 @@ export default function DailyLog() {
 
   const handleTitleSubmit = () => {
     if (pendingBlob && title.trim()) {
-      uploadAudio(pendingBlob, title);
+      const mimeType = pendingBlob.type || 'audio/webm';
+      const extension = mimeType.includes('webm') ? 'webm' : mimeType.includes('mp3') ? 'mp3' : 'webm';
+      uploadAudio(pendingBlob, title, `log-${Date.now()}.${extension}`);
       setPendingBlob(null);
     }
   };
@@ -532,7 +620,7 @@ export default function DailyLog() {
                   >
                     <Loader2 className="w-8 h-8 animate-spin" style={{ color: isDark ? '#00d4ff' : '#8B6914' }} />
                     <span style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.5)' : 'rgba(61, 41, 20, 0.6)' }}>
-                      Processing your reflection...
+                      {uploadProgress < 100 ? `Uploading... ${uploadProgress}%` : 'Processing your reflection...'}
                     </span>
                   </motion.div>
                 )}
@@ -555,7 +643,27 @@ export default function DailyLog() {
                     className="flex flex-col items-center gap-3 text-red-400"
                   >
                     <XCircle className="w-10 h-10" />
-                    <span style={{ fontFamily: "'Inter', sans-serif" }}>Upload failed</span>
+                    <span style={{ fontFamily: "'Inter', sans-serif" }}>
+                      {interruptedUpload ? `Upload paused at ${uploadProgress}%` : 'Upload failed'}
+                    </span>
+                    {interruptedUpload && (
+                      <div className="flex items-center gap-4 text-sm" style={{ fontFamily: "'Inter', sans-serif" }}>
+                        <button
+                          onClick={resumeUpload}
+                          className="flex items-center gap-1"
+                          style={{ color: isDark ? '#00d4ff' : '#8B6914' }}
+                        >
+                          <RotateCw className="w-4 h-4" />
+                          Resume now
+                        </button>
+                        <button
+                          onClick={discardUpload}
+                          style={{ color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)' }}
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    )}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -688,6 +796,27 @@ export default function DailyLog() {
               </motion.button>
             </div>
 
+            {/* Type instead */}
+            {state === 'idle' && backendAvailable && (
+              <motion.button
+                onClick={openTextEntry}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="mt-8 inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm"
+                style={{
+                  fontFamily: "'Inter', sans-serif",
+                  background: isDark ? 'rgba(255, 255, 255, 0.03)' : 'rgba(255, 255, 255, 0.6)',
+                  border: isDark ? '1px solid rgba(255, 255, 255, 0.08)' : '1px solid rgba(0, 0, 0, 0.08)',
+                  color: isDark ? 'rgba(255, 255, 255, 0.6)' : 'rgba(61, 41, 20, 0.7)',
+                }}
+              >
+                <Keyboard className="w-4 h-4" />
+                Type instead
+              </motion.button>
+            )}
+
             {/* Enhanced Waveform */}
             {state === 'recording' && (
               <motion.div
@@ -1000,6 +1129,141 @@ export default function DailyLog() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Text Entry Modal */}
+      <AnimatePresence>
+        {state === 'typing' && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center px-4"
+            style={{ background: 'rgba(0, 0, 0, 0.8)', backdropFilter: 'blur(8px)' }}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+              className="w-full max-w-lg rounded-2xl p-6 relative overflow-hidden"
+              style={{
+                background: isDark 
+                  ? 'linear-gradient(135deg, rgba(0, 30, 40, 0.95) 0%, rgba(0, 20, 30, 0.98) 100%)'
+                  : 'linear-gradient(135deg, rgba(255, 255, 255, 0.98) 0%, rgba(245, 235, 220, 0.98) 100%)',
+                border: isDark ? '1px solid rgba(0, 212, 255, 0.2)' : '1px solid rgba(139, 105, 20, 0.2)',
+                boxShadow: isDark 
+                  ? '0 25px 50px -12px rgba(0, 0, 0, 0.8), 0 0 40px rgba(0, 212, 255, 0.1)'
+                  : '0 25px 50px -12px rgba(0, 0, 0, 0.3), 0 0 40px rgba(139, 105, 20, 0.1)',
+              }}
+            >
+              {/* Header */}
+              <div className="text-center mb-6">
+                <div
+                  className="w-14 h-14 rounded-full mx-auto mb-4 flex items-center justify-center"
+                  style={{
+                    background: isDark 
+                      ? 'linear-gradient(135deg, rgba(0, 212, 255, 0.2) 0%, rgba(0, 100, 120, 0.3) 100%)'
+                      : 'linear-gradient(135deg, rgba(139, 105, 20, 0.2) 0%, rgba(194, 152, 108, 0.3) 100%)',
+                    border: isDark ? '1px solid rgba(0, 212, 255, 0.3)' : '1px solid rgba(139, 105, 20, 0.3)',
+                  }}
+                >
+                  <Keyboard className="w-7 h-7" style={{ color: isDark ? '#00d4ff' : '#8B6914' }} />
+                </div>
+                <h2 
+                  className="text-xl font-semibold mb-2"
+                  style={{ fontFamily: "'Space Grotesk', sans-serif", color: isDark ? '#ffffff' : '#3D2914' }}
+                >
+                  Write Your Reflection
+                </h2>
+                <p 
+                  className="text-sm"
+                  style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255, 255, 255, 0.5)' : 'rgba(61, 41, 20, 0.6)' }}
+                >
+                  What did you do, feel and learn today?
+                </p>
+              </div>
+
+              {/* Inputs */}
+              <div className="mb-6 space-y-3">
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value.slice(0, 60))}
+                  placeholder="Title (optional)"
+                  className="w-full px-4 py-3 rounded-xl text-base outline-none transition-all duration-300"
+                  style={{
+                    fontFamily: "'Inter', sans-serif",
+                    background: isDark ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.03)',
+                    border: isDark ? '1px solid rgba(255, 255, 255, 0.1)' : '1px solid rgba(0, 0, 0, 0.1)',
+                    color: isDark ? '#ffffff' : '#3D2914',
+                  }}
+                />
+                <textarea
+                  value={entryText}
+                  onChange={(e) => setEntryText(e.target.value.slice(0, MAX_ENTRY_LENGTH))}
+                  placeholder="Today I..."
+                  autoFocus
+                  rows={8}
+                  className="w-full px-4 py-3 rounded-xl text-base outline-none resize-none transition-all duration-300"
+                  style={{
+                    fontFamily: "'Inter', sans-serif",
+                    background: isDark ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.03)',
+                    border: isDark ? '1px solid rgba(255, 255, 255, 0.1)' : '1px solid rgba(0, 0, 0, 0.1)',
+                    color: isDark ? '#ffffff' : '#3D2914',
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitTextEntry();
+                    if (e.key === 'Escape') handleTextCancel();
+                  }}
+                />
+                <p 
+                  className="text-xs text-right"
+                  style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255, 255, 255, 0.3)' : 'rgba(61, 41, 20, 0.4)' }}
+                >
+                  {entryText.length}/{MAX_ENTRY_LENGTH}
+                </p>
+              </div>
+
+              {/* Buttons */}
+              <div className="flex gap-3">
+                <motion.button
+                  onClick={handleTextCancel}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex-1 py-3 rounded-xl text-sm font-medium transition-colors"
+                  style={{
+                    fontFamily: "'Inter', sans-serif",
+                    background: isDark ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.05)',
+                    border: isDark ? '1px solid rgba(255, 255, 255, 0.1)' : '1px solid rgba(0, 0, 0, 0.1)',
+                    color: isDark ? 'rgba(255, 255, 255, 0.7)' : 'rgba(61, 41, 20, 0.7)',
+                  }}
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  onClick={submitTextEntry}
+                  disabled={!entryText.trim()}
+                  whileHover={{ scale: entryText.trim() ? 1.02 : 1 }}
+                  whileTap={{ scale: entryText.trim() ? 0.98 : 1 }}
+                  className="flex-1 py-3 rounded-xl text-sm font-medium transition-all disabled:opacity-40"
+                  style={{
+                    fontFamily: "'Inter', sans-serif",
+                    background: isDark 
+                      ? 'linear-gradient(135deg, #003040 0%, #006080 100%)'
+                      : 'linear-gradient(135deg, #C2986C 0%, #D4A574 100%)',
+                    color: '#ffffff',
+                    boxShadow: entryText.trim() 
+                      ? (isDark ? '0 0 20px rgba(0, 212, 255, 0.3)' : '0 0 20px rgba(139, 105, 20, 0.3)')
+                      : 'none',
+                  }}
+                >
+                  Save Entry
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { motion, useMotionValue, useSpring, useTransform } from 'framer-motion';
 import { Mic, BarChart3, List, MessageSquare, Sparkles, ArrowRight, Sun, Moon } from 'lucide-react';
 import { usePageTransition } from '../App';
 import { useTheme } from '../context/ThemeContext';
+import GoalsPanel from '../components/GoalsPanel';
 
 // Generate stars
 const generateStars = (count: number) => {
@@ -599,6 +600,9 @@ export default function Dashboard() {
           ))}
         </motion.div>
 
+        {/* Goals and their progress */}
+        <GoalsPanel isDark={isDark} />
+
         {/* Theme Toggle Slider */}
         <ThemeToggleSlider isDark={isDark} onToggle={toggleTheme} />
 
@@ -2,23 +2,65 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth0 } from '@auth0/auth0-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
-  Play, Pause, Trash2, Calendar, Clock,
-  MessageSquare, RefreshCw, ChevronLeft, ChevronRight, AlertTriangle
+  Play, Pause, Trash2, Calendar, Clock, Keyboard, Pencil, Check, X, Search, SlidersHorizontal,
+  MessageSquare, RefreshCw, ChevronLeft, ChevronRight, AlertTriangle, Captions
 } from 'lucide-react';
-import { getAudioLogs, deleteAudioLog } from '../lib/api';
+import {
+  getAudioLogs, getAudioLog, searchAudioLogs, updateAudioLog, getLogStatus, deleteAudioLog, getAudioPlaybackUrl,
+  getLogCaptions
+} from '../lib/api';
 import { useTheme } from '../context/ThemeContext';
+import { CATEGORIES, CATEGORY_IDS, toCategoryId } from '../lib/taxonomy';
+
+interface TranscriptWord {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+interface TranscriptSegment extends TranscriptWord {
+  words?: TranscriptWord[];
+}
 
 interface AudioLog {
   id: string;
-  transcript: string;
+  source?: 'audio' | 'text';
+  transcript?: string; // Missing while a chunked upload is being transcribed
+  segments?: TranscriptSegment[]; // Empty when the engine gave no timestamps or the transcript was edited
   title?: string;
   timestamp: string;
   duration?: number;
   audioUrl?: string;
   category?: string;
   sentiment?: string;
+  processingStatus?: 'pending' | 'transcribing' | 'categorizing' | 'tracked' | 'failed';
+  metadata?: {
+    storageKey?: string;
+    cloudinaryPublicId?: string;
+  };
+}
+
+interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];
+}
+
+interface SearchResult extends AudioLog {
+  score: number;
+  position: number; // Index in the newest-first list
+  snippets: SearchSnippet[];
+}
+
+interface SearchFilters {
+  category: string;
+  sentiment: string;
+  keyword: string;
+  startDate: string;
+  endDate: string;
 }
 
+const emptySearchFilters: SearchFilters = { category: '', sentiment: '', keyword: '', startDate: '', endDate: '' };
+
 interface PaginationInfo {
   page: number;
   limit: number;
@@ -26,10 +68,10 @@ interface PaginationInfo {
   totalPages: number;
 }
 
-const categoryEmojis: Record<string, string> = {
-  health: '💪', work: '💼', personal: '🏠', family: '👨‍👩‍👧',
-  social: '👥', finance: '💰', learning: '📚', other: '📝', uncategorized: '📋',
-};
+const MAX_TRANSCRIPT_LENGTH = 10000;
+const REANALYSIS_POLL_MS = 3000;
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_SEARCH_LENGTH = 2;
 
 const sentimentColors: Record<string, string> = {
   positive: 'text-emerald-400', negative: 'text-red-400',
@@ -197,6 +239,78 @@ function ThemePreloader({ isDark }: { isDark: boolean }) {
   );
 }
 
+// Search snippet with matched terms highlighted
+function HighlightedSnippet({ snippet, isDark }: { snippet: SearchSnippet; isDark: boolean }) {
+  const parts: { text: string; match: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of snippet.highlights) {
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), match: false });
+    parts.push({ text: snippet.text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < snippet.text.length) parts.push({ text: snippet.text.slice(cursor), match: false });
+
+  return (
+    <p className="text-sm leading-relaxed" style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.6)' : 'rgba(61, 41, 20, 0.7)' }}>
+      {parts.map((part, i) => part.match ? (
+        <mark
+          key={i}
+          className="rounded px-0.5"
+          style={{
+            background: isDark ? 'rgba(0, 212, 255, 0.2)' : 'rgba(139, 105, 20, 0.2)',
+            color: isDark ? '#00d4ff' : '#8B6914',
+          }}
+        >
+          {part.text}
+        </mark>
+      ) : (
+        <span key={i}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
+
+// Timestamped transcript: highlights the segment (and word) being played, seeks on click
+function TranscriptSegments({ segments, currentTime, isDark, onSeek }: {
+  segments: TranscriptSegment[];
+  currentTime: number | null; // null when this log isn't playing
+  isDark: boolean;
+  onSeek: (seconds: number) => void;
+}) {
+  const isCurrent = (item: TranscriptWord, next?: TranscriptWord) =>
+    currentTime !== null && currentTime >= item.start && currentTime < (next ? next.start : item.end);
+
+  return (
+    <p
+      className="mb-5 leading-relaxed"
+      style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.8)' }}
+    >
+      {segments.map((segment, i) => {
+        const active = isCurrent(segment, segments[i + 1]);
+        const words = segment.words || [];
+        return (
+          <span
+            key={i}
+            onClick={() => onSeek(segment.start)}
+            title="Play from here"
+            className="cursor-pointer rounded px-0.5 transition-colors"
+            style={active ? {
+              background: isDark ? 'rgba(0, 212, 255, 0.15)' : 'rgba(139, 105, 20, 0.15)',
+              color: isDark ? '#ffffff' : '#3D2914',
+            } : undefined}
+          >
+            {active && words.length ? words.map((word, j) => (
+              <span key={j} style={isCurrent(word, words[j + 1]) ? { color: isDark ? '#00d4ff' : '#8B6914' } : undefined}>
+                {word.text}{' '}
+              </span>
+            )) : `${segment.text} `}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
 // Delete Confirmation Modal Component
 function DeleteModal({ 
   isOpen, 
@@ -397,9 +511,24 @@ export default function LogsPage() {
   const [error, setError] = useState<string | null>(null);
   const [pagination, setPagination] = useState<PaginationInfo>({ page: 1, limit: 10, total: 0, totalPages: 0 });
   const [playingId, setPlayingId] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [logToDelete, setLogToDelete] = useState<AudioLog | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftTranscript, setDraftTranscript] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [reanalysingIds, setReanalysingIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(emptySearchFilters);
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   const fetchLogs = useCallback(async (page: number = 1) => {
@@ -427,17 +556,53 @@ export default function LogsPage() {
 
   useEffect(() => { fetchLogs(); }, [fetchLogs]);
 
-  const handlePlayPause = (log: AudioLog) => {
-    if (!log.audioUrl) return;
-    if (playingId === log.id) {
+  const hasAudio = (log: AudioLog) =>
+    log.source !== 'text' && Boolean(log.audioUrl || log.metadata?.storageKey || log.metadata?.cloudinaryPublicId);
+
+  const handlePlayPause = async (log: AudioLog, startAt?: number) => {
+    if (!hasAudio(log)) return;
+    if (playingId === log.id && startAt === undefined) {
       audioRef.current?.pause();
       setPlayingId(null);
-    } else {
-      if (audioRef.current) {
-        audioRef.current.src = log.audioUrl;
-        audioRef.current.play();
-        setPlayingId(log.id);
+      return;
+    }
+    if (!audioRef.current) return;
+    try {
+      if (playingId !== log.id) {
+        // Stored audio is private; fetch a short-lived signed URL for every play
+        const token = await getAccessTokenSilently({
+          authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE }
+        });
+        const response = await getAudioPlaybackUrl(token, log.id);
+        audioRef.current.src = response.data.data?.url || log.audioUrl || '';
+        setPlaybackTime(0);
+      }
+      if (startAt !== undefined) {
+        audioRef.current.currentTime = startAt;
+        setPlaybackTime(startAt);
       }
+      await audioRef.current.play();
+      setPlayingId(log.id);
+    } catch (err) {
+      console.error('Error playing audio:', err);
+      setPlayingId(null);
+    }
+  };
+
+  const downloadCaptions = async (log: AudioLog) => {
+    try {
+      const token = await getAccessTokenSilently({
+        authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE }
+      });
+      const response = await getLogCaptions(token, log.id, 'vtt');
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${log.title || `log-${log.id}`}.vtt`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading captions:', err);
     }
   };
 
@@ -472,6 +637,135 @@ export default function LogsPage() {
     }
   };
 
+  const startEdit = (log: AudioLog) => {
+    setEditingId(log.id);
+    setDraftTitle(log.title || '');
+    setDraftTranscript(log.transcript || '');
+    setEditError(null);
+  };
+
+  const cancelEdit = () => {
+    if (savingEdit) return;
+    setEditingId(null);
+    setEditError(null);
+  };
+
+  const saveEdit = async (log: AudioLog) => {
+    if (!draftTranscript.trim()) {
+      setEditError('Transcript cannot be empty.');
+      return;
+    }
+    setSavingEdit(true);
+    setEditError(null);
+    try {
+      const token = await getAccessTokenSilently({
+        authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE }
+      });
+      const response = await updateAudioLog(token, log.id, {
+        title: draftTitle.trim(),
+        transcript: draftTranscript.trim(),
+      });
+      const updated: AudioLog = response.data.data;
+      setLogs(prev => prev.map(l => l.id === log.id ? updated : l));
+      if (updated.processingStatus === 'pending') {
+        setReanalysingIds(prev => prev.includes(log.id) ? prev : [...prev, log.id]);
+      }
+      setEditingId(null);
+    } catch (err) {
+      console.error('Error updating log:', err);
+      setEditError('Failed to save changes.');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  // Edited transcripts are re-categorized in the background; refresh those logs once done
+  useEffect(() => {
+    if (reanalysingIds.length === 0) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const token = await getAccessTokenSilently({
+          authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE }
+        });
+        for (const logId of reanalysingIds) {
+          const status = await getLogStatus(token, logId);
+          const processingStatus = status.data.data?.processingStatus;
+          if (processingStatus !== 'tracked' && processingStatus !== 'failed') continue;
+
+          const response = await getAudioLog(token, logId);
+          setLogs(prev => prev.map(l => l.id === logId ? response.data.data : l));
+          setReanalysingIds(prev => prev.filter(id => id !== logId));
+        }
+      } catch (err) {
+        console.error('Error checking log status:', err);
+      }
+    }, REANALYSIS_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [reanalysingIds, getAccessTokenSilently]);
+
+  // Debounced full-text search
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < MIN_SEARCH_LENGTH) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const token = await getAccessTokenSilently({
+          authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE }
+        });
+        const filters = Object.fromEntries(
+          Object.entries(searchFilters).filter(([, value]) => value !== '')
+        );
+        const response = await searchAudioLogs(token, { q: query, limit: 10, ...filters });
+        if (cancelled) return;
+        setSearchResults(response.data.data || []);
+        setSearchTotal(response.data.meta?.total || 0);
+      } catch (err) {
+        console.error('Error searching logs:', err);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, searchFilters, getAccessTokenSilently]);
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  // Load the page the result lives on, then scroll to it
+  const jumpToLog = async (result: SearchResult) => {
+    clearSearch();
+    setHighlightedId(result.id);
+    if (!logs.some(log => log.id === result.id)) {
+      await fetchLogs(Math.floor(result.position / pagination.limit) + 1);
+    }
+    setPendingScrollId(result.id);
+  };
+
+  useEffect(() => {
+    if (!pendingScrollId) return;
+    const element = document.getElementById(`log-${pendingScrollId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setPendingScrollId(null);
+    const timeout = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [pendingScrollId, logs]);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
@@ -491,7 +785,12 @@ export default function LogsPage() {
 
   return (
     <div className="min-h-screen pb-12 transition-colors duration-500" style={{ background: isDark ? '#000000' : '#F5E6D3', color: isDark ? '#ffffff' : '#3D2914' }}>
-      <audio ref={audioRef} onEnded={() => setPlayingId(null)} className="hidden" />
+      <audio
+        ref={audioRef}
+        onEnded={() => setPlayingId(null)}
+        onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+        className="hidden"
+      />
 
       {/* Header */}
       <header 
@@ -540,6 +839,174 @@ export default function LogsPage() {
             <span className="hidden sm:inline text-sm">Refresh</span>
           </motion.button>
         </div>
+
+        {/* Search */}
+        <div className="max-w-4xl mx-auto mt-4 relative">
+          <div className="flex items-center gap-2">
+            <div
+              className="flex-1 flex items-center gap-2 px-4 py-2 rounded-xl"
+              style={{
+                background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+              }}
+            >
+              {searching
+                ? <RefreshCw className="w-4 h-4 animate-spin" style={{ color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.5)' }} />
+                : <Search className="w-4 h-4" style={{ color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.5)' }} />}
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') clearSearch(); }}
+                placeholder='Search your journal (use "quotes" for phrases)'
+                className="flex-1 bg-transparent outline-none text-sm"
+                style={{ fontFamily: "'Inter', sans-serif", color: isDark ? '#ffffff' : '#3D2914' }}
+              />
+              {searchQuery && (
+                <button onClick={clearSearch} aria-label="Clear search">
+                  <X className="w-4 h-4" style={{ color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.5)' }} />
+                </button>
+              )}
+            </div>
+            <motion.button
+              onClick={() => setShowFilters(!showFilters)}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-sm"
+              style={{
+                background: showFilters
+                  ? (isDark ? 'rgba(0, 212, 255, 0.15)' : 'rgba(139, 105, 20, 0.15)')
+                  : (isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)'),
+                border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)',
+                fontFamily: "'Inter', sans-serif",
+              }}
+              aria-label="Search filters"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              <span className="hidden sm:inline">Filters</span>
+            </motion.button>
+          </div>
+
+          {showFilters && (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mt-2 text-sm">
+              <select
+                value={searchFilters.category}
+                onChange={(e) => setSearchFilters({ ...searchFilters, category: e.target.value })}
+                className="px-3 py-2 rounded-xl outline-none"
+                style={{
+                  background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                  border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                  color: isDark ? 'rgba(255,255,255,0.8)' : '#3D2914',
+                  fontFamily: "'Inter', sans-serif",
+                  colorScheme: isDark ? 'dark' : 'light',
+                }}
+              >
+                <option value="">Any category</option>
+                {CATEGORY_IDS.map(category => (
+                  <option key={category} value={category}>{CATEGORIES[category].emoji} {CATEGORIES[category].label}</option>
+                ))}
+              </select>
+              <select
+                value={searchFilters.sentiment}
+                onChange={(e) => setSearchFilters({ ...searchFilters, sentiment: e.target.value })}
+                className="px-3 py-2 rounded-xl outline-none"
+                style={{
+                  background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                  border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                  color: isDark ? 'rgba(255,255,255,0.8)' : '#3D2914',
+                  fontFamily: "'Inter', sans-serif",
+                  colorScheme: isDark ? 'dark' : 'light',
+                }}
+              >
+                <option value="">Any sentiment</option>
+                {Object.keys(sentimentColors).map(sentiment => (
+                  <option key={sentiment} value={sentiment}>{sentiment}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={searchFilters.keyword}
+                onChange={(e) => setSearchFilters({ ...searchFilters, keyword: e.target.value })}
+                placeholder="Keyword"
+                className="px-3 py-2 rounded-xl outline-none"
+                style={{
+                  background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                  border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                  color: isDark ? 'rgba(255,255,255,0.8)' : '#3D2914',
+                  fontFamily: "'Inter', sans-serif",
+                  colorScheme: isDark ? 'dark' : 'light',
+                }}
+              />
+              <input
+                type="date"
+                value={searchFilters.startDate}
+                onChange={(e) => setSearchFilters({ ...searchFilters, startDate: e.target.value })}
+                aria-label="From date"
+                className="px-3 py-2 rounded-xl outline-none"
+                style={{
+                  background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                  border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                  color: isDark ? 'rgba(255,255,255,0.8)' : '#3D2914',
+                  fontFamily: "'Inter', sans-serif",
+                  colorScheme: isDark ? 'dark' : 'light',
+                }}
+              />
+              <input
+                type="date"
+                value={searchFilters.endDate}
+                onChange={(e) => setSearchFilters({ ...searchFilters, endDate: e.target.value })}
+                aria-label="To date"
+                className="px-3 py-2 rounded-xl outline-none"
+                style={{
+                  background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                  border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                  color: isDark ? 'rgba(255,255,255,0.8)' : '#3D2914',
+                  fontFamily: "'Inter', sans-serif",
+                  colorScheme: isDark ? 'dark' : 'light',
+                }}
+              />
+            </div>
+          )}
+
+          {/* Results */}
+          {searchResults && (
+            <div
+              className="absolute left-0 right-0 mt-2 rounded-2xl overflow-y-auto max-h-[60vh] z-40"
+              style={{
+                background: isDark ? 'rgba(10,10,10,0.97)' : 'rgba(250, 240, 228, 0.98)',
+                border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                boxShadow: '0 20px 40px rgba(0,0,0,0.3)',
+              }}
+            >
+              <p className="px-4 pt-3 pb-2 text-xs" style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)' }}>
+                {searchResults.length === 0
+                  ? 'No matching logs'
+                  : `Showing ${searchResults.length} of ${searchTotal} ${searchTotal === 1 ? 'match' : 'matches'}`}
+              </p>
+              {searchResults.map(result => (
+                <button
+                  key={result.id}
+                  onClick={() => jumpToLog(result)}
+                  className="w-full text-left px-4 py-3 transition-colors"
+                  style={{ borderTop: isDark ? '1px solid rgba(255,255,255,0.05)' : '1px solid rgba(0,0,0,0.05)' }}
+                >
+                  <div className="flex items-center justify-between gap-3 mb-1">
+                    <span className="font-medium truncate" style={{ fontFamily: "'Space Grotesk', sans-serif", color: isDark ? '#ffffff' : '#3D2914' }}>
+                      {result.title || 'Untitled log'}
+                    </span>
+                    <span className="text-xs shrink-0" style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)' }}>
+                      {formatDate(result.timestamp)}
+                    </span>
+                  </div>
+                  {result.snippets.map((snippet, i) => (
+                    <HighlightedSnippet key={i} snippet={snippet} isDark={isDark} />
+                  ))}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-8">
@@ -576,6 +1043,7 @@ export default function LogsPage() {
               {logs.map((log, index) => (
                 <motion.div
                   key={log.id}
+                  id={`log-${log.id}`}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -20 }}
@@ -585,11 +1053,29 @@ export default function LogsPage() {
                     background: isDark 
                       ? 'linear-gradient(135deg, rgba(255,255,255,0.02) 0%, rgba(255,255,255,0.005) 100%)'
                       : 'linear-gradient(135deg, rgba(255,255,255,0.8) 0%, rgba(255,255,255,0.6) 100%)',
-                    border: isDark ? '1px solid rgba(255,255,255,0.06)' : '1px solid rgba(0,0,0,0.08)',
+                    border: highlightedId === log.id
+                      ? (isDark ? '1px solid rgba(0, 212, 255, 0.5)' : '1px solid rgba(139, 105, 20, 0.5)')
+                      : (isDark ? '1px solid rgba(255,255,255,0.06)' : '1px solid rgba(0,0,0,0.08)'),
                   }}
                 >
                   {/* Title */}
-                  {log.title && (
+                  {editingId === log.id ? (
+                    <input
+                      type="text"
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      maxLength={100}
+                      placeholder="Title (optional)"
+                      disabled={savingEdit}
+                      className="w-full text-lg font-semibold mb-3 px-3 py-2 rounded-xl outline-none"
+                      style={{
+                        fontFamily: "'Space Grotesk', sans-serif",
+                        background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                        border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                        color: isDark ? '#ffffff' : '#3D2914',
+                      }}
+                    />
+                  ) : log.title && (
                     <h3 
                       className="text-lg font-semibold mb-3"
                       style={{ 
@@ -608,12 +1094,28 @@ export default function LogsPage() {
                         <Calendar className="w-4 h-4" />
                         {formatDate(log.timestamp)}
                       </span>
-                      <span className="flex items-center gap-1.5">
-                        <Clock className="w-4 h-4" />
-                        {formatDuration(log.duration)}
-                      </span>
+                      {log.source === 'text' ? (
+                        <span className="flex items-center gap-1.5">
+                          <Keyboard className="w-4 h-4" />
+                          Typed
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1.5">
+                          <Clock className="w-4 h-4" />
+                          {formatDuration(log.duration)}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
+                      {reanalysingIds.includes(log.id) && (
+                        <span 
+                          className="flex items-center gap-1.5 text-xs"
+                          style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)' }}
+                        >
+                          <RefreshCw className="w-3 h-3 animate-spin" />
+                          Re-analysing...
+                        </span>
+                      )}
                       {log.category && (
                         <span 
                           className="px-2.5 py-1 text-xs rounded-lg"
@@ -624,7 +1126,7 @@ export default function LogsPage() {
                             fontFamily: "'Inter', sans-serif",
                           }}
                         >
-                          {categoryEmojis[log.category] || '📝'} {log.category}
+                          {CATEGORIES[toCategoryId(log.category)].emoji} {CATEGORIES[toCategoryId(log.category)].label}
                         </span>
                       )}
                       {log.sentiment && (
@@ -636,55 +1138,162 @@ export default function LogsPage() {
                   </div>
 
                   {/* Transcript */}
-                  <p 
-                    className="mb-5 leading-relaxed"
-                    style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.8)' }}
-                  >
-                    {log.transcript}
-                  </p>
+                  {editingId === log.id ? (
+                    <div className="mb-5">
+                      <textarea
+                        value={draftTranscript}
+                        onChange={(e) => setDraftTranscript(e.target.value)}
+                        maxLength={MAX_TRANSCRIPT_LENGTH}
+                        rows={6}
+                        disabled={savingEdit}
+                        className="w-full px-3 py-2 rounded-xl leading-relaxed resize-y outline-none"
+                        style={{
+                          fontFamily: "'Inter', sans-serif",
+                          background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                          border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                          color: isDark ? 'rgba(255,255,255,0.8)' : 'rgba(61, 41, 20, 0.9)',
+                        }}
+                      />
+                      <div 
+                        className="flex items-center justify-between mt-1 text-xs"
+                        style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)' }}
+                      >
+                        <span style={{ color: editError ? '#f87171' : undefined }}>
+                          {editError || 'Saving an edited transcript re-runs categorization.'}
+                        </span>
+                        <span>{draftTranscript.length}/{MAX_TRANSCRIPT_LENGTH}</span>
+                      </div>
+                    </div>
+                  ) : hasAudio(log) && log.segments?.length ? (
+                    <TranscriptSegments
+                      segments={log.segments}
+                      currentTime={playingId === log.id ? playbackTime : null}
+                      isDark={isDark}
+                      onSeek={(seconds) => handlePlayPause(log, seconds)}
+                    />
+                  ) : (
+                    <p 
+                      className="mb-5 leading-relaxed"
+                      style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.8)' }}
+                    >
+                      {log.transcript || (log.processingStatus === 'failed' ? 'Transcription failed.' : 'Transcribing...')}
+                    </p>
+                  )}
 
                   {/* Actions */}
-                  <div className="flex items-center gap-3">
-                    {log.audioUrl && (
+                  {editingId === log.id ? (
+                    <div className="flex items-center gap-3">
                       <motion.button
-                        onClick={() => handlePlayPause(log)}
+                        onClick={() => saveEdit(log)}
+                        disabled={savingEdit}
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
-                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all"
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-50"
                         style={{
-                          background: playingId === log.id 
-                            ? (isDark ? 'rgba(0, 212, 255, 0.15)' : 'rgba(139, 105, 20, 0.15)')
-                            : (isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)'),
-                          border: `1px solid ${playingId === log.id 
-                            ? (isDark ? 'rgba(0, 212, 255, 0.3)' : 'rgba(139, 105, 20, 0.3)')
-                            : (isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.08)')}`,
-                          color: playingId === log.id 
-                            ? (isDark ? '#00d4ff' : '#8B6914')
-                            : (isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)'),
+                          background: isDark ? 'rgba(0, 212, 255, 0.15)' : 'rgba(139, 105, 20, 0.15)',
+                          border: `1px solid ${isDark ? 'rgba(0, 212, 255, 0.3)' : 'rgba(139, 105, 20, 0.3)'}`,
+                          color: isDark ? '#00d4ff' : '#8B6914',
                           fontFamily: "'Inter', sans-serif",
                         }}
                       >
-                        {playingId === log.id ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                        {playingId === log.id ? 'Pause' : 'Play'}
+                        {savingEdit ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        {savingEdit ? 'Saving...' : 'Save'}
                       </motion.button>
-                    )}
-                    <motion.button
-                      onClick={() => openDeleteModal(log)}
-                      disabled={deletingId === log.id}
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
-                      className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-50"
-                      style={{
-                        background: isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(180, 80, 60, 0.1)',
-                        border: isDark ? '1px solid rgba(239, 68, 68, 0.2)' : '1px solid rgba(180, 80, 60, 0.2)',
-                        color: isDark ? '#f87171' : '#B85450',
-                        fontFamily: "'Inter', sans-serif",
-                      }}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      Delete
-                    </motion.button>
-                  </div>
+                      <motion.button
+                        onClick={cancelEdit}
+                        disabled={savingEdit}
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-50"
+                        style={{
+                          background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                          border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                          color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)',
+                          fontFamily: "'Inter', sans-serif",
+                        }}
+                      >
+                        <X className="w-4 h-4" />
+                        Cancel
+                      </motion.button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      {hasAudio(log) && (
+                        <motion.button
+                          onClick={() => handlePlayPause(log)}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all"
+                          style={{
+                            background: playingId === log.id 
+                              ? (isDark ? 'rgba(0, 212, 255, 0.15)' : 'rgba(139, 105, 20, 0.15)')
+                              : (isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)'),
+                            border: `1px solid ${playingId === log.id 
+                              ? (isDark ? 'rgba(0, 212, 255, 0.3)' : 'rgba(139, 105, 20, 0.3)')
+                              : (isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.08)')}`,
+                            color: playingId === log.id 
+                              ? (isDark ? '#00d4ff' : '#8B6914')
+                              : (isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)'),
+                            fontFamily: "'Inter', sans-serif",
+                          }}
+                        >
+                          {playingId === log.id ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          {playingId === log.id ? 'Pause' : 'Play'}
+                        </motion.button>
+                      )}
+                      {log.segments && log.segments.length > 0 && (
+                        <motion.button
+                          onClick={() => downloadCaptions(log)}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all"
+                          style={{
+                            background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                            border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                            color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)',
+                            fontFamily: "'Inter', sans-serif",
+                          }}
+                        >
+                          <Captions className="w-4 h-4" />
+                          Captions
+                        </motion.button>
+                      )}
+                      {log.transcript && (
+                        <motion.button
+                          onClick={() => startEdit(log)}
+                          disabled={editingId !== null || reanalysingIds.includes(log.id)}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-50"
+                          style={{
+                            background: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(255,255,255,0.6)',
+                            border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+                            color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61, 41, 20, 0.7)',
+                            fontFamily: "'Inter', sans-serif",
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                          Edit
+                        </motion.button>
+                      )}
+                      <motion.button
+                        onClick={() => openDeleteModal(log)}
+                        disabled={deletingId === log.id}
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-50"
+                        style={{
+                          background: isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(180, 80, 60, 0.1)',
+                          border: isDark ? '1px solid rgba(239, 68, 68, 0.2)' : '1px solid rgba(180, 80, 60, 0.2)',
+                          color: isDark ? '#f87171' : '#B85450',
+                          fontFamily: "'Inter', sans-serif",
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </motion.button>
+                    </div>
+                  )}
                 </motion.div>
               ))}
             </div>
@@ -1,21 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth0 } from '@auth0/auth0-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Loader2, RefreshCw, TrendingUp, TrendingDown, Minus,
   Sparkles, Brain, Heart, Briefcase, Tv, MoreHorizontal,
-  ChevronDown, ChevronUp
+  ChevronDown, ChevronUp, Plus, X, ArrowUpDown, Activity
 } from 'lucide-react';
-import { getActivitySummary, generateActivityReview } from '../lib/api';
+import type { AxiosResponse } from 'axios';
+import {
+  getActivitySummary, getActivityHistory, generateActivityReview,
+  addClassificationDetail, updateClassificationDetail, removeClassificationDetail,
+} from '../lib/api';
 import { useTheme } from '../context/ThemeContext';
-
-interface ActivityCounts {
-  growth: number;
-  health: number;
-  work: number;
-  consumption: number;
-  other: number;
-}
+import { defaultActivityCategories, isCategoryId, toCategoryId } from '../lib/taxonomy';
+import type { ActivityCategory, ActivityPoints, CategoryId } from '../lib/taxonomy';
 
 interface ExtractedActivity {
   activity: string;
@@ -23,82 +21,119 @@ interface ExtractedActivity {
 }
 
 interface ClassificationDetail {
+  id?: string;
   activity: string;
   category: string;
   points: number;
+  weight?: number;              // Duration and intensity factor of the points
   reasoning: string;
-}
-
-interface CategoryPoints {
-  growth: number;
-  health: number;
-  work: number;
-  consumption: number;
-  other: number;
+  corrected?: boolean;
 }
 
 interface RecentLog {
+  logId?: string;
   title?: string;
   timestamp: string;
   extractedActivities: ExtractedActivity[];
   classificationDetails: ClassificationDetail[];
-  categoryPoints: CategoryPoints;
+  categoryPoints: ActivityPoints;
+  correctedAt?: string;
+}
+
+/**
+ * A log's classification after a correction, and the new activity counts
+ */
+interface CorrectionResult {
+  logId: string;
+  classificationDetails: ClassificationDetail[];
+  categoryPoints: ActivityPoints;
+  counts: ActivityPoints;
+}
+
+/**
+ * Sends a correction with a fresh token
+ */
+type CorrectionRequest = (token: string) => Promise<AxiosResponse>;
+
+interface ActivityWindow {
+  logs: number;
+  days: number;
+  halfLifeDays: number;
 }
 
 interface ActivitySummaryData {
-  counts: ActivityCounts;
+  categories?: ActivityCategory[];
+  counts: ActivityPoints;
+  window?: ActivityWindow;
   recentLogs: RecentLog[];
   review: string;
   totalLogs: number;
 }
 
-const categoryConfig: Record<string, { 
-  icon: React.ElementType; 
-  label: string; 
-  colorDark: string; 
+/**
+ * Activity counts at the end of a day
+ */
+interface ActivitySnapshot {
+  date: string;
+  counts: ActivityPoints;
+  logs: number;
+}
+
+/**
+ * Days of momentum shown on the chart
+ */
+const HISTORY_DAYS = 30;
+
+/**
+ * Weighted and decayed points, signed and rounded for display
+ */
+const formatPoints = (points: number): string => {
+  const rounded = Math.round(points * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+const categoryIcons: Record<CategoryId, React.ElementType> = {
+  growth: Brain,
+  health: Heart,
+  work: Briefcase,
+  consumption: Tv,
+  other: MoreHorizontal,
+};
+
+interface CategoryConfig {
+  icon?: React.ElementType;     // Built-in categories; the user's own show their emoji
+  emoji: string;
+  label: string;
+  colorDark: string;
   colorLight: string;
   description: string;
-}> = {
-  growth: { 
-    icon: Brain, 
-    label: 'Growth', 
-    colorDark: '#00d4ff', 
-    colorLight: '#8B6914',
-    description: 'Learning & Development'
-  },
-  health: { 
-    icon: Heart, 
-    label: 'Health', 
-    colorDark: '#10b981', 
-    colorLight: '#2d8a5e',
-    description: 'Physical & Mental Wellness'
-  },
-  work: { 
-    icon: Briefcase, 
-    label: 'Work', 
-    colorDark: '#f59e0b', 
-    colorLight: '#b8860b',
-    description: 'Professional Productivity'
-  },
-  consumption: { 
-    icon: Tv, 
-    label: 'Consumption', 
-    colorDark: '#ef4444', 
-    colorLight: '#c0392b',
-    description: 'Passive Entertainment'
-  },
-  other: { 
-    icon: MoreHorizontal, 
-    label: 'Other', 
-    colorDark: '#8b5cf6', 
-    colorLight: '#7c3aed',
-    description: 'Miscellaneous Activities'
-  },
+}
+
+const toCategoryConfig = (category: ActivityCategory): CategoryConfig => ({
+  icon: isCategoryId(category.id) ? categoryIcons[category.id] : undefined,
+  emoji: category.emoji,
+  label: category.label,
+  colorDark: category.color.dark,
+  colorLight: category.color.light,
+  description: category.description,
+});
+
+const otherConfig = toCategoryConfig(defaultActivityCategories().find((category) => category.id === 'other')!);
+
+/**
+ * ID of a classification's category among the user's: retired and deleted
+ * categories count as their built-in replacement, or Other
+ */
+const resolveCategory = (configs: Record<string, CategoryConfig>, category: string): string => {
+  const id = category.toLowerCase();
+  return configs[id] ? id : toCategoryId(id);
 };
 
+const configOf = (configs: Record<string, CategoryConfig>, category: string): CategoryConfig =>
+  configs[resolveCategory(configs, category)] ?? otherConfig;
+
 
-function CategoryCard({ category, count, isDark }: { category: string; count: number; isDark: boolean }) {
-  const config = categoryConfig[category];
+function CategoryCard({ config, count, isDark }: { config: CategoryConfig; count: number; isDark: boolean }) {
   const Icon = config.icon;
   const color = isDark ? config.colorDark : config.colorLight;
   
@@ -132,7 +167,7 @@ function CategoryCard({ category, count, isDark }: { category: string; count: nu
             className="w-10 h-10 rounded-xl flex items-center justify-center"
             style={{ background: `${color}20`, border: `1px solid ${color}40` }}
           >
-            <Icon className="w-5 h-5" style={{ color }} />
+            {Icon ? <Icon className="w-5 h-5" style={{ color }} /> : <span className="text-lg leading-none">{config.emoji}</span>}
           </div>
           <div>
             <p className="font-semibold" style={{ fontFamily: "'Space Grotesk', sans-serif", color: isDark ? '#fff' : '#3D2914' }}>
@@ -148,7 +183,7 @@ function CategoryCard({ category, count, isDark }: { category: string; count: nu
             className="text-3xl font-bold"
             style={{ fontFamily: "'Space Grotesk', sans-serif", color: count === 0 ? (isDark ? 'rgba(255,255,255,0.3)' : 'rgba(61,41,20,0.3)') : color }}
           >
-            {count > 0 ? `+${count}` : count}
+            {formatPoints(count)}
           </span>
           <span style={{ color: count === 0 ? (isDark ? 'rgba(255,255,255,0.3)' : 'rgba(61,41,20,0.3)') : color }}>
             {getTrendIcon()}
@@ -159,19 +194,125 @@ function CategoryCard({ category, count, isDark }: { category: string; count: nu
   );
 }
 
-function RecentActivityLog({ log, isDark, index }: { log: RecentLog; isDark: boolean; index: number }) {
+/**
+ * Counts per category at the end of each day, one line per category that moved
+ */
+function MomentumChart({ snapshots, categories, configs, isDark }: {
+  snapshots: ActivitySnapshot[];
+  categories: ActivityCategory[];
+  configs: Record<string, CategoryConfig>;
+  isDark: boolean;
+}) {
+  const width = 600;
+  const height = 180;
+  const padding = 8;
+
+  const series = categories
+    .map((category) => ({ category, values: snapshots.map((snapshot) => snapshot.counts[category.id] || 0) }))
+    .filter(({ values }) => values.some((value) => value !== 0));
+
+  const values = series.flatMap((line) => line.values);
+  const max = Math.max(1, ...values);
+  const min = Math.min(-1, ...values);
+  const x = (index: number) => padding + (index / Math.max(1, snapshots.length - 1)) * (width - padding * 2);
+  const y = (value: number) => padding + ((max - value) / (max - min)) * (height - padding * 2);
+
+  const mutedColor = isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61,41,20,0.5)';
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <div className="rounded-2xl p-5"
+      style={{
+        background: isDark ? 'rgba(255,255,255,0.02)' : 'rgba(255,255,255,0.6)',
+        border: isDark ? '1px solid rgba(255,255,255,0.06)' : '1px solid rgba(0,0,0,0.08)',
+      }}>
+      {series.length === 0 ? (
+        <p className="text-sm text-center py-8" style={{ fontFamily: "'Inter', sans-serif", color: mutedColor }}>
+          Your momentum will show here once you record a few reflections.
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-44" preserveAspectRatio="none" role="img" aria-label="Momentum per category">
+            <line x1={padding} x2={width - padding} y1={y(0)} y2={y(0)}
+              stroke={isDark ? 'rgba(255,255,255,0.15)' : 'rgba(61,41,20,0.2)'} strokeDasharray="4 4" />
+            {series.map(({ category, values: line }) => {
+              const config = configOf(configs, category.id);
+              return (
+                <polyline key={category.id} fill="none" strokeWidth={2} strokeLinejoin="round" vectorEffect="non-scaling-stroke"
+                  stroke={isDark ? config.colorDark : config.colorLight}
+                  points={line.map((value, index) => `${x(index)},${y(value)}`).join(' ')} />
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-xs mt-1" style={{ fontFamily: "'Inter', sans-serif", color: mutedColor }}>
+            <span>{formatDate(snapshots[0].date)}</span>
+            <span>Today</span>
+          </div>
+          <div className="flex flex-wrap gap-3 mt-3">
+            {series.map(({ category, values: line }) => {
+              const config = configOf(configs, category.id);
+              const color = isDark ? config.colorDark : config.colorLight;
+              return (
+                <span key={category.id} className="flex items-center gap-1.5 text-xs" style={{ fontFamily: "'Inter', sans-serif", color: mutedColor }}>
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ background: color }} />
+                  {config.label} {formatPoints(line[line.length - 1] ?? 0)}
+                </span>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function RecentActivityLog({ log, categories, configs, isDark, index, onCorrect }: {
+  log: RecentLog;
+  categories: ActivityCategory[];
+  configs: Record<string, CategoryConfig>;
+  isDark: boolean;
+  index: number;
+  onCorrect: (request: CorrectionRequest) => Promise<void>;
+}) {
   const [expanded, setExpanded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newActivity, setNewActivity] = useState('');
+  const [newCategory, setNewCategory] = useState(categories[0]?.id ?? 'other');
+  const [newPoints, setNewPoints] = useState<1 | -1>(1);
+  const logId = log.logId;
 
-  // Calculate total points for preview badges
-  const pointsSummary = log.classificationDetails.reduce((acc, detail) => {
-    const cat = detail.category.toLowerCase();
-    if (cat in acc) {
-      acc[cat as keyof typeof acc] += detail.points;
+  const correct = async (request: CorrectionRequest) => {
+    setSaving(true);
+    try {
+      await onCorrect(request);
+    } finally {
+      setSaving(false);
     }
+  };
+
+  const handleAdd = async () => {
+    if (!logId || !newActivity.trim()) return;
+    await correct((token) => addClassificationDetail(token, logId, { activity: newActivity.trim(), category: newCategory, points: newPoints }));
+    setNewActivity('');
+  };
+
+  const controlStyle = {
+    background: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.04)',
+    border: isDark ? '1px solid rgba(255,255,255,0.08)' : '1px solid rgba(0,0,0,0.08)',
+    color: isDark ? 'rgba(255,255,255,0.7)' : 'rgba(61,41,20,0.8)',
+    fontFamily: "'Inter', sans-serif",
+  };
+
+  // Calculate total points for preview badges
+  const pointsSummary = log.classificationDetails.reduce<ActivityPoints>((acc, detail) => {
+    const category = resolveCategory(configs, detail.category);
+    acc[category] = (acc[category] || 0) + detail.points;
     return acc;
-  }, { growth: 0, health: 0, work: 0, consumption: 0, other: 0 });
+  }, {});
 
-  const nonZeroCategories = Object.entries(pointsSummary)
+  const nonZeroCategories = categories
+    .map((category) => [category.id, pointsSummary[category.id] || 0] as const)
     .filter(([, points]) => points !== 0)
     .slice(0, 3);
 
@@ -198,7 +339,7 @@ function RecentActivityLog({ log, isDark, index }: { log: RecentLog; isDark: boo
         <div className="flex items-center gap-2">
           <div className="flex gap-1">
             {nonZeroCategories.map(([category, points], i) => {
-              const config = categoryConfig[category];
+              const config = configOf(configs, category);
               const color = isDark ? config.colorDark : config.colorLight;
               return (
                 <span key={i} className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold"
@@ -245,16 +386,39 @@ function RecentActivityLog({ log, isDark, index }: { log: RecentLog; isDark: boo
                   </p>
                   <div className="space-y-2">
                     {log.classificationDetails.map((detail, i) => {
-                      const config = categoryConfig[detail.category.toLowerCase()] || categoryConfig.other;
+                      const config = configOf(configs, detail.category);
                       const color = isDark ? config.colorDark : config.colorLight;
+                      const detailId = detail.id;
                       return (
-                        <div key={i} className="flex items-start gap-2 text-sm">
+                        <div key={detailId ?? i} className="flex items-start gap-2 text-sm">
                           <span className="px-2 py-0.5 rounded text-xs font-medium shrink-0" style={{ background: `${color}20`, color }}>
-                            {detail.points > 0 ? '+1' : '-1'} {config.label}
+                            {formatPoints(detail.points * (detail.weight ?? 1))} {config.label}
                           </span>
-                          <span style={{ color: isDark ? 'rgba(255,255,255,0.6)' : 'rgba(61,41,20,0.7)', fontFamily: "'Inter', sans-serif" }}>
+                          <span className="flex-1" style={{ color: isDark ? 'rgba(255,255,255,0.6)' : 'rgba(61,41,20,0.7)', fontFamily: "'Inter', sans-serif" }}>
                             {detail.reasoning}
+                            {detail.corrected && <span style={{ color: isDark ? 'rgba(255,255,255,0.35)' : 'rgba(61,41,20,0.45)' }}> · corrected</span>}
                           </span>
+                          {logId && detailId && (
+                            <div className="flex items-center gap-1 shrink-0">
+                              <select value={resolveCategory(configs, detail.category)} disabled={saving} aria-label="Category"
+                                onChange={(e) => correct((token) => updateClassificationDetail(token, logId, detailId, { category: e.target.value }))}
+                                className="text-xs rounded px-1 py-0.5 disabled:opacity-50" style={controlStyle}>
+                                {categories.map((category) => (
+                                  <option key={category.id} value={category.id}>{category.label}</option>
+                                ))}
+                              </select>
+                              <button disabled={saving} title={detail.points > 0 ? 'Make it -1' : 'Make it +1'}
+                                onClick={() => correct((token) => updateClassificationDetail(token, logId, detailId, { points: detail.points > 0 ? -1 : 1 }))}
+                                className="p-1 rounded disabled:opacity-50" style={controlStyle}>
+                                <ArrowUpDown className="w-3 h-3" />
+                              </button>
+                              <button disabled={saving} title="Remove"
+                                onClick={() => correct((token) => removeClassificationDetail(token, logId, detailId))}
+                                className="p-1 rounded disabled:opacity-50" style={controlStyle}>
+                                <X className="w-3 h-3" />
+                              </button>
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -262,16 +426,39 @@ function RecentActivityLog({ log, isDark, index }: { log: RecentLog; isDark: boo
                 </div>
               )}
 
+              {/* Add a missed classification */}
+              {logId && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <input value={newActivity} onChange={(e) => setNewActivity(e.target.value)} maxLength={200}
+                    placeholder="Missed something? e.g. walked the dog"
+                    className="flex-1 min-w-[10rem] rounded px-2 py-1 outline-none" style={controlStyle} />
+                  <select value={newCategory} onChange={(e) => setNewCategory(e.target.value)} aria-label="Category"
+                    className="rounded px-1 py-1" style={controlStyle}>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>{category.label}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => setNewPoints(newPoints > 0 ? -1 : 1)} className="rounded px-2 py-1 font-medium" style={controlStyle}>
+                    {newPoints > 0 ? '+1' : '-1'}
+                  </button>
+                  <button onClick={handleAdd} disabled={saving || !newActivity.trim()}
+                    className="flex items-center gap-1 rounded px-2 py-1 disabled:opacity-50" style={controlStyle}>
+                    <Plus className="w-3 h-3" /> Add
+                  </button>
+                </div>
+              )}
+
               {/* Log Points Summary */}
               {log.categoryPoints && (
                 <div className="flex flex-wrap gap-2 pt-2" style={{ borderTop: isDark ? '1px solid rgba(255,255,255,0.03)' : '1px solid rgba(0,0,0,0.03)' }}>
-                  {Object.entries(log.categoryPoints).map(([category, points]) => {
+                  {categories.map(({ id }) => {
+                    const points = log.categoryPoints[id] || 0;
                     if (points === 0) return null;
-                    const config = categoryConfig[category];
+                    const config = configOf(configs, id);
                     const color = isDark ? config.colorDark : config.colorLight;
                     return (
-                      <span key={category} className="text-xs px-2 py-1 rounded-full" style={{ background: `${color}15`, color, fontFamily: "'Inter', sans-serif" }}>
-                        {config.label}: {points > 0 ? `+${points}` : points}
+                      <span key={id} className="text-xs px-2 py-1 rounded-full" style={{ background: `${color}15`, color, fontFamily: "'Inter', sans-serif" }}>
+                        {config.label}: {formatPoints(points)}
                       </span>
                     );
                   })}
@@ -313,15 +500,34 @@ export default function SummaryPage() {
   const { getAccessTokenSilently } = useAuth0();
   const { isDark, isLoaded: themeLoaded } = useTheme();
   const [data, setData] = useState<ActivitySummaryData | null>(null);
+  const [history, setHistory] = useState<ActivitySnapshot[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // The user's categories; older servers only know the built-in ones
+  const categories = useMemo(() => data?.categories ?? defaultActivityCategories(), [data?.categories]);
+  const configs = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, toCategoryConfig(category)])),
+    [categories]
+  );
+
+  // The momentum chart is optional; older servers have no history
+  const fetchHistory = useCallback(async (token: string) => {
+    try {
+      const response = await getActivityHistory(token, HISTORY_DAYS);
+      setHistory((response.data?.data || response.data)?.snapshots ?? []);
+    } catch (err) {
+      console.error('Error fetching activity history:', err);
+    }
+  }, []);
+
   const fetchData = useCallback(async () => {
     try {
       const token = await getAccessTokenSilently({ authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE } });
       const response = await getActivitySummary(token);
       setData(response.data?.data || response.data);
+      await fetchHistory(token);
       setError(null);
     } catch (err) {
       console.error('Error fetching activity summary:', err);
@@ -329,7 +535,7 @@ export default function SummaryPage() {
     } finally {
       setLoading(false);
     }
-  }, [getAccessTokenSilently]);
+  }, [getAccessTokenSilently, fetchHistory]);
 
   const handleRefreshReview = async () => {
     setRefreshing(true);
@@ -344,12 +550,31 @@ export default function SummaryPage() {
     }
   };
 
+  // Corrections update the log and the counts in place; they also teach the AI for later logs
+  const handleCorrection = useCallback(async (request: CorrectionRequest) => {
+    try {
+      const token = await getAccessTokenSilently({ authorizationParams: { audience: import.meta.env.VITE_AUTH0_AUDIENCE } });
+      const response = await request(token);
+      const result: CorrectionResult = response.data?.data || response.data;
+      setData((current) => current && {
+        ...current,
+        counts: result.counts,
+        recentLogs: current.recentLogs.map((log) => log.logId === result.logId
+          ? { ...log, classificationDetails: result.classificationDetails, categoryPoints: result.categoryPoints, correctedAt: new Date().toISOString() }
+          : log),
+      });
+      setError(null);
+      await fetchHistory(token);
+    } catch (err) {
+      console.error('Error saving correction:', err);
+      setError('Unable to save your correction.');
+    }
+  }, [getAccessTokenSilently, fetchHistory]);
+
   useEffect(() => { fetchData(); }, [fetchData]);
 
   if (!themeLoaded || loading) return <SummaryPreloader isDark={isDark} />;
 
-  const categories = ['growth', 'health', 'work', 'consumption', 'other'];
-
   return (
     <div className="min-h-screen pb-12 transition-colors duration-500" style={{ background: isDark ? '#000000' : '#F5E6D3', color: isDark ? '#ffffff' : '#3D2914' }}>
       <header className="sticky top-16 z-30 px-4 py-4"
@@ -361,7 +586,7 @@ export default function SummaryPage() {
               Activity Summary
             </h1>
             <p style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61, 41, 20, 0.6)', fontSize: '0.875rem' }}>
-              Based on your last {data?.totalLogs || 0} reflections
+              Based on your last {data?.totalLogs || 0} reflections{data?.window?.halfLifeDays ? ', recent ones counting most' : ''}
             </p>
           </div>
           <motion.button onClick={fetchData} disabled={loading} whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}
@@ -382,12 +607,25 @@ export default function SummaryPage() {
 
         <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
           {categories.map((category, i) => (
-            <motion.div key={category} transition={{ delay: i * 0.1 }}>
-              <CategoryCard category={category} count={data?.counts[category as keyof ActivityCounts] || 0} isDark={isDark} />
+            <motion.div key={category.id} transition={{ delay: i * 0.1 }}>
+              <CategoryCard config={configs[category.id]} count={data?.counts[category.id] || 0} isDark={isDark} />
             </motion.div>
           ))}
         </motion.div>
 
+        {history.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2" style={{ fontFamily: "'Space Grotesk', sans-serif" }}>
+              <Activity className="w-5 h-5" style={{ color: isDark ? '#00d4ff' : '#8B6914' }} />
+              Momentum
+              <span className="text-xs font-normal" style={{ fontFamily: "'Inter', sans-serif", color: isDark ? 'rgba(255,255,255,0.4)' : 'rgba(61,41,20,0.5)' }}>
+                last {history.length} days
+              </span>
+            </h2>
+            <MomentumChart snapshots={history} categories={categories} configs={configs} isDark={isDark} />
+          </motion.div>
+        )}
+
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 }} className="rounded-2xl p-6"
           style={{ background: isDark ? 'linear-gradient(135deg, rgba(0, 212, 255, 0.05) 0%, rgba(0, 60, 80, 0.08) 100%)' : 'linear-gradient(135deg, rgba(139, 105, 20, 0.08) 0%, rgba(194, 152, 108, 0.1) 100%)', border: isDark ? '1px solid rgba(0, 212, 255, 0.15)' : '1px solid rgba(139, 105, 20, 0.2)' }}>
           <div className="flex items-center justify-between mb-4">
@@ -419,7 +657,8 @@ export default function SummaryPage() {
             </h2>
             <div className="space-y-3">
               {data.recentLogs.slice().reverse().map((log, index) => (
-                <RecentActivityLog key={index} log={log} isDark={isDark} index={index} />
+                <RecentActivityLog key={log.logId ?? index} log={log} categories={categories} configs={configs}
+                  isDark={isDark} index={index} onCorrect={handleCorrection} />
               ))}
             </div>
           </motion.div>